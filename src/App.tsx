@@ -7,7 +7,7 @@ import AppLoader from './components/AppLoader';
 
 // Lazy load features for performance optimization
 const LandingPage = lazy(() => import('./features/landing/EnhancedLandingPage'));
-const JsonViewer = lazy(() => import('./features/json-viewer/JsonViewer'));
+const JsonViewerWorkspace = lazy(() => import('./features/json-viewer/JsonViewerWorkspace'));
 const DiffChecker = lazy(() => import('./features/diff-checker/DiffChecker'));
 const JsonExcelConverter = lazy(() => import('./features/converters/JsonExcelConverter'));
 const JsonCsvConverter = lazy(() => import('./features/converters/JsonCsvConverter'));
@@ -35,7 +35,7 @@ const App: React.FC = () => {
             <Route path={ROUTES.LANDING} element={<LandingPage />} />
             <Route path={ROUTES.APP} element={<Layout />}>
               <Route index element={<Navigate to="json-viewer" replace />} />
-              <Route path="json-viewer" element={<JsonViewer />} />
+              <Route path="json-viewer" element={<JsonViewerWorkspace />} />
               <Route path="diff-checker" element={<DiffChecker />} />
               <Route path="json-excel" element={<JsonExcelConverter />} />
               <Route path="json-csv" element={<JsonCsvConverter />} />
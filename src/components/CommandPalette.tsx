@@ -1,12 +1,16 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import {
+    ArrowDownAZ,
     FileJson,
     FileSpreadsheet,
     FileText,
     Code,
     GitCompare,
+    Hash,
     Home,
+    Minimize2,
+    Wand2,
 } from 'lucide-react';
 import {
     CommandDialog,
@@ -17,6 +21,7 @@ import {
     CommandList,
     CommandSeparator,
 } from '@/components/ui/command';
+import { runJsonViewerCommand } from '@/utils/jsonViewerCommands';
 
 interface CommandPaletteProps {
     open: boolean;
@@ -26,6 +31,8 @@ interface CommandPaletteProps {
 
 export function CommandPalette({ open, onOpenChange, beforeNavigate }: CommandPaletteProps) {
     const navigate = useNavigate();
+    const location = useLocation();
+    const isJsonViewer = location.pathname === '/app/json-viewer';
 
     const runCommand = React.useCallback((path: string, command: () => void) => {
         if (beforeNavigate && !beforeNavigate(path)) {
@@ -41,6 +48,29 @@ export function CommandPalette({ open, onOpenChange, beforeNavigate }: CommandPa
             <CommandInput placeholder="Type a command or search..." />
             <CommandList>
                 <CommandEmpty>No results found.</CommandEmpty>
+                {isJsonViewer && (
+                    <>
+                        <CommandGroup heading="JSON Viewer">
+                            <CommandItem onSelect={() => runCommand(location.pathname, () => runJsonViewerCommand('format'))}>
+                                <Wand2 className="mr-2 h-4 w-4" />
+                                <span>Format JSON</span>
+                            </CommandItem>
+                            <CommandItem onSelect={() => runCommand(location.pathname, () => runJsonViewerCommand('minify'))}>
+                                <Minimize2 className="mr-2 h-4 w-4" />
+                                <span>Minify JSON</span>
+                            </CommandItem>
+                            <CommandItem onSelect={() => runCommand(location.pathname, () => runJsonViewerCommand('sort-keys'))}>
+                                <ArrowDownAZ className="mr-2 h-4 w-4" />
+                                <span>Sort JSON keys</span>
+                            </CommandItem>
+                            <CommandItem onSelect={() => runCommand(location.pathname, () => runJsonViewerCommand('canonicalize'))}>
+                                <Hash className="mr-2 h-4 w-4" />
+                                <span>Canonicalize JSON (RFC 8785)</span>
+                            </CommandItem>
+                        </CommandGroup>
+                        <CommandSeparator />
+                    </>
+                )}
                 <CommandGroup heading="Navigation">
                     <CommandItem
                         onSelect={() => runCommand('/', () => navigate('/'))}
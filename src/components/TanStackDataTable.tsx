@@ -10,6 +10,7 @@ import {
     type ColumnFiltersState,
 } from '@tanstack/react-table';
 import { Trash2, Plus, Edit3, ArrowUp, ArrowDown, ChevronsUpDown } from 'lucide-react';
+import { stringifyJson } from '../utils/losslessNumber';
 
 interface TanStackDataTableProps {
     data: any[];
@@ -17,6 +18,10 @@ interface TanStackDataTableProps {
     onHeaderChange?: (oldName: string, newName: string) => void;
     maxRows?: number;
     isEditable?: boolean;
+    /** Shows only rows with a cell containing this text (case-insensitive) */
+    globalFilter?: string;
+    /** Receives the rows as displayed, after filtering and sorting */
+    onRowModelChange?: (rows: any[]) => void;
 }
 
 const TanStackDataTable: React.FC<TanStackDataTableProps> = ({
@@ -25,6 +30,8 @@ const TanStackDataTable: React.FC<TanStackDataTableProps> = ({
     onHeaderChange,
     maxRows,
     isEditable = true,
+    globalFilter = '',
+    onRowModelChange,
 }) => {
     const [data, setData] = useState<any[]>(initialData);
     const [sorting, setSorting] = useState<SortingState>([]);
@@ -203,12 +210,16 @@ const TanStackDataTable: React.FC<TanStackDataTableProps> = ({
         state: {
             sorting,
             columnFilters,
+            globalFilter,
         },
         onSortingChange: setSorting,
         onColumnFiltersChange: setColumnFilters,
         getCoreRowModel: getCoreRowModel(),
         getSortedRowModel: getSortedRowModel(),
         getFilteredRowModel: getFilteredRowModel(),
+        globalFilterFn: 'includesString',
+        // Filter every data column, not only those whose first value is a string or number.
+        getColumnCanGlobalFilter: (column) => column.id !== 'index' && column.id !== 'actions',
         enableColumnResizing: true,
         columnResizeMode: 'onChange',
         defaultColumn: {
@@ -221,6 +232,10 @@ const TanStackDataTable: React.FC<TanStackDataTableProps> = ({
     const ROW_HEIGHT = isEditable ? 52 : 44;
     const OVERSCAN_ROWS = 12;
     const allRows = table.getRowModel().rows;
+
+    useEffect(() => {
+        onRowModelChange?.(allRows.map(row => row.original));
+    }, [allRows, onRowModelChange]);
     const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
     const visibleCount = Math.ceil(viewportHeight / ROW_HEIGHT) + OVERSCAN_ROWS * 2;
     const endIndex = Math.min(allRows.length, startIndex + visibleCount);
@@ -397,7 +412,7 @@ const EditableCell = ({
     handleCellCommit: (rowIndex: number, columnId: string, value: string) => void;
 }) => {
     const rawValue = getValue();
-    const strValue = rawValue === null ? 'null' : (typeof rawValue === 'object' ? JSON.stringify(rawValue) : String(rawValue ?? ''));
+    const strValue = rawValue === null ? 'null' : (typeof rawValue === 'object' ? stringifyJson(rawValue) : String(rawValue ?? ''));
     const [value, setValue] = useState(strValue);
 
     useEffect(() => {
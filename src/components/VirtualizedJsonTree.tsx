@@ -1,25 +1,71 @@
 import React from 'react';
-import { ChevronDown, Check, FolderTree, Clipboard, Key } from 'lucide-react';
-import type { JsonNode } from '../types/json';
+import { ChevronDown, Check, FolderTree, Clipboard, Key, Plus, CopyPlus, ArrowUp, ArrowDown, Trash2, ExternalLink, Table, Bookmark } from 'lucide-react';
+import type { JsonEditOperation, JsonNode, JsonSearchOptions, JsonValue } from '../types/json';
 import { copyToClipboard } from '../utils/jsonUtils';
+import { formatNodePath, PATH_FORMAT_LABELS, type PathFormat } from '../utils/nodePath';
+import { createSearchMatcher } from '../utils/jsonSearch';
+import { FlatRowCache, pageAround, revealInWindows, type ChildWindow, type FlatNode } from '../utils/treeRows';
+import { buildDecodedValue, detectEmbeddedValue, isDecodedPath, type DecodedValue } from '../utils/valueDecoders';
+import { stringifyJson, toLosslessNumber } from '../utils/losslessNumber';
+import { JSON_VIEWER } from '../constants';
 
 interface VirtualizedJsonTreeProps {
     data: JsonNode;
-    searchQuery?: string;
+    /** Search whose hits are highlighted in keys and values */
+    search?: JsonSearchOptions | null;
     defaultExpanded?: boolean;
     externalExpandedPaths?: Set<string>;
     onToggle?: (path: string) => void;
+    /** Paths rendered with a match highlight (e.g. query results) */
+    highlightedPaths?: Set<string>;
+    /** Scrolls the given path into view; a new nonce re-triggers the same path */
+    focusRequest?: { path: string; nonce: number } | null;
+    /** Enables inline editing; each edit is reported as an operation for the caller to apply */
+    onEdit?: (operation: JsonEditOperation) => void;
+    /** Adds a "View as table" action to arrays */
+    onViewTable?: (node: JsonNode) => void;
+    /** Bookmarked paths and their notes, marked on their rows */
+    bookmarks?: Map<string, string>;
+    /** Adds a bookmark toggle to every node */
+    onToggleBookmark?: (node: JsonNode) => void;
 }
 
-interface FlatNode {
-    node: JsonNode;
-    depth: number;
-    hasChildren: boolean;
+interface EditState {
     path: string;
+    field: 'key' | 'value';
+    draft: string;
+    error: string | null;
 }
 
 const ROW_HEIGHT = 32;
 
+const CHILD_PAGE_SIZE = JSON_VIEWER.CHILD_PAGE_SIZE;
+
+const VALUE_TYPES: JsonNode['type'][] = ['string', 'number', 'boolean', 'null', 'object', 'array'];
+
+const isPrimitive = (type: JsonNode['type']) => type !== 'object' && type !== 'array';
+
+const DECODE_LABELS = { json: 'JSON', jwt: 'JWT', base64: 'base64' };
+
+/**
+ * Reads an inline value edit: strings are taken verbatim, other types are
+ * parsed as a JSON literal (so `"5"` typed into a number makes it a string).
+ */
+const parseValueDraft = (draft: string, type: JsonNode['type']): JsonValue => {
+    if (type === 'string') return draft;
+    let value: JsonValue;
+    try {
+        value = JSON.parse(draft) as JsonValue;
+    } catch {
+        throw new Error('Enter a JSON literal, e.g. 42, true, null or "text"');
+    }
+    if (value !== null && typeof value === 'object') {
+        throw new Error('Use "Add child" or change the type to create objects and arrays');
+    }
+    // Digits `number` would round are kept as typed.
+    return typeof value === 'number' ? toLosslessNumber(draft.trim()) : value;
+};
+
 const getTypeColor = (type: string) => {
     switch (type) {
         case 'string': return 'text-emerald-500';
@@ -34,21 +80,41 @@ const getTypeColor = (type: string) => {
 
 const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
     data,
-    searchQuery = '',
+    search,
     defaultExpanded = false,
     externalExpandedPaths,
-    onToggle
+    onToggle,
+    highlightedPaths,
+    focusRequest,
+    onEdit,
+    onViewTable,
+    bookmarks,
+    onToggleBookmark
 }) => {
-    const [internalExpandedPaths, setInternalExpandedPaths] = React.useState<Set<string>>(() => new Set(['root']));
+    const [internalExpandedPaths, setInternalExpandedPaths] = React.useState<Set<string>>(() => new Set(['']));
     const [copiedPath, setCopiedPath] = React.useState<string | null>(null);
+    const [pathFormat, setPathFormat] = React.useState<PathFormat>('pointer');
+    const [editing, setEditingState] = React.useState<EditState | null>(null);
+    // Mirrors `editing` synchronously so the blur that follows Enter / Escape is a no-op.
+    const editingRef = React.useRef<EditState | null>(null);
     const containerRef = React.useRef<HTMLDivElement>(null);
     const [scrollTop, setScrollTop] = React.useState(0);
     const [viewportHeight, setViewportHeight] = React.useState(600);
     const resizeRafRef = React.useRef<number | null>(null);
     const scrollRafRef = React.useRef<number | null>(null);
     const pendingScrollTopRef = React.useRef(0);
+    const lastFocusNonceRef = React.useRef<number | null>(null);
+    // Rendered child range per container path; containers without an entry show their first page.
+    const [childWindows, setChildWindows] = React.useState<Map<string, ChildWindow>>(() => new Map());
+    const [rowCache] = React.useState(() => new FlatRowCache());
+    // Focus set by "jump to index"; the most recent of it and `focusRequest` wins.
+    const [jumpFocus, setJumpFocus] = React.useState<{ path: string; nonce: number } | null>(null);
+    // Strings decoded into a sub-tree, and the collapsed containers inside those sub-trees.
+    const [decodedValues, setDecodedValues] = React.useState<Map<string, DecodedValue>>(() => new Map());
+    const [collapsedDecoded, setCollapsedDecoded] = React.useState<Set<string>>(() => new Set());
 
     const expandedPaths = externalExpandedPaths || internalExpandedPaths;
+    const activeFocus = jumpFocus && (!focusRequest || jumpFocus.nonce > focusRequest.nonce) ? jumpFocus : focusRequest;
 
     // Observe container size and batch height updates on animation frame.
     React.useEffect(() => {
@@ -81,74 +147,46 @@ const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
         };
     }, []);
 
-    const visibleNodes = React.useMemo(() => {
-        const result: FlatNode[] = [];
-        const stack: { node: JsonNode, depth: number }[] = [{ node: data, depth: 0 }];
-        const CHILD_LIMIT = 200; // Hard cap per node
-        const GLOBAL_RENDER_LIMIT = 15000; // Circuit Breaker for total DOM nodes
-
-        while (stack.length > 0) {
-            // Safety Break: Stop calculating if we exceed the render budget
-            if (result.length >= GLOBAL_RENDER_LIMIT) {
-                result.push({
-                    node: {
-                        key: '⚠️ VIEW TRUNCATED',
-                        value: `Stopped rendering after ${GLOBAL_RENDER_LIMIT.toLocaleString()} nodes to preserve browser performance. Collapse some nodes to see more.`,
-                        type: 'null',
-                        path: 'truncated-global'
-                    },
-                    depth: 1,
-                    hasChildren: false,
-                    path: 'truncated-global'
-                });
-                break;
-            }
-
-            const { node, depth } = stack.pop()!;
-            const hasChildren = !!(node.children && node.children.length > 0);
-
-            result.push({
-                node,
-                depth,
-                hasChildren,
-                path: node.path
-            });
+    const visibleNodes = React.useMemo(
+        () => rowCache.rows({
+            data,
+            defaultExpanded,
+            expanded: expandedPaths,
+            windows: childWindows,
+            pageSize: CHILD_PAGE_SIZE,
+            decoded: decodedValues,
+            collapsedDecoded
+        }),
+        [rowCache, data, defaultExpanded, expandedPaths, childWindows, decodedValues, collapsedDecoded]
+    );
 
-            if (hasChildren && (defaultExpanded || expandedPaths.has(node.path))) {
-                if (node.children) {
-                    const count = node.children.length;
-
-                    // If massive array/object, truncate for performance
-                    if (count > CHILD_LIMIT) {
-                        // 1. Add "Truncated" message at the END (pushed first to stack)
-                        const remaining = count - CHILD_LIMIT;
-                        const placeholderNode: JsonNode = {
-                            key: `...and ${remaining} more items`,
-                            value: 'Use search to find specific items',
-                            type: 'null',
-                            path: `${node.path}.truncated`
-                        };
-
-                        stack.push({ node: placeholderNode, depth: depth + 1 });
-
-                        // 2. Add first N items
-                        for (let i = CHILD_LIMIT - 1; i >= 0; i--) {
-                            stack.push({ node: node.children[i], depth: depth + 1 });
-                        }
-                    } else {
-                        // Normal behavior
-                        for (let i = count - 1; i >= 0; i--) {
-                            stack.push({ node: node.children[i], depth: depth + 1 });
-                        }
-                    }
-                }
-            }
+    // Scroll a requested node into view once it is part of the flattened rows,
+    // paging its ancestors' windows to it first when it lies outside them.
+    React.useEffect(() => {
+        const container = containerRef.current;
+        if (!activeFocus || !container || lastFocusNonceRef.current === activeFocus.nonce) return;
+        const index = visibleNodes.findIndex((flatNode) => flatNode.path === activeFocus.path);
+        if (index === -1) {
+            const windows = revealInWindows(data, activeFocus.path, childWindows, CHILD_PAGE_SIZE);
+            if (windows) setChildWindows(windows);
+            return;
         }
-        return result;
-    }, [data, expandedPaths, defaultExpanded]);
+        lastFocusNonceRef.current = activeFocus.nonce;
+        const rowTop = index * ROW_HEIGHT;
+        if (rowTop < container.scrollTop || rowTop + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+            container.scrollTop = Math.max(0, rowTop - container.clientHeight / 2);
+        }
+    }, [activeFocus, visibleNodes, data, childWindows]);
 
     const toggleExpand = (path: string) => {
-        if (onToggle) {
+        if (isDecodedPath(path)) {
+            setCollapsedDecoded(prev => {
+                const next = new Set(prev);
+                if (next.has(path)) next.delete(path);
+                else next.add(path);
+                return next;
+            });
+        } else if (onToggle) {
             onToggle(path);
         } else {
             setInternalExpandedPaths(prev => {
@@ -160,6 +198,29 @@ const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
         }
     };
 
+    const toggleDecoded = (node: JsonNode) => {
+        const embedded = detectEmbeddedValue(node);
+        setDecodedValues(prev => {
+            const next = new Map(prev);
+            if (next.get(node.path)?.source === node.value) next.delete(node.path);
+            else if (embedded && 'value' in embedded) next.set(node.path, buildDecodedValue(node, embedded));
+            return next;
+        });
+    };
+
+    const setChildWindow = (path: string, window: ChildWindow) => {
+        setChildWindows(prev => new Map(prev).set(path, window));
+    };
+
+    const jumpToChild = (container: JsonNode, input: string) => {
+        const count = container.children?.length ?? 0;
+        const index = Number(input);
+        if (!container.children || input.trim() === '' || !Number.isInteger(index) || count === 0) return;
+        const target = Math.min(Math.max(index, 0), count - 1);
+        setChildWindow(container.path, pageAround(target, count, CHILD_PAGE_SIZE));
+        setJumpFocus({ path: container.children[target].path, nonce: Date.now() });
+    };
+
     const handleCopy = async (path: string) => {
         const success = await copyToClipboard(path);
         if (success) {
@@ -168,6 +229,55 @@ const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
         }
     };
 
+    const setEditing = (next: EditState | null) => {
+        editingRef.current = next;
+        setEditingState(next);
+    };
+
+    const startEdit = (flatNode: FlatNode, field: EditState['field']) => {
+        if (!onEdit || flatNode.placeholder || flatNode.decoded) return;
+        const { node } = flatNode;
+        if (field === 'key' && flatNode.parent?.type !== 'object') return;
+        if (field === 'value' && !isPrimitive(node.type)) return;
+        const draft = field === 'key'
+            ? node.key
+            : node.type === 'string' ? String(node.value) : stringifyJson(node.value);
+        setEditing({ path: flatNode.path, field, draft, error: null });
+    };
+
+    const commitEdit = (node: JsonNode) => {
+        const editing = editingRef.current;
+        if (!editing || !onEdit) return;
+        if (editing.field === 'key') {
+            if (editing.draft !== node.key) onEdit({ kind: 'rename-key', path: node.path, key: editing.draft });
+            setEditing(null);
+            return;
+        }
+        try {
+            const value = parseValueDraft(editing.draft, node.type);
+            if (value !== node.value) onEdit({ kind: 'set-value', path: node.path, value });
+            setEditing(null);
+        } catch (error) {
+            setEditing({ ...editing, error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    const renderEditor = (node: JsonNode) => editing && (
+        <input
+            autoFocus
+            value={editing.draft}
+            onChange={(e) => setEditing({ ...editing, draft: e.target.value, error: null })}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commitEdit(node);
+                else if (e.key === 'Escape') setEditing(null);
+            }}
+            onBlur={() => commitEdit(node)}
+            title={editing.error ?? undefined}
+            className={`h-6 px-1.5 min-w-[8rem] rounded border bg-white font-mono text-xs text-slate-800 focus:outline-none ${editing.error ? 'border-red-400 ring-1 ring-red-200' : 'border-indigo-300 ring-1 ring-indigo-100'}`}
+            style={{ width: `${Math.max(editing.draft.length + 2, 10)}ch` }}
+        />
+    );
+
     const handleScroll = React.useCallback((e: React.UIEvent<HTMLDivElement>) => {
         pendingScrollTopRef.current = e.currentTarget.scrollTop;
         if (scrollRafRef.current !== null) return;
@@ -187,43 +297,148 @@ const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
         [visibleNodes, startIndex, endIndex]
     );
 
-    const searchRegex = React.useMemo(() => {
-        if (!searchQuery) return null;
+    const searchMatcher = React.useMemo(() => {
+        if (!search) return null;
         try {
-            const escapedQuery = searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            return new RegExp(`(${escapedQuery})`, 'gi');
-        } catch (e) {
+            return createSearchMatcher(search);
+        } catch {
+            // An invalid regex is reported by the search box; nothing is highlighted.
             return null;
         }
-    }, [searchQuery]);
-
-    const highlightText = React.useCallback((text: string) => {
-        if (!searchRegex || !searchQuery) return text;
-        const parts = text.split(searchRegex);
-        return parts.map((part, i) =>
-            part.toLowerCase() === searchQuery.toLowerCase() ?
-                <mark key={i} className="bg-indigo-500 text-white rounded-sm px-0.5 font-bold mx-0.5 shadow-sm">{part}</mark> :
-                part
-        );
-    }, [searchRegex, searchQuery]);
+    }, [search]);
+
+    const highlightText = React.useCallback((text: string) => (
+        searchMatcher
+            ? searchMatcher.highlight(text).map((run, i) => (run.match
+                ? <mark key={i} className="bg-indigo-500 text-white rounded-sm px-0.5 font-bold mx-0.5 shadow-sm">{run.text}</mark>
+                : run.text))
+            : text
+    ), [searchMatcher]);
 
     const renderValue = (node: JsonNode) => {
         if (node.type === 'object') {
-            const count = node.children?.length || 0;
+            const count = node.childCount ?? node.children?.length ?? 0;
             return <span className="text-[10px] font-black uppercase opacity-40 ml-1">{count} Props</span>;
         }
         if (node.type === 'array') {
-            const count = node.children?.length || 0;
+            const count = node.childCount ?? node.children?.length ?? 0;
             return <span className="text-[10px] font-black uppercase opacity-40 ml-1">{count} Items</span>;
         }
         const val = String(node.value);
         return <span className={node.type === 'string' ? 'font-bold' : 'font-bold'}>
             {node.type === 'string' ? '"' : ''}
-            {highlightText(val)}
+            {searchMatcher?.matchesValue(node.type, node.value) ? highlightText(val) : val}
             {node.type === 'string' ? '"' : ''}
+            {node.numberKind && (
+                <span className="text-[10px] font-black uppercase opacity-40 ml-1.5" title="Kept exactly as written (lossless number)">
+                    {node.numberKind}
+                </span>
+            )}
         </span>;
     };
 
+    /** Annotations for values recognised by `detectEmbeddedValue`, shown after the value */
+    const renderEmbedded = (node: JsonNode, isDecoded: boolean) => {
+        const embedded = detectEmbeddedValue(node);
+        if (!embedded) return null;
+        switch (embedded.kind) {
+            case 'timestamp':
+                return (
+                    <span className="ml-2 text-[10px] font-semibold text-slate-400 font-sans whitespace-nowrap" title={`Epoch ${embedded.unit}`}>
+                        {embedded.iso}
+                    </span>
+                );
+            case 'color':
+                return (
+                    <span
+                        className="ml-2 inline-block w-3 h-3 rounded-sm border border-slate-300 shrink-0"
+                        style={{ backgroundColor: embedded.color }}
+                        title={embedded.color}
+                    />
+                );
+            case 'url':
+                return (
+                    <a
+                        href={embedded.href}
+                        target="_blank"
+                        rel="noreferrer noopener"
+                        className="ml-1.5 p-0.5 rounded text-gray-400 hover:text-indigo-600 shrink-0"
+                        title="Open link in a new tab"
+                    >
+                        <ExternalLink className="w-3 h-3" />
+                    </a>
+                );
+            case 'image':
+                return (
+                    <span className="relative group/image ml-2 shrink-0">
+                        <img src={embedded.src} alt="" className="h-5 w-5 object-contain rounded border border-slate-200 bg-white" />
+                        <img
+                            src={embedded.src}
+                            alt=""
+                            className="absolute left-0 top-full mt-1 max-h-48 max-w-[16rem] object-contain rounded-lg border border-slate-200 bg-white shadow-lg p-1 opacity-0 group-hover/image:opacity-100 pointer-events-none transition-opacity z-50"
+                        />
+                    </span>
+                );
+            default:
+                return (
+                    <button
+                        onClick={() => toggleDecoded(node)}
+                        className="ml-2 px-1.5 h-5 rounded font-sans text-[10px] font-bold uppercase bg-indigo-50 text-indigo-600 hover:bg-indigo-100 shrink-0"
+                        title={isDecoded ? 'Hide the decoded value' : `Show the ${DECODE_LABELS[embedded.kind]} value as a tree`}
+                    >
+                        {isDecoded ? 'Hide' : `Decode ${DECODE_LABELS[embedded.kind]}`}
+                    </button>
+                );
+        }
+    };
+
+    const renderPager = (flatNode: FlatNode, index: number) => {
+        const { container, window, count, position } = flatNode.pager!;
+        const unit = container.type === 'array' ? 'Items' : 'Props';
+        return (
+            <div
+                key={flatNode.path}
+                className="absolute left-0 min-w-full w-max flex items-center gap-3 px-2 font-sans text-[11px] text-slate-500"
+                style={{
+                    top: 0,
+                    transform: `translateY(${index * ROW_HEIGHT}px)`,
+                    height: ROW_HEIGHT,
+                    paddingLeft: flatNode.depth * 20 + 34
+                }}
+            >
+                {position === 'before' ? (
+                    <button
+                        onClick={() => setChildWindow(container.path, { start: Math.max(0, window.start - CHILD_PAGE_SIZE), end: window.start })}
+                        className="font-semibold text-indigo-600 hover:text-indigo-700"
+                    >
+                        Show previous {Math.min(window.start, CHILD_PAGE_SIZE).toLocaleString()}
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => setChildWindow(container.path, { start: window.end, end: Math.min(count, window.end + CHILD_PAGE_SIZE) })}
+                        className="font-semibold text-indigo-600 hover:text-indigo-700"
+                    >
+                        Show next {Math.min(count - window.end, CHILD_PAGE_SIZE).toLocaleString()}
+                    </button>
+                )}
+                <span className="font-semibold">
+                    {unit} {window.start.toLocaleString()}-{(window.end - 1).toLocaleString()} of {count.toLocaleString()}
+                </span>
+                <input
+                    type="number"
+                    min={0}
+                    max={count - 1}
+                    placeholder="Jump to index"
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') jumpToChild(container, e.currentTarget.value);
+                    }}
+                    className="h-6 w-28 px-1.5 rounded border border-slate-200 bg-white font-mono text-xs text-slate-700 focus:outline-none focus:border-indigo-300"
+                    title={`Show the page containing an index between 0 and ${(count - 1).toLocaleString()}`}
+                />
+            </div>
+        );
+    };
+
     return (
         <div
             ref={containerRef}
@@ -233,13 +448,26 @@ const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
             <div style={{ height: totalHeight, minWidth: '100%', width: 'max-content', position: 'relative' }}>
                 {windowedNodes.map((flatNode, i) => {
                     const actualIndex = startIndex + i;
-                    const { node, depth, hasChildren, path } = flatNode;
-                    const isExpanded = defaultExpanded || expandedPaths.has(path);
+                    if (flatNode.pager) return renderPager(flatNode, actualIndex);
+                    const { node, depth, hasChildren, path, parent } = flatNode;
+                    const canEdit = Boolean(onEdit) && !flatNode.placeholder && !flatNode.decoded;
+                    const isEditingKey = editing?.path === path && editing.field === 'key';
+                    const isEditingValue = editing?.path === path && editing.field === 'value';
+                    // A primitive only has children while it is decoded.
+                    const isExpanded = isPrimitive(node.type)
+                        ? hasChildren
+                        : isDecodedPath(path) ? !collapsedDecoded.has(path) : defaultExpanded || expandedPaths.has(path);
+                    const isHighlighted = highlightedPaths?.has(path) ?? false;
+                    const isFocused = activeFocus?.path === path;
+                    const bookmarkNote = flatNode.decoded ? undefined : bookmarks?.get(path);
 
                     return (
                         <div
                             key={path}
-                            className="absolute left-0 min-w-full w-max flex items-center group hover:bg-indigo-50/30 px-2 rounded-lg transition-colors font-mono text-xs border border-transparent hover:border-indigo-100/30"
+                            className={`absolute left-0 min-w-full w-max flex items-center group px-2 rounded-lg transition-colors font-mono text-xs border ${isHighlighted
+                                ? 'bg-amber-50/80 border-amber-200/80 hover:bg-amber-100/70'
+                                : 'border-transparent hover:bg-indigo-50/30 hover:border-indigo-100/30'
+                                } ${isFocused ? 'ring-1 ring-amber-400' : ''}`}
                             style={{
                                 top: 0,
                                 transform: `translateY(${actualIndex * ROW_HEIGHT}px)`,
@@ -248,7 +476,7 @@ const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
                             }}
                         >
                             <button
-                                onClick={() => toggleExpand(path)}
+                                onClick={() => (isPrimitive(node.type) ? toggleDecoded(node) : toggleExpand(path))}
                                 className={`p-1 rounded hover:bg-white transition-all ${hasChildren ? 'cursor-pointer' : 'invisible opacity-0'}`}
                             >
                                 <div className={`transition-transform duration-300 ${isExpanded ? 'rotate-0' : '-rotate-90'}`}>
@@ -256,14 +484,28 @@ const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
                                 </div>
                             </button>
 
-                            <span className="font-bold text-slate-800 mr-2 flex-shrink-0">
-                                {highlightText(node.key)}
+                            <span
+                                className="font-bold text-slate-800 mr-2 flex-shrink-0"
+                                onDoubleClick={() => startEdit(flatNode, 'key')}
+                            >
+                                {isEditingKey ? renderEditor(node) : parent?.type === 'object' && searchMatcher?.matchesKey(node.key) ? highlightText(node.key) : node.key}
                                 <span className="text-gray-300 ml-1">:</span>
                             </span>
 
-                            <span className={`${getTypeColor(node.type)} flex-none whitespace-nowrap`}>
-                                {renderValue(node)}
+                            <span
+                                className={`${getTypeColor(node.type)} flex-none whitespace-nowrap`}
+                                onDoubleClick={() => startEdit(flatNode, 'value')}
+                                title={canEdit && isPrimitive(node.type) && !isEditingValue ? 'Double-click to edit' : undefined}
+                            >
+                                {isEditingValue ? renderEditor(node) : renderValue(node)}
                             </span>
+                            {!flatNode.placeholder && !isEditingValue && renderEmbedded(node, hasChildren)}
+                            {bookmarkNote !== undefined && (
+                                <span className="ml-2 flex items-center gap-1 text-amber-500 shrink-0" title={bookmarkNote || 'Bookmarked'}>
+                                    <Bookmark className="w-3 h-3 fill-current" />
+                                    {bookmarkNote && <span className="max-w-[16rem] truncate font-sans text-[10px] font-semibold text-amber-700">{bookmarkNote}</span>}
+                                </span>
+                            )}
 
                             <div className="opacity-0 group-hover:opacity-100 flex items-center space-x-1 mr-2 shrink-0 transition-opacity">
                                 <div className="relative group/tooltip">
@@ -277,31 +519,117 @@ const VirtualizedJsonTree: React.FC<VirtualizedJsonTreeProps> = ({
                                         Copy Key
                                     </div>
                                 </div>
-                                {node.type !== 'null' && (
+                                {node.type !== 'null' && !node.streamed && (
                                     <div className="relative group/tooltip">
                                         <button
-                                            onClick={() => handleCopy(typeof node.value === 'object' ? JSON.stringify(node.value, null, 2) : String(node.value))}
+                                            onClick={() => handleCopy(typeof node.value === 'object' ? stringifyJson(node.value, 2) : String(node.value))}
                                             className="p-1.5 hover:bg-white text-gray-400 hover:text-emerald-600 rounded-lg transition-all shadow-sm hover:shadow"
                                         >
-                                            {copiedPath === (typeof node.value === 'object' ? JSON.stringify(node.value, null, 2) : String(node.value)) ? <Check className="w-3.5 h-3.5" /> : <Clipboard className="w-3.5 h-3.5" />}
+                                            {copiedPath === (typeof node.value === 'object' ? stringifyJson(node.value, 2) : String(node.value)) ? <Check className="w-3.5 h-3.5" /> : <Clipboard className="w-3.5 h-3.5" />}
                                         </button>
                                         <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-gray-900 text-white text-[10px] font-bold rounded whitespace-nowrap opacity-0 group-hover/tooltip:opacity-100 pointer-events-none transition-opacity z-50">
                                             Copy Value
                                         </div>
                                     </div>
                                 )}
-                                <div className="relative group/tooltip">
+                                {!flatNode.decoded && <div className="relative group/tooltip flex items-center">
                                     <button
-                                        onClick={() => handleCopy(path)}
+                                        onClick={() => handleCopy(formatNodePath(node.segments, pathFormat))}
                                         className="p-1.5 hover:bg-white text-gray-400 hover:text-sky-600 rounded-lg transition-all shadow-sm hover:shadow"
                                     >
-                                        {copiedPath === path ? <Check className="w-3.5 h-3.5" /> : <FolderTree className="w-3.5 h-3.5" />}
+                                        {copiedPath === formatNodePath(node.segments, pathFormat) ? <Check className="w-3.5 h-3.5" /> : <FolderTree className="w-3.5 h-3.5" />}
                                     </button>
+                                    <select
+                                        value={pathFormat}
+                                        onChange={(e) => {
+                                            const format = e.target.value as PathFormat;
+                                            setPathFormat(format);
+                                            void handleCopy(formatNodePath(node.segments, format));
+                                        }}
+                                        className="w-4 text-[9px] text-gray-400 bg-transparent focus:outline-none cursor-pointer"
+                                        title="Copy path as"
+                                    >
+                                        {(Object.keys(PATH_FORMAT_LABELS) as PathFormat[]).map((format) => (
+                                            <option key={format} value={format}>{PATH_FORMAT_LABELS[format]}</option>
+                                        ))}
+                                    </select>
                                     <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-gray-900 text-white text-[10px] font-bold rounded whitespace-nowrap opacity-0 group-hover/tooltip:opacity-100 pointer-events-none transition-opacity z-50">
-                                        Copy Path
+                                        Copy Path ({PATH_FORMAT_LABELS[pathFormat]})
                                     </div>
-                                </div>
-                                <span className="text-[9px] font-black text-gray-300 uppercase ml-1">{node.type}</span>
+                                </div>}
+                                {onToggleBookmark && !flatNode.decoded && !flatNode.placeholder && (
+                                    <button
+                                        onClick={() => onToggleBookmark(node)}
+                                        className="p-1.5 hover:bg-white text-gray-400 hover:text-amber-500 rounded-lg transition-all shadow-sm hover:shadow"
+                                        title={bookmarkNote !== undefined ? 'Remove bookmark' : 'Bookmark'}
+                                    >
+                                        <Bookmark className={`w-3.5 h-3.5 ${bookmarkNote !== undefined ? 'fill-current text-amber-500' : ''}`} />
+                                    </button>
+                                )}
+                                {onViewTable && node.type === 'array' && !node.streamed && !flatNode.placeholder && (
+                                    <button
+                                        onClick={() => onViewTable(node)}
+                                        className="p-1.5 hover:bg-white text-gray-400 hover:text-emerald-600 rounded-lg transition-all shadow-sm hover:shadow"
+                                        title="View as table"
+                                    >
+                                        <Table className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                                {canEdit && !isPrimitive(node.type) && (
+                                    <button
+                                        onClick={() => onEdit?.({ kind: 'add-child', path })}
+                                        className="p-1.5 hover:bg-white text-gray-400 hover:text-indigo-600 rounded-lg transition-all shadow-sm hover:shadow"
+                                        title={node.type === 'array' ? 'Add item' : 'Add property'}
+                                    >
+                                        <Plus className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                                {canEdit && parent && (
+                                    <>
+                                        <button
+                                            onClick={() => onEdit?.({ kind: 'duplicate', path })}
+                                            className="p-1.5 hover:bg-white text-gray-400 hover:text-indigo-600 rounded-lg transition-all shadow-sm hover:shadow"
+                                            title="Duplicate"
+                                        >
+                                            <CopyPlus className="w-3.5 h-3.5" />
+                                        </button>
+                                        <button
+                                            onClick={() => onEdit?.({ kind: 'move', path, offset: -1 })}
+                                            disabled={parent.index === 0}
+                                            className="p-1.5 hover:bg-white text-gray-400 hover:text-indigo-600 rounded-lg transition-all shadow-sm hover:shadow disabled:opacity-30 disabled:pointer-events-none"
+                                            title="Move up"
+                                        >
+                                            <ArrowUp className="w-3.5 h-3.5" />
+                                        </button>
+                                        <button
+                                            onClick={() => onEdit?.({ kind: 'move', path, offset: 1 })}
+                                            disabled={parent.index === parent.count - 1}
+                                            className="p-1.5 hover:bg-white text-gray-400 hover:text-indigo-600 rounded-lg transition-all shadow-sm hover:shadow disabled:opacity-30 disabled:pointer-events-none"
+                                            title="Move down"
+                                        >
+                                            <ArrowDown className="w-3.5 h-3.5" />
+                                        </button>
+                                        <button
+                                            onClick={() => onEdit?.({ kind: 'delete', path })}
+                                            className="p-1.5 hover:bg-white text-gray-400 hover:text-red-600 rounded-lg transition-all shadow-sm hover:shadow"
+                                            title="Delete"
+                                        >
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                        </button>
+                                    </>
+                                )}
+                                {canEdit ? (
+                                    <select
+                                        value={node.type}
+                                        onChange={(e) => onEdit?.({ kind: 'change-type', path, type: e.target.value as JsonNode['type'] })}
+                                        className="text-[9px] font-black text-gray-400 uppercase ml-1 bg-transparent focus:outline-none cursor-pointer"
+                                        title="Change type"
+                                    >
+                                        {VALUE_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                ) : (
+                                    <span className="text-[9px] font-black text-gray-300 uppercase ml-1">{node.type}</span>
+                                )}
                             </div>
                         </div>
                     );
@@ -1,5 +1,8 @@
 /** Application-wide constant values */
 
+import type { JsonFormatOptions } from '../types/json';
+import type { DiffIgnorePreset, DiffIgnoreRules } from '../types/diff';
+
 /**
  * Worker Performance Tuning
  * 
@@ -20,19 +23,121 @@ export const JSON_VIEWER = {
      */
     DIRECT_MODE_THRESHOLD: 2 * 1024 * 1024, // 2 MB
 
-    /** 
-     * Maximum tree nodes to render before circuit breaker activates.
-     * Prevents browser crashes on extremely large JSON structures.
+    /**
+     * File size threshold for the streaming parser.
+     * Larger documents are read incrementally and their tree is built lazily,
+     * materialising children only when a node is expanded.
      */
-    MAX_TREE_NODES: 15000,
+    STREAMING_PARSE_THRESHOLD: 32 * 1024 * 1024, // 32 MB
 
-    /** 
-     * Maximum children to display per node before pagination.
-     * Large arrays are paginated to maintain scroll performance.
+    /**
+     * Children rendered per page of an expanded array or object.
+     * Larger containers show paging and jump-to-index rows around the page.
+     */
+    CHILD_PAGE_SIZE: 200,
+
+    /**
+     * Parser workers kept alive for JSON Viewer tabs, one per tab.
+     * A tab whose worker was reclaimed reparses its input when next shown.
      */
-    MAX_CHILDREN_PER_NODE: 200,
+    MAX_PARSER_WORKERS: 4,
+
+    /**
+     * Maximum JSONPath / JMESPath matches returned to the UI.
+     * The full count is still reported; only the payload is capped.
+     */
+    MAX_QUERY_RESULTS: 5000,
+
+    /** Maximum tree edits kept for undo; the oldest snapshot is dropped first. */
+    MAX_EDIT_HISTORY: 50,
+
+    /**
+     * Maximum JSON Schema violations returned to the UI.
+     * The full count is still reported; only the list is capped.
+     */
+    MAX_SCHEMA_VIOLATIONS: 1000,
+
+    /**
+     * Maximum search hits returned to the UI for next / previous navigation.
+     * The full count is still reported; only the list is capped.
+     */
+    MAX_SEARCH_MATCHES: 10000,
 } as const;
 
+/**
+ * Document Export Defaults
+ * 
+ * Starting options of the JSON Viewer export; YAML / TOML / XML sources are
+ * also written back with them after tree edits.
+ */
+export const DOCUMENT_EXPORT_DEFAULTS = {
+    /** Spaces per nesting level (JSON, YAML, XML) */
+    indent: 2,
+
+    /** Object keys with this prefix are XML attributes; XML input is read with it too */
+    attributePrefix: '@',
+
+    /** Element name of XML array items that have no key of their own */
+    arrayItemName: 'item',
+};
+
+/**
+ * JSON Format Defaults
+ * 
+ * Starting options of the JSON Viewer's Format action (pretty-printed with
+ * two spaces, keys and arrays in document order).
+ */
+export const JSON_FORMAT_DEFAULTS: JsonFormatOptions = {
+    indent: 2,
+    minify: false,
+    sortKeys: false,
+    sortArraysBy: '',
+    escapeUnicode: false,
+    canonical: false,
+};
+
+/**
+ * Diff Checker Configuration
+ */
+export const DIFF_CHECKER = {
+    /** Share of equal properties from which two array items count as the same record */
+    SIMILARITY_THRESHOLD: 0.5,
+
+    /**
+     * Item pairs scored per array by similarity matching. Larger arrays only
+     * pair items that are exactly equal.
+     */
+    SIMILARITY_MAX_COMPARISONS: 250000,
+
+    /** Combined input length up to which word and character diffs run; longer inputs are diffed by line */
+    INLINE_DIFF_MAX_CHARS: 200000,
+
+    /** Modified lines longer than this are highlighted whole instead of by character */
+    CHAR_HIGHLIGHT_MAX_LINE_LENGTH: 2000,
+
+    /** Share of characters a modified line pair must have in common to be highlighted by character */
+    CHAR_HIGHLIGHT_MIN_COMMON: 0.4,
+} as const;
+
+/** Diff Checker ignore rules that leave nothing out */
+export const DIFF_IGNORE_DEFAULTS: DiffIgnoreRules = {
+    paths: [],
+    linePatterns: [],
+    normalizers: { roundDecimals: null, lowercase: false, trim: false },
+};
+
+/** Presets offered before any are saved */
+export const DIFF_IGNORE_PRESETS: DiffIgnorePreset[] = [
+    {
+        name: 'API snapshot',
+        rules: {
+            ...DIFF_IGNORE_DEFAULTS,
+            paths: ['**.createdAt', '**.updatedAt', '**.timestamp', '**.requestId', '**.etag'],
+            linePatterns: ['/^\\s*(date|etag|x-request-id):/i'],
+        },
+    },
+];
+
 /**
  * Search Configuration
  * 
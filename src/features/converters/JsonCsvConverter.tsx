@@ -11,7 +11,8 @@ import {
     ChevronDown,
     Copy,
     Check,
-    XCircle
+    XCircle,
+    List
 } from 'lucide-react';
 import Editor from '@monaco-editor/react';
 import { WorkerManager } from '../../utils/WorkerManager';
@@ -23,6 +24,8 @@ import { copyToClipboard } from '../../utils/jsonUtils';
 import { perfMark, perfMeasure } from '../../utils/perf';
 import { buildDownloadFileName, resolveExportBaseName } from '../../utils/fileName';
 import type { PreviewChunkPayload } from '../../types/worker';
+import type { JsonInputFormat } from '../../types/json';
+import { parseJsonDocument, toJsonLines } from '../../utils/jsonLines';
 import { CONVERTER_LIMITS } from '../../constants';
 
 type ConversionMode = 'json-to-csv' | 'csv-to-json';
@@ -38,7 +41,8 @@ const JsonCsvConverter: React.FC = () => {
         isDirty,
         flatten,
         delimiter,
-        isDirectMode
+        isDirectMode,
+        inputFormat
     } = state.jsonCsv;
 
 
@@ -61,6 +65,7 @@ const JsonCsvConverter: React.FC = () => {
     const setFlatten = (val: boolean) => setJsonCsv({ flatten: val });
     const setDelimiter = (val: string) => setJsonCsv({ delimiter: val });
     const setIsDirectMode = (val: boolean) => setJsonCsv({ isDirectMode: val });
+    const setInputFormat = (val: JsonInputFormat) => setJsonCsv({ inputFormat: val });
     const [isLoading, setIsLoading] = useState(false);
     const [isParsing, setIsParsing] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -208,7 +213,7 @@ const JsonCsvConverter: React.FC = () => {
 
                 await workerRef.current!.postMessage('PARSE_FOR_PREVIEW_STREAM' as any, {
                     data,
-                    options: { flatten }
+                    options: { flatten, inputFormat }
                 }, transfer, 0, (progressData) => {
                     const payload = progressData as PreviewChunkPayload;
                     if (!Array.isArray(payload?.chunk)) return;
@@ -262,7 +267,7 @@ const JsonCsvConverter: React.FC = () => {
         } finally {
             setIsParsing(false);
         }
-    }, [localInputData, file, isDirectMode, flatten, delimiter, initWorker, mode, previewSafeModeActive, safeModeLimitMb, setTaskStatus]);
+    }, [localInputData, file, isDirectMode, flatten, delimiter, inputFormat, initWorker, mode, previewSafeModeActive, safeModeLimitMb, setTaskStatus]);
 
     const handleFileSelect = async (selectedFile: File) => {
         setFile(selectedFile);
@@ -278,7 +283,7 @@ const JsonCsvConverter: React.FC = () => {
             setLocalInputData('');
         } else {
             setIsDirectMode(false);
-            if (mode === 'json-to-csv' && selectedFile.name.toLowerCase().endsWith('.json')) {
+            if (mode === 'json-to-csv' && /\.(json|jsonl|ndjson)$/i.test(selectedFile.name)) {
                 try {
                     const text = await selectedFile.text();
                     setInputData(text);
@@ -308,7 +313,7 @@ const JsonCsvConverter: React.FC = () => {
 
 
 
-    const handleExport = async (format: 'csv' | 'xlsx' | 'json') => {
+    const handleExport = async (format: 'csv' | 'xlsx' | 'json' | 'ndjson') => {
         setIsLoading(true);
         setError(null);
         setShowExportMenu(false);
@@ -337,7 +342,7 @@ const JsonCsvConverter: React.FC = () => {
                 } else {
                     throw new Error('Please provide JSON data or upload a file');
                 }
-                const parsed = JSON.parse(rawJson);
+                const { value: parsed } = parseJsonDocument(rawJson, inputFormat);
                 rowsForExport = Array.isArray(parsed) ? parsed : [parsed];
             } else {
                 if (!file) throw new Error('Please upload a CSV file');
@@ -357,7 +362,7 @@ const JsonCsvConverter: React.FC = () => {
 
 
             if (mode === 'json-to-csv' && isDirty && latestTableData.length > 0) {
-                if (format === 'xlsx' || format === 'json') {
+                if (format === 'xlsx' || format === 'json' || format === 'ndjson') {
                     const previewedCount = Math.min(1000, rowsForExport.length);
                     rowsForExport.splice(0, previewedCount, ...latestTableData);
                 }
@@ -393,13 +398,15 @@ const JsonCsvConverter: React.FC = () => {
                 a.click();
                 document.body.removeChild(a);
                 URL.revokeObjectURL(url);
-            } else if (format === 'json') {
-                // JSON export
-                const blob = new Blob([JSON.stringify(rowsForExport, null, 2)], { type: 'application/json' });
+            } else if (format === 'json' || format === 'ndjson') {
+                // JSON export; NDJSON writes one row per line
+                const blob = format === 'ndjson'
+                    ? new Blob([toJsonLines(rowsForExport)], { type: 'application/x-ndjson' })
+                    : new Blob([JSON.stringify(rowsForExport, null, 2)], { type: 'application/json' });
                 const url = URL.createObjectURL(blob);
                 const a = document.createElement('a');
                 a.href = url;
-                a.download = buildDownloadFileName(sourceBaseName, 'json');
+                a.download = buildDownloadFileName(sourceBaseName, format);
                 document.body.appendChild(a);
                 a.click();
                 document.body.removeChild(a);
@@ -475,6 +482,21 @@ const JsonCsvConverter: React.FC = () => {
                         </select>
                     </div>
 
+                    {mode === 'json-to-csv' && (
+                        <div className="flex items-center bg-white px-4 py-2 rounded-xl border border-gray-100 shadow-sm space-x-3">
+                            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Input</span>
+                            <select
+                                value={inputFormat}
+                                onChange={(e) => setInputFormat(e.target.value as JsonInputFormat)}
+                                className="text-xs font-bold text-indigo-600 bg-transparent focus:outline-none cursor-pointer"
+                            >
+                                <option value="auto">Auto-detect</option>
+                                <option value="json">JSON</option>
+                                <option value="ndjson">JSON Lines</option>
+                            </select>
+                        </div>
+                    )}
+
                     {mode === 'json-to-csv' && (
                         <label className="flex items-center space-x-2 cursor-pointer group bg-white px-4 py-2.5 rounded-xl border border-gray-100 shadow-sm hover:border-indigo-200 transition-all">
                             <input
@@ -559,6 +581,15 @@ const JsonCsvConverter: React.FC = () => {
                                         <Code className="w-4 h-4 text-indigo-600" />
                                         <span className="font-medium">Save as JSON</span>
                                     </button>
+                                    {mode === 'csv-to-json' && (
+                                        <button
+                                            onClick={() => handleExport('ndjson')}
+                                            className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                                        >
+                                            <List className="w-4 h-4 text-indigo-600" />
+                                            <span className="font-medium">Save as NDJSON</span>
+                                        </button>
+                                    )}
                                 </div>
                             </>
                         )}
@@ -622,7 +653,7 @@ const JsonCsvConverter: React.FC = () => {
                                         )}
                                     </div>
                                     <FileUploader
-                                        accept=".json"
+                                        accept=".json,.jsonl,.ndjson"
                                         onFileSelect={handleFileSelect}
                                         onClear={() => setFile(null)}
                                         currentFile={file}
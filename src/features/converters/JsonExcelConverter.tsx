@@ -23,6 +23,8 @@ import { copyToClipboard } from '../../utils/jsonUtils';
 import { perfMark, perfMeasure } from '../../utils/perf';
 import { buildDownloadFileName, resolveExportBaseName } from '../../utils/fileName';
 import type { PreviewChunkPayload } from '../../types/worker';
+import type { JsonInputFormat } from '../../types/json';
+import { parseJsonDocument, toJsonLines } from '../../utils/jsonLines';
 import { CONVERTER_LIMITS } from '../../constants';
 
 type ConversionMode = 'json-to-excel' | 'excel-to-json';
@@ -37,7 +39,8 @@ const JsonExcelConverter: React.FC = () => {
         totalRows,
         isDirty,
         flatten,
-        isDirectMode
+        isDirectMode,
+        inputFormat
     } = state.jsonExcel;
 
     const [resultData, setResultData] = useState<any>(null);
@@ -56,6 +59,8 @@ const JsonExcelConverter: React.FC = () => {
     const setIsDirty = (val: boolean) => setJsonExcel({ isDirty: val });
     const setFlatten = (val: boolean) => setJsonExcel({ flatten: val });
     const setIsDirectMode = (val: boolean) => setJsonExcel({ isDirectMode: val });
+    const setInputFormat = (val: JsonInputFormat) => setJsonExcel({ inputFormat: val });
+    const [outputFormat, setOutputFormat] = useState<'json' | 'ndjson'>('json');
 
     const editorOptions = useMemo(() => ({
         minimap: { enabled: false },
@@ -179,7 +184,7 @@ const JsonExcelConverter: React.FC = () => {
             // Validate JSON syntax before processing
             if (!isDirectMode && localInputData.trim()) {
                 try {
-                    JSON.parse(localInputData);
+                    parseJsonDocument(localInputData, inputFormat);
                 } catch (e) {
                     setError(`Invalid JSON syntax: ${e instanceof Error ? e.message : 'Please check your JSON format'}`);
                     return;
@@ -223,7 +228,7 @@ const JsonExcelConverter: React.FC = () => {
 
                 await workerRef.current!.postMessage('PARSE_FOR_PREVIEW_STREAM', {
                     data,
-                    options: { flatten }
+                    options: { flatten, inputFormat }
                 } as any, transfer, 0, (progressData) => {
                     const payload = progressData as PreviewChunkPayload;
                     if (!Array.isArray(payload?.chunk)) return;
@@ -281,7 +286,7 @@ const JsonExcelConverter: React.FC = () => {
         } finally {
             setIsParsing(false);
         }
-    }, [localInputData, file, isDirectMode, flatten, initWorker, mode, previewSafeModeActive, safeModeLimitMb, setTaskStatus]);
+    }, [localInputData, file, isDirectMode, flatten, inputFormat, initWorker, mode, previewSafeModeActive, safeModeLimitMb, setTaskStatus]);
 
     const handleFileSelect = async (selectedFile: File) => {
         setFile(selectedFile);
@@ -298,7 +303,7 @@ const JsonExcelConverter: React.FC = () => {
             setLocalInputData('');
         } else {
             setIsDirectMode(false);
-            if (mode === 'json-to-excel' && selectedFile.name.toLowerCase().endsWith('.json')) {
+            if (mode === 'json-to-excel' && /\.(json|jsonl|ndjson)$/i.test(selectedFile.name)) {
                 try {
                     const text = await selectedFile.text();
                     setInputData(text);
@@ -347,7 +352,7 @@ const JsonExcelConverter: React.FC = () => {
             });
             let data: any;
             let transfer: Transferable[] | undefined;
-            const workerOptions: any = { flatten };
+            const workerOptions: any = { flatten, inputFormat };
             const latestTableData = activeTableDataRef.current;
 
             if (mode === 'json-to-excel') {
@@ -396,11 +401,13 @@ const JsonExcelConverter: React.FC = () => {
             } else {
                 // Excel-to-JSON: Download result and update preview
                 const jsonData = result.data;
-                const blob = new Blob([JSON.stringify(jsonData, null, 2)], { type: 'application/json' });
+                const blob = outputFormat === 'ndjson'
+                    ? new Blob([toJsonLines(Array.isArray(jsonData) ? jsonData : [jsonData])], { type: 'application/x-ndjson' })
+                    : new Blob([JSON.stringify(jsonData, null, 2)], { type: 'application/json' });
                 const url = URL.createObjectURL(blob);
                 const a = document.createElement('a');
                 a.href = url;
-                a.download = buildDownloadFileName(sourceBaseName, 'json');
+                a.download = buildDownloadFileName(sourceBaseName, outputFormat);
                 document.body.appendChild(a);
                 a.click();
                 document.body.removeChild(a);
@@ -470,6 +477,32 @@ const JsonExcelConverter: React.FC = () => {
                         <ArrowRightLeft className="w-4 h-4 text-indigo-500 group-hover/mode:rotate-180 transition-transform duration-500" />
                         <span className="text-sm font-bold">{mode === 'json-to-excel' ? 'JSON to Excel' : 'Excel to JSON'}</span>
                     </button>
+                    {mode === 'json-to-excel' ? (
+                        <div className="flex items-center bg-white px-4 py-2 rounded-xl border border-gray-100 shadow-sm space-x-3">
+                            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Input</span>
+                            <select
+                                value={inputFormat}
+                                onChange={(e) => setInputFormat(e.target.value as JsonInputFormat)}
+                                className="text-xs font-bold text-indigo-600 bg-transparent focus:outline-none cursor-pointer"
+                            >
+                                <option value="auto">Auto-detect</option>
+                                <option value="json">JSON</option>
+                                <option value="ndjson">JSON Lines</option>
+                            </select>
+                        </div>
+                    ) : (
+                        <div className="flex items-center bg-white px-4 py-2 rounded-xl border border-gray-100 shadow-sm space-x-3">
+                            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Output</span>
+                            <select
+                                value={outputFormat}
+                                onChange={(e) => setOutputFormat(e.target.value as 'json' | 'ndjson')}
+                                className="text-xs font-bold text-indigo-600 bg-transparent focus:outline-none cursor-pointer"
+                            >
+                                <option value="json">JSON</option>
+                                <option value="ndjson">NDJSON</option>
+                            </select>
+                        </div>
+                    )}
                     {mode === 'json-to-excel' && (
                         <label className="flex items-center space-x-2 cursor-pointer group bg-white px-4 py-2.5 rounded-xl border border-gray-100 shadow-sm hover:border-indigo-200 transition-all">
                             <input
@@ -582,7 +615,7 @@ const JsonExcelConverter: React.FC = () => {
                                         )}
                                     </div>
                                     <FileUploader
-                                        accept=".json"
+                                        accept=".json,.jsonl,.ndjson"
                                         onFileSelect={handleFileSelect}
                                         onClear={() => setFile(null)}
                                         currentFile={file}
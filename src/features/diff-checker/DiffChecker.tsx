@@ -4,23 +4,62 @@ import {
     Loader2,
     Trash2,
     Settings,
-    XCircle
+    XCircle,
+    ListTree,
+    Columns2,
+    Filter,
+    AlignLeft,
+    GitMerge
 } from 'lucide-react';
 import { WorkerManager } from '../../utils/WorkerManager';
-import type { DiffRequest, DiffResult } from '../../workers/diff.worker';
+import type { DiffRequest, DiffResult, MergeRequest, MergeResult } from '../../workers/diff.worker';
+import type { DiffIgnorePreset, DiffIgnoreRules, JsonArrayMatch, TextDiffMode } from '../../types/diff';
 import { useAppStore } from '../../store/AppContext';
 import { useDraftPreference } from '../../hooks/useDraftPreference';
-import { DRAFT_TTL_MS, loadDraftWithStatus, saveDraft, clearDraft } from '../../utils/draftStorage';
+import { DRAFT_TTL_MS, loadDraft, loadDraftWithStatus, saveDraft, clearDraft } from '../../utils/draftStorage';
+import { hasIgnoreRules } from '../../utils/diffIgnore';
+import { DIFF_IGNORE_DEFAULTS } from '../../constants';
+import JsonDiffTree from './JsonDiffTree';
+import DiffIgnoreRulesDialog from './DiffIgnoreRulesDialog';
+import TextDiffView from './TextDiffView';
+import ThreeWayMergeView from './ThreeWayMergeView';
 
-type DiffMode = 'text' | 'json';
+// `text` is the line mode (the name predates word and character modes; drafts keep it).
+type DiffMode = 'text' | 'words' | 'chars' | 'json' | 'merge';
+type CompareMode = Exclude<DiffMode, 'merge'>;
 type DiffCheckerDraft = {
     text1: string;
     text2: string;
+    baseText?: string;
     mode: DiffMode;
     ignoreWhitespace: boolean;
     sortKeys: boolean;
+    arrayMatch?: JsonArrayMatch;
+    arrayKey?: string;
+    ignoreArrayOrder?: boolean;
+    ignoreRules?: DiffIgnoreRules;
 };
 const DIFF_CHECKER_DRAFT_KEY = 'diff-checker';
+// Presets are settings rather than a draft, so they are saved without expiry.
+const DIFF_IGNORE_PRESETS_KEY = 'diff-checker-ignore-presets';
+const MODE_LABELS: Record<DiffMode, string> = {
+    text: 'Lines',
+    words: 'Words',
+    chars: 'Characters',
+    json: 'JSON',
+    merge: 'Merge',
+};
+const WORKER_MODES: Record<CompareMode, TextDiffMode | 'json'> = {
+    text: 'lines',
+    words: 'words',
+    chars: 'chars',
+    json: 'json',
+};
+const ARRAY_MATCH_LABELS: Record<JsonArrayMatch, string> = {
+    index: 'By index',
+    key: 'By key',
+    similarity: 'By similarity',
+};
 const MonacoEditor = lazy(() => import('@monaco-editor/react').then((mod) => ({ default: mod.default })));
 const MonacoDiffEditor = lazy(() => import('@monaco-editor/react').then((mod) => ({ default: mod.DiffEditor })));
 
@@ -31,8 +70,11 @@ const MonacoDiffEditor = lazy(() => import('@monaco-editor/react').then((mod) =>
  * Compare two text or JSON inputs with intelligent diffing.
  * 
  ** **Key Features:**
- * - Text mode: Line-by-line comparison
- * - JSON mode: Structural comparison with key sorting
+ * - Line, word and character modes; modified lines highlight the exact characters changed
+ * - JSON mode: Structural diff by path, shown as a change tree, plus the text diff
+ * - Array items matched by index, identity key or similarity, optionally ignoring order
+ * - Ignore rules (JSON path globs, line regexes, value normalisers) with named presets
+ * - Merge mode: three-way merge of ours and theirs against a base, resolved hunk by hunk
  * - Whitespace ignore option
  * - Side-by-side Monaco editor with diff highlighting
  * - Worker-based diff computation (non-blocking)
@@ -45,16 +87,27 @@ const MonacoDiffEditor = lazy(() => import('@monaco-editor/react').then((mod) =>
  */
 const DiffChecker: React.FC = () => {
     const { state, setDiffChecker, setTaskStatus } = useAppStore();
-    const { text1, text2, mode, ignoreWhitespace } = state.diffChecker;
+    const { text1, text2, baseText, mode, ignoreWhitespace, arrayMatch, arrayKey, ignoreArrayOrder, ignoreRules, ignorePresets } = state.diffChecker;
 
     const [diffResult, setDiffResult] = useState<DiffResult | null>(null);
+    const [mergeResult, setMergeResult] = useState<MergeResult | null>(null);
+    // Increments per compare so the change tree starts from its default expansion.
+    const [compareCount, setCompareCount] = useState(0);
+    const [comparedMode, setComparedMode] = useState<CompareMode>('text');
+    const [resultView, setResultView] = useState<'changes' | 'inline' | 'side-by-side'>('changes');
+    // Without a structural report, the change tree falls back to the inline diff.
+    const activeView = resultView === 'changes' && !diffResult?.json ? 'inline' : resultView;
+    const [ignoreOpen, setIgnoreOpen] = useState(false);
+    const ignoreActive = useMemo(() => hasIgnoreRules(ignoreRules), [ignoreRules]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [localText1, setLocalText1] = useState(text1);
     const [localText2, setLocalText2] = useState(text2);
+    const [localBase, setLocalBase] = useState(baseText);
     const [draftNotice, setDraftNotice] = useState<string | null>(null);
     const leftLines = useMemo(() => localText1.split('\n').length, [localText1]);
     const rightLines = useMemo(() => localText2.split('\n').length, [localText2]);
+    const baseLines = useMemo(() => localBase.split('\n').length, [localBase]);
     const { enabled: draftsEnabled } = useDraftPreference();
 
     // Helpers
@@ -84,12 +137,13 @@ const DiffChecker: React.FC = () => {
         useInlineViewWhenSpaceIsLimited: true,
     }), [commonOptions]);
 
-    const workerRef = useRef<WorkerManager<DiffRequest, DiffResult> | null>(null);
+    // One worker serves both diffs and merges; results are cast per message type.
+    const workerRef = useRef<WorkerManager<DiffRequest | MergeRequest, DiffResult | MergeResult> | null>(null);
 
     // Initialize worker
     const initWorker = useCallback(() => {
         if (!workerRef.current) {
-            workerRef.current = new WorkerManager<DiffRequest, DiffResult>(
+            workerRef.current = new WorkerManager<DiffRequest | MergeRequest, DiffResult | MergeResult>(
                 () => new Worker(new URL('../../workers/diff.worker.ts', import.meta.url), { type: 'module' })
             );
         }
@@ -104,6 +158,8 @@ const DiffChecker: React.FC = () => {
 
     useEffect(() => {
         if (!draftsEnabled) return;
+        const presets = loadDraft<DiffIgnorePreset[]>(DIFF_IGNORE_PRESETS_KEY);
+        if (presets) setDiffChecker({ ignorePresets: presets });
         const { data: draft, expired } = loadDraftWithStatus<DiffCheckerDraft>(DIFF_CHECKER_DRAFT_KEY);
         if (expired) {
             setDraftNotice(`Session expired (${Math.round(DRAFT_TTL_MS / 60000)} min). Draft cleared.`);
@@ -113,12 +169,18 @@ const DiffChecker: React.FC = () => {
         if (!draft) return;
         setLocalText1(draft.text1 || '');
         setLocalText2(draft.text2 || '');
+        setLocalBase(draft.baseText || '');
         setDiffChecker({
             text1: draft.text1 || '',
             text2: draft.text2 || '',
+            baseText: draft.baseText || '',
             mode: draft.mode || 'text',
             ignoreWhitespace: Boolean(draft.ignoreWhitespace),
             sortKeys: Boolean(draft.sortKeys),
+            arrayMatch: draft.arrayMatch || 'index',
+            arrayKey: draft.arrayKey ?? 'id',
+            ignoreArrayOrder: Boolean(draft.ignoreArrayOrder),
+            ignoreRules: draft.ignoreRules || DIFF_IGNORE_DEFAULTS,
         });
         setDraftNotice('Draft restored');
         const timer = window.setTimeout(() => setDraftNotice(null), 1600);
@@ -135,12 +197,12 @@ const DiffChecker: React.FC = () => {
 
     useEffect(() => {
         const timer = window.setTimeout(() => {
-            if (localText1 !== text1 || localText2 !== text2) {
-                setDiffChecker({ text1: localText1, text2: localText2 });
+            if (localText1 !== text1 || localText2 !== text2 || localBase !== baseText) {
+                setDiffChecker({ text1: localText1, text2: localText2, baseText: localBase });
             }
         }, 160);
         return () => window.clearTimeout(timer);
-    }, [localText1, localText2, text1, text2, setDiffChecker]);
+    }, [localText1, localText2, localBase, text1, text2, baseText, setDiffChecker]);
 
     useEffect(() => {
         if (!draftsEnabled) return;
@@ -148,17 +210,22 @@ const DiffChecker: React.FC = () => {
             saveDraft<DiffCheckerDraft>(DIFF_CHECKER_DRAFT_KEY, {
                 text1: localText1,
                 text2: localText2,
+                baseText: localBase,
                 mode,
                 ignoreWhitespace,
                 sortKeys: Boolean(state.diffChecker.sortKeys),
+                arrayMatch,
+                arrayKey,
+                ignoreArrayOrder,
+                ignoreRules,
             });
         }, 800);
         return () => window.clearTimeout(timer);
-    }, [draftsEnabled, localText1, localText2, mode, ignoreWhitespace, state.diffChecker.sortKeys]);
+    }, [draftsEnabled, localText1, localText2, localBase, mode, ignoreWhitespace, state.diffChecker.sortKeys, arrayMatch, arrayKey, ignoreArrayOrder, ignoreRules]);
 
     useEffect(() => {
         if (draftsEnabled) return;
-        const hasUnsavedData = Boolean(localText1.trim() || localText2.trim() || diffResult);
+        const hasUnsavedData = Boolean(localText1.trim() || localText2.trim() || localBase.trim() || diffResult || mergeResult);
         if (!hasUnsavedData) return;
         const handler = (event: BeforeUnloadEvent) => {
             event.preventDefault();
@@ -166,9 +233,10 @@ const DiffChecker: React.FC = () => {
         };
         window.addEventListener('beforeunload', handler);
         return () => window.removeEventListener('beforeunload', handler);
-    }, [draftsEnabled, localText1, localText2, diffResult]);
+    }, [draftsEnabled, localText1, localText2, localBase, diffResult, mergeResult]);
 
     const handleCompare = useCallback(async () => {
+        if (mode === 'merge') return;
         if (!localText1.trim() && !localText2.trim()) {
             setError('Please enter text in at least one editor');
             return;
@@ -204,11 +272,16 @@ const DiffChecker: React.FC = () => {
             const result = await workerRef.current!.postMessage('COMPUTE_DIFF', {
                 text1: processed1,
                 text2: processed2,
-                mode: mode === 'json' ? 'json' : 'lines',
+                mode: WORKER_MODES[mode],
                 ignoreWhitespace,
-            });
+                jsonOptions: { arrayMatch, arrayKey: arrayKey.trim(), ignoreArrayOrder },
+                ignoreRules: ignoreActive ? ignoreRules : undefined,
+            }) as DiffResult;
 
             setDiffResult(result);
+            setMergeResult(null);
+            setComparedMode(mode);
+            setCompareCount((count) => count + 1);
             setTaskStatus({ state: 'done', label: 'Diff ready' });
         } catch (err) {
             if (WorkerManager.isCancelledError(err)) return;
@@ -218,17 +291,57 @@ const DiffChecker: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
-    }, [localText1, localText2, mode, ignoreWhitespace, state.diffChecker.sortKeys, initWorker, setDiffChecker, setTaskStatus]);
+    }, [localText1, localText2, mode, ignoreWhitespace, arrayMatch, arrayKey, ignoreArrayOrder, ignoreRules, ignoreActive, state.diffChecker.sortKeys, initWorker, setDiffChecker, setTaskStatus]);
+
+    const handleMerge = useCallback(async () => {
+        if (!localBase.trim() && !localText1.trim() && !localText2.trim()) {
+            setError('Please enter the base and both versions to merge');
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+        setTaskStatus({ state: 'running', label: 'Merging' });
+        workerRef.current?.cancelAll('Superseded by a newer merge request');
+        initWorker();
+
+        try {
+            const result = await workerRef.current!.postMessage('COMPUTE_MERGE', {
+                base: localBase,
+                ours: localText1,
+                theirs: localText2,
+            }) as MergeResult;
+
+            setMergeResult(result);
+            setDiffResult(null);
+            setCompareCount((count) => count + 1);
+            setTaskStatus({ state: 'done', label: result.conflicts ? `Merge ready, ${result.conflicts} conflicts` : 'Merge ready' });
+        } catch (err) {
+            if (WorkerManager.isCancelledError(err)) return;
+            setError(err instanceof Error ? err.message : 'Failed to compute merge');
+            setMergeResult(null);
+            setTaskStatus({ state: 'error', label: 'Merge failed' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [localBase, localText1, localText2, initWorker, setTaskStatus]);
+
+    const handleIgnorePresetsChange = useCallback((presets: DiffIgnorePreset[]) => {
+        setDiffChecker({ ignorePresets: presets });
+        saveDraft<DiffIgnorePreset[]>(DIFF_IGNORE_PRESETS_KEY, presets, { expires: false });
+    }, [setDiffChecker]);
 
     const handleClear = () => {
-        const hasData = Boolean(localText1.trim() || localText2.trim() || diffResult);
+        const hasData = Boolean(localText1.trim() || localText2.trim() || localBase.trim() || diffResult || mergeResult);
         if (hasData && !window.confirm('Clear current diff input?')) {
             return;
         }
         workerRef.current?.cancelAll('Cleared by user');
         setText1('');
         setText2('');
+        setLocalBase('');
         setDiffResult(null);
+        setMergeResult(null);
         setError(null);
         clearDraft(DIFF_CHECKER_DRAFT_KEY);
     };
@@ -260,6 +373,7 @@ const DiffChecker: React.FC = () => {
                             )}
                         </div>
                         <div className="hidden sm:flex items-center gap-2 text-[10px] font-bold uppercase tracking-[0.16em] text-slate-500">
+                            {mode === 'merge' && <span className="bg-slate-100 px-2 py-1 rounded">Base {baseLines} lines</span>}
                             <span className="bg-slate-100 px-2 py-1 rounded">Left {leftLines} lines</span>
                             <span className="bg-slate-100 px-2 py-1 rounded">Right {rightLines} lines</span>
                         </div>
@@ -269,34 +383,30 @@ const DiffChecker: React.FC = () => {
                         <div className="flex flex-wrap items-center gap-2">
                             <span className="text-sm font-semibold text-slate-700">Mode</span>
                             <div className="flex bg-slate-100 rounded-lg p-1 border border-slate-200/80">
-                                <button
-                                    onClick={() => setMode('text')}
-                                    className={`px-3 py-1.5 text-sm rounded-md transition-colors ${mode === 'text'
-                                        ? 'bg-white text-indigo-700 font-semibold shadow-sm border border-indigo-100'
-                                        : 'text-slate-600 hover:text-slate-900'
-                                        }`}
-                                >
-                                    Text
-                                </button>
-                                <button
-                                    onClick={() => setMode('json')}
-                                    className={`px-3 py-1.5 text-sm rounded-md transition-colors ${mode === 'json'
-                                        ? 'bg-white text-indigo-700 font-semibold shadow-sm border border-indigo-100'
-                                        : 'text-slate-600 hover:text-slate-900'
-                                        }`}
-                                >
-                                    JSON
-                                </button>
+                                {(Object.keys(MODE_LABELS) as DiffMode[]).map((value) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => setMode(value)}
+                                        className={`px-3 py-1.5 text-sm rounded-md transition-colors ${mode === value
+                                            ? 'bg-white text-indigo-700 font-semibold shadow-sm border border-indigo-100'
+                                            : 'text-slate-600 hover:text-slate-900'
+                                            }`}
+                                    >
+                                        {MODE_LABELS[value]}
+                                    </button>
+                                ))}
                             </div>
-                            <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-700 ml-1 bg-white border border-slate-200 rounded-lg px-3 h-9">
-                                <input
-                                    type="checkbox"
-                                    checked={ignoreWhitespace}
-                                    onChange={(e) => setIgnoreWhitespace(e.target.checked)}
-                                    className="w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
-                                />
-                                <span>Ignore whitespace</span>
-                            </label>
+                            {mode !== 'merge' && (
+                                <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-700 ml-1 bg-white border border-slate-200 rounded-lg px-3 h-9">
+                                    <input
+                                        type="checkbox"
+                                        checked={ignoreWhitespace}
+                                        onChange={(e) => setIgnoreWhitespace(e.target.checked)}
+                                        className="w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                                    />
+                                    <span>Ignore whitespace</span>
+                                </label>
+                            )}
                             {mode === 'json' && (
                                 <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-700 bg-white border border-slate-200 rounded-lg px-3 h-9">
                                     <input
@@ -308,12 +418,57 @@ const DiffChecker: React.FC = () => {
                                     <span>Sort keys</span>
                                 </label>
                             )}
+                            {mode === 'json' && (
+                                <div className="flex items-center gap-2 text-sm text-slate-700 bg-white border border-slate-200 rounded-lg px-3 h-9">
+                                    <span className="text-slate-500">Arrays</span>
+                                    <select
+                                        value={arrayMatch}
+                                        onChange={(e) => setDiffChecker({ arrayMatch: e.target.value as JsonArrayMatch })}
+                                        className="text-sm font-semibold text-slate-700 bg-transparent focus:outline-none cursor-pointer"
+                                        title="How array items are paired up"
+                                    >
+                                        {(Object.keys(ARRAY_MATCH_LABELS) as JsonArrayMatch[]).map((match) => (
+                                            <option key={match} value={match}>{ARRAY_MATCH_LABELS[match]}</option>
+                                        ))}
+                                    </select>
+                                    {arrayMatch === 'key' && (
+                                        <input
+                                            value={arrayKey}
+                                            onChange={(e) => setDiffChecker({ arrayKey: e.target.value })}
+                                            placeholder="id"
+                                            className="w-20 h-6 px-1.5 rounded border border-slate-200 font-mono text-xs focus:outline-none focus:border-indigo-300"
+                                            title="Identity key of array items, e.g. id or sku"
+                                        />
+                                    )}
+                                </div>
+                            )}
+                            {mode === 'json' && (
+                                <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-700 bg-white border border-slate-200 rounded-lg px-3 h-9">
+                                    <input
+                                        type="checkbox"
+                                        checked={ignoreArrayOrder}
+                                        onChange={(e) => setDiffChecker({ ignoreArrayOrder: e.target.checked })}
+                                        className="w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                                    />
+                                    <span>Ignore array order</span>
+                                </label>
+                            )}
                         </div>
                         <div className="flex flex-wrap items-center gap-2">
+                            {mode !== 'merge' && (
+                                <button
+                                    onClick={() => setIgnoreOpen(true)}
+                                    className={`btn-outline h-9 px-3 ${ignoreActive ? 'border-indigo-200 text-indigo-700' : ''}`}
+                                    title="Paths, lines and value differences to leave out"
+                                >
+                                    <Filter className="w-4 h-4" />
+                                    <span>Ignore rules{ignoreActive ? ' (on)' : ''}</span>
+                                </button>
+                            )}
                             <button
                                 onClick={handleSwap}
                                 className="btn-outline h-9 px-3"
-                                title="Swap left and right"
+                                title={mode === 'merge' ? 'Swap ours and theirs' : 'Swap left and right'}
                             >
                                 <GitCompare className="w-4 h-4" />
                                 <span>Swap</span>
@@ -329,7 +484,7 @@ const DiffChecker: React.FC = () => {
                                 </button>
                             )}
                             <button
-                                onClick={handleCompare}
+                                onClick={mode === 'merge' ? handleMerge : handleCompare}
                                 disabled={isLoading}
                                 className="btn-primary h-9 px-4 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
@@ -341,7 +496,7 @@ const DiffChecker: React.FC = () => {
                                 ) : (
                                     <>
                                         <GitCompare className="w-4 h-4" />
-                                        <span>Compare</span>
+                                        <span>{mode === 'merge' ? 'Merge' : 'Compare'}</span>
                                     </>
                                 )}
                             </button>
@@ -351,11 +506,53 @@ const DiffChecker: React.FC = () => {
             </div>
 
             <div className="flex-1 min-h-0 overflow-hidden premium-card">
-                {!diffResult ? (
-                    <div className="h-full grid grid-cols-1 xl:grid-cols-2 gap-3 p-3 min-h-0">
+                {mergeResult ? (
+                    <div className="h-full flex flex-col min-h-0">
+                        <div className="px-3 py-2.5 border-b border-slate-200 bg-white/90 flex items-center justify-between">
+                            <div className="flex items-center space-x-2">
+                                <GitMerge className="w-5 h-5 text-indigo-600" />
+                                <h2 className="text-sm font-bold text-slate-900 uppercase tracking-tight">Three-way Merge</h2>
+                            </div>
+                            <button
+                                onClick={() => setMergeResult(null)}
+                                className="btn-secondary h-8 px-3 text-xs font-bold"
+                            >
+                                BACK TO EDIT
+                            </button>
+                        </div>
+                        <div className="flex-1 min-h-0">
+                            <ThreeWayMergeView key={compareCount} result={mergeResult} />
+                        </div>
+                    </div>
+                ) : !diffResult ? (
+                    <div className={`h-full grid grid-cols-1 ${mode === 'merge' ? 'xl:grid-cols-3' : 'xl:grid-cols-2'} gap-3 p-3 min-h-0`}>
+                        {mode === 'merge' && (
+                            <div className="flex flex-col space-y-2 min-h-0">
+                                <div className="flex items-center justify-between px-1.5">
+                                    <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.18em]">Base</h2>
+                                    <span className="text-[10px] font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 px-2 py-0.5 rounded">
+                                        {baseLines} lines
+                                    </span>
+                                </div>
+                                <div className="flex-1 min-h-0 border border-slate-200 rounded-xl overflow-hidden bg-white shadow-[inset_0_1px_0_rgba(255,255,255,0.65)]">
+                                    <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-slate-500">Loading editor...</div>}>
+                                        <MonacoEditor
+                                            height="100%"
+                                            language="plaintext"
+                                            path="diffchecker-base-input"
+                                            value={localBase}
+                                            onChange={(val) => setLocalBase(val || '')}
+                                            theme="light"
+                                            keepCurrentModel={true}
+                                            options={commonOptions}
+                                        />
+                                    </Suspense>
+                                </div>
+                            </div>
+                        )}
                         <div className="flex flex-col space-y-2 min-h-0">
                             <div className="flex items-center justify-between px-1.5">
-                                <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.18em]">Original Content</h2>
+                                <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.18em]">{mode === 'merge' ? 'Ours' : 'Original Content'}</h2>
                                 <span className="text-[10px] font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 px-2 py-0.5 rounded">
                                     {leftLines} lines
                                 </span>
@@ -378,7 +575,7 @@ const DiffChecker: React.FC = () => {
 
                         <div className="flex flex-col space-y-2 min-h-0">
                             <div className="flex items-center justify-between px-1.5">
-                                <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.18em]">Modified Content</h2>
+                                <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.18em]">{mode === 'merge' ? 'Theirs' : 'Modified Content'}</h2>
                                 <span className="text-[10px] font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 px-2 py-0.5 rounded">
                                     {rightLines} lines
                                 </span>
@@ -405,29 +602,91 @@ const DiffChecker: React.FC = () => {
                             <div className="flex items-center space-x-2">
                                 <GitCompare className="w-5 h-5 text-indigo-600" />
                                 <h2 className="text-sm font-bold text-slate-900 uppercase tracking-tight">Comparison Result</h2>
+                                {diffResult.ignoreRulesApplied && (
+                                    <span
+                                        className="text-[10px] font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 px-2 py-0.5 rounded"
+                                        title={diffResult.json
+                                            ? 'Compared after applying the path rules and normalisers; line patterns apply to text comparisons only'
+                                            : 'Compared after applying the ignore rules'}
+                                    >
+                                        Ignore rules applied
+                                    </span>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <div className="flex bg-slate-100 rounded-lg p-0.5 border border-slate-200/80">
+                                    {diffResult.json && (
+                                        <button
+                                            onClick={() => setResultView('changes')}
+                                            className={`h-7 px-2.5 flex items-center gap-1.5 text-xs rounded-md transition-colors ${activeView === 'changes'
+                                                ? 'bg-white text-indigo-700 font-semibold shadow-sm border border-indigo-100'
+                                                : 'text-slate-600 hover:text-slate-900'
+                                                }`}
+                                        >
+                                            <ListTree className="w-3.5 h-3.5" />
+                                            Changes
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setResultView('inline')}
+                                        className={`h-7 px-2.5 flex items-center gap-1.5 text-xs rounded-md transition-colors ${activeView === 'inline'
+                                            ? 'bg-white text-indigo-700 font-semibold shadow-sm border border-indigo-100'
+                                            : 'text-slate-600 hover:text-slate-900'
+                                            }`}
+                                    >
+                                        <AlignLeft className="w-3.5 h-3.5" />
+                                        Inline
+                                    </button>
+                                    <button
+                                        onClick={() => setResultView('side-by-side')}
+                                        className={`h-7 px-2.5 flex items-center gap-1.5 text-xs rounded-md transition-colors ${activeView === 'side-by-side'
+                                            ? 'bg-white text-indigo-700 font-semibold shadow-sm border border-indigo-100'
+                                            : 'text-slate-600 hover:text-slate-900'
+                                            }`}
+                                    >
+                                        <Columns2 className="w-3.5 h-3.5" />
+                                        Side by side
+                                    </button>
+                                </div>
+                                <button
+                                    onClick={() => setDiffResult(null)}
+                                    className="btn-secondary h-8 px-3 text-xs font-bold"
+                                >
+                                    BACK TO EDIT
+                                </button>
                             </div>
-                            <button
-                                onClick={() => setDiffResult(null)}
-                                className="btn-secondary h-8 px-3 text-xs font-bold"
-                            >
-                                BACK TO EDIT
-                            </button>
                         </div>
+                        {diffResult.jsonError && (
+                            <p className="mx-3 mt-2 text-xs font-semibold text-amber-800 bg-amber-50 border border-amber-100 rounded-md px-2 py-1.5">
+                                Compared as text. {diffResult.jsonError}
+                            </p>
+                        )}
+                        {diffResult.mode !== WORKER_MODES[comparedMode] && (
+                            <p className="mx-3 mt-2 text-xs font-semibold text-amber-800 bg-amber-50 border border-amber-100 rounded-md px-2 py-1.5">
+                                Compared by line: the inputs are too large for a {MODE_LABELS[comparedMode]} diff.
+                            </p>
+                        )}
                         <div className="flex-1 min-h-0">
-                            <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-slate-500">Loading diff view...</div>}>
-                                <MonacoDiffEditor
-                                    height="100%"
-                                    original={localText1}
-                                    modified={localText2}
-                                    originalModelPath="diffchecker-original-model"
-                                    modifiedModelPath="diffchecker-modified-model"
-                                    language={mode === 'json' ? 'json' : 'plaintext'}
-                                    theme="light"
-                                    keepCurrentOriginalModel={true}
-                                    keepCurrentModifiedModel={true}
-                                    options={diffOptions}
-                                />
-                            </Suspense>
+                            {activeView === 'changes' && diffResult.json ? (
+                                <JsonDiffTree key={compareCount} report={diffResult.json} />
+                            ) : activeView === 'inline' ? (
+                                <TextDiffView key={compareCount} changes={diffResult.changes} lines={diffResult.lines} />
+                            ) : (
+                                <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-slate-500">Loading diff view...</div>}>
+                                    <MonacoDiffEditor
+                                        height="100%"
+                                        original={diffResult.original ?? localText1}
+                                        modified={diffResult.modified ?? localText2}
+                                        originalModelPath="diffchecker-original-model"
+                                        modifiedModelPath="diffchecker-modified-model"
+                                        language={mode === 'json' ? 'json' : 'plaintext'}
+                                        theme="light"
+                                        keepCurrentOriginalModel={true}
+                                        keepCurrentModifiedModel={true}
+                                        options={diffOptions}
+                                    />
+                                </Suspense>
+                            )}
                         </div>
                     </div>
                 )}
@@ -441,6 +700,15 @@ const DiffChecker: React.FC = () => {
                     </div>
                 </div>
             )}
+
+            <DiffIgnoreRulesDialog
+                open={ignoreOpen}
+                onOpenChange={setIgnoreOpen}
+                rules={ignoreRules}
+                onRulesChange={(rules) => setDiffChecker({ ignoreRules: rules })}
+                presets={ignorePresets}
+                onPresetsChange={handleIgnorePresetsChange}
+            />
         </div>
     );
 };
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import type { DiffIgnorePreset, DiffIgnoreRules, DiffNormalizers } from '../../types/diff';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { DIFF_IGNORE_DEFAULTS } from '../../constants';
+
+interface DiffIgnoreRulesDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    rules: DiffIgnoreRules;
+    onRulesChange: (rules: DiffIgnoreRules) => void;
+    presets: DiffIgnorePreset[];
+    onPresetsChange: (presets: DiffIgnorePreset[]) => void;
+}
+
+/**
+ * Edits the Diff Checker's ignore rules: JSON path globs, text line
+ * patterns and value normalisers, with named presets. Rules take effect on
+ * the next compare.
+ */
+const DiffIgnoreRulesDialog: React.FC<DiffIgnoreRulesDialogProps> = ({
+    open,
+    onOpenChange,
+    rules,
+    onRulesChange,
+    presets,
+    onPresetsChange,
+}) => {
+    const [presetName, setPresetName] = useState('');
+    const update = (patch: Partial<DiffIgnoreRules>) => onRulesChange({ ...rules, ...patch });
+    const updateNormalizers = (patch: Partial<DiffNormalizers>) => update({ normalizers: { ...rules.normalizers, ...patch } });
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        onPresetsChange([...presets.filter((preset) => preset.name !== name), { name, rules }]);
+        setPresetName('');
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl bg-white">
+                <DialogHeader>
+                    <DialogTitle>Ignore rules</DialogTitle>
+                    <DialogDescription>
+                        Left out of the comparison on both sides. Rules apply from the next compare.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col gap-2">
+                    <span className="text-[11px] font-bold uppercase tracking-wider text-slate-400">Presets</span>
+                    <div className="flex flex-wrap items-center gap-1.5">
+                        {presets.length === 0 && <span className="text-xs text-slate-500">No presets saved.</span>}
+                        {presets.map((preset) => (
+                            <span key={preset.name} className="flex items-center rounded-md border border-slate-200 bg-slate-50 text-xs font-semibold text-slate-700">
+                                <button onClick={() => onRulesChange(preset.rules)} className="px-2 h-7 hover:text-indigo-700" title="Use these rules">
+                                    {preset.name}
+                                </button>
+                                <button
+                                    onClick={() => onPresetsChange(presets.filter((candidate) => candidate.name !== preset.name))}
+                                    className="px-1.5 h-7 text-slate-400 hover:text-red-600"
+                                    title="Delete preset"
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input
+                            value={presetName}
+                            onChange={(e) => setPresetName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                            placeholder="Preset name"
+                            className="modern-input h-8 px-2 text-xs flex-1"
+                        />
+                        <button onClick={handleSavePreset} disabled={!presetName.trim()} className="btn-secondary h-8 px-2.5 disabled:opacity-50" title="Save the current rules as a preset">
+                            <Save className="w-3.5 h-3.5" />
+                            <span className="text-xs font-semibold">Save preset</span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+                        JSON paths, one per line
+                        <textarea
+                            value={rules.paths.join('\n')}
+                            onChange={(e) => update({ paths: e.target.value.split('\n') })}
+                            placeholder={'**.updatedAt\nitems[*].etag\n/meta/requestId'}
+                            rows={6}
+                            className="modern-input px-2 py-1.5 font-mono text-xs resize-y"
+                        />
+                        <span className="font-normal text-slate-500">
+                            <code>*</code> matches one key or index, <code>**</code> any depth.
+                        </span>
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+                        Text lines matching, one regex per line
+                        <textarea
+                            value={rules.linePatterns.join('\n')}
+                            onChange={(e) => update({ linePatterns: e.target.value.split('\n') })}
+                            placeholder={'^Date:\n/^x-request-id:/i'}
+                            rows={6}
+                            className="modern-input px-2 py-1.5 font-mono text-xs resize-y"
+                        />
+                        <span className="font-normal text-slate-500">
+                            Text comparisons only: JSON mode uses them just for input that is not valid JSON, so use paths there. <code>/regex/flags</code> sets flags.
+                        </span>
+                    </label>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 text-xs font-semibold text-slate-600">
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={rules.normalizers.roundDecimals !== null}
+                            onChange={(e) => updateNormalizers({ roundDecimals: e.target.checked ? 2 : null })}
+                            className="w-3.5 h-3.5 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                        />
+                        Round numbers to
+                        <input
+                            type="number"
+                            min={0}
+                            max={20}
+                            value={rules.normalizers.roundDecimals ?? 2}
+                            disabled={rules.normalizers.roundDecimals === null}
+                            onChange={(e) => updateNormalizers({ roundDecimals: Math.min(20, Math.max(0, Math.trunc(Number(e.target.value)) || 0)) })}
+                            className="modern-input h-7 w-14 px-1.5 text-xs disabled:opacity-50"
+                        />
+                        decimals
+                    </label>
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={rules.normalizers.lowercase}
+                            onChange={(e) => updateNormalizers({ lowercase: e.target.checked })}
+                            className="w-3.5 h-3.5 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                        />
+                        Lowercase
+                    </label>
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={rules.normalizers.trim}
+                            onChange={(e) => updateNormalizers({ trim: e.target.checked })}
+                            className="w-3.5 h-3.5 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                        />
+                        Trim
+                    </label>
+                    <button onClick={() => onRulesChange(DIFF_IGNORE_DEFAULTS)} className="ml-auto btn-secondary h-8 px-2.5">
+                        <span className="text-xs font-semibold">Clear rules</span>
+                    </button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default DiffIgnoreRulesDialog;
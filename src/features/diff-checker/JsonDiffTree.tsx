@@ -0,0 +1,237 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Check, ChevronDown, ChevronsDownUp, ChevronsUpDown, Copy } from 'lucide-react';
+import type { JsonChangeKind, JsonDiffNode, JsonDiffReport, JsonDiffStatus } from '../../types/diff';
+import { copyToClipboard } from '../../utils/jsonUtils';
+import { describeJsonChange, previewJsonValue } from '../../utils/jsonDiff';
+
+interface JsonDiffTreeProps {
+    report: JsonDiffReport;
+}
+
+interface DiffRow {
+    node: JsonDiffNode;
+    depth: number;
+}
+
+const ROW_HEIGHT = 28;
+
+const CHANGE_KINDS: JsonChangeKind[] = ['added', 'removed', 'changed', 'moved'];
+
+const KIND_STYLES: Record<JsonChangeKind, { label: string; chip: string; row: string }> = {
+    added: { label: 'Added', chip: 'text-emerald-700 bg-emerald-50 border-emerald-200', row: 'bg-emerald-50/70' },
+    removed: { label: 'Removed', chip: 'text-red-700 bg-red-50 border-red-200', row: 'bg-red-50/70' },
+    changed: { label: 'Changed', chip: 'text-amber-700 bg-amber-50 border-amber-200', row: 'bg-amber-50/70' },
+    moved: { label: 'Moved', chip: 'text-sky-700 bg-sky-50 border-sky-200', row: 'bg-sky-50/70' },
+};
+
+const isChange = (status: JsonDiffStatus): status is JsonChangeKind => status !== 'unchanged' && status !== 'modified';
+
+/** Paths of the containers holding changes: the tree opens on every change. */
+const changedContainers = (node: JsonDiffNode, into: Set<string> = new Set()): Set<string> => {
+    if (node.status !== 'modified') return into;
+    into.add(node.path);
+    node.children?.forEach((child) => changedContainers(child, into));
+    return into;
+};
+
+/**
+ * Tree view of a structural JSON diff. Containers holding changes start
+ * expanded and unchanged branches collapsed; chips filter by change kind and
+ * unchanged values can be hidden altogether. Rows are virtualised.
+ */
+const JsonDiffTree: React.FC<JsonDiffTreeProps> = ({ report }) => {
+    const [kinds, setKinds] = useState<Set<JsonChangeKind>>(() => new Set(CHANGE_KINDS));
+    const [showUnchanged, setShowUnchanged] = useState(true);
+    const [expandedPaths, setExpandedPaths] = useState<Set<string>>(() => changedContainers(report.tree));
+    const [isCopied, setIsCopied] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(600);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const resizeObserver = new ResizeObserver((entries) => {
+            const nextHeight = entries[0]?.contentRect.height;
+            if (nextHeight) setViewportHeight(nextHeight);
+        });
+        resizeObserver.observe(container);
+        return () => resizeObserver.disconnect();
+    }, []);
+
+    // Changes of the selected kinds at or below each node.
+    const matchingCounts = useMemo(() => {
+        const counts = new Map<JsonDiffNode, number>();
+        const count = (node: JsonDiffNode): number => {
+            // A moved item holding changes is `modified` with a `from`.
+            const total = isChange(node.status)
+                ? (kinds.has(node.status) ? 1 : 0)
+                : (node.children ?? []).reduce((sum, child) => sum + count(child), node.from && kinds.has('moved') ? 1 : 0);
+            counts.set(node, total);
+            return total;
+        };
+        count(report.tree);
+        return counts;
+    }, [report, kinds]);
+
+    const rows = useMemo(() => {
+        const result: DiffRow[] = [];
+        const isVisible = (node: JsonDiffNode) => {
+            if (isChange(node.status)) return kinds.has(node.status);
+            if (node.status === 'unchanged') return showUnchanged;
+            return showUnchanged || (matchingCounts.get(node) ?? 0) > 0;
+        };
+        const walk = (node: JsonDiffNode, depth: number) => {
+            result.push({ node, depth });
+            if (!node.children || !expandedPaths.has(node.path)) return;
+            for (const child of node.children) {
+                if (isVisible(child)) walk(child, depth + 1);
+            }
+        };
+        walk(report.tree, 0);
+        return result;
+    }, [report, kinds, showUnchanged, expandedPaths, matchingCounts]);
+
+    const toggleKind = (kind: JsonChangeKind) => {
+        setKinds((prev) => {
+            const next = new Set(prev);
+            if (next.has(kind)) next.delete(kind);
+            else next.add(kind);
+            return next;
+        });
+    };
+
+    const toggleExpand = (path: string) => {
+        setExpandedPaths((prev) => {
+            const next = new Set(prev);
+            if (next.has(path)) next.delete(path);
+            else next.add(path);
+            return next;
+        });
+    };
+
+    const handleCopyReport = useCallback(async () => {
+        const lines = report.changes.filter((change) => kinds.has(change.kind)).map(describeJsonChange);
+        const copied = await copyToClipboard(lines.join('\n'));
+        if (!copied) return;
+        setIsCopied(true);
+        window.setTimeout(() => setIsCopied(false), 1600);
+    }, [report, kinds]);
+
+    const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - 5);
+    const endIndex = Math.min(rows.length, Math.floor((scrollTop + viewportHeight) / ROW_HEIGHT) + 5);
+
+    const renderValue = (node: JsonDiffNode) => {
+        if (node.status === 'added') return <span className="text-emerald-700">{previewJsonValue(node.right!, 120)}</span>;
+        if (node.status === 'removed') return <span className="text-red-700 line-through">{previewJsonValue(node.left!, 120)}</span>;
+        if (node.status === 'changed') {
+            return (
+                <>
+                    <span className="text-red-700 line-through">{previewJsonValue(node.left!, 60)}</span>
+                    <span className="text-slate-400 mx-1.5">→</span>
+                    <span className="text-emerald-700">{previewJsonValue(node.right!, 60)}</span>
+                </>
+            );
+        }
+        if (node.children) {
+            const unit = node.type === 'array' ? 'items' : 'props';
+            return (
+                <span className="text-[10px] font-bold uppercase text-slate-400">
+                    {node.children.length.toLocaleString()} {unit}
+                    {node.changeCount > 0 && <span className="ml-2 text-indigo-600">{node.changeCount.toLocaleString()} {node.changeCount === 1 ? 'change' : 'changes'}</span>}
+                </span>
+            );
+        }
+        return <span className="text-slate-500">{previewJsonValue(node.left!, 120)}</span>;
+    };
+
+    return (
+        <div className="h-full flex flex-col min-h-0">
+            <div className="px-3 py-2 border-b border-slate-200 bg-white/90 flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-1.5">
+                    {CHANGE_KINDS.map((kind) => (
+                        <button
+                            key={kind}
+                            onClick={() => toggleKind(kind)}
+                            className={`h-7 px-2.5 rounded-md border text-[11px] font-bold transition-opacity ${KIND_STYLES[kind].chip} ${kinds.has(kind) ? '' : 'opacity-40'}`}
+                            title={`${kinds.has(kind) ? 'Hide' : 'Show'} ${kind} values`}
+                        >
+                            {KIND_STYLES[kind].label} {report.counts[kind].toLocaleString()}
+                        </button>
+                    ))}
+                    <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-slate-600 ml-1">
+                        <input
+                            type="checkbox"
+                            checked={showUnchanged}
+                            onChange={(e) => setShowUnchanged(e.target.checked)}
+                            className="w-3.5 h-3.5 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                        />
+                        Show unchanged
+                    </label>
+                </div>
+                <div className="flex items-center gap-1.5">
+                    <button onClick={() => setExpandedPaths(changedContainers(report.tree))} className="btn-secondary h-7 px-2" title="Expand every change, collapse unchanged branches">
+                        <ChevronsUpDown className="w-3.5 h-3.5" />
+                        <span className="text-[11px] font-semibold">Changes</span>
+                    </button>
+                    <button onClick={() => setExpandedPaths(new Set(['']))} className="btn-secondary h-7 px-2" title="Collapse all">
+                        <ChevronsDownUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => void handleCopyReport()} disabled={report.changes.length === 0} className="btn-secondary h-7 px-2 disabled:opacity-50" title="Copy the change report as text">
+                        {isCopied ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+                        <span className="text-[11px] font-semibold">{isCopied ? 'Copied' : 'Copy report'}</span>
+                    </button>
+                </div>
+            </div>
+
+            {report.changes.length === 0 && (
+                <p className="mx-3 mt-2 text-xs font-semibold text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-md px-2 py-1.5">
+                    The documents are structurally identical.
+                </p>
+            )}
+
+            <div
+                ref={containerRef}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                className="flex-1 min-h-0 overflow-auto custom-scrollbar relative p-2"
+            >
+                <div style={{ height: rows.length * ROW_HEIGHT, minWidth: '100%', width: 'max-content', position: 'relative' }}>
+                    {rows.slice(startIndex, endIndex).map(({ node, depth }, i) => {
+                        const isExpanded = expandedPaths.has(node.path);
+                        return (
+                            <div
+                                // A removed array item can share its index with an item of the right document.
+                                key={node.status === 'removed' ? `-${node.path}` : node.path}
+                                className={`absolute left-0 min-w-full w-max flex items-center px-2 rounded-md font-mono text-xs ${isChange(node.status) ? KIND_STYLES[node.status].row : ''}`}
+                                style={{ top: 0, transform: `translateY(${(startIndex + i) * ROW_HEIGHT}px)`, height: ROW_HEIGHT, paddingLeft: depth * 20 + 8 }}
+                                title={node.path || '/'}
+                            >
+                                <button
+                                    onClick={() => toggleExpand(node.path)}
+                                    className={`p-1 rounded hover:bg-white ${node.children?.length ? '' : 'invisible'}`}
+                                >
+                                    <ChevronDown className={`w-3.5 h-3.5 text-gray-400 transition-transform ${isExpanded ? '' : '-rotate-90'}`} />
+                                </button>
+                                <span className="font-bold text-slate-800 mr-2 shrink-0">
+                                    {node.path ? node.key : '(root)'}
+                                    <span className="text-gray-300 ml-1">:</span>
+                                </span>
+                                <span className="whitespace-nowrap">{renderValue(node)}</span>
+                                {node.from !== undefined && (
+                                    <span className="ml-2 text-[10px] font-semibold text-sky-700 whitespace-nowrap">from {node.from || '/'}</span>
+                                )}
+                                {isChange(node.status) && (
+                                    <span className={`ml-2 text-[9px] font-black uppercase tracking-wider ${KIND_STYLES[node.status].chip} border rounded px-1`}>
+                                        {node.status}
+                                    </span>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default JsonDiffTree;
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { DiffLine, DiffLineSegment } from '../../types/diff';
+
+interface TextDiffViewProps {
+    /** Word / character diff parts, shown inline */
+    changes: Array<{ value: string; added?: boolean; removed?: boolean }>;
+    /** Line diff with character highlights; takes precedence over `changes` */
+    lines?: DiffLine[];
+}
+
+const ROW_HEIGHT = 22;
+
+const LINE_STYLES: Record<DiffLine['kind'], { row: string; marker: string; highlight: string }> = {
+    unchanged: { row: '', marker: ' ', highlight: '' },
+    added: { row: 'bg-emerald-50', marker: '+', highlight: 'bg-emerald-200/80 rounded-sm' },
+    removed: { row: 'bg-red-50', marker: '-', highlight: 'bg-red-200/80 rounded-sm' },
+};
+
+const renderSegments = (segments: DiffLineSegment[], highlight: string) =>
+    segments.map((segment, index) => (
+        <span key={index} className={segment.changed ? highlight : undefined}>{segment.value}</span>
+    ));
+
+/** Unified line diff; modified line pairs highlight the characters that changed. Rows are virtualised. */
+const LineDiffView: React.FC<{ lines: DiffLine[] }> = ({ lines }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(600);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const resizeObserver = new ResizeObserver((entries) => {
+            const nextHeight = entries[0]?.contentRect.height;
+            if (nextHeight) setViewportHeight(nextHeight);
+        });
+        resizeObserver.observe(container);
+        return () => resizeObserver.disconnect();
+    }, []);
+
+    const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - 10);
+    const endIndex = Math.min(lines.length, Math.floor((scrollTop + viewportHeight) / ROW_HEIGHT) + 10);
+
+    return (
+        <div
+            ref={containerRef}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            className="h-full overflow-auto custom-scrollbar relative"
+        >
+            <div style={{ height: lines.length * ROW_HEIGHT, minWidth: '100%', width: 'max-content', position: 'relative' }}>
+                {lines.slice(startIndex, endIndex).map((line, i) => {
+                    const style = LINE_STYLES[line.kind];
+                    return (
+                        <div
+                            key={startIndex + i}
+                            className={`absolute left-0 min-w-full w-max flex items-center font-mono text-xs ${style.row}`}
+                            style={{ top: 0, transform: `translateY(${(startIndex + i) * ROW_HEIGHT}px)`, height: ROW_HEIGHT }}
+                        >
+                            <span className="w-12 shrink-0 pr-2 text-right text-slate-400 select-none">{line.leftLine ?? ''}</span>
+                            <span className="w-12 shrink-0 pr-2 text-right text-slate-400 select-none">{line.rightLine ?? ''}</span>
+                            <span className="w-5 shrink-0 text-center font-bold text-slate-500 select-none">{style.marker}</span>
+                            <span className="whitespace-pre pr-4 text-slate-800">
+                                {line.segments ? renderSegments(line.segments, style.highlight) : line.text}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Inline diff of two texts. Line results render as a unified diff with
+ * line numbers; word and character results render as one flowing text with
+ * insertions and deletions marked in place.
+ */
+const TextDiffView: React.FC<TextDiffViewProps> = ({ changes, lines }) => {
+    if (lines) return <LineDiffView lines={lines} />;
+    return (
+        <div className="h-full overflow-auto custom-scrollbar p-4">
+            <pre className="font-mono text-xs leading-5 text-slate-800 whitespace-pre-wrap break-words">
+                {changes.map((change, index) => {
+                    if (change.added) return <ins key={index} className="no-underline bg-emerald-100 text-emerald-800 rounded-sm">{change.value}</ins>;
+                    if (change.removed) return <del key={index} className="bg-red-100 text-red-700 rounded-sm">{change.value}</del>;
+                    return <span key={index}>{change.value}</span>;
+                })}
+            </pre>
+        </div>
+    );
+};
+
+export default TextDiffView;
@@ -0,0 +1,180 @@
+import React, { Suspense, lazy, useMemo, useState } from 'react';
+import { Check, Copy, Download } from 'lucide-react';
+import type { MergeHunk, MergeHunkKind, MergeResolution } from '../../types/diff';
+import type { MergeResult } from '../../workers/diff.worker';
+import { buildMergedText, defaultMergeResolution, replaceMergeHunk } from '../../utils/threeWayMerge';
+import { copyToClipboard } from '../../utils/jsonUtils';
+import { buildDownloadFileName } from '../../utils/fileName';
+
+interface ThreeWayMergeViewProps {
+    result: MergeResult;
+}
+
+const MonacoEditor = lazy(() => import('@monaco-editor/react').then((mod) => ({ default: mod.default })));
+
+const KIND_STYLES: Record<Exclude<MergeHunkKind, 'unchanged'>, { label: string; chip: string; card: string }> = {
+    ours: { label: 'Changed in ours', chip: 'text-indigo-700 bg-indigo-50 border-indigo-200', card: 'border-slate-200' },
+    theirs: { label: 'Changed in theirs', chip: 'text-sky-700 bg-sky-50 border-sky-200', card: 'border-slate-200' },
+    same: { label: 'Same change', chip: 'text-emerald-700 bg-emerald-50 border-emerald-200', card: 'border-slate-200' },
+    conflict: { label: 'Conflict', chip: 'text-red-700 bg-red-50 border-red-200', card: 'border-red-200' },
+};
+
+const RESOLUTION_LABELS: Record<MergeResolution, string> = {
+    ours: 'Accept ours',
+    theirs: 'Accept theirs',
+    both: 'Accept both',
+};
+
+const HunkLines: React.FC<{ label: string; lines: string[] }> = ({ label, lines }) => (
+    <div className="min-w-0 flex flex-col">
+        <span className="px-2 pt-1 text-[9px] font-black uppercase tracking-wider text-slate-400">{label}</span>
+        <pre className="px-2 pb-1.5 max-h-40 overflow-auto custom-scrollbar font-mono text-xs text-slate-800 whitespace-pre">
+            {lines.length ? lines.join('\n') : <span className="italic text-slate-400">(no lines)</span>}
+        </pre>
+    </div>
+);
+
+/**
+ * Resolves a three-way merge hunk by hunk. Changes made on one side start
+ * accepted and conflicts start unresolved, written with conflict markers.
+ * The result can be edited freely: choosing a resolution rewrites only that
+ * hunk's lines, and asks before rebuilding the result when they were edited.
+ */
+const ThreeWayMergeView: React.FC<ThreeWayMergeViewProps> = ({ result }) => {
+    const { hunks } = result;
+    const [resolutions, setResolutions] = useState(() => hunks.map(defaultMergeResolution));
+    const [mergedText, setMergedText] = useState(() => buildMergedText(hunks, resolutions));
+    const [isCopied, setIsCopied] = useState(false);
+    const changed = useMemo(
+        () => hunks.flatMap((hunk, index) => (hunk.kind === 'unchanged' ? [] : [{ hunk, index }])),
+        [hunks]
+    );
+    const unresolved = resolutions.filter((resolution, index) => resolution === null && hunks[index].kind === 'conflict').length;
+    // Configs are mostly JSON: highlight and export as JSON when the base looks like it.
+    const [isJson] = useState(() => /^\s*[[{]/.test(hunks[0]?.base.join('\n') ?? ''));
+
+    const resolve = (index: number, resolution: MergeResolution) => {
+        const next = resolutions.map((current, i) => (i === index ? resolution : current));
+        const rebuilt = buildMergedText(hunks, next);
+        const isEdited = mergedText !== buildMergedText(hunks, resolutions);
+        let text = isEdited ? replaceMergeHunk(mergedText, hunks, resolutions, index, resolution) : rebuilt;
+        if (text === null) {
+            if (!window.confirm('This change was edited in the merge result. Rebuild the result from the hunks? Your edits will be lost.')) return;
+            text = rebuilt;
+        }
+        setResolutions(next);
+        setMergedText(text);
+    };
+
+    const handleCopy = async () => {
+        const copied = await copyToClipboard(mergedText);
+        if (!copied) return;
+        setIsCopied(true);
+        window.setTimeout(() => setIsCopied(false), 1400);
+    };
+
+    const handleExport = () => {
+        if (unresolved > 0 && !window.confirm(`${unresolved} ${unresolved === 1 ? 'conflict is' : 'conflicts are'} still unresolved. Export anyway?`)) {
+            return;
+        }
+        const blob = new Blob([mergedText], { type: isJson ? 'application/json' : 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = buildDownloadFileName('merged', isJson ? 'json' : 'txt');
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const renderHunk = (hunk: MergeHunk, index: number) => {
+        const style = KIND_STYLES[hunk.kind as Exclude<MergeHunkKind, 'unchanged'>];
+        return (
+            <div key={index} className={`rounded-lg border bg-white ${style.card}`}>
+                <div className="px-2 py-1.5 border-b border-slate-100 flex flex-wrap items-center gap-2">
+                    <span className="text-[11px] font-semibold text-slate-500">Base line {hunk.baseLine}</span>
+                    <span className={`text-[9px] font-black uppercase tracking-wider border rounded px-1 ${style.chip}`}>{style.label}</span>
+                    <div className="ml-auto flex items-center gap-1">
+                        {(Object.keys(RESOLUTION_LABELS) as MergeResolution[]).map((resolution) => (
+                            <button
+                                key={resolution}
+                                onClick={() => resolve(index, resolution)}
+                                className={`h-6 px-2 rounded-md border text-[11px] font-semibold transition-colors ${resolutions[index] === resolution
+                                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                                    : 'bg-white border-slate-200 text-slate-600 hover:text-slate-900'
+                                    }`}
+                            >
+                                {RESOLUTION_LABELS[resolution]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 divide-x divide-slate-100">
+                    <HunkLines label="Ours" lines={hunk.ours} />
+                    <HunkLines label="Theirs" lines={hunk.theirs} />
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="h-full grid grid-cols-1 xl:grid-cols-2 min-h-0">
+            <div className="flex flex-col min-h-0 border-b xl:border-b-0 xl:border-r border-slate-200">
+                <div className="px-3 py-2 border-b border-slate-200 bg-white/90 flex flex-wrap items-center gap-2 text-xs font-semibold text-slate-600">
+                    <span>{changed.length.toLocaleString()} {changed.length === 1 ? 'change' : 'changes'}</span>
+                    <span className={result.conflicts > 0 ? 'text-red-700' : 'text-emerald-700'}>
+                        {result.conflicts.toLocaleString()} {result.conflicts === 1 ? 'conflict' : 'conflicts'}
+                        {result.conflicts > 0 && `, ${unresolved.toLocaleString()} unresolved`}
+                    </span>
+                </div>
+                <div className="flex-1 min-h-0 overflow-auto custom-scrollbar p-3 flex flex-col gap-2 bg-slate-50/60">
+                    {changed.length === 0 && (
+                        <p className="text-xs font-semibold text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-md px-2 py-1.5">
+                            Neither version changes the base.
+                        </p>
+                    )}
+                    {changed.map(({ hunk, index }) => renderHunk(hunk, index))}
+                </div>
+            </div>
+
+            <div className="flex flex-col min-h-0">
+                <div className="px-3 py-2 border-b border-slate-200 bg-white/90 flex items-center justify-between gap-2">
+                    <span className="text-[10px] font-black text-slate-500 uppercase tracking-[0.18em]">Merge result</span>
+                    <div className="flex items-center gap-1.5">
+                        <button onClick={() => void handleCopy()} className="btn-secondary h-7 px-2" title="Copy the merged document">
+                            {isCopied ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+                            <span className="text-[11px] font-semibold">{isCopied ? 'Copied' : 'Copy'}</span>
+                        </button>
+                        <button onClick={handleExport} className="btn-secondary h-7 px-2" title="Download the merged document">
+                            <Download className="w-3.5 h-3.5" />
+                            <span className="text-[11px] font-semibold">Export</span>
+                        </button>
+                    </div>
+                </div>
+                <div className="flex-1 min-h-0">
+                    <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-slate-500">Loading editor...</div>}>
+                        <MonacoEditor
+                            height="100%"
+                            language={isJson ? 'json' : 'plaintext'}
+                            path="diffchecker-merge-result"
+                            value={mergedText}
+                            onChange={(val) => setMergedText(val || '')}
+                            theme="light"
+                            options={{
+                                minimap: { enabled: false },
+                                fontSize: 13,
+                                scrollBeyondLastLine: false,
+                                automaticLayout: true,
+                                wordWrap: 'on',
+                                padding: { top: 16, bottom: 16 },
+                            }}
+                        />
+                    </Suspense>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ThreeWayMergeView;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { AlertTriangle, Bookmark, Crosshair, Trash2, X } from 'lucide-react';
+import type { JsonBookmark } from '../../types/json';
+import { formatNodePath } from '../../utils/nodePath';
+
+interface BookmarksPanelProps {
+    bookmarks: JsonBookmark[];
+    /** Paths of bookmarks whose node is not in the current document */
+    missing: Set<string>;
+    onJump: (bookmark: JsonBookmark) => void;
+    onNoteChange: (path: string, note: string) => void;
+    onRemove: (path: string) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+/**
+ * Bookmarks pane for the JSON Viewer: nodes bookmarked in the tree, each
+ * with an editable note and a jump that expands and scrolls to the node.
+ * Bookmarks whose node is no longer in the document are flagged.
+ */
+const BookmarksPanel: React.FC<BookmarksPanelProps> = ({ bookmarks, missing, onJump, onNoteChange, onRemove, onClear, onClose }) => (
+    <div className="flex flex-col gap-2 min-h-0 h-full">
+        <div className="flex items-end justify-between px-1 h-8">
+            <h2 className="text-lg font-bold text-slate-900 leading-none tracking-tight">Bookmarks</h2>
+            <span className="text-[11px] font-semibold text-slate-500">
+                {bookmarks.length.toLocaleString()} {bookmarks.length === 1 ? 'node' : 'nodes'}
+            </span>
+        </div>
+
+        <div className="premium-card p-2.5 flex items-center justify-between gap-2 ring-1 ring-white/40">
+            <p className="text-xs text-slate-500 min-w-0">Bookmark nodes from their row actions in the tree.</p>
+            <div className="flex items-center gap-2 shrink-0">
+                <button onClick={onClear} disabled={bookmarks.length === 0} className="btn-secondary h-9 px-3 disabled:opacity-50" title="Remove all bookmarks">
+                    <Trash2 className="w-4 h-4" />
+                </button>
+                <button onClick={onClose} className="btn-secondary h-9 px-3" title="Close bookmarks pane">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+
+        <div className="flex-1 premium-card panel-pattern overflow-hidden min-h-[12rem] ring-1 ring-white/40">
+            {bookmarks.length === 0 ? (
+                <div className="h-full flex flex-col items-center justify-center text-center gap-2 text-sm text-slate-500 p-4">
+                    <Bookmark className="w-6 h-6 text-amber-500/70" />
+                    No bookmarks yet.
+                </div>
+            ) : (
+                <div className="h-full overflow-auto custom-scrollbar divide-y divide-slate-100">
+                    {bookmarks.map((bookmark) => {
+                        const isMissing = missing.has(bookmark.path);
+                        return (
+                            <div key={bookmark.path} className="px-3 py-2 flex flex-col gap-1.5">
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <button
+                                        onClick={() => onJump(bookmark)}
+                                        disabled={isMissing}
+                                        className="font-mono text-[11px] text-sky-700 hover:text-sky-800 truncate text-left min-w-0 flex-1 disabled:text-slate-400 disabled:line-through"
+                                        title={isMissing ? 'Not in the current document' : 'Show in tree'}
+                                    >
+                                        {formatNodePath(bookmark.segments, 'jsonpath')}
+                                    </button>
+                                    {isMissing && (
+                                        <span className="flex items-center gap-1 text-[10px] font-semibold text-amber-700 shrink-0" title="The bookmarked node is not in the current document">
+                                            <AlertTriangle className="w-3 h-3" />
+                                            Missing
+                                        </span>
+                                    )}
+                                    <button onClick={() => onJump(bookmark)} disabled={isMissing} className="p-1 text-gray-400 hover:text-indigo-600 rounded disabled:opacity-40" title="Show in tree">
+                                        <Crosshair className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={() => onRemove(bookmark.path)} className="p-1 text-gray-400 hover:text-red-600 rounded" title="Remove bookmark">
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                                <textarea
+                                    value={bookmark.note}
+                                    onChange={(e) => onNoteChange(bookmark.path, e.target.value)}
+                                    placeholder="Add a note..."
+                                    rows={2}
+                                    className="modern-input w-full px-2 py-1.5 text-xs resize-y"
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    </div>
+);
+
+export default BookmarksPanel;
@@ -0,0 +1,177 @@
+import React, { lazy, Suspense, useEffect, useMemo, useState } from 'react';
+import { Check, Copy, Download, Loader2 } from 'lucide-react';
+import type { DocumentExportOptions } from '../../types/json';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { copyToClipboard } from '../../utils/jsonUtils';
+import { buildDownloadFileName } from '../../utils/fileName';
+import { DOCUMENT_EXPORT_DEFAULTS } from '../../constants';
+
+const MonacoEditor = lazy(() => import('@monaco-editor/react'));
+
+type ExportFormat = DocumentExportOptions['format'];
+
+interface DocumentExportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Serialises the visualized document; runs in the parser worker */
+    onExport: (options: DocumentExportOptions) => Promise<string>;
+    /** Export name without extension, e.g. the uploaded file's name */
+    baseName: string;
+}
+
+// Monaco has no TOML mode; INI highlighting is close enough.
+const FORMATS: Record<ExportFormat, { label: string; language: string; extension: string; mime: string }> = {
+    json: { label: 'JSON', language: 'json', extension: 'json', mime: 'application/json' },
+    yaml: { label: 'YAML', language: 'yaml', extension: 'yaml', mime: 'application/yaml' },
+    toml: { label: 'TOML', language: 'ini', extension: 'toml', mime: 'application/toml' },
+    xml: { label: 'XML', language: 'xml', extension: 'xml', mime: 'application/xml' },
+};
+
+/**
+ * Exports the visualized document as JSON, YAML, TOML or XML, with a
+ * preview of the output and copy / download.
+ */
+const DocumentExportDialog: React.FC<DocumentExportDialogProps> = ({ open, onOpenChange, onExport, baseName }) => {
+    const [options, setOptions] = useState<DocumentExportOptions>({ format: 'yaml', ...DOCUMENT_EXPORT_DEFAULTS });
+    // Every opening and option change is a new request; output of an older one is not shown.
+    const request = useMemo(() => ({ open, options }), [open, options]);
+    const [output, setOutput] = useState<{ request: typeof request; text: string; error: string | null } | null>(null);
+    const [isCopied, setIsCopied] = useState(false);
+    const config = FORMATS[options.format];
+    const isLoading = open && output?.request !== request;
+    const content = !isLoading && output && !output.error ? output.text : '';
+
+    useEffect(() => {
+        if (!request.open) return;
+        let cancelled = false;
+        onExport(request.options).then(
+            (text) => !cancelled && setOutput({ request, text, error: null }),
+            (err: unknown) => !cancelled && setOutput({ request, text: '', error: err instanceof Error ? err.message : String(err) })
+        );
+        return () => {
+            cancelled = true;
+        };
+    }, [request, onExport]);
+
+    const updateOptions = (patch: Partial<DocumentExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+    const handleCopy = async () => {
+        const copied = await copyToClipboard(content);
+        if (copied) {
+            setIsCopied(true);
+            window.setTimeout(() => setIsCopied(false), 1400);
+        }
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([content], { type: config.mime });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = buildDownloadFileName(baseName, config.extension);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl bg-white">
+                <DialogHeader>
+                    <DialogTitle>Export document</DialogTitle>
+                    <DialogDescription>
+                        XML attributes are keys starting with the prefix, element text is <code>#text</code>; TOML leaves out null properties.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="flex items-center gap-3 flex-wrap">
+                        <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1">
+                            {(Object.keys(FORMATS) as ExportFormat[]).map((format) => (
+                                <button
+                                    key={format}
+                                    onClick={() => updateOptions({ format })}
+                                    className={`h-7 px-3 rounded-md text-xs font-semibold transition-colors ${options.format === format ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-600 hover:text-slate-900'}`}
+                                >
+                                    {FORMATS[format].label}
+                                </button>
+                            ))}
+                        </div>
+                        {options.format !== 'toml' && (
+                            <select
+                                value={options.indent}
+                                onChange={(e) => updateOptions({ indent: Number(e.target.value) })}
+                                className="h-8 rounded-lg border border-slate-200 bg-white px-2 text-xs font-semibold text-slate-600 focus:outline-none"
+                                title="Indentation"
+                            >
+                                <option value={2}>2 spaces</option>
+                                <option value={4}>4 spaces</option>
+                            </select>
+                        )}
+                        {options.format === 'xml' && (
+                            <>
+                                <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-600">
+                                    Attribute prefix
+                                    <input
+                                        value={options.attributePrefix}
+                                        onChange={(e) => updateOptions({ attributePrefix: e.target.value })}
+                                        className="modern-input h-8 px-2 w-14 text-xs font-mono"
+                                    />
+                                </label>
+                                <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-600">
+                                    Array items
+                                    <input
+                                        value={options.arrayItemName}
+                                        onChange={(e) => updateOptions({ arrayItemName: e.target.value })}
+                                        className="modern-input h-8 px-2 w-24 text-xs font-mono"
+                                    />
+                                </label>
+                            </>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-1.5">
+                        <button onClick={handleCopy} disabled={!content} className="btn-secondary h-8 px-2.5 disabled:opacity-50">
+                            {isCopied ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+                            <span className="text-xs font-semibold">{isCopied ? 'Copied' : 'Copy'}</span>
+                        </button>
+                        <button onClick={handleDownload} disabled={!content} className="btn-secondary h-8 px-2.5 disabled:opacity-50">
+                            <Download className="w-3.5 h-3.5" />
+                            <span className="text-xs font-semibold">Download</span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="h-[60vh] rounded-lg border border-slate-200 overflow-hidden">
+                    {isLoading ? (
+                        <div className="h-full flex items-center justify-center gap-2 text-sm text-gray-500">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            Converting...
+                        </div>
+                    ) : output?.error ? (
+                        <p className="m-3 text-xs font-semibold text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1.5">{output.error}</p>
+                    ) : (
+                        <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-gray-500">Loading editor...</div>}>
+                            <MonacoEditor
+                                height="100%"
+                                language={config.language}
+                                value={content}
+                                theme="light"
+                                options={{
+                                    readOnly: true,
+                                    minimap: { enabled: false },
+                                    fontSize: 13,
+                                    automaticLayout: true,
+                                    padding: { top: 16, bottom: 16 },
+                                    scrollBeyondLastLine: false
+                                }}
+                            />
+                        </Suspense>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default DocumentExportDialog;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { ChevronDown, Hash, Minimize2, Wand2 } from 'lucide-react';
+import type { JsonFormatOptions } from '../../types/json';
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '../../components/ui/dropdown-menu';
+
+interface JsonFormatMenuProps {
+    options: JsonFormatOptions;
+    onOptionsChange: (options: JsonFormatOptions) => void;
+    /** Formats the source with `options`, overridden by `overrides` for one-off actions */
+    onFormat: (overrides?: Partial<JsonFormatOptions>) => void;
+}
+
+/**
+ * The viewer's Format button with a menu of format options (indentation,
+ * key and array sorting, Unicode escapes) and one-off Minify / Canonical
+ * JSON actions.
+ */
+const JsonFormatMenu: React.FC<JsonFormatMenuProps> = ({ options, onOptionsChange, onFormat }) => {
+    const update = (patch: Partial<JsonFormatOptions>) => onOptionsChange({ ...options, ...patch });
+
+    return (
+        <div className="flex items-center">
+            <button onClick={() => onFormat()} className="btn-secondary h-9 pl-3.5 pr-2.5 rounded-r-none">
+                <Wand2 className="w-4 h-4 text-amber-500" />
+                <span className="text-sm font-semibold">Format</span>
+            </button>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <button className="btn-secondary h-9 px-1.5 rounded-l-none border-l-0" title="Format options">
+                        <ChevronDown className="w-3.5 h-3.5" />
+                    </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-60 bg-white">
+                    <DropdownMenuItem onSelect={() => onFormat({ minify: true })}>
+                        <Minimize2 className="text-slate-500" />
+                        Minify
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onFormat({ canonical: true })}>
+                        <Hash className="text-slate-500" />
+                        Canonical JSON (RFC 8785)
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel className="text-[11px] font-bold uppercase tracking-wider text-slate-400">Indentation</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                        value={String(options.indent)}
+                        onValueChange={(value) => update({ indent: value === 'tab' ? 'tab' : Number(value) })}
+                    >
+                        <DropdownMenuRadioItem value="2" onSelect={(e) => e.preventDefault()}>2 spaces</DropdownMenuRadioItem>
+                        <DropdownMenuRadioItem value="4" onSelect={(e) => e.preventDefault()}>4 spaces</DropdownMenuRadioItem>
+                        <DropdownMenuRadioItem value="tab" onSelect={(e) => e.preventDefault()}>Tabs</DropdownMenuRadioItem>
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuCheckboxItem
+                        checked={options.sortKeys}
+                        onCheckedChange={(checked) => update({ sortKeys: checked })}
+                        onSelect={(e) => e.preventDefault()}
+                    >
+                        Sort keys
+                    </DropdownMenuCheckboxItem>
+                    <DropdownMenuCheckboxItem
+                        checked={options.escapeUnicode}
+                        onCheckedChange={(checked) => update({ escapeUnicode: checked })}
+                        onSelect={(e) => e.preventDefault()}
+                    >
+                        Escape non-ASCII characters
+                    </DropdownMenuCheckboxItem>
+                    <div className="px-2 py-1.5">
+                        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+                            Sort arrays of objects by key
+                            <input
+                                value={options.sortArraysBy}
+                                onChange={(e) => update({ sortArraysBy: e.target.value })}
+                                // Keeps typing from moving the menu's focus.
+                                onKeyDown={(e) => e.stopPropagation()}
+                                placeholder="e.g. id"
+                                className="modern-input h-7 px-2 text-xs font-mono"
+                            />
+                        </label>
+                    </div>
+                </DropdownMenuContent>
+            </DropdownMenu>
+        </div>
+    );
+};
+
+export default JsonFormatMenu;
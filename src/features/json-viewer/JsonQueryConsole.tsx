@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Check, Copy, FileSpreadsheet, Loader2, Play, Table as TableIcon, X } from 'lucide-react';
+import type { JsonNode, JsonValue, QueryLanguage, QueryResult } from '../../types/json';
+import { copyToClipboard } from '../../utils/jsonUtils';
+import { mapLosslessNumbers, stringifyJson } from '../../utils/losslessNumber';
+import { useAppStore } from '../../store/AppContext';
+import { ROUTES } from '../../config/routes';
+
+interface JsonQueryConsoleProps {
+    disabled: boolean;
+    /** The parsed document; a shown result is re-run when it is replaced */
+    tree: JsonNode | null;
+    onRun: (expression: string, language: QueryLanguage) => Promise<QueryResult>;
+    onResult: (result: QueryResult | null) => void;
+    onSelectMatch: (path: string) => void;
+}
+
+const PLACEHOLDERS: Record<QueryLanguage, string> = {
+    jsonpath: "$.users[?(@.status == 'failed')].user.id",
+    jmespath: "users[?status == 'failed'].user.id",
+};
+
+const previewValue = (value: JsonValue): string => {
+    const text = typeof value === 'string' ? `"${value}"` : stringifyJson(value);
+    return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+/**
+ * Query bar for the JSON Viewer.
+ *
+ * Runs JSONPath or JMESPath expressions in the parser worker and lists the
+ * matches. Located matches can be revealed in the tree; the full result set
+ * can be copied or handed to the JSON → CSV / Excel converters as rows.
+ * Results follow the document: a reparse or edit re-runs the last query.
+ */
+const JsonQueryConsole: React.FC<JsonQueryConsoleProps> = ({ disabled, tree, onRun, onResult, onSelectMatch }) => {
+    const navigate = useNavigate();
+    const { setJsonCsv, setJsonExcel } = useAppStore();
+    const [language, setLanguage] = useState<QueryLanguage>('jsonpath');
+    const [expression, setExpression] = useState('');
+    const [result, setResult] = useState<QueryResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [isCopied, setIsCopied] = useState(false);
+    // The query behind the shown result, and the document it ran on.
+    const lastRunRef = useRef<{ expression: string; language: QueryLanguage } | null>(null);
+    const queriedTreeRef = useRef(tree);
+    const runSeqRef = useRef(0);
+
+    const runQuery = useCallback(async (query: string, queryLanguage: QueryLanguage) => {
+        const requestId = ++runSeqRef.current;
+        setIsRunning(true);
+        setError(null);
+        try {
+            const next = await onRun(query, queryLanguage);
+            if (requestId !== runSeqRef.current) return;
+            lastRunRef.current = { expression: query, language: queryLanguage };
+            setResult(next);
+            onResult(next);
+        } catch (err: unknown) {
+            if (requestId !== runSeqRef.current) return;
+            lastRunRef.current = null;
+            setResult(null);
+            onResult(null);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            if (requestId === runSeqRef.current) setIsRunning(false);
+        }
+    }, [onRun, onResult]);
+
+    const handleRun = useCallback(async () => {
+        if (!expression.trim()) return;
+        await runQuery(expression, language);
+    }, [expression, language, runQuery]);
+
+    useEffect(() => {
+        if (tree === queriedTreeRef.current) return;
+        queriedTreeRef.current = tree;
+        const last = lastRunRef.current;
+        if (!last) return;
+        if (tree) {
+            void runQuery(last.expression, last.language);
+            return;
+        }
+        lastRunRef.current = null;
+        runSeqRef.current += 1;
+        setResult(null);
+        setIsRunning(false);
+        onResult(null);
+    }, [tree, runQuery, onResult]);
+
+    const handleClear = () => {
+        lastRunRef.current = null;
+        runSeqRef.current += 1;
+        setIsRunning(false);
+        setExpression('');
+        setResult(null);
+        setError(null);
+        onResult(null);
+    };
+
+    const buildResultJson = useCallback(() => {
+        if (!result) return '';
+        return stringifyJson(result.matches.map((match) => match.value), 2);
+    }, [result]);
+
+    // The converters read numbers as doubles: lossless numbers are handed over
+    // as their digits in strings, so the cells keep every digit.
+    const buildRowsJson = useCallback(() => {
+        if (!result) return '';
+        const values = result.matches.map((match) => match.value);
+        return JSON.stringify(mapLosslessNumbers(values, (number) => number.valueOf()), null, 2);
+    }, [result]);
+
+    const handleCopy = async () => {
+        const copied = await copyToClipboard(buildResultJson());
+        if (copied) {
+            setIsCopied(true);
+            window.setTimeout(() => setIsCopied(false), 1400);
+        }
+    };
+
+    const handleSendToCsv = () => {
+        setJsonCsv({ inputData: buildRowsJson(), mode: 'json-to-csv', file: null, isDirectMode: false, totalRows: null, isDirty: false });
+        navigate(ROUTES.JSON_CSV);
+    };
+
+    const handleSendToExcel = () => {
+        setJsonExcel({ inputData: buildRowsJson(), mode: 'json-to-excel', file: null, isDirectMode: false, totalRows: null, isDirty: false });
+        navigate(ROUTES.JSON_EXCEL);
+    };
+
+    return (
+        <div className="premium-card p-2.5 flex flex-col gap-2 ring-1 ring-white/40">
+            <div className="flex items-center gap-2">
+                <select
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value as QueryLanguage)}
+                    className="h-9 rounded-lg border border-slate-200 bg-white px-2 text-xs font-bold text-indigo-600 focus:outline-none"
+                    disabled={disabled}
+                >
+                    <option value="jsonpath">JSONPath</option>
+                    <option value="jmespath">JMESPath</option>
+                </select>
+                <input
+                    type="text"
+                    value={expression}
+                    onChange={(e) => setExpression(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') void handleRun();
+                    }}
+                    placeholder={PLACEHOLDERS[language]}
+                    className="modern-input h-9 px-3 w-full min-w-0 text-sm font-mono disabled:bg-gray-50"
+                    disabled={disabled}
+                />
+                <button
+                    onClick={() => void handleRun()}
+                    disabled={disabled || isRunning || !expression.trim()}
+                    className="btn-primary h-9 px-3 shrink-0 disabled:opacity-50"
+                    title="Run query"
+                >
+                    {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                    <span className="text-sm font-semibold">Run</span>
+                </button>
+                {(result || error) && (
+                    <button onClick={handleClear} className="btn-secondary h-9 px-3 shrink-0" title="Clear query">
+                        <X className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <p className="text-xs font-semibold text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1.5">{error}</p>
+            )}
+
+            {result && (
+                <div className="flex flex-col gap-1.5 min-h-0">
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-[11px] font-semibold text-slate-600">
+                            {result.count.toLocaleString()} {result.count === 1 ? 'match' : 'matches'}
+                            {result.truncated && ` • showing first ${result.matches.length.toLocaleString()}`}
+                        </span>
+                        <div className="flex items-center gap-1.5">
+                            <button onClick={handleCopy} disabled={result.matches.length === 0} className="btn-secondary h-7 px-2 disabled:opacity-50" title="Copy results as JSON">
+                                {isCopied ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+                                <span className="text-[11px] font-semibold">{isCopied ? 'Copied' : 'Copy'}</span>
+                            </button>
+                            <button onClick={handleSendToCsv} disabled={result.matches.length === 0} className="btn-secondary h-7 px-2 disabled:opacity-50" title="Open results in JSON → CSV">
+                                <TableIcon className="w-3.5 h-3.5 text-green-600" />
+                                <span className="text-[11px] font-semibold">CSV</span>
+                            </button>
+                            <button onClick={handleSendToExcel} disabled={result.matches.length === 0} className="btn-secondary h-7 px-2 disabled:opacity-50" title="Open results in JSON → Excel">
+                                <FileSpreadsheet className="w-3.5 h-3.5 text-emerald-600" />
+                                <span className="text-[11px] font-semibold">Excel</span>
+                            </button>
+                        </div>
+                    </div>
+                    <div className="max-h-40 overflow-auto custom-scrollbar rounded-lg border border-slate-200 bg-white/90 divide-y divide-slate-100">
+                        {result.matches.length === 0 ? (
+                            <p className="px-3 py-2 text-xs text-slate-500">No matches.</p>
+                        ) : result.matches.map((match, index) => (
+                            <button
+                                key={`${match.path ?? 'computed'}-${index}`}
+                                onClick={() => match.path !== null && onSelectMatch(match.path)}
+                                disabled={match.path === null}
+                                className="w-full text-left px-3 py-1.5 flex items-center gap-3 font-mono text-[11px] hover:bg-indigo-50/60 disabled:hover:bg-transparent disabled:cursor-default"
+                            >
+                                <span className="text-sky-700 shrink-0 max-w-[45%] truncate">{match.path === null ? '(computed)' : match.path || '(root)'}</span>
+                                <span className="text-slate-600 truncate">{previewValue(match.value)}</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default JsonQueryConsole;
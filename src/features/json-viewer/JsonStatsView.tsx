@@ -0,0 +1,215 @@
+import React, { useMemo } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { JsonNode, JsonStats, JsonStatsEntry } from '../../types/json';
+import { formatFileSize } from '../../utils/jsonUtils';
+
+interface JsonStatsViewProps {
+    stats: JsonStats | null;
+    isLoading: boolean;
+    error: string | null;
+    onSelect: (entry: JsonStatsEntry) => void;
+}
+
+interface TreemapRect {
+    entry: JsonStatsEntry;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const TREEMAP_WIDTH = 100;
+const TREEMAP_HEIGHT = 45;
+
+const TYPE_STYLES: Record<JsonNode['type'], { block: string; text: string }> = {
+    object: { block: 'bg-violet-100 border-violet-200 hover:bg-violet-200/80', text: 'text-violet-600' },
+    array: { block: 'bg-indigo-100 border-indigo-200 hover:bg-indigo-200/80', text: 'text-indigo-600' },
+    string: { block: 'bg-emerald-100 border-emerald-200 hover:bg-emerald-200/80', text: 'text-emerald-600' },
+    number: { block: 'bg-sky-100 border-sky-200 hover:bg-sky-200/80', text: 'text-sky-600' },
+    boolean: { block: 'bg-amber-100 border-amber-200 hover:bg-amber-200/80', text: 'text-amber-600' },
+    null: { block: 'bg-slate-100 border-slate-200 hover:bg-slate-200/80', text: 'text-slate-500' },
+};
+
+/**
+ * Squarified treemap layout (Bruls et al.): entries, largest first, are laid
+ * out in rows along the shorter side, adding to a row while that keeps its
+ * cells closer to square.
+ */
+const layoutTreemap = (entries: JsonStatsEntry[]): TreemapRect[] => {
+    const total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    if (total === 0) return [];
+    const scale = (TREEMAP_WIDTH * TREEMAP_HEIGHT) / total;
+    const rects: TreemapRect[] = [];
+    let x = 0;
+    let y = 0;
+    let width = TREEMAP_WIDTH;
+    let height = TREEMAP_HEIGHT;
+    let start = 0;
+
+    const worstRatio = (areas: number[], side: number) => {
+        const sum = areas.reduce((a, b) => a + b, 0);
+        const max = Math.max(...areas);
+        const min = Math.min(...areas);
+        return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+    };
+
+    while (start < entries.length) {
+        const side = Math.min(width, height);
+        const row = [entries[start].bytes * scale];
+        let end = start + 1;
+        while (end < entries.length && worstRatio([...row, entries[end].bytes * scale], side) <= worstRatio(row, side)) {
+            row.push(entries[end].bytes * scale);
+            end++;
+        }
+        const rowArea = row.reduce((a, b) => a + b, 0);
+        if (width >= height) {
+            const columnWidth = rowArea / height;
+            let offset = y;
+            row.forEach((area, i) => {
+                rects.push({ entry: entries[start + i], x, y: offset, width: columnWidth, height: area / columnWidth });
+                offset += area / columnWidth;
+            });
+            x += columnWidth;
+            width -= columnWidth;
+        } else {
+            const rowHeight = rowArea / width;
+            let offset = x;
+            row.forEach((area, i) => {
+                rects.push({ entry: entries[start + i], x: offset, y, width: area / rowHeight, height: rowHeight });
+                offset += area / rowHeight;
+            });
+            y += rowHeight;
+            height -= rowHeight;
+        }
+        start = end;
+    }
+    return rects;
+};
+
+const formatShare = (bytes: number, total: number) => (total > 0 ? `${((bytes / total) * 100).toFixed(1)}%` : '0%');
+
+/**
+ * Stats mode of the JSON Viewer: totals, a treemap of the root's children and
+ * the largest subtrees / arrays, plus key frequency. Every entry jumps to its
+ * node in the tree.
+ */
+const JsonStatsView: React.FC<JsonStatsViewProps> = ({ stats, isLoading, error, onSelect }) => {
+    const treemap = useMemo(() => (stats ? layoutTreemap(stats.rootChildren.filter((entry) => entry.bytes > 0)) : []), [stats]);
+
+    if (isLoading) {
+        return (
+            <div className="h-full flex items-center justify-center gap-2 text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Computing stats...
+            </div>
+        );
+    }
+    if (error) {
+        return <p className="text-xs font-semibold text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1.5">{error}</p>;
+    }
+    if (!stats) return null;
+
+    const summary = [
+        { label: 'Size', value: formatFileSize(stats.totalBytes) },
+        { label: 'Nodes', value: stats.totalNodes.toLocaleString() },
+        { label: 'Max depth', value: stats.maxDepth.toLocaleString() },
+        { label: 'Distinct keys', value: `${stats.distinctKeys.toLocaleString()}${stats.keysTruncated ? '+' : ''}` },
+    ];
+
+    const renderEntry = (entry: JsonStatsEntry, detail: string) => (
+        <button
+            key={entry.path}
+            onClick={() => onSelect(entry)}
+            className="w-full text-left px-3 py-1.5 flex items-center gap-3 font-mono text-[11px] hover:bg-indigo-50/60"
+        >
+            <span className="text-sky-700 truncate min-w-0 flex-1" title={entry.path}>{entry.path}</span>
+            <span className={`text-[9px] font-black uppercase shrink-0 ${TYPE_STYLES[entry.type].text}`}>{entry.type}</span>
+            <span className="text-slate-600 shrink-0 w-28 text-right">{detail}</span>
+        </button>
+    );
+
+    return (
+        <div className="h-full overflow-auto custom-scrollbar flex flex-col gap-4 pr-1">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {summary.map((item) => (
+                    <div key={item.label} className="rounded-lg border border-slate-200 bg-white/90 px-3 py-2">
+                        <p className="text-[10px] font-black uppercase tracking-[0.14em] text-slate-400">{item.label}</p>
+                        <p className="text-sm font-bold text-slate-900">{item.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+                {(Object.keys(stats.typeCounts) as JsonNode['type'][]).map((type) => (
+                    <span key={type} className={`px-2 py-0.5 rounded-md border text-[11px] font-semibold ${TYPE_STYLES[type].block}`}>
+                        <span className={TYPE_STYLES[type].text}>{type}</span>{' '}
+                        <span className="text-slate-700">{stats.typeCounts[type].toLocaleString()}</span>
+                    </span>
+                ))}
+            </div>
+
+            {treemap.length > 0 && (
+                <section className="flex flex-col gap-1.5">
+                    <h3 className="text-xs font-bold text-slate-700">Size by top-level entry</h3>
+                    <div className="relative w-full rounded-lg overflow-hidden border border-slate-200 bg-white" style={{ aspectRatio: `${TREEMAP_WIDTH} / ${TREEMAP_HEIGHT}` }}>
+                        {treemap.map(({ entry, x, y, width, height }) => (
+                            <button
+                                key={entry.path}
+                                onClick={() => onSelect(entry)}
+                                className={`absolute border text-left overflow-hidden p-1 transition-colors ${TYPE_STYLES[entry.type].block}`}
+                                style={{
+                                    left: `${(x / TREEMAP_WIDTH) * 100}%`,
+                                    top: `${(y / TREEMAP_HEIGHT) * 100}%`,
+                                    width: `${(width / TREEMAP_WIDTH) * 100}%`,
+                                    height: `${(height / TREEMAP_HEIGHT) * 100}%`,
+                                }}
+                                title={`${entry.path} · ${formatFileSize(entry.bytes)} (${formatShare(entry.bytes, stats.totalBytes)})`}
+                            >
+                                <span className="block font-mono text-[10px] font-bold text-slate-800 truncate">{entry.key}</span>
+                                <span className="block text-[10px] text-slate-500 truncate">{formatFileSize(entry.bytes)}</span>
+                            </button>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            <section className="flex flex-col gap-1.5">
+                <h3 className="text-xs font-bold text-slate-700">Largest subtrees</h3>
+                <div className="rounded-lg border border-slate-200 bg-white/90 divide-y divide-slate-100">
+                    {stats.largestSubtrees.map((entry) => renderEntry(
+                        entry,
+                        `${formatFileSize(entry.bytes)} · ${formatShare(entry.bytes, stats.totalBytes)}`
+                    ))}
+                </div>
+            </section>
+
+            {stats.largestArrays.length > 0 && (
+                <section className="flex flex-col gap-1.5">
+                    <h3 className="text-xs font-bold text-slate-700">Largest arrays</h3>
+                    <div className="rounded-lg border border-slate-200 bg-white/90 divide-y divide-slate-100">
+                        {stats.largestArrays.map((entry) => renderEntry(
+                            entry,
+                            `${entry.childCount.toLocaleString()} items · ${formatFileSize(entry.bytes)}`
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {stats.keyFrequency.length > 0 && (
+                <section className="flex flex-col gap-1.5">
+                    <h3 className="text-xs font-bold text-slate-700">Most frequent keys</h3>
+                    <div className="rounded-lg border border-slate-200 bg-white/90 divide-y divide-slate-100">
+                        {stats.keyFrequency.map(({ key, count }) => (
+                            <div key={key} className="px-3 py-1.5 flex items-center gap-3 font-mono text-[11px]">
+                                <span className="text-slate-800 truncate min-w-0 flex-1">{key}</span>
+                                <span className="text-slate-600 shrink-0">{count.toLocaleString()}</span>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default JsonStatsView;
@@ -0,0 +1,141 @@
+import React, { lazy, Suspense, useMemo, useState } from 'react';
+import { Download, FileSpreadsheet, Loader2, Search } from 'lucide-react';
+import type { JsonNode } from '../../types/json';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { buildDownloadFileName } from '../../utils/fileName';
+import { formatNodePath } from '../../utils/nodePath';
+import { flattenObject, sanitizeForTabular } from '../../utils/tabular';
+
+const TanStackDataTable = lazy(() => import('../../components/TanStackDataTable'));
+
+interface JsonTableDialogProps {
+    /** Array node shown as a table; null closes the dialog */
+    node: JsonNode | null;
+    onClose: () => void;
+    /** Export name without extension, e.g. the uploaded file's name */
+    baseName: string;
+}
+
+/**
+ * Shows an array from the tree as a sortable, filterable table. Rows are
+ * shaped like the JSON → CSV / Excel converters shape them, and the rows as
+ * displayed (filtered and sorted) can be downloaded as CSV or XLSX.
+ */
+const JsonTableDialog: React.FC<JsonTableDialogProps> = ({ node, onClose, baseName }) => {
+    const [flatten, setFlatten] = useState(true);
+    const [filter, setFilter] = useState('');
+    const [displayedRows, setDisplayedRows] = useState<Record<string, unknown>[]>([]);
+    const [exporting, setExporting] = useState<'csv' | 'xlsx' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const rows = useMemo(() => {
+        const items = node && Array.isArray(node.value) ? node.value : [];
+        return flatten
+            ? items.map((item) => (item !== null && typeof item === 'object' && !Array.isArray(item) ? flattenObject(item) : { value: item }))
+            : sanitizeForTabular(items);
+    }, [node, flatten]);
+
+    const sliceName = node && node.segments.length > 0
+        ? `${baseName}_${String(node.segments[node.segments.length - 1])}`
+        : baseName;
+
+    const handleExport = async (format: 'csv' | 'xlsx') => {
+        setExporting(format);
+        setError(null);
+        try {
+            if (format === 'xlsx') {
+                const XLSX = await import('xlsx');
+                const ws = XLSX.utils.json_to_sheet(displayedRows);
+                const wb = XLSX.utils.book_new();
+                XLSX.utils.book_append_sheet(wb, ws, 'Data');
+                XLSX.writeFile(wb, buildDownloadFileName(sliceName, 'xlsx'));
+            } else {
+                const Papa = await import('papaparse');
+                const blob = new Blob([Papa.unparse(displayedRows)], { type: 'text/csv;charset=utf-8;' });
+                const url = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = url;
+                a.download = buildDownloadFileName(sliceName, 'csv');
+                document.body.appendChild(a);
+                a.click();
+                document.body.removeChild(a);
+                URL.revokeObjectURL(url);
+            }
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    return (
+        <Dialog open={Boolean(node)} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-6xl bg-white">
+                <DialogHeader>
+                    <DialogTitle>Table view</DialogTitle>
+                    <DialogDescription className="font-mono text-xs truncate">
+                        {node ? formatNodePath(node.segments, 'jsonpath') : ''} • {rows.length.toLocaleString()} {rows.length === 1 ? 'row' : 'rows'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-3 min-w-0">
+                        <div className="relative min-w-0">
+                            <Search className="w-3.5 h-3.5 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+                            <input
+                                value={filter}
+                                onChange={(e) => setFilter(e.target.value)}
+                                placeholder="Filter rows..."
+                                className="modern-input h-8 pl-8 pr-3 w-64 max-w-full text-xs"
+                            />
+                        </div>
+                        <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 cursor-pointer select-none">
+                            <input type="checkbox" checked={flatten} onChange={(e) => setFlatten(e.target.checked)} />
+                            Flatten nested objects
+                        </label>
+                    </div>
+                    <div className="flex items-center gap-1.5">
+                        <span className="text-[11px] font-semibold text-slate-500 mr-1">
+                            {displayedRows.length.toLocaleString()} shown
+                        </span>
+                        <button
+                            onClick={() => void handleExport('csv')}
+                            disabled={exporting !== null || displayedRows.length === 0}
+                            className="btn-secondary h-8 px-2.5 disabled:opacity-50"
+                            title="Download the shown rows as CSV"
+                        >
+                            {exporting === 'csv' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                            <span className="text-xs font-semibold">CSV</span>
+                        </button>
+                        <button
+                            onClick={() => void handleExport('xlsx')}
+                            disabled={exporting !== null || displayedRows.length === 0}
+                            className="btn-secondary h-8 px-2.5 disabled:opacity-50"
+                            title="Download the shown rows as XLSX"
+                        >
+                            {exporting === 'xlsx' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileSpreadsheet className="w-3.5 h-3.5 text-emerald-600" />}
+                            <span className="text-xs font-semibold">XLSX</span>
+                        </button>
+                    </div>
+                </div>
+
+                {error && (
+                    <p className="text-xs font-semibold text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1.5">{error}</p>
+                )}
+
+                <div className="h-[60vh] rounded-lg border border-slate-200 overflow-hidden">
+                    <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-gray-500">Loading table...</div>}>
+                        <TanStackDataTable
+                            data={rows}
+                            isEditable={false}
+                            globalFilter={filter}
+                            onRowModelChange={setDisplayedRows}
+                        />
+                    </Suspense>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default JsonTableDialog;
@@ -0,0 +1,231 @@
+import React, { lazy, Suspense, useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Check, Copy, FileSpreadsheet, Loader2, Play, Replace, Table as TableIcon, Workflow, X } from 'lucide-react';
+import type { JsonNode, TransformResult } from '../../types/json';
+import { copyToClipboard } from '../../utils/jsonUtils';
+import { useAppStore } from '../../store/AppContext';
+import { ROUTES } from '../../config/routes';
+
+const VirtualizedJsonTree = lazy(() => import('../../components/VirtualizedJsonTree'));
+
+interface JsonTransformPanelProps {
+    disabled: boolean;
+    /** The parsed document; a shown output is re-run when it is replaced */
+    tree: JsonNode | null;
+    onRun: (filter: string) => Promise<TransformResult>;
+    onReplaceInput: (text: string) => void;
+    onClose: () => void;
+}
+
+const EXAMPLES = [
+    '.users | map({id, name})',
+    '.[] | select(.status == "failed")',
+    'group_by(.type) | map({type: .[0].type, count: length})',
+    'sort_by(.createdAt) | reverse | .[0:10]',
+    'to_entries | map(select(.value != null)) | from_entries',
+];
+
+/**
+ * jq transform pane for the JSON Viewer.
+ *
+ * The filter runs in the parser worker against the visualized document and
+ * its output is shown as a second tree. The output can replace the source
+ * (undoable like an edit) or be handed to the JSON → CSV / Excel converters.
+ * The output follows the document: a reparse or edit re-runs the last filter.
+ */
+const JsonTransformPanel: React.FC<JsonTransformPanelProps> = ({ disabled, tree, onRun, onReplaceInput, onClose }) => {
+    const navigate = useNavigate();
+    const { setJsonCsv, setJsonExcel } = useAppStore();
+    const [filter, setFilter] = useState('.');
+    const [result, setResult] = useState<TransformResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [isCopied, setIsCopied] = useState(false);
+    // Remounts the output tree per run so expansion state does not leak between results.
+    const [runCount, setRunCount] = useState(0);
+    // The filter behind the shown output, and the document it ran on.
+    const lastFilterRef = useRef<string | null>(null);
+    const transformedTreeRef = useRef(tree);
+    const runSeqRef = useRef(0);
+
+    const runFilter = useCallback(async (source: string) => {
+        const requestId = ++runSeqRef.current;
+        setIsRunning(true);
+        setError(null);
+        try {
+            const next = await onRun(source);
+            if (requestId !== runSeqRef.current) return;
+            lastFilterRef.current = source;
+            setResult(next);
+            setRunCount((count) => count + 1);
+        } catch (err: unknown) {
+            if (requestId !== runSeqRef.current) return;
+            lastFilterRef.current = null;
+            setResult(null);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            if (requestId === runSeqRef.current) setIsRunning(false);
+        }
+    }, [onRun]);
+
+    const handleRun = useCallback(async () => {
+        if (!filter.trim()) return;
+        await runFilter(filter);
+    }, [filter, runFilter]);
+
+    useEffect(() => {
+        if (tree === transformedTreeRef.current) return;
+        transformedTreeRef.current = tree;
+        const last = lastFilterRef.current;
+        if (last === null) return;
+        if (tree) {
+            void runFilter(last);
+            return;
+        }
+        lastFilterRef.current = null;
+        runSeqRef.current += 1;
+        setResult(null);
+        setIsRunning(false);
+    }, [tree, runFilter]);
+
+    // The converters take an array of rows; a single non-array output is one row.
+    const buildRowsJson = useCallback(() => {
+        if (!result) return '';
+        const value = result.tree.value;
+        return JSON.stringify(Array.isArray(value) ? value : [value], null, 2);
+    }, [result]);
+
+    const handleCopy = async () => {
+        if (!result) return;
+        const copied = await copyToClipboard(result.text);
+        if (copied) {
+            setIsCopied(true);
+            window.setTimeout(() => setIsCopied(false), 1400);
+        }
+    };
+
+    const handleReplace = () => {
+        if (!result) return;
+        // The output becomes the document; it is not filtered again.
+        lastFilterRef.current = null;
+        onReplaceInput(result.text);
+        setResult(null);
+    };
+
+    const handleSendToCsv = () => {
+        setJsonCsv({ inputData: buildRowsJson(), mode: 'json-to-csv', file: null, isDirectMode: false, totalRows: null, isDirty: false });
+        navigate(ROUTES.JSON_CSV);
+    };
+
+    const handleSendToExcel = () => {
+        setJsonExcel({ inputData: buildRowsJson(), mode: 'json-to-excel', file: null, isDirectMode: false, totalRows: null, isDirty: false });
+        navigate(ROUTES.JSON_EXCEL);
+    };
+
+    const isEmpty = !result || result.count === 0;
+
+    return (
+        <div className="flex flex-col gap-2 min-h-0 h-full">
+            <div className="flex items-end justify-between px-1 h-8">
+                <h2 className="text-lg font-bold text-slate-900 leading-none tracking-tight">Transform</h2>
+                <a
+                    href="https://jqlang.github.io/jq/manual/"
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700"
+                >
+                    jq manual
+                </a>
+            </div>
+
+            <div className="premium-card p-2.5 flex flex-col gap-2 ring-1 ring-white/40">
+                <textarea
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) void handleRun();
+                    }}
+                    placeholder={EXAMPLES[0]}
+                    rows={3}
+                    spellCheck={false}
+                    className="modern-input px-3 py-2 w-full min-w-0 text-sm font-mono resize-y disabled:bg-gray-50"
+                    disabled={disabled}
+                />
+                <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                        <select
+                            value=""
+                            onChange={(e) => e.target.value && setFilter(e.target.value)}
+                            className="h-9 rounded-lg border border-slate-200 bg-white px-2 text-xs font-semibold text-slate-600 focus:outline-none min-w-0"
+                            disabled={disabled}
+                            title="Example filters"
+                        >
+                            <option value="">Examples...</option>
+                            {EXAMPLES.map((example) => <option key={example} value={example}>{example}</option>)}
+                        </select>
+                        <button onClick={onClose} className="btn-secondary h-9 px-3 shrink-0" title="Close transform pane">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <button
+                        onClick={() => void handleRun()}
+                        disabled={disabled || isRunning || !filter.trim()}
+                        className="btn-primary-gradient h-9 px-4 shrink-0 disabled:opacity-50"
+                        title="Run filter (Ctrl+Enter)"
+                    >
+                        {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                        <span className="text-sm font-semibold">Run</span>
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <p className="text-xs font-semibold text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1.5 font-mono whitespace-pre-wrap">{error}</p>
+            )}
+
+            {result && (
+                <div className="flex items-center justify-between gap-2 px-1">
+                    <span className="text-[11px] font-semibold text-slate-600">
+                        {result.count.toLocaleString()} {result.count === 1 ? 'output' : 'outputs'}
+                        {result.count > 1 && ' • shown as JSON Lines'}
+                    </span>
+                    <div className="flex items-center gap-1.5">
+                        <button onClick={handleCopy} disabled={isEmpty} className="btn-secondary h-7 px-2 disabled:opacity-50" title="Copy output">
+                            {isCopied ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+                            <span className="text-[11px] font-semibold">{isCopied ? 'Copied' : 'Copy'}</span>
+                        </button>
+                        <button onClick={handleReplace} disabled={isEmpty || isRunning} className="btn-secondary h-7 px-2 disabled:opacity-50" title="Replace the source JSON with the output">
+                            <Replace className="w-3.5 h-3.5 text-indigo-600" />
+                            <span className="text-[11px] font-semibold">Replace input</span>
+                        </button>
+                        <button onClick={handleSendToCsv} disabled={isEmpty} className="btn-secondary h-7 px-2 disabled:opacity-50" title="Open output in JSON → CSV">
+                            <TableIcon className="w-3.5 h-3.5 text-green-600" />
+                            <span className="text-[11px] font-semibold">CSV</span>
+                        </button>
+                        <button onClick={handleSendToExcel} disabled={isEmpty} className="btn-secondary h-7 px-2 disabled:opacity-50" title="Open output in JSON → Excel">
+                            <FileSpreadsheet className="w-3.5 h-3.5 text-emerald-600" />
+                            <span className="text-[11px] font-semibold">Excel</span>
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex-1 premium-card panel-pattern overflow-hidden min-h-[12rem] ring-1 ring-white/40">
+                <div className="h-full p-3 sm:p-4 min-h-0 relative">
+                    {result && result.count > 0 ? (
+                        <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-gray-500">Loading structure...</div>}>
+                            <VirtualizedJsonTree key={runCount} data={result.tree} />
+                        </Suspense>
+                    ) : (
+                        <div className="h-full flex flex-col items-center justify-center text-center gap-2 text-sm text-slate-500">
+                            <Workflow className="w-6 h-6 text-indigo-500/70" />
+                            {result ? 'The filter produced no output.' : 'Run a jq filter to see its output here.'}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default JsonTransformPanel;
@@ -3,7 +3,6 @@ import {
     Upload,
     FileJson,
     Search,
-    AlertCircle,
     Trash2,
     ChevronDown,
     ChevronRight,
@@ -11,22 +10,114 @@ import {
     Copy,
     Check,
     XCircle,
+    ShieldCheck,
+    Undo2,
+    Redo2,
+    ShieldAlert,
+    Braces,
+    BarChart3,
+    ListTree,
+    Workflow,
+    ArrowUp,
+    ArrowDown,
+    FileOutput,
+    Bookmark,
 } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { WorkerManager } from '../../utils/WorkerManager';
-import type { JsonNode } from '../../types/json';
-import { copyToClipboard, formatFileSize } from '../../utils/jsonUtils';
+import type { OnMount } from '@monaco-editor/react';
+import { WorkerManager, WorkerTaskError } from '../../utils/WorkerManager';
+import type {
+    DataFormat,
+    DocumentExportOptions,
+    InferredTypes,
+    JsonBookmark,
+    JsonEditOperation,
+    JsonEditResult,
+    JsonFormatOptions,
+    JsonNode,
+    JsonParseMode,
+    JsonRelaxation,
+    JsonSchemaDraft,
+    JsonSearchOptions,
+    JsonSearchResult,
+    JsonStats,
+    JsonStatsEntry,
+    ParseError,
+    ParseErrorDetail,
+    QueryLanguage,
+    QueryResult,
+    SchemaValidationResult,
+    TransformResult,
+    ViewerInputFormat,
+} from '../../types/json';
+import { copyToClipboard, findPendingLazyPaths, formatFileSize, isPathMissing, replaceNodeChildren } from '../../utils/jsonUtils';
+import { onJsonViewerCommand, type JsonViewerCommand } from '../../utils/jsonViewerCommands';
 import { useAppStore } from '../../store/AppContext';
 import AppLoader from '../../components/AppLoader';
 import { logger } from '../../utils/logger';
 import { useDraftPreference } from '../../hooks/useDraftPreference';
-import { DRAFT_TTL_MS, loadDraftWithStatus, saveDraft, clearDraft } from '../../utils/draftStorage';
+import { parserWorkerPool } from '../../utils/parserWorkerPool';
+import JsonQueryConsole from './JsonQueryConsole';
+import ParseErrorList from './ParseErrorList';
+import SchemaValidationPanel from './SchemaValidationPanel';
+import JsonTransformPanel from './JsonTransformPanel';
+import BookmarksPanel from './BookmarksPanel';
+import TypeGeneratorDialog from './TypeGeneratorDialog';
+import JsonTableDialog from './JsonTableDialog';
+import DocumentExportDialog from './DocumentExportDialog';
+import JsonFormatMenu from './JsonFormatMenu';
+import JsonStatsView from './JsonStatsView';
+import { JSON_FORMAT_DEFAULTS, JSON_VIEWER } from '../../constants';
+import { resolveExportBaseName } from '../../utils/fileName';
+import { ancestorPointers, toJsonPointer } from '../../utils/nodePath';
+import { remapPathAfterEdit } from '../../utils/jsonEdit';
 
 const MonacoEditor = lazy(() => import('@monaco-editor/react'));
 const VirtualizedJsonTree = lazy(() => import('../../components/VirtualizedJsonTree'));
-type JsonSearchResult = { paths: string[]; count: number };
-type JsonViewerDraft = { jsonInput: string };
-const JSON_VIEWER_DRAFT_KEY = 'json-viewer';
+type MonacoEditorInstance = Parameters<OnMount>[0];
+type MonacoApi = Parameters<OnMount>[1];
+
+const SEARCH_PLACEHOLDERS: Record<JsonSearchOptions['mode'], string> = {
+    text: 'Search keys or values, or > 500...',
+    exact: 'Exact key or value...',
+    regex: 'Regular expression...',
+};
+const PARSE_MARKER_OWNER = 'json-viewer-parse';
+
+// Monaco has no TOML mode; INI highlighting is close enough.
+const EDITOR_LANGUAGES: Record<'json' | DataFormat, string> = {
+    json: 'json',
+    yaml: 'yaml',
+    toml: 'ini',
+    xml: 'xml',
+};
+
+/** Format options each command palette command applies on top of the current ones */
+const FORMAT_COMMANDS: Record<JsonViewerCommand, Partial<JsonFormatOptions>> = {
+    format: {},
+    minify: { minify: true },
+    'sort-keys': { sortKeys: true },
+    canonicalize: { canonical: true },
+};
+
+const RELAXATION_LABELS: Record<JsonRelaxation, string> = {
+    'comments': 'comments',
+    'trailing-commas': 'trailing commas',
+    'single-quotes': 'single-quoted strings',
+    'unquoted-keys': 'unquoted keys',
+    'hex-numbers': 'hex numbers',
+    'non-finite-numbers': 'Infinity / NaN',
+    'number-syntax': 'relaxed number syntax',
+    'string-escapes': 'JSON5 string escapes',
+};
+
+/** Bookmarks moved along with the nodes an edit shifted or renamed; those of removed nodes are dropped. */
+const remapBookmarks = (bookmarks: JsonBookmark[], operation: JsonEditOperation): JsonBookmark[] =>
+    bookmarks.flatMap((bookmark) => {
+        const segments = remapPathAfterEdit(bookmark.segments, operation);
+        if (!segments) return [];
+        return segments === bookmark.segments ? [bookmark] : [{ ...bookmark, path: toJsonPointer(segments), segments }];
+    });
 
 const containerMotion = {
     hidden: { opacity: 0, y: 8 },
@@ -46,18 +137,30 @@ const sectionMotion = {
     },
 };
 
+interface JsonViewerProps {
+    /** Tab whose document this viewer shows */
+    tabId: string;
+    /** Inactive tabs stay mounted (and keep their parsed document) while hidden */
+    isActive: boolean;
+}
+
 /**
  * JSON Structure Viewer Component
  * 
  * **Purpose:**
  * High-performance JSON visualization with support for massive files (100MB+).
+ * One instance per tab of `JsonViewerWorkspace`.
  * 
  * **Key Features:**
  * - Virtualized tree rendering (only visible nodes)
  * - Worker-based parsing (non-blocking UI)
  * - Direct Mode for files > 2MB (zero-copy ArrayBuffer transfer)
  * - Real-time search with match counting
- * - Circuit breaker at 15,000 nodes to prevent crashes
+ * - JSONPath / JMESPath query console with tree highlighting
+ * - Inline tree editing written back to the source, with undo / redo
+ * - JSON Schema (draft-07 / 2020-12) validation with violations highlighted in the tree
+ * - JSON Schema / TypeScript / Zod generation inferred from the document
+ * - Large arrays and objects paged 200 children at a time
  * 
  * **Performance:**
  * - Uses `jsonParser.worker.ts` for background parsing
@@ -71,71 +174,84 @@ const sectionMotion = {
  * @component
  * @example
  * ```tsx
- * <JsonViewer />  // Used in routes
+ * <JsonViewer tabId={tab.id} isActive={tab.id === activeTabId} />
  * ```
  */
-const JsonViewer: React.FC = () => {
-    const { state, setJsonViewer, setTaskStatus } = useAppStore();
-    const { jsonInput, jsonTree, error, fileInfo, isDirectMode, rawFile } = state.jsonViewer;
+const JsonViewer: React.FC<JsonViewerProps> = ({ tabId, isActive }) => {
+    const { state, setJsonViewer: setJsonViewerTab, setTaskStatus } = useAppStore();
+    const tab = state.jsonViewer.tabs.find((candidate) => candidate.id === tabId)!;
+    const { jsonInput, jsonTree, error, fileInfo, isDirectMode, rawFile, inputFormat, parseMode, losslessNumbers, editHistory, schemaInput, bookmarks } = tab;
+    const setJsonViewer = useCallback(
+        (data: Parameters<typeof setJsonViewerTab>[1]) => setJsonViewerTab(tabId, data),
+        [setJsonViewerTab, tabId]
+    );
 
     const [searchQuery, setSearchQuery] = useState('');
     const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
     const [expandAll, setExpandAll] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
-    const [searchCount, setSearchCount] = useState<number | null>(null);
-    const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set(['root']));
+    const [formatOptions, setFormatOptions] = useState<JsonFormatOptions>(JSON_FORMAT_DEFAULTS);
+    const [searchSettings, setSearchSettings] = useState<Omit<JsonSearchOptions, 'query'>>({
+        mode: 'text', scope: 'all', caseSensitive: false,
+    });
+    const [search, setSearch] = useState<{ result: JsonSearchResult | null; error: string | null; active: number }>({
+        result: null, error: null, active: 0,
+    });
+    const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set(['']));
     const [isCopied, setIsCopied] = useState(false);
-    const [draftNotice, setDraftNotice] = useState<string | null>(null);
+    const [queryHighlights, setQueryHighlights] = useState<Set<string>>(new Set());
+    const [schemaHighlights, setSchemaHighlights] = useState<Set<string>>(new Set());
+    const [sidePane, setSidePane] = useState<'schema' | 'transform' | 'bookmarks' | null>(null);
+    const [typeGen, setTypeGen] = useState<{ open: boolean; result: InferredTypes | null; error: string | null; isLoading: boolean }>({
+        open: false, result: null, error: null, isLoading: false,
+    });
+    // Array node opened with "View as table"
+    const [tableNode, setTableNode] = useState<JsonNode | null>(null);
+    const [exportOpen, setExportOpen] = useState(false);
+    const [viewMode, setViewMode] = useState<'tree' | 'stats'>('tree');
+    const [stats, setStats] = useState<{ data: JsonStats | null; error: string | null; isLoading: boolean }>({
+        data: null, error: null, isLoading: false,
+    });
+    const [focusRequest, setFocusRequest] = useState<{ path: string; nonce: number } | null>(null);
+    const [lazyChildren, setLazyChildren] = useState<Map<string, JsonNode[]>>(new Map());
+    // Source text the current tree was built from; edits are refused once the source diverges.
+    const [treeSource, setTreeSource] = useState<string | null>(null);
     const { enabled: draftsEnabled } = useDraftPreference();
 
     const workerRef = useRef<WorkerManager<unknown, unknown> | null>(null);
+    const editorRef = useRef<MonacoEditorInstance | null>(null);
+    const monacoRef = useRef<MonacoApi | null>(null);
+    const [editorReady, setEditorReady] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const parseSeqRef = useRef(0);
     const searchSeqRef = useRef(0);
+    // Options of the last search sent, to tell a re-run after an edit from a new search.
+    const lastSearchRef = useRef<string | null>(null);
+    const pendingLazyRef = useRef<Set<string>>(new Set());
+    // Set when the tree was replaced by an edit, so expansion survives and the edited node is focused.
+    const editFocusRef = useRef<{ path: string | null } | null>(null);
+    // Set while this tab's worker does not hold the parsed document: the pool
+    // reclaimed it, or the viewer was unmounted (leaving the route releases the
+    // worker, but the tab keeps its tree in context). A fresh mount has no worker.
+    const workerEvictedRef = useRef(true);
 
-    // Initialize worker once
+    // Lease this tab's worker from the shared pool
     const initWorker = useCallback(() => {
         if (!workerRef.current) {
-            workerRef.current = new WorkerManager<unknown, unknown>(
-                () => new Worker(new URL('../../workers/jsonParser.worker.ts', import.meta.url), { type: 'module' })
-            );
+            workerRef.current = parserWorkerPool.acquire(tabId, () => {
+                workerRef.current = null;
+                workerEvictedRef.current = true;
+            });
         }
-    }, []);
+    }, [tabId]);
 
     useEffect(() => {
         return () => {
-            workerRef.current?.terminate();
+            parserWorkerPool.release(tabId);
             workerRef.current = null;
+            workerEvictedRef.current = true;
         };
-    }, []);
-
-    useEffect(() => {
-        if (!draftsEnabled) return;
-        const { data: draft, expired } = loadDraftWithStatus<JsonViewerDraft>(JSON_VIEWER_DRAFT_KEY);
-        if (expired) {
-            setDraftNotice(`Session expired (${Math.round(DRAFT_TTL_MS / 60000)} min). Draft cleared.`);
-            const timer = window.setTimeout(() => setDraftNotice(null), 2000);
-            return () => window.clearTimeout(timer);
-        }
-        if (!draft?.jsonInput) return;
-        setJsonViewer({
-            jsonInput: draft.jsonInput,
-            rawFile: null,
-            isDirectMode: false,
-            fileInfo: null,
-        });
-        setDraftNotice('Draft restored');
-        const timer = window.setTimeout(() => setDraftNotice(null), 1600);
-        return () => window.clearTimeout(timer);
-    }, [draftsEnabled, setJsonViewer]);
-
-    useEffect(() => {
-        if (!draftsEnabled) return;
-        const timer = window.setTimeout(() => {
-            saveDraft<JsonViewerDraft>(JSON_VIEWER_DRAFT_KEY, { jsonInput });
-        }, 800);
-        return () => window.clearTimeout(timer);
-    }, [draftsEnabled, jsonInput]);
+    }, [tabId]);
 
     useEffect(() => {
         if (draftsEnabled) return;
@@ -193,7 +309,7 @@ const JsonViewer: React.FC = () => {
 
                 const result = await workerRef.current!.postMessage(
                     'PARSE_JSON',
-                    payload,
+                    { data: payload, format: inputFormat, mode: parseMode, lossless: losslessNumbers },
                     transfer,
                     0,
                     (progressData) => {
@@ -201,14 +317,17 @@ const JsonViewer: React.FC = () => {
                     }
                 ) as JsonNode;
                 if (requestId !== parseSeqRef.current) return;
+                setTreeSource(sourceDirect && sourceFile ? null : sourceInput);
                 setJsonViewer({ jsonTree: result, error: null });
                 setTaskStatus({ state: 'done', label: 'JSON parsed' });
             } catch (err: unknown) {
                 if (requestId !== parseSeqRef.current) return;
                 if (WorkerManager.isCancelledError(err)) return;
-                const parseError = err instanceof Error
-                    ? { message: err.message, lineNumber: null }
-                    : { message: String(err), lineNumber: null };
+                const parseError: ParseError = err instanceof WorkerTaskError
+                    ? err.payload as ParseError
+                    : err instanceof Error
+                        ? { message: err.message, lineNumber: null }
+                        : { message: String(err), lineNumber: null };
                 setJsonViewer({ jsonTree: null, error: parseError });
                 setTaskStatus({ state: 'error', label: 'JSON parse failed' });
             } finally {
@@ -217,36 +336,345 @@ const JsonViewer: React.FC = () => {
                 }
             }
         }, 0);
-    }, [jsonInput, rawFile, isDirectMode, initWorker, setJsonViewer, setTaskStatus]);
+    }, [jsonInput, rawFile, isDirectMode, inputFormat, parseMode, losslessNumbers, initWorker, setJsonViewer, setTaskStatus]);
+
+    // A shown tab is the most recently used lease; if its worker is empty (reclaimed
+    // or never leased since mount), a tree in context is parsed again, keeping the
+    // expanded nodes.
+    useEffect(() => {
+        if (!isActive) return;
+        parserWorkerPool.touch(tabId);
+        if (!workerEvictedRef.current) return;
+        workerEvictedRef.current = false;
+        if (!jsonTree) return;
+        editFocusRef.current = { path: null };
+        handleParse();
+    }, [isActive, tabId, jsonTree, handleParse]);
+
+    const searchOptions = useMemo<JsonSearchOptions>(
+        () => ({ query: debouncedSearchQuery, ...searchSettings }),
+        [debouncedSearchQuery, searchSettings]
+    );
 
     // Handle Search
     useEffect(() => {
         if (!jsonTree) return;
-        if (!debouncedSearchQuery) {
-            setExpandedPaths(new Set(['root']));
-            setSearchCount(null);
+        if (!searchOptions.query) {
+            lastSearchRef.current = null;
+            if (editFocusRef.current) return;
+            setExpandedPaths(new Set(['']));
+            setSearch({ result: null, error: null, active: 0 });
             return;
         }
 
         const searchId = ++searchSeqRef.current;
+        const searchKey = JSON.stringify(searchOptions);
+        // Re-running the same search after an edit keeps the current match; anything else starts over.
+        const isNewSearch = lastSearchRef.current !== searchKey || !editFocusRef.current;
+        lastSearchRef.current = searchKey;
         initWorker();
-        workerRef.current!.postMessage('SEARCH_JSON', debouncedSearchQuery, undefined, 150)
+        workerRef.current!.postMessage('SEARCH_JSON', searchOptions, undefined, 150)
             .then((result) => {
                 if (searchId !== searchSeqRef.current) return;
                 const searchResult = result as JsonSearchResult;
-                const paths = Array.isArray(searchResult?.paths) ? searchResult.paths : [];
-                const count = typeof searchResult?.count === 'number' ? searchResult.count : 0;
-                setExpandedPaths(new Set(['root', ...paths]));
-                setSearchCount(count);
+                setExpandedPaths(prev => new Set([...(isNewSearch ? [''] : prev), ...searchResult.expandPaths]));
+                setSearch(prev => ({
+                    result: searchResult,
+                    error: null,
+                    active: isNewSearch ? 0 : Math.min(prev.active, Math.max(0, searchResult.matches.length - 1)),
+                }));
+                if (isNewSearch) {
+                    setFocusRequest(searchResult.matches.length > 0 ? { path: searchResult.matches[0], nonce: Date.now() } : null);
+                }
             })
             .catch((err: unknown) => {
                 if (searchId !== searchSeqRef.current) return;
                 if (!WorkerManager.isCancelledError(err)) {
                     logger.error('Search failed:', err);
-                    setSearchCount(0);
+                    lastSearchRef.current = null;
+                    setSearch({ result: null, error: err instanceof Error ? err.message : String(err), active: 0 });
                 }
             });
-    }, [debouncedSearchQuery, jsonTree, initWorker]);
+    }, [searchOptions, jsonTree, initWorker]);
+
+    // Steps through the search hits, wrapping around, and reveals the current one.
+    const handleStepSearch = useCallback((delta: number) => {
+        const matches = search.result?.matches ?? [];
+        if (matches.length === 0) return;
+        const active = (search.active + delta + matches.length) % matches.length;
+        setSearch(prev => ({ ...prev, active }));
+        setExpandedPaths(prev => new Set([...prev, ...ancestorPointers(matches[active])]));
+        setFocusRequest({ path: matches[active], nonce: Date.now() });
+    }, [search]);
+
+    // Mirror located parse errors as editor markers.
+    useEffect(() => {
+        const monaco = monacoRef.current;
+        const model = editorRef.current?.getModel();
+        if (!editorReady || !monaco || !model) return;
+        const details: ParseErrorDetail[] = error?.details ?? [];
+        monaco.editor.setModelMarkers(model, PARSE_MARKER_OWNER, details.map((detail) => ({
+            severity: monaco.MarkerSeverity.Error,
+            message: detail.hint ? `${detail.message}\n${detail.hint}` : detail.message,
+            code: detail.code,
+            startLineNumber: detail.line,
+            startColumn: detail.column,
+            endLineNumber: detail.line,
+            endColumn: detail.column + 1,
+        })));
+    }, [error, editorReady, isDirectMode]);
+
+    const handleEditorMount = useCallback<OnMount>((editor, monaco) => {
+        editorRef.current = editor;
+        monacoRef.current = monaco;
+        setEditorReady(true);
+        editor.onDidDispose(() => {
+            editorRef.current = null;
+            setEditorReady(false);
+        });
+    }, []);
+
+    const handleSelectParseError = useCallback((detail: ParseErrorDetail) => {
+        const editor = editorRef.current;
+        if (!editor) return;
+        const position = { lineNumber: detail.line, column: detail.column };
+        editor.revealPositionInCenter(position);
+        editor.setPosition(position);
+        editor.focus();
+    }, []);
+
+    // Streamed documents arrive as lazy stubs; children are merged in locally
+    // so loading a branch does not re-trigger search or reset expansion.
+    useEffect(() => {
+        setLazyChildren(new Map());
+        pendingLazyRef.current = new Set();
+    }, [jsonTree]);
+
+    const displayTree = useMemo(() => {
+        if (!jsonTree || lazyChildren.size === 0) return jsonTree;
+        let tree = jsonTree;
+        for (const [path, children] of lazyChildren) {
+            tree = replaceNodeChildren(tree, path, children);
+        }
+        return tree;
+    }, [jsonTree, lazyChildren]);
+
+    useEffect(() => {
+        if (!displayTree?.streamed) return;
+        const paths = findPendingLazyPaths(displayTree, expandedPaths)
+            .filter((path) => !pendingLazyRef.current.has(path));
+        if (paths.length === 0) return;
+
+        paths.forEach((path) => pendingLazyRef.current.add(path));
+        initWorker();
+        workerRef.current!.postMessage('EXPAND_NODES', { paths })
+            .then((result) => {
+                const { nodes } = result as { nodes: { path: string; children: JsonNode[] }[] };
+                if (nodes.length === 0) return;
+                setLazyChildren(prev => {
+                    const next = new Map(prev);
+                    nodes.forEach((node) => next.set(node.path, node.children));
+                    return next;
+                });
+            })
+            .catch((err: unknown) => {
+                paths.forEach((path) => pendingLazyRef.current.delete(path));
+                if (!WorkerManager.isCancelledError(err)) {
+                    logger.error('Failed to load streamed nodes:', err);
+                }
+            });
+    }, [displayTree, expandedPaths, initWorker]);
+
+    // Query and validation results are tied to the tree they were computed against.
+    useEffect(() => {
+        const editFocus = editFocusRef.current;
+        editFocusRef.current = null;
+        setQueryHighlights(new Set());
+        setSchemaHighlights(new Set());
+        setStats({ data: null, error: null, isLoading: false });
+        setFocusRequest(editFocus && editFocus.path !== null ? { path: editFocus.path, nonce: Date.now() } : null);
+    }, [jsonTree]);
+
+    // Stats are computed on demand, once per tree, when the stats mode is shown.
+    useEffect(() => {
+        if (viewMode !== 'stats' || !jsonTree || stats.data || stats.error || stats.isLoading) return;
+        setStats({ data: null, error: null, isLoading: true });
+        initWorker();
+        workerRef.current!.postMessage('JSON_STATS', null)
+            .then((result) => setStats({ data: result as JsonStats, error: null, isLoading: false }))
+            .catch((err: unknown) => {
+                if (WorkerManager.isCancelledError(err)) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setStats({ data: null, error: message, isLoading: false });
+            });
+    }, [viewMode, jsonTree, stats, initWorker]);
+
+    const handleSelectStatsEntry = useCallback((entry: JsonStatsEntry) => {
+        setViewMode('tree');
+        setExpandedPaths(prev => new Set([...prev, ...entry.expandPaths]));
+        setFocusRequest({ path: entry.path, nonce: Date.now() });
+    }, []);
+
+    // Edits run against the worker's copy of the document; the re-serialised
+    // text replaces the source and the previous text goes onto the undo stack.
+    const handleEdit = useCallback(async (operation: JsonEditOperation) => {
+        initWorker();
+        try {
+            const result = await workerRef.current!.postMessage('EDIT_JSON', operation) as JsonEditResult;
+            editFocusRef.current = { path: result.focusPath };
+            setTreeSource(result.text);
+            setExpandedPaths(prev => new Set([...prev, ...result.expandPaths]));
+            setJsonViewer({
+                jsonInput: result.text,
+                jsonTree: result.tree,
+                error: null,
+                editHistory: {
+                    past: [...editHistory.past, jsonInput].slice(-JSON_VIEWER.MAX_EDIT_HISTORY),
+                    future: [],
+                },
+                bookmarks: remapBookmarks(bookmarks, operation),
+            });
+        } catch (err: unknown) {
+            if (WorkerManager.isCancelledError(err)) return;
+            const message = err instanceof Error ? err.message : String(err);
+            setJsonViewer({ error: { message, lineNumber: null } });
+        }
+    }, [initWorker, jsonInput, editHistory, bookmarks, setJsonViewer]);
+
+    const handleUndo = useCallback(() => {
+        const previous = editHistory.past[editHistory.past.length - 1];
+        if (previous === undefined) return;
+        editFocusRef.current = { path: null };
+        setJsonViewer({
+            jsonInput: previous,
+            editHistory: { past: editHistory.past.slice(0, -1), future: [jsonInput, ...editHistory.future] },
+        });
+        handleParse(previous, null, false);
+    }, [editHistory, jsonInput, handleParse, setJsonViewer]);
+
+    const handleRedo = useCallback(() => {
+        const [next, ...future] = editHistory.future;
+        if (next === undefined) return;
+        editFocusRef.current = { path: null };
+        setJsonViewer({
+            jsonInput: next,
+            editHistory: { past: [...editHistory.past, jsonInput], future },
+        });
+        handleParse(next, null, false);
+    }, [editHistory, jsonInput, handleParse, setJsonViewer]);
+
+    const handleRunQuery = useCallback(async (expression: string, language: QueryLanguage) => {
+        initWorker();
+        return await workerRef.current!.postMessage('QUERY_JSON', { expression, language }) as QueryResult;
+    }, [initWorker]);
+
+    const handleQueryResult = useCallback((result: QueryResult | null) => {
+        if (!result) {
+            setQueryHighlights(new Set());
+            setFocusRequest(null);
+            return;
+        }
+        const located = result.matches.flatMap((match) => (match.path ? [match.path] : []));
+        setQueryHighlights(new Set(located));
+        setExpandedPaths(prev => new Set([...prev, ...result.expandPaths]));
+        setFocusRequest(located.length > 0 ? { path: located[0], nonce: Date.now() } : null);
+    }, []);
+
+    const handleSelectQueryMatch = useCallback((path: string) => {
+        setFocusRequest({ path, nonce: Date.now() });
+    }, []);
+
+    const handleValidateSchema = useCallback(async (schema: string, draft: JsonSchemaDraft | 'auto') => {
+        initWorker();
+        return await workerRef.current!.postMessage('VALIDATE_SCHEMA', { schema, draft }) as SchemaValidationResult;
+    }, [initWorker]);
+
+    const handleSchemaResult = useCallback((result: SchemaValidationResult | null) => {
+        if (!result) {
+            setSchemaHighlights(new Set());
+            return;
+        }
+        setSchemaHighlights(new Set(result.violations.map((violation) => violation.path)));
+        setExpandedPaths(prev => new Set([...prev, ...result.expandPaths]));
+        setFocusRequest(result.violations.length > 0 ? { path: result.violations[0].path, nonce: Date.now() } : null);
+    }, []);
+
+    const handleExportDocument = useCallback(async (options: DocumentExportOptions) => {
+        initWorker();
+        return await workerRef.current!.postMessage('EXPORT_DOCUMENT', options) as string;
+    }, [initWorker]);
+
+    const handleRunTransform = useCallback(async (filter: string) => {
+        initWorker();
+        return await workerRef.current!.postMessage('TRANSFORM_JSON', { filter }) as TransformResult;
+    }, [initWorker]);
+
+    // The transform output becomes the new source; the previous text goes onto the undo stack.
+    const handleReplaceWithTransform = useCallback((text: string) => {
+        editFocusRef.current = { path: null };
+        setJsonViewer({
+            jsonInput: text,
+            isDirectMode: false,
+            rawFile: null,
+            error: null,
+            editHistory: {
+                past: [...editHistory.past, jsonInput].slice(-JSON_VIEWER.MAX_EDIT_HISTORY),
+                future: [],
+            },
+        });
+        handleParse(text, null, false);
+    }, [editHistory, jsonInput, handleParse, setJsonViewer]);
+
+    const bookmarkNotes = useMemo(() => new Map(bookmarks.map((bookmark) => [bookmark.path, bookmark.note])), [bookmarks]);
+
+    // Bookmarks outlive reparses (undo, redo, a typed or pasted document); those
+    // whose node is gone are flagged instead of jumping to nothing.
+    const missingBookmarks = useMemo(
+        () => new Set(displayTree ? bookmarks.filter((bookmark) => isPathMissing(displayTree, bookmark.path)).map((bookmark) => bookmark.path) : []),
+        [displayTree, bookmarks]
+    );
+
+    const handleToggleBookmark = useCallback((node: JsonNode) => {
+        setJsonViewer({
+            bookmarks: bookmarks.some((bookmark) => bookmark.path === node.path)
+                ? bookmarks.filter((bookmark) => bookmark.path !== node.path)
+                : [...bookmarks, { path: node.path, segments: node.segments, note: '' }],
+        });
+    }, [bookmarks, setJsonViewer]);
+
+    const handleBookmarkNoteChange = useCallback((path: string, note: string) => {
+        setJsonViewer({ bookmarks: bookmarks.map((bookmark) => (bookmark.path === path ? { ...bookmark, note } : bookmark)) });
+    }, [bookmarks, setJsonViewer]);
+
+    const handleJumpToBookmark = useCallback((bookmark: JsonBookmark) => {
+        setViewMode('tree');
+        setExpandedPaths(prev => new Set([...prev, ...ancestorPointers(bookmark.path)]));
+        setFocusRequest({ path: bookmark.path, nonce: Date.now() });
+    }, []);
+
+    const handleSchemaChange = useCallback((schema: string) => {
+        setJsonViewer({ schemaInput: schema });
+    }, [setJsonViewer]);
+
+    const exportBaseName = resolveExportBaseName({ sourceFileName: fileInfo?.name, fallback: 'json_data' });
+
+    const handleGenerateTypes = useCallback(async () => {
+        setTypeGen({ open: true, result: null, error: null, isLoading: true });
+        initWorker();
+        try {
+            const result = await workerRef.current!.postMessage('INFER_TYPES', { rootName: exportBaseName }) as InferredTypes;
+            setTypeGen(prev => ({ ...prev, result, isLoading: false }));
+        } catch (err: unknown) {
+            if (WorkerManager.isCancelledError(err)) return;
+            const message = err instanceof Error ? err.message : String(err);
+            setTypeGen(prev => ({ ...prev, error: message, isLoading: false }));
+        }
+    }, [initWorker, exportBaseName]);
+
+    const highlightedPaths = useMemo(
+        () => (schemaHighlights.size === 0 ? queryHighlights : new Set([...queryHighlights, ...schemaHighlights])),
+        [queryHighlights, schemaHighlights]
+    );
 
     // Debounce search input
     useEffect(() => {
@@ -260,11 +688,14 @@ const JsonViewer: React.FC = () => {
 
         const useDirect = file.size > 2 * 1024 * 1024;
         setJsonViewer({
+            title: file.name,
             fileInfo: { name: file.name, size: file.size },
             jsonTree: null,
             error: null,
             isDirectMode: useDirect,
             rawFile: file,
+            editHistory: { past: [], future: [] },
+            bookmarks: [],
             jsonInput: useDirect ? '' : '' // Placeholder
         });
 
@@ -278,17 +709,48 @@ const JsonViewer: React.FC = () => {
         }
     };
 
-    const handleFormat = async () => {
+    // Runs in the parser worker; YAML / TOML / XML is reformatted in its own format.
+    const handleFormat = useCallback(async (overrides?: Partial<JsonFormatOptions>) => {
         if (!jsonInput.trim() && !rawFile) return;
+        initWorker();
         try {
             const content = (rawFile && isDirectMode) ? await rawFile.text() : jsonInput;
-            const formatted = JSON.stringify(JSON.parse(content), null, 2);
+            const formatted = await workerRef.current!.postMessage('FORMAT_JSON', {
+                data: content,
+                format: inputFormat,
+                mode: parseMode,
+                lossless: losslessNumbers,
+                options: { ...formatOptions, ...overrides },
+            }) as string;
             setJsonViewer({ jsonInput: formatted, isDirectMode: false, rawFile: null, error: null });
         } catch (err: unknown) {
+            if (WorkerManager.isCancelledError(err)) return;
+            const parseError: ParseError = err instanceof WorkerTaskError
+                ? err.payload as ParseError
+                : { message: err instanceof Error ? err.message : String(err), lineNumber: null };
+            setJsonViewer({ error: parseError });
+        }
+    }, [jsonInput, rawFile, isDirectMode, inputFormat, parseMode, losslessNumbers, formatOptions, initWorker, setJsonViewer]);
+
+    // Format commands from the command palette apply to the tab on screen.
+    useEffect(() => {
+        if (!isActive) return;
+        return onJsonViewerCommand((command) => void handleFormat(FORMAT_COMMANDS[command]));
+    }, [isActive, handleFormat]);
+
+    // Replaces the source with the strict JSON equivalent of the tolerant parse.
+    const handleConvertToStrict = useCallback(async () => {
+        initWorker();
+        try {
+            const strict = await workerRef.current!.postMessage('TO_STRICT_JSON', null) as string;
+            setJsonViewer({ jsonInput: strict, isDirectMode: false, rawFile: null, error: null });
+            handleParse(strict, null, false);
+        } catch (err: unknown) {
+            if (WorkerManager.isCancelledError(err)) return;
             const message = err instanceof Error ? err.message : String(err);
-            setJsonViewer({ error: { message: `Invalid JSON: ${message}`, lineNumber: null } });
+            setJsonViewer({ error: { message, lineNumber: null } });
         }
-    };
+    }, [initWorker, handleParse, setJsonViewer]);
 
     const handleClear = () => {
         const hasData = Boolean(jsonInput.trim() || rawFile || jsonTree);
@@ -302,13 +764,12 @@ const JsonViewer: React.FC = () => {
         workerRef.current?.cancelAll('Cleared by user');
         setJsonViewer({
             jsonInput: '', jsonTree: null, error: null, fileInfo: null,
-            isDirectMode: false, rawFile: null
+            isDirectMode: false, rawFile: null, editHistory: { past: [], future: [] }, bookmarks: []
         });
         setSearchQuery('');
-        setSearchCount(null);
+        setSearch({ result: null, error: null, active: 0 });
         searchSeqRef.current += 1;
         if (fileInputRef.current) fileInputRef.current.value = '';
-        clearDraft(JSON_VIEWER_DRAFT_KEY);
     };
 
     const handleCopyJson = useCallback(async () => {
@@ -333,7 +794,13 @@ const JsonViewer: React.FC = () => {
     }, [setTaskStatus]);
 
     const canVisualize = Boolean(jsonInput.trim() || rawFile);
+    // Auto-detected input takes the language of the format it was last visualized as.
+    const editorFormat: 'json' | DataFormat = inputFormat === 'yaml' || inputFormat === 'toml' || inputFormat === 'xml'
+        ? inputFormat
+        : (inputFormat === 'auto' && (jsonTree as JsonNode | null)?.sourceFormat) || 'json';
+    const editorLanguage = EDITOR_LANGUAGES[editorFormat];
     const hasTree = Boolean(jsonTree);
+    const canEditTree = hasTree && !isDirectMode && !jsonTree?.streamed && treeSource === jsonInput;
     const approxLineCount = useMemo(() => {
         if (!jsonInput.trim()) return 0;
         return jsonInput.split('\n').length;
@@ -356,30 +823,57 @@ const JsonViewer: React.FC = () => {
                     {fileInfo && <span className="text-[11px] font-semibold bg-indigo-50/90 border border-indigo-100 text-indigo-700 px-2 py-0.5 rounded-md shrink-0">{formatFileSize(fileInfo.size)}</span>}
                 </div>
                 <span className="hidden md:inline text-[11px] font-semibold text-slate-400 shrink-0">Client-side processing</span>
-                {draftNotice && (
-                    <span className="text-[11px] font-semibold text-emerald-700 bg-emerald-50 border border-emerald-100 px-2 py-0.5 rounded-md">
-                        {draftNotice}
-                    </span>
-                )}
             </motion.div>
 
-            <div className="flex-1 grid grid-cols-1 xl:grid-cols-2 gap-3 sm:gap-4 min-h-0 overflow-hidden">
+            <div className={`flex-1 grid grid-cols-1 ${sidePane ? 'xl:grid-cols-3' : 'xl:grid-cols-2'} gap-3 sm:gap-4 min-h-0 overflow-hidden`}>
                 <motion.section variants={sectionMotion} className="flex flex-col gap-2 min-h-0 min-w-0">
                     <div className="flex items-end justify-between px-1 h-8">
                         <h2 className="text-lg font-bold text-slate-900 leading-none tracking-tight">Source JSON</h2>
+                        <div className="flex items-center gap-3">
+                            <label
+                                className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 cursor-pointer select-none"
+                                title="Keep 64-bit IDs and long decimals exactly as written instead of rounding them"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={losslessNumbers}
+                                    onChange={(e) => setJsonViewer({ losslessNumbers: e.target.checked })}
+                                />
+                                Lossless numbers
+                            </label>
+                            <select
+                                value={parseMode}
+                                onChange={(e) => setJsonViewer({ parseMode: e.target.value as JsonParseMode })}
+                                className="text-xs font-semibold text-slate-600 bg-transparent focus:outline-none cursor-pointer"
+                                title="Accepted syntax"
+                            >
+                                <option value="standard">Standard</option>
+                                <option value="tolerant">Tolerant (JSON5 / JSONC)</option>
+                            </select>
+                            <select
+                                value={inputFormat}
+                                onChange={(e) => setJsonViewer({ inputFormat: e.target.value as ViewerInputFormat })}
+                                className="text-xs font-semibold text-slate-600 bg-transparent focus:outline-none cursor-pointer"
+                                title="How the input is parsed"
+                            >
+                                <option value="auto">Auto-detect</option>
+                                <option value="json">JSON</option>
+                                <option value="ndjson">JSON Lines</option>
+                                <option value="yaml">YAML</option>
+                                <option value="toml">TOML</option>
+                                <option value="xml">XML</option>
+                            </select>
+                        </div>
                     </div>
 
                     <div className="premium-card p-2.5 flex items-center justify-between gap-2 ring-1 ring-white/40">
-                        <input ref={fileInputRef} type="file" accept=".json" onChange={handleFileUpload} className="hidden" id="json-file-upload" />
+                        <input ref={fileInputRef} type="file" accept=".json,.jsonl,.ndjson,.yaml,.yml,.toml,.xml" onChange={handleFileUpload} className="hidden" id={`json-file-upload-${tabId}`} />
                         <div className="flex items-center gap-2 flex-wrap">
-                            <label htmlFor="json-file-upload" className="btn-secondary h-9 px-3.5 cursor-pointer">
+                            <label htmlFor={`json-file-upload-${tabId}`} className="btn-secondary h-9 px-3.5 cursor-pointer">
                                 <Upload className="w-4 h-4" />
                                 <span className="text-sm font-semibold">Upload</span>
                             </label>
-                            <button onClick={handleFormat} className="btn-secondary h-9 px-3.5">
-                                <Wand2 className="w-4 h-4 text-amber-500" />
-                                <span className="text-sm font-semibold">Format</span>
-                            </button>
+                            <JsonFormatMenu options={formatOptions} onOptionsChange={setFormatOptions} onFormat={(overrides) => void handleFormat(overrides)} />
                             <button onClick={handleCopyJson} disabled={!canVisualize} className="btn-secondary h-9 px-3.5 disabled:opacity-50">
                                 {isCopied ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
                                 <span className="text-sm font-semibold">{isCopied ? 'Copied' : 'Copy'}</span>
@@ -428,9 +922,10 @@ const JsonViewer: React.FC = () => {
                                 <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-gray-500">Loading editor...</div>}>
                                     <MonacoEditor
                                         height="100%"
-                                        defaultLanguage="json"
+                                        language={editorLanguage}
                                         value={jsonInput}
                                         onChange={(v) => setJsonViewer({ jsonInput: v || '' })}
+                                        onMount={handleEditorMount}
                                         theme="light"
                                         options={{
                                             minimap: { enabled: false },
@@ -445,21 +940,100 @@ const JsonViewer: React.FC = () => {
                         </div>
                     </div>
 
-                    {error && (
-                        <div className="bg-red-50/95 border border-red-200 rounded-lg p-4 flex items-start gap-3 shadow-sm">
-                            <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
-                            <div>
-                                <h3 className="font-bold text-red-900 text-sm">Syntax Error</h3>
-                                <p className="text-sm text-red-700 mt-1">{error.message}</p>
-                            </div>
-                        </div>
-                    )}
+                    {error && <ParseErrorList error={error} onSelect={handleSelectParseError} />}
                 </motion.section>
 
                 <motion.section variants={sectionMotion} className="flex flex-col gap-2 min-h-0 min-w-0">
                     <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between px-1 h-8">
-                        <div>
+                        <div className="flex items-center gap-2">
                             <h2 className="text-lg font-bold text-slate-900 leading-none tracking-tight">Structured View</h2>
+                            {jsonTree?.jsonLines && (
+                                <span className="bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-[0.14em]">
+                                    JSON Lines · {jsonTree.children?.length ?? 0} records
+                                </span>
+                            )}
+                            {jsonTree?.sourceFormat && (
+                                <span className="bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-[0.14em]">
+                                    From {jsonTree.sourceFormat}
+                                </span>
+                            )}
+                            {jsonTree?.relaxations && (
+                                <>
+                                    <span
+                                        className="bg-amber-50 text-amber-700 px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-[0.14em]"
+                                        title={`Source uses ${jsonTree.relaxations.map((r: JsonRelaxation) => RELAXATION_LABELS[r]).join(', ')}`}
+                                    >
+                                        Non-strict
+                                    </span>
+                                    <button
+                                        onClick={handleConvertToStrict}
+                                        className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
+                                        title="Replace the source with strict JSON"
+                                    >
+                                        <ShieldCheck className="w-3.5 h-3.5" />
+                                        To strict JSON
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <button
+                                onClick={() => setViewMode(viewMode === 'tree' ? 'stats' : 'tree')}
+                                disabled={!hasTree}
+                                className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 disabled:opacity-50"
+                                title={viewMode === 'tree' ? 'Show size and structure stats' : 'Back to the tree'}
+                            >
+                                {viewMode === 'tree' ? <BarChart3 className="w-3.5 h-3.5" /> : <ListTree className="w-3.5 h-3.5" />}
+                                {viewMode === 'tree' ? 'Stats' : 'Tree'}
+                            </button>
+                            <button
+                                onClick={handleGenerateTypes}
+                                disabled={!hasTree || Boolean(jsonTree?.streamed)}
+                                className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 disabled:opacity-50"
+                                title="Infer JSON Schema, TypeScript and Zod types"
+                            >
+                                <Braces className="w-3.5 h-3.5" />
+                                Generate types
+                            </button>
+                            <button
+                                onClick={() => setExportOpen(true)}
+                                disabled={!hasTree || Boolean(jsonTree?.streamed)}
+                                className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 disabled:opacity-50"
+                                title="Export as JSON, YAML, TOML or XML"
+                            >
+                                <FileOutput className="w-3.5 h-3.5" />
+                                Export
+                            </button>
+                            {sidePane !== 'transform' && (
+                                <button
+                                    onClick={() => setSidePane('transform')}
+                                    className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
+                                    title="Reshape the document with a jq filter"
+                                >
+                                    <Workflow className="w-3.5 h-3.5" />
+                                    Transform
+                                </button>
+                            )}
+                            {sidePane !== 'bookmarks' && (
+                                <button
+                                    onClick={() => setSidePane('bookmarks')}
+                                    className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
+                                    title="Bookmarked nodes and notes"
+                                >
+                                    <Bookmark className="w-3.5 h-3.5" />
+                                    Bookmarks{bookmarks.length > 0 && ` (${bookmarks.length})`}
+                                </button>
+                            )}
+                            {sidePane !== 'schema' && (
+                                <button
+                                    onClick={() => setSidePane('schema')}
+                                    className="text-[11px] font-semibold text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
+                                    title="Validate against a JSON Schema"
+                                >
+                                    <ShieldAlert className="w-3.5 h-3.5" />
+                                    Schema
+                                </button>
+                            )}
                         </div>
                     </div>
 
@@ -471,22 +1045,104 @@ const JsonViewer: React.FC = () => {
                                     type="text"
                                     value={searchQuery}
                                     onChange={(e) => setSearchQuery(e.target.value)}
-                                    placeholder="Search keys or values..."
-                                    className="modern-input h-9 pl-10 pr-20 w-full text-sm disabled:bg-gray-50"
+                                    onKeyDown={(e) => {
+                                        if (e.key !== 'Enter') return;
+                                        e.preventDefault();
+                                        handleStepSearch(e.shiftKey ? -1 : 1);
+                                    }}
+                                    placeholder={SEARCH_PLACEHOLDERS[searchSettings.mode]}
+                                    className="modern-input h-9 pl-10 pr-24 w-full text-sm disabled:bg-gray-50"
                                     disabled={!hasTree}
                                 />
-                                {searchCount !== null && (
-                                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] font-black bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded">
-                                        {searchCount}
+                                {search.error ? (
+                                    <span
+                                        className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] font-black bg-red-100 text-red-700 px-2 py-0.5 rounded"
+                                        title={search.error}
+                                    >
+                                        Invalid
+                                    </span>
+                                ) : search.result && (
+                                    <span
+                                        className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] font-black bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded"
+                                        title={search.result.truncated ? `Only the first ${search.result.matches.length.toLocaleString()} matches can be stepped through` : undefined}
+                                    >
+                                        {search.result.count === 0
+                                            ? 0
+                                            : `${(search.active + 1).toLocaleString()}/${search.result.count.toLocaleString()}`}
                                     </span>
                                 )}
                             </div>
+                            <button
+                                onClick={() => handleStepSearch(-1)}
+                                className="btn-secondary h-9 px-2 shrink-0 disabled:opacity-50"
+                                disabled={!search.result?.matches.length}
+                                title="Previous match (Shift+Enter)"
+                            >
+                                <ArrowUp className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => handleStepSearch(1)}
+                                className="btn-secondary h-9 px-2 shrink-0 disabled:opacity-50"
+                                disabled={!search.result?.matches.length}
+                                title="Next match (Enter)"
+                            >
+                                <ArrowDown className="w-4 h-4" />
+                            </button>
+                            <select
+                                value={searchSettings.mode}
+                                onChange={(e) => setSearchSettings(prev => ({ ...prev, mode: e.target.value as JsonSearchOptions['mode'] }))}
+                                className="h-9 rounded-lg border border-slate-200 bg-white px-2 text-xs font-semibold text-slate-600 focus:outline-none shrink-0"
+                                disabled={!hasTree}
+                                title="Match mode"
+                            >
+                                <option value="text">Contains</option>
+                                <option value="exact">Exact</option>
+                                <option value="regex">Regex</option>
+                            </select>
+                            <select
+                                value={searchSettings.scope}
+                                onChange={(e) => setSearchSettings(prev => ({ ...prev, scope: e.target.value as JsonSearchOptions['scope'] }))}
+                                className="h-9 rounded-lg border border-slate-200 bg-white px-2 text-xs font-semibold text-slate-600 focus:outline-none shrink-0"
+                                disabled={!hasTree}
+                                title="Search in"
+                            >
+                                <option value="all">Keys & values</option>
+                                <option value="keys">Keys</option>
+                                <option value="values">Values</option>
+                                <option value="numbers">Numbers</option>
+                                <option value="strings">Strings</option>
+                            </select>
+                            <button
+                                onClick={() => setSearchSettings(prev => ({ ...prev, caseSensitive: !prev.caseSensitive }))}
+                                className={`btn-secondary h-9 px-2 shrink-0 text-xs font-bold disabled:opacity-50 ${searchSettings.caseSensitive ? 'text-indigo-600 bg-indigo-50' : ''}`}
+                                disabled={!hasTree}
+                                aria-pressed={searchSettings.caseSensitive}
+                                title="Match case"
+                            >
+                                Aa
+                            </button>
                         </div>
                         <div className="flex items-center gap-2 shrink-0">
+                            <button
+                                onClick={handleUndo}
+                                className="btn-secondary h-9 px-3 disabled:opacity-50"
+                                disabled={editHistory.past.length === 0 || isLoading}
+                                title="Undo edit"
+                            >
+                                <Undo2 className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={handleRedo}
+                                className="btn-secondary h-9 px-3 disabled:opacity-50"
+                                disabled={editHistory.future.length === 0 || isLoading}
+                                title="Redo edit"
+                            >
+                                <Redo2 className="w-4 h-4" />
+                            </button>
                             <button
                                 onClick={() => setExpandAll(true)}
                                 className="btn-secondary h-9 px-3 disabled:opacity-50"
-                                disabled={!hasTree || (jsonTree?.children?.length || 0) > 2000}
+                                disabled={!hasTree || Boolean(jsonTree?.streamed) || (jsonTree?.children?.length || 0) > 2000}
                                 title="Expand all"
                             >
                                 <ChevronDown className="w-4 h-4" />
@@ -502,6 +1158,14 @@ const JsonViewer: React.FC = () => {
                         </div>
                     </div>
 
+                    <JsonQueryConsole
+                        disabled={!hasTree}
+                        tree={jsonTree}
+                        onRun={handleRunQuery}
+                        onResult={handleQueryResult}
+                        onSelectMatch={handleSelectQueryMatch}
+                    />
+
                     <div className="flex-1 premium-card panel-pattern overflow-hidden min-h-0 ring-1 ring-white/40">
                         <div className="h-full p-3 sm:p-4 min-h-0 relative">
                             {isLoading && (
@@ -509,14 +1173,27 @@ const JsonViewer: React.FC = () => {
                                     <AppLoader label="Parsing JSON" size="sm" showBrandText={false} />
                                 </div>
                             )}
-                            {jsonTree ? (
+                            {displayTree && viewMode === 'stats' ? (
+                                <JsonStatsView
+                                    stats={stats.data}
+                                    isLoading={stats.isLoading}
+                                    error={stats.error}
+                                    onSelect={handleSelectStatsEntry}
+                                />
+                            ) : displayTree ? (
                                 <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-gray-500">Loading structure...</div>}>
                                     <VirtualizedJsonTree
-                                        data={jsonTree}
-                                        searchQuery={debouncedSearchQuery}
+                                        data={displayTree}
+                                        search={searchOptions.query ? searchOptions : null}
                                         defaultExpanded={expandAll}
                                         externalExpandedPaths={expandedPaths}
                                         onToggle={handleToggle}
+                                        highlightedPaths={highlightedPaths}
+                                        focusRequest={focusRequest}
+                                        onEdit={canEditTree ? handleEdit : undefined}
+                                        onViewTable={setTableNode}
+                                        bookmarks={bookmarkNotes}
+                                        onToggleBookmark={handleToggleBookmark}
                                     />
                                 </Suspense>
                             ) : (
@@ -541,7 +1218,63 @@ const JsonViewer: React.FC = () => {
                         </div>
                     </div>
                 </motion.section>
+
+                {sidePane === 'schema' && (
+                    <motion.section variants={sectionMotion} initial="hidden" animate="show" className="flex flex-col gap-2 min-h-0 min-w-0">
+                        <SchemaValidationPanel
+                            disabled={!hasTree || Boolean(jsonTree?.streamed)}
+                            schema={schemaInput}
+                            onSchemaChange={handleSchemaChange}
+                            onValidate={handleValidateSchema}
+                            onResult={handleSchemaResult}
+                            onSelectViolation={handleSelectQueryMatch}
+                            onClose={() => setSidePane(null)}
+                        />
+                    </motion.section>
+                )}
+
+                {sidePane === 'bookmarks' && (
+                    <motion.section variants={sectionMotion} initial="hidden" animate="show" className="flex flex-col gap-2 min-h-0 min-w-0">
+                        <BookmarksPanel
+                            bookmarks={bookmarks}
+                            missing={missingBookmarks}
+                            onJump={handleJumpToBookmark}
+                            onNoteChange={handleBookmarkNoteChange}
+                            onRemove={(path) => setJsonViewer({ bookmarks: bookmarks.filter((bookmark) => bookmark.path !== path) })}
+                            onClear={() => setJsonViewer({ bookmarks: [] })}
+                            onClose={() => setSidePane(null)}
+                        />
+                    </motion.section>
+                )}
+
+                {sidePane === 'transform' && (
+                    <motion.section variants={sectionMotion} initial="hidden" animate="show" className="flex flex-col gap-2 min-h-0 min-w-0">
+                        <JsonTransformPanel
+                            disabled={!hasTree || Boolean(jsonTree?.streamed)}
+                            tree={jsonTree}
+                            onRun={handleRunTransform}
+                            onReplaceInput={handleReplaceWithTransform}
+                            onClose={() => setSidePane(null)}
+                        />
+                    </motion.section>
+                )}
             </div>
+
+            <TypeGeneratorDialog
+                open={typeGen.open}
+                onOpenChange={(open) => setTypeGen(prev => ({ ...prev, open }))}
+                result={typeGen.result}
+                error={typeGen.error}
+                isLoading={typeGen.isLoading}
+                baseName={exportBaseName}
+            />
+            <DocumentExportDialog
+                open={exportOpen}
+                onOpenChange={setExportOpen}
+                onExport={handleExportDocument}
+                baseName={exportBaseName}
+            />
+            <JsonTableDialog node={tableNode} onClose={() => setTableNode(null)} baseName={exportBaseName} />
         </motion.div>
     );
 };
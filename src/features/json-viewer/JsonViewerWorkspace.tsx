@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { FileJson, Plus, X } from 'lucide-react';
+import { useAppStore, type JsonViewerTabDraft } from '../../store/AppContext';
+import { useDraftPreference } from '../../hooks/useDraftPreference';
+import { DRAFT_TTL_MS, loadDraftWithStatus, saveDraft } from '../../utils/draftStorage';
+import JsonViewer from './JsonViewer';
+
+/** Saved tabs; drafts from before tabs existed hold a single `jsonInput`. */
+type JsonViewerDraft = { tabs: JsonViewerTabDraft[]; activeTabId: string } | { jsonInput: string };
+const JSON_VIEWER_DRAFT_KEY = 'json-viewer';
+
+/**
+ * Tabbed JSON Viewer.
+ *
+ * Every tab is a `JsonViewer` with its own input, parsed tree, expansion,
+ * search and panes. Inactive tabs stay mounted but hidden, and each keeps
+ * its parser worker (see `parserWorkerPool`), so switching tabs does not
+ * reparse. Tab titles, inputs and bookmarks are saved as one draft.
+ */
+const JsonViewerWorkspace: React.FC = () => {
+    const { state, openJsonViewerTab, closeJsonViewerTab, setActiveJsonViewerTab, restoreJsonViewerTabs, setJsonViewer } = useAppStore();
+    const { tabs, activeTabId } = state.jsonViewer;
+    const { enabled: draftsEnabled } = useDraftPreference();
+    const [draftNotice, setDraftNotice] = useState<string | null>(null);
+    const [renaming, setRenaming] = useState<{ tabId: string; draft: string } | null>(null);
+
+    useEffect(() => {
+        if (!draftsEnabled) return;
+        let noticeTimer: number | undefined;
+        const showNotice = (message: string, duration: number) => {
+            setDraftNotice(message);
+            noticeTimer = window.setTimeout(() => setDraftNotice(null), duration);
+        };
+        // Drafts are read once the tabs have mounted with their initial state.
+        const restoreTimer = window.setTimeout(() => {
+            const { data: draft, expired } = loadDraftWithStatus<JsonViewerDraft>(JSON_VIEWER_DRAFT_KEY);
+            if (expired) {
+                showNotice(`Session expired (${Math.round(DRAFT_TTL_MS / 60000)} min). Draft cleared.`, 2000);
+                return;
+            }
+            if (!draft) return;
+            if ('tabs' in draft) {
+                if (!draft.tabs.some((tab) => tab.jsonInput)) return;
+                restoreJsonViewerTabs(draft.tabs, draft.activeTabId);
+            } else {
+                if (!draft.jsonInput) return;
+                restoreJsonViewerTabs([{ id: 'tab-restored', title: 'Untitled 1', jsonInput: draft.jsonInput }], 'tab-restored');
+            }
+            showNotice('Draft restored', 1600);
+        }, 0);
+        return () => {
+            window.clearTimeout(restoreTimer);
+            window.clearTimeout(noticeTimer);
+        };
+    }, [draftsEnabled, restoreJsonViewerTabs]);
+
+    useEffect(() => {
+        if (!draftsEnabled) return;
+        const timer = window.setTimeout(() => {
+            saveDraft<JsonViewerDraft>(JSON_VIEWER_DRAFT_KEY, {
+                tabs: tabs.map(({ id, title, jsonInput, bookmarks }) => ({ id, title, jsonInput, bookmarks })),
+                activeTabId,
+            });
+        }, 800);
+        return () => window.clearTimeout(timer);
+    }, [draftsEnabled, tabs, activeTabId]);
+
+    const handleClose = (tabId: string) => {
+        const tab = tabs.find((candidate) => candidate.id === tabId);
+        const hasData = Boolean(tab && (tab.jsonInput.trim() || tab.rawFile));
+        if (hasData && !window.confirm(`Close "${tab!.title}"?`)) return;
+        closeJsonViewerTab(tabId);
+    };
+
+    const commitRename = () => {
+        if (renaming && renaming.draft.trim()) setJsonViewer(renaming.tabId, { title: renaming.draft.trim() });
+        setRenaming(null);
+    };
+
+    return (
+        <div className="h-full min-h-0 flex flex-col gap-2">
+            <div className="flex items-center gap-2 min-w-0">
+                <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1 min-w-0 overflow-x-auto custom-scrollbar">
+                    {tabs.map((tab) => {
+                        const isActive = tab.id === activeTabId;
+                        return (
+                            <div
+                                key={tab.id}
+                                className={`group flex items-center gap-1.5 h-7 pl-2.5 pr-1 rounded-md text-xs font-semibold shrink-0 transition-colors ${isActive ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-600 hover:text-slate-900'}`}
+                            >
+                                {renaming?.tabId === tab.id ? (
+                                    <input
+                                        autoFocus
+                                        value={renaming.draft}
+                                        onChange={(e) => setRenaming({ tabId: tab.id, draft: e.target.value })}
+                                        onBlur={commitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename();
+                                            else if (e.key === 'Escape') setRenaming(null);
+                                        }}
+                                        className="h-5 w-32 px-1 rounded border border-indigo-300 bg-white text-xs text-slate-800 focus:outline-none"
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => setActiveJsonViewerTab(tab.id)}
+                                        onDoubleClick={() => setRenaming({ tabId: tab.id, draft: tab.title })}
+                                        className="flex items-center gap-1.5 max-w-[11rem]"
+                                        title={`${tab.title} (double-click to rename)`}
+                                    >
+                                        <FileJson className={`w-3.5 h-3.5 shrink-0 ${tab.jsonTree ? 'text-indigo-500' : 'text-slate-400'}`} />
+                                        <span className="truncate">{tab.title}</span>
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleClose(tab.id)}
+                                    className={`p-0.5 rounded hover:bg-slate-200/80 text-slate-400 hover:text-slate-700 ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                                    title="Close tab"
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+                <button onClick={() => openJsonViewerTab()} className="btn-secondary h-8 px-2.5 shrink-0" title="New tab">
+                    <Plus className="w-3.5 h-3.5" />
+                    <span className="text-xs font-semibold">New tab</span>
+                </button>
+                {draftNotice && (
+                    <span className="ml-auto text-[11px] font-semibold text-emerald-700 bg-emerald-50 border border-emerald-100 px-2 py-0.5 rounded-md shrink-0">
+                        {draftNotice}
+                    </span>
+                )}
+            </div>
+
+            {tabs.map((tab) => (
+                <div key={tab.id} className={tab.id === activeTabId ? 'flex-1 min-h-0' : 'hidden'}>
+                    <JsonViewer tabId={tab.id} isActive={tab.id === activeTabId} />
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default JsonViewerWorkspace;
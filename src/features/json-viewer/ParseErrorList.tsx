@@ -0,0 +1,67 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import type { ParseError, ParseErrorDetail } from '../../types/json';
+
+interface ParseErrorListProps {
+    error: ParseError;
+    onSelect: (detail: ParseErrorDetail) => void;
+}
+
+/**
+ * Syntax error panel for the JSON Viewer.
+ *
+ * Shows every located error with its source snippet and a fix hint; clicking
+ * an entry moves the editor cursor to it. Errors without location details
+ * (worker crashes, queries) fall back to the plain message.
+ */
+const ParseErrorList: React.FC<ParseErrorListProps> = ({ error, onSelect }) => {
+    const details = error.details ?? [];
+
+    return (
+        <div className="bg-red-50/95 border border-red-200 rounded-lg p-4 flex items-start gap-3 shadow-sm">
+            <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+            <div className="min-w-0 flex-1">
+                <h3 className="font-bold text-red-900 text-sm">
+                    {details.length > 1 ? `${details.length} Syntax Errors` : 'Syntax Error'}
+                </h3>
+                {details.length === 0 ? (
+                    <p className="text-sm text-red-700 mt-1">{error.message}</p>
+                ) : (
+                    <ul className="mt-2 max-h-48 overflow-y-auto space-y-1.5 pr-1">
+                        {details.map((detail) => (
+                            <li key={`${detail.offset}-${detail.code}`}>
+                                <button
+                                    onClick={() => onSelect(detail)}
+                                    className="w-full text-left rounded-md px-2 py-1.5 hover:bg-red-100/70 transition-colors"
+                                    title={detail.hint}
+                                >
+                                    <div className="flex items-baseline gap-2 text-sm">
+                                        <span className="font-mono text-[11px] font-bold text-red-800 shrink-0">
+                                            {detail.line}:{detail.column}
+                                        </span>
+                                        <span className="text-red-700">{detail.message}</span>
+                                        <span className="ml-auto text-[10px] font-semibold uppercase tracking-wider text-red-400 shrink-0">
+                                            {detail.code}
+                                        </span>
+                                    </div>
+                                    {detail.snippet && (
+                                        <pre className="mt-1 font-mono text-[11px] leading-4 text-slate-700 overflow-hidden">
+                                            {detail.snippet}
+                                            {'\n'}
+                                            <span className="text-red-600">{' '.repeat(detail.snippetColumn)}^</span>
+                                        </pre>
+                                    )}
+                                    {detail.hint && (
+                                        <p className="mt-0.5 text-[11px] text-red-500">{detail.hint}</p>
+                                    )}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ParseErrorList;
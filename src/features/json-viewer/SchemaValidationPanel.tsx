@@ -0,0 +1,173 @@
+import React, { lazy, Suspense, useCallback, useId, useRef, useState } from 'react';
+import { CheckCircle2, Loader2, ShieldAlert, Upload, X } from 'lucide-react';
+import type { JsonSchemaDraft, SchemaValidationResult } from '../../types/json';
+
+const MonacoEditor = lazy(() => import('@monaco-editor/react'));
+
+interface SchemaValidationPanelProps {
+    disabled: boolean;
+    schema: string;
+    onSchemaChange: (schema: string) => void;
+    onValidate: (schema: string, draft: JsonSchemaDraft | 'auto') => Promise<SchemaValidationResult>;
+    onResult: (result: SchemaValidationResult | null) => void;
+    onSelectViolation: (path: string) => void;
+    onClose: () => void;
+}
+
+const DRAFT_LABELS: Record<JsonSchemaDraft, string> = {
+    'draft-07': 'Draft-07',
+    '2020-12': '2020-12',
+};
+
+/**
+ * JSON Schema pane for the JSON Viewer.
+ *
+ * The schema is pasted or uploaded here and validated in the parser worker
+ * against the visualized document. Violations map onto tree paths, so the
+ * viewer can highlight them and clicking one reveals the offending node.
+ */
+const SchemaValidationPanel: React.FC<SchemaValidationPanelProps> = ({
+    disabled,
+    schema,
+    onSchemaChange,
+    onValidate,
+    onResult,
+    onSelectViolation,
+    onClose,
+}) => {
+    const uploadId = useId();
+    const [draft, setDraft] = useState<JsonSchemaDraft | 'auto'>('auto');
+    const [result, setResult] = useState<SchemaValidationResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleValidate = useCallback(async () => {
+        if (!schema.trim()) return;
+        setIsRunning(true);
+        setError(null);
+        try {
+            const next = await onValidate(schema, draft);
+            setResult(next);
+            onResult(next);
+        } catch (err: unknown) {
+            setResult(null);
+            onResult(null);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsRunning(false);
+        }
+    }, [schema, draft, onValidate, onResult]);
+
+    const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => onSchemaChange(e.target?.result as string);
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    const handleClose = () => {
+        onResult(null);
+        onClose();
+    };
+
+    return (
+        <div className="flex flex-col gap-2 min-h-0 h-full">
+            <div className="flex items-end justify-between px-1 h-8">
+                <h2 className="text-lg font-bold text-slate-900 leading-none tracking-tight">JSON Schema</h2>
+                <select
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value as JsonSchemaDraft | 'auto')}
+                    className="text-xs font-semibold text-slate-600 bg-transparent focus:outline-none cursor-pointer"
+                    title="Schema draft"
+                >
+                    <option value="auto">Auto ($schema)</option>
+                    <option value="draft-07">Draft-07</option>
+                    <option value="2020-12">2020-12</option>
+                </select>
+            </div>
+
+            <div className="premium-card p-2.5 flex items-center justify-between gap-2 ring-1 ring-white/40">
+                <input ref={fileInputRef} type="file" accept=".json" onChange={handleFileUpload} className="hidden" id={uploadId} />
+                <div className="flex items-center gap-2">
+                    <label htmlFor={uploadId} className="btn-secondary h-9 px-3.5 cursor-pointer">
+                        <Upload className="w-4 h-4" />
+                        <span className="text-sm font-semibold">Upload</span>
+                    </label>
+                    <button onClick={handleClose} className="btn-secondary h-9 px-3" title="Close schema pane">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <button
+                    onClick={() => void handleValidate()}
+                    disabled={disabled || isRunning || !schema.trim()}
+                    className="btn-primary-gradient h-9 px-4 shrink-0 disabled:opacity-50"
+                >
+                    {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldAlert className="w-4 h-4" />}
+                    <span className="text-sm font-semibold">Validate</span>
+                </button>
+            </div>
+
+            <div className="flex-1 premium-card panel-pattern overflow-hidden min-h-[12rem] ring-1 ring-white/40">
+                <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-gray-500">Loading editor...</div>}>
+                    <MonacoEditor
+                        height="100%"
+                        defaultLanguage="json"
+                        value={schema}
+                        onChange={(v) => onSchemaChange(v || '')}
+                        theme="light"
+                        options={{
+                            minimap: { enabled: false },
+                            fontSize: 13,
+                            automaticLayout: true,
+                            padding: { top: 16, bottom: 16 },
+                            scrollBeyondLastLine: false
+                        }}
+                    />
+                </Suspense>
+            </div>
+
+            {error && (
+                <p className="text-xs font-semibold text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1.5">{error}</p>
+            )}
+
+            {result && (
+                result.count === 0 ? (
+                    <div className="flex items-center gap-2 text-xs font-semibold text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-md px-2 py-1.5">
+                        <CheckCircle2 className="w-4 h-4" />
+                        Valid against {DRAFT_LABELS[result.draft]} schema
+                    </div>
+                ) : (
+                    <div className="flex flex-col gap-1.5 min-h-0">
+                        <span className="text-[11px] font-semibold text-slate-600 px-1">
+                            {result.count.toLocaleString()} {result.count === 1 ? 'violation' : 'violations'} ({DRAFT_LABELS[result.draft]})
+                            {result.truncated && ` • showing first ${result.violations.length.toLocaleString()}`}
+                        </span>
+                        <div className="max-h-48 overflow-auto custom-scrollbar rounded-lg border border-red-100 bg-white/90 divide-y divide-slate-100">
+                            {result.violations.map((violation, index) => (
+                                <button
+                                    key={`${violation.schemaPath}-${violation.path}-${index}`}
+                                    onClick={() => onSelectViolation(violation.path)}
+                                    className="w-full text-left px-3 py-1.5 flex flex-col gap-0.5 hover:bg-red-50/60"
+                                    title={violation.schemaPath}
+                                >
+                                    <span className="flex items-baseline gap-2 text-[11px]">
+                                        <span className="font-mono text-sky-700 shrink-0 max-w-[45%] truncate">{violation.path || '(root)'}</span>
+                                        <span className="text-red-700 truncate">{violation.message}</span>
+                                        <span className="ml-auto text-[10px] font-semibold uppercase tracking-wider text-red-400 shrink-0">
+                                            {violation.keyword}
+                                        </span>
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )
+            )}
+        </div>
+    );
+};
+
+export default SchemaValidationPanel;
@@ -0,0 +1,126 @@
+import React, { lazy, Suspense, useState } from 'react';
+import { Check, Copy, Download, Loader2 } from 'lucide-react';
+import type { InferredTypes } from '../../types/json';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { copyToClipboard } from '../../utils/jsonUtils';
+import { buildDownloadFileName } from '../../utils/fileName';
+
+const MonacoEditor = lazy(() => import('@monaco-editor/react'));
+
+type OutputKind = keyof InferredTypes;
+
+interface TypeGeneratorDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    result: InferredTypes | null;
+    error: string | null;
+    isLoading: boolean;
+    /** Export name without extension, e.g. the uploaded file's name */
+    baseName: string;
+}
+
+const OUTPUTS: Record<OutputKind, { label: string; language: string; suffix: string; extension: string; mime: string }> = {
+    schema: { label: 'JSON Schema', language: 'json', suffix: '_schema', extension: 'json', mime: 'application/schema+json' },
+    typescript: { label: 'TypeScript', language: 'typescript', suffix: '_types', extension: 'ts', mime: 'text/typescript' },
+    zod: { label: 'Zod', language: 'typescript', suffix: '_zod', extension: 'ts', mime: 'text/typescript' },
+};
+
+/**
+ * Shows the JSON Schema, TypeScript interfaces and Zod schemas inferred from
+ * the visualized document in a read-only editor, with copy and download.
+ */
+const TypeGeneratorDialog: React.FC<TypeGeneratorDialogProps> = ({ open, onOpenChange, result, error, isLoading, baseName }) => {
+    const [output, setOutput] = useState<OutputKind>('typescript');
+    const [isCopied, setIsCopied] = useState(false);
+    const content = result?.[output] ?? '';
+    const config = OUTPUTS[output];
+
+    const handleCopy = async () => {
+        const copied = await copyToClipboard(content);
+        if (copied) {
+            setIsCopied(true);
+            window.setTimeout(() => setIsCopied(false), 1400);
+        }
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([content], { type: config.mime });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = buildDownloadFileName(`${baseName}${config.suffix}`, config.extension);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl bg-white">
+                <DialogHeader>
+                    <DialogTitle>Generated types</DialogTitle>
+                    <DialogDescription>
+                        Inferred from every value in the document: array items are merged, missing fields become optional.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1">
+                        {(Object.keys(OUTPUTS) as OutputKind[]).map((kind) => (
+                            <button
+                                key={kind}
+                                onClick={() => setOutput(kind)}
+                                className={`h-7 px-3 rounded-md text-xs font-semibold transition-colors ${output === kind ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-600 hover:text-slate-900'}`}
+                            >
+                                {OUTPUTS[kind].label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-1.5">
+                        <button onClick={handleCopy} disabled={!content} className="btn-secondary h-8 px-2.5 disabled:opacity-50">
+                            {isCopied ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+                            <span className="text-xs font-semibold">{isCopied ? 'Copied' : 'Copy'}</span>
+                        </button>
+                        <button onClick={handleDownload} disabled={!content} className="btn-secondary h-8 px-2.5 disabled:opacity-50">
+                            <Download className="w-3.5 h-3.5" />
+                            <span className="text-xs font-semibold">Download</span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="h-[60vh] rounded-lg border border-slate-200 overflow-hidden">
+                    {isLoading ? (
+                        <div className="h-full flex items-center justify-center gap-2 text-sm text-gray-500">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            Inferring types...
+                        </div>
+                    ) : error ? (
+                        <p className="m-3 text-xs font-semibold text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1.5">{error}</p>
+                    ) : (
+                        <Suspense fallback={<div className="h-full flex items-center justify-center text-sm text-gray-500">Loading editor...</div>}>
+                            <MonacoEditor
+                                height="100%"
+                                language={config.language}
+                                value={content}
+                                // Generated code references packages (zod) the editor cannot resolve.
+                                beforeMount={(monaco) => monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({ noSemanticValidation: true })}
+                                theme="light"
+                                options={{
+                                    readOnly: true,
+                                    minimap: { enabled: false },
+                                    fontSize: 13,
+                                    automaticLayout: true,
+                                    padding: { top: 16, bottom: 16 },
+                                    scrollBeyondLastLine: false
+                                }}
+                            />
+                        </Suspense>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TypeGeneratorDialog;
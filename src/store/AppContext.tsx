@@ -1,12 +1,19 @@
 import React, { createContext, useContext, useState, type ReactNode } from 'react';
+import type { JsonBookmark, JsonInputFormat, JsonParseMode, ViewerInputFormat } from '../types/json';
+import type { DiffIgnorePreset, DiffIgnoreRules, JsonArrayMatch } from '../types/diff';
+import { DIFF_IGNORE_DEFAULTS, DIFF_IGNORE_PRESETS } from '../constants';
 
 /**
- * State for the JSON Structure Viewer feature.
+ * State of one JSON Structure Viewer tab.
  * 
  * Manages large JSON file visualization with virtualized tree rendering.
  * Supports two modes: standard (for files < 2MB) and Direct Mode (for large files).
  */
 interface JsonViewerState {
+    /** Stable tab id; also keys the tab's parser worker */
+    id: string;
+    /** Tab label: the uploaded file's name or "Untitled n" */
+    title: string;
     /** Raw JSON string input from user or file */
     jsonInput: string;
     /** Parsed tree structure for visualization (null if not yet parsed) */
@@ -20,10 +27,34 @@ interface JsonViewerState {
     isDirectMode: boolean;
     /** Raw File object reference for Direct Mode processing */
     rawFile: File | null;
-    /** Parse error details (message and optional line number) */
+    /** Parse error details (message, line number and located errors when available) */
     error: any | null;
+    /** Input interpretation: auto-detect, plain JSON, JSON Lines, or YAML / TOML / XML converted to JSON */
+    inputFormat: ViewerInputFormat;
+    /** Syntax accepted by the parser: standard JSON or tolerant JSON5 / JSONC */
+    parseMode: JsonParseMode;
+    /** Keep numbers a JS `number` would round (64-bit IDs, long decimals) as their source text */
+    losslessNumbers: boolean;
+    /** Source snapshots taken before / after tree edits, for undo and redo */
+    editHistory: { past: string[]; future: string[] };
+    /** JSON Schema text used by the validation pane */
+    schemaInput: string;
+    /** Bookmarked tree nodes with notes, kept with the input */
+    bookmarks: JsonBookmark[];
 }
 
+/**
+ * Documents open in the JSON Viewer. Each tab owns its input and parsed
+ * tree; there is always at least one tab.
+ */
+interface JsonViewerWorkspace {
+    tabs: JsonViewerState[];
+    activeTabId: string;
+}
+
+/** Tab fields persisted as a draft; drafts saved before bookmarks existed have none */
+export type JsonViewerTabDraft = Pick<JsonViewerState, 'id' | 'title' | 'jsonInput'> & Partial<Pick<JsonViewerState, 'bookmarks'>>;
+
 /**
  * State for the Diff Checker feature.
  * 
@@ -34,12 +65,24 @@ interface DiffCheckerState {
     text1: string;
     /** Right-side text or JSON input */
     text2: string;
-    /** Comparison mode: plain text or structured JSON */
-    mode: 'text' | 'json';
+    /** Merge mode: the common ancestor of both inputs */
+    baseText: string;
+    /** Comparison mode: text by line (`text`), word or character, structured JSON, or a three-way merge */
+    mode: 'text' | 'words' | 'chars' | 'json' | 'merge';
     /** When true, whitespace differences are ignored */
     ignoreWhitespace: boolean;
     /** When true (JSON mode only), object keys are sorted before comparison */
     sortKeys: boolean;
+    /** JSON mode: how array items are paired (by index, identity key or similarity) */
+    arrayMatch: JsonArrayMatch;
+    /** JSON mode: identity key of array items for the `key` strategy */
+    arrayKey: string;
+    /** JSON mode: reordered array items are not reported as moved */
+    ignoreArrayOrder: boolean;
+    /** Paths, text lines and value differences left out of the comparison */
+    ignoreRules: DiffIgnoreRules;
+    /** Named ignore rule sets */
+    ignorePresets: DiffIgnorePreset[];
 }
 
 /**
@@ -60,6 +103,8 @@ interface JsonExcelState {
     flatten: boolean;
     /** Direct Mode for large files (ArrayBuffer transfer) */
     isDirectMode: boolean;
+    /** JSON input interpretation: auto-detect, plain JSON or JSON Lines */
+    inputFormat: JsonInputFormat;
 }
 
 /**
@@ -82,6 +127,8 @@ interface JsonCsvState {
     delimiter: string;
     /** Direct Mode for large files (ArrayBuffer transfer) */
     isDirectMode: boolean;
+    /** JSON input interpretation: auto-detect, plain JSON or JSON Lines */
+    inputFormat: JsonInputFormat;
 }
 
 /**
@@ -127,7 +174,7 @@ interface GlobalTaskStatus {
  * to keep concerns separated and enable independent updates.
  */
 interface AppState {
-    jsonViewer: JsonViewerState;
+    jsonViewer: JsonViewerWorkspace;
     diffChecker: DiffCheckerState;
     jsonExcel: JsonExcelState;
     jsonCsv: JsonCsvState;
@@ -144,18 +191,26 @@ interface AppState {
  * 
  * @example
  * ```tsx
- * const { state, setJsonViewer } = useAppStore();
+ * const { state, setDiffChecker } = useAppStore();
  * 
- * // Update JSON viewer state
- * setJsonViewer({ jsonInput: '{"key": "value"}' });
+ * // Update diff checker state
+ * setDiffChecker({ text1: '{"key": "value"}' });
  * 
  * // Read current state
- * console.log(state.jsonViewer.jsonTree);
+ * console.log(state.diffChecker.mode);
  * ```
  */
 interface AppContextType {
     state: AppState;
-    setJsonViewer: (data: Partial<JsonViewerState>) => void;
+    /** Updates one JSON Viewer tab */
+    setJsonViewer: (tabId: string, data: Partial<JsonViewerState>) => void;
+    /** Adds a tab after the active one, activates it and returns its id */
+    openJsonViewerTab: (data?: Partial<Omit<JsonViewerState, 'id'>>) => string;
+    /** Removes a tab; closing the last tab leaves a new empty one */
+    closeJsonViewerTab: (tabId: string) => void;
+    setActiveJsonViewerTab: (tabId: string) => void;
+    /** Replaces the tabs with restored drafts */
+    restoreJsonViewerTabs: (drafts: JsonViewerTabDraft[], activeTabId: string) => void;
     setDiffChecker: (data: Partial<DiffCheckerState>) => void;
     setJsonExcel: (data: Partial<JsonExcelState>) => void;
     setJsonCsv: (data: Partial<JsonCsvState>) => void;
@@ -164,7 +219,30 @@ interface AppContextType {
     setTaskStatus: (data: Partial<GlobalTaskStatus>) => void;
 }
 
-const initialJsonViewer: JsonViewerState = {
+let tabSequence = 0;
+
+const createJsonViewerTab = (data: Partial<JsonViewerState> = {}): JsonViewerState => {
+    tabSequence += 1;
+    return {
+        id: `tab-${Date.now().toString(36)}-${tabSequence}`,
+        title: `Untitled ${tabSequence}`,
+        jsonInput: '',
+        jsonTree: null,
+        fileInfo: null,
+        isDirectMode: false,
+        rawFile: null,
+        error: null,
+        inputFormat: 'auto',
+        parseMode: 'standard',
+        losslessNumbers: false,
+        editHistory: { past: [], future: [] },
+        schemaInput: '',
+        bookmarks: [],
+        ...data,
+    };
+};
+
+const initialJsonViewerTab = createJsonViewerTab({
     jsonInput: JSON.stringify({
         "tool": {
             "name": "DevDesk",
@@ -189,19 +267,25 @@ const initialJsonViewer: JsonViewerState = {
         },
         "🚀_action": "This is just a demo. Clear this editor (or paste your own JSON) to begin your mission."
     }, null, 2),
-    jsonTree: null,
-    fileInfo: null,
-    isDirectMode: false,
-    rawFile: null,
-    error: null,
+});
+
+const initialJsonViewer: JsonViewerWorkspace = {
+    tabs: [initialJsonViewerTab],
+    activeTabId: initialJsonViewerTab.id,
 };
 
 const initialDiffChecker: DiffCheckerState = {
     text1: '',
     text2: '',
+    baseText: '',
     mode: 'text',
     ignoreWhitespace: false,
     sortKeys: false,
+    arrayMatch: 'index',
+    arrayKey: 'id',
+    ignoreArrayOrder: false,
+    ignoreRules: DIFF_IGNORE_DEFAULTS,
+    ignorePresets: DIFF_IGNORE_PRESETS,
 };
 
 const initialJsonExcel: JsonExcelState = {
@@ -212,6 +296,7 @@ const initialJsonExcel: JsonExcelState = {
     isDirty: false,
     flatten: true,
     isDirectMode: false,
+    inputFormat: 'auto',
 };
 
 const initialJsonCsv: JsonCsvState = {
@@ -223,6 +308,7 @@ const initialJsonCsv: JsonCsvState = {
     flatten: true,
     delimiter: ',',
     isDirectMode: false,
+    inputFormat: 'auto',
 };
 
 const initialWordPdf: WordPdfState = {
@@ -248,7 +334,7 @@ const initialTaskStatus: GlobalTaskStatus = {
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-    const [jsonViewer, setJsonViewerState] = useState<JsonViewerState>(initialJsonViewer);
+    const [jsonViewer, setJsonViewerState] = useState<JsonViewerWorkspace>(initialJsonViewer);
     const [diffChecker, setDiffCheckerState] = useState<DiffCheckerState>(initialDiffChecker);
     const [jsonExcel, setJsonExcelState] = useState<JsonExcelState>(initialJsonExcel);
     const [jsonCsv, setJsonCsvState] = useState<JsonCsvState>(initialJsonCsv);
@@ -256,8 +342,51 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const [excelCsv, setExcelCsvState] = useState<ExcelCsvState>(initialExcelCsv);
     const [taskStatus, setTaskStatusState] = useState<GlobalTaskStatus>(initialTaskStatus);
 
-    const setJsonViewer = React.useCallback((data: Partial<JsonViewerState>) =>
-        setJsonViewerState(prev => ({ ...prev, ...data })), []);
+    const setJsonViewer = React.useCallback((tabId: string, data: Partial<JsonViewerState>) =>
+        setJsonViewerState(prev => ({
+            ...prev,
+            tabs: prev.tabs.map(tab => (tab.id === tabId ? { ...tab, ...data } : tab)),
+        })), []);
+
+    const openJsonViewerTab = React.useCallback((data: Partial<Omit<JsonViewerState, 'id'>> = {}) => {
+        const tab = createJsonViewerTab(data);
+        setJsonViewerState(prev => {
+            const index = prev.tabs.findIndex(existing => existing.id === prev.activeTabId);
+            const tabs = [...prev.tabs];
+            tabs.splice(index + 1, 0, tab);
+            return { tabs, activeTabId: tab.id };
+        });
+        return tab.id;
+    }, []);
+
+    const closeJsonViewerTab = React.useCallback((tabId: string) =>
+        setJsonViewerState(prev => {
+            const index = prev.tabs.findIndex(tab => tab.id === tabId);
+            if (index === -1) return prev;
+            const tabs = prev.tabs.filter(tab => tab.id !== tabId);
+            if (tabs.length === 0) tabs.push(createJsonViewerTab());
+            const activeTabId = prev.activeTabId === tabId
+                ? tabs[Math.min(index, tabs.length - 1)].id
+                : prev.activeTabId;
+            return { tabs, activeTabId };
+        }), []);
+
+    const setActiveJsonViewerTab = React.useCallback((tabId: string) =>
+        setJsonViewerState(prev => (prev.tabs.some(tab => tab.id === tabId) ? { ...prev, activeTabId: tabId } : prev)), []);
+
+    const restoreJsonViewerTabs = React.useCallback((drafts: JsonViewerTabDraft[], activeTabId: string) => {
+        if (drafts.length === 0) return;
+        setJsonViewerState(prev => {
+            // Tabs still open keep their parsed tree; the draft text replaces any file.
+            const tabs = drafts.map(draft => {
+                const open = prev.tabs.find(tab => tab.id === draft.id);
+                return open
+                    ? { ...open, ...draft, rawFile: null, isDirectMode: false, fileInfo: null }
+                    : createJsonViewerTab(draft);
+            });
+            return { tabs, activeTabId: tabs.some(tab => tab.id === activeTabId) ? activeTabId : tabs[0].id };
+        });
+    }, []);
 
     const setDiffChecker = React.useCallback((data: Partial<DiffCheckerState>) =>
         setDiffCheckerState(prev => ({ ...prev, ...data })), []);
@@ -280,6 +409,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const value = React.useMemo(() => ({
         state: { jsonViewer, diffChecker, jsonExcel, jsonCsv, wordPdf, excelCsv, taskStatus },
         setJsonViewer,
+        openJsonViewerTab,
+        closeJsonViewerTab,
+        setActiveJsonViewerTab,
+        restoreJsonViewerTabs,
         setDiffChecker,
         setJsonExcel,
         setJsonCsv,
@@ -307,16 +440,16 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
  * @example
  * ```tsx
  * function MyComponent() {
- *   const { state, setJsonViewer } = useAppStore();
+ *   const { state, setDiffChecker } = useAppStore();
  *   
- *   const handleParse = () => {
- *     setJsonViewer({ 
- *       jsonInput: '{"hello": "world"}',
- *       error: null 
+ *   const handleReset = () => {
+ *     setDiffChecker({ 
+ *       text1: '{"hello": "world"}',
+ *       text2: '' 
  *     });
  *   };
  *   
- *   return <div>{state.jsonViewer.jsonTree}</div>;
+ *   return <div>{state.diffChecker.text1}</div>;
  * }
  * ```
  */
@@ -0,0 +1,135 @@
+import type { JsonValue } from './json';
+
+/** What happened to a value between the left and right document. */
+export type JsonChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+/**
+ * How array items are paired up: by position, by an identity key of object
+ * items (`id`, `sku`), or with the most similar item.
+ */
+export type JsonArrayMatch = 'index' | 'key' | 'similarity';
+
+export interface JsonDiffOptions {
+    arrayMatch: JsonArrayMatch;
+    /** Identity key used by the `key` strategy */
+    arrayKey: string;
+    /** Compare arrays as unordered collections: reordered items are not reported as moved */
+    ignoreArrayOrder: boolean;
+}
+
+/**
+ * Status of a node in the structural diff tree: a change, `unchanged`, or
+ * `modified` for a container both sides have whose contents differ.
+ */
+export type JsonDiffStatus = JsonChangeKind | 'unchanged' | 'modified';
+
+/**
+ * One path-level change, e.g. `/users/3/email` changed from `"a"` to `"b"`.
+ * Removed values have their left-document path; everything else has its
+ * path in the right document.
+ */
+export interface JsonDiffChange {
+    kind: JsonChangeKind;
+    /** JSON Pointer of the value (`''` for the root) */
+    path: string;
+    /** `moved` only: the item's path in the left document */
+    from?: string;
+    /** Value in the left document; absent for `added` and `moved` */
+    left?: JsonValue;
+    /** Value in the right document; absent for `removed` and `moved` */
+    right?: JsonValue;
+}
+
+export interface JsonDiffNode {
+    /** Object key or array index; `''` for the root */
+    key: string;
+    /** JSON Pointer of the node */
+    path: string;
+    status: JsonDiffStatus;
+    type: 'string' | 'number' | 'boolean' | 'null' | 'array' | 'object';
+    /**
+     * Values of leaves and of added / removed / changed nodes. Containers
+     * present and compared on both sides carry `children` instead.
+     */
+    left?: JsonValue;
+    right?: JsonValue;
+    children?: JsonDiffNode[];
+    /** Array items matched at another position: the item's path in the left document */
+    from?: string;
+    /** Changes at or below the node, its own move included */
+    changeCount: number;
+}
+
+/** Structural comparison of two JSON documents. */
+export interface JsonDiffReport {
+    tree: JsonDiffNode;
+    /** Every change in document order */
+    changes: JsonDiffChange[];
+    counts: Record<JsonChangeKind, number>;
+}
+
+/** Value normalisers applied to both sides before comparison. */
+export interface DiffNormalizers {
+    /** Round non-integer numbers to this many decimals; `null` keeps them as they are */
+    roundDecimals: number | null;
+    lowercase: boolean;
+    trim: boolean;
+}
+
+/** Differences the Diff Checker leaves out, e.g. timestamps and request IDs. */
+export interface DiffIgnoreRules {
+    /** JSON values at these path globs are removed, e.g. `**.updatedAt` or `items[*].etag` */
+    paths: string[];
+    /**
+     * Regular expressions; lines matching any of them are removed from text
+     * comparisons. JSON mode compares parsed values, so it uses them only for
+     * inputs that are not valid JSON
+     */
+    linePatterns: string[];
+    normalizers: DiffNormalizers;
+}
+
+export interface DiffIgnorePreset {
+    name: string;
+    rules: DiffIgnoreRules;
+}
+
+/** Granularity of a text comparison. */
+export type TextDiffMode = 'lines' | 'words' | 'chars';
+
+/** A run of characters within a line, marked when it differs from the paired line. */
+export interface DiffLineSegment {
+    value: string;
+    changed: boolean;
+}
+
+/** One line of a unified line diff. */
+export interface DiffLine {
+    kind: 'unchanged' | 'added' | 'removed';
+    text: string;
+    /** 1-based line numbers; the left one is absent for added lines, the right one for removed lines */
+    leftLine?: number;
+    rightLine?: number;
+    /** Lines paired as modified: the characters that differ from the other line */
+    segments?: DiffLineSegment[];
+}
+
+/**
+ * How a region of a three-way merge differs from the base: `ours` and
+ * `theirs` changed on one side only, `same` identically on both, and
+ * `conflict` differently on both.
+ */
+export type MergeHunkKind = 'unchanged' | 'ours' | 'theirs' | 'same' | 'conflict';
+
+/** A region of a three-way merge, as lines of each version. */
+export interface MergeHunk {
+    kind: MergeHunkKind;
+    /** 1-based first line of the region in the base (for an insertion, the line it precedes) */
+    baseLine: number;
+    base: string[];
+    ours: string[];
+    theirs: string[];
+}
+
+/** Lines a merge hunk resolves to: our change, theirs, or ours followed by theirs. */
+export type MergeResolution = 'ours' | 'theirs' | 'both';
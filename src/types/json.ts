@@ -1,21 +1,294 @@
 export type JsonValue =
     | string
     | number
+    | LosslessNumber
     | boolean
     | null
     | JsonValue[]
     | { [key: string]: JsonValue };
 
+declare const losslessNumberBrand: unique symbol;
+
+/**
+ * A number literal a JS `number` cannot hold exactly (an integer beyond
+ * `Number.MAX_SAFE_INTEGER` or a decimal with more precision than a double),
+ * kept as its source text by the lossless number mode. At run time it is a
+ * `String` object; see `utils/losslessNumber.ts`. The brand keeps plain
+ * strings from type-checking as one.
+ */
+export interface LosslessNumber {
+    readonly [losslessNumberBrand]: true;
+    valueOf(): string;
+    toString(): string;
+}
+
+/** What a `LosslessNumber` holds: an integer or a decimal / exponent literal. */
+export type LosslessNumberKind = 'bigint' | 'decimal';
+
+/** One step into a JSON document: an object key or an array index. */
+export type JsonPathSegment = string | number;
+
 export interface JsonNode {
     key: string;
     value: JsonValue;
     type: 'string' | 'number' | 'boolean' | 'null' | 'array' | 'object';
+    /** JSON Pointer of the node (`''` for the root); unique within the tree */
     path: string;
+    /** Keys and indices leading from the root to the node */
+    segments: JsonPathSegment[];
     isExpanded?: boolean;
     children?: JsonNode[];
+    /**
+     * Streamed documents only: containers do not carry their `value`; the
+     * number of direct children is known before they are materialised.
+     */
+    streamed?: boolean;
+    childCount?: number;
+    /** Streamed documents only: true until the worker has materialised `children` */
+    lazy?: boolean;
+    /** Root only: the input was JSON Lines and each record became an array element */
+    jsonLines?: boolean;
+    /** Root only: non-strict syntax accepted by the tolerant (JSON5 / JSONC) parser */
+    relaxations?: JsonRelaxation[];
+    /** Root only: the input was YAML, TOML or XML and was converted to JSON */
+    sourceFormat?: DataFormat;
+    /** Number nodes whose value is a `LosslessNumber` (source text kept exactly) */
+    numberKind?: LosslessNumberKind;
+}
+
+/** How text input is interpreted: sniffed, a single JSON document, or JSON Lines. */
+export type JsonInputFormat = 'auto' | 'json' | 'ndjson';
+
+/** Text formats besides JSON that the JSON viewer reads and exports. */
+export type DataFormat = 'yaml' | 'toml' | 'xml';
+
+/** JSON viewer input: the JSON formats, or YAML / TOML / XML converted to JSON. */
+export type ViewerInputFormat = JsonInputFormat | DataFormat;
+
+/** Target of a document export. `indent` is ignored by TOML; the rest only applies to XML. */
+export interface DocumentExportOptions {
+    format: 'json' | DataFormat;
+    indent: number;
+    /** Object keys starting with this prefix become XML attributes */
+    attributePrefix: string;
+    /** Element name of array items that have no key of their own (top-level and nested arrays) */
+    arrayItemName: string;
+}
+
+/** Output layout of the viewer's Format action; `canonical` overrides the layout options. */
+export interface JsonFormatOptions {
+    /** Spaces per nesting level, or one tab */
+    indent: number | 'tab';
+    /** Everything on one line */
+    minify: boolean;
+    /** Object keys in sorted order, at every depth */
+    sortKeys: boolean;
+    /** Arrays of objects sorted by this key's value, at every depth; empty keeps their order */
+    sortArraysBy: string;
+    /** Non-ASCII characters in strings written as `\uXXXX` escapes */
+    escapeUnicode: boolean;
+    /** RFC 8785 canonical JSON (JCS): minified, keys sorted by UTF-16 code units, ECMAScript number form */
+    canonical: boolean;
+}
+
+/** `standard` is JSON with `//` comments stripped; `tolerant` accepts JSON5 / JSONC. */
+export type JsonParseMode = 'standard' | 'tolerant';
+
+/** Non-strict syntax features recognised by the tolerant parser. */
+export type JsonRelaxation =
+    | 'comments'
+    | 'trailing-commas'
+    | 'single-quotes'
+    | 'unquoted-keys'
+    | 'hex-numbers'
+    | 'non-finite-numbers'
+    | 'number-syntax'
+    | 'string-escapes';
+
+/** Machine-readable category of a syntax error. */
+export type ParseErrorCode =
+    | 'unexpected-token'
+    | 'unexpected-end'
+    | 'unterminated-string'
+    | 'unterminated-comment'
+    | 'trailing-comma'
+    | 'missing-comma'
+    | 'missing-colon'
+    | 'invalid-key'
+    | 'invalid-number'
+    | 'invalid-escape'
+    | 'control-character'
+    | 'trailing-data'
+    | 'non-strict-syntax'
+    | 'invalid-document';
+
+/** One located syntax error. `line` and `column` are 1-based; `offset` is 0-based. */
+export interface ParseErrorDetail {
+    code: ParseErrorCode;
+    message: string;
+    offset: number;
+    line: number;
+    column: number;
+    /** The source line around the error, clipped for display */
+    snippet: string;
+    /** 0-based position of the error inside `snippet` */
+    snippetColumn: number;
+    /** How the error can usually be fixed */
+    hint?: string;
 }
 
 export interface ParseError {
     message: string;
     lineNumber: number | null;
+    /** Every error found, in source order; the first one is the one in `message` */
+    details?: ParseErrorDetail[];
+}
+
+/** How the search query is compared: substring, whole key / value, or regular expression */
+export type JsonSearchMode = 'text' | 'exact' | 'regex';
+
+/** What the search looks at: keys and values, only object keys, only primitive values, or one value type */
+export type JsonSearchScope = 'all' | 'keys' | 'values' | 'numbers' | 'strings';
+
+export interface JsonSearchOptions {
+    query: string;
+    mode: JsonSearchMode;
+    scope: JsonSearchScope;
+    caseSensitive: boolean;
+}
+
+export interface JsonSearchResult {
+    /** Paths of matching nodes in document order, for next / previous navigation */
+    matches: string[];
+    /** Ancestors of the listed matches, to expand so they are visible */
+    expandPaths: string[];
+    /** Total matching nodes before truncation */
+    count: number;
+    truncated: boolean;
+}
+
+export type QueryLanguage = 'jsonpath' | 'jmespath';
+
+/**
+ * A value produced by a query together with where it lives in the document.
+ * `path` is null for computed values (function results, multiselects).
+ */
+export interface QueryLocatedValue {
+    value: JsonValue;
+    path: JsonPathSegment[] | null;
+    items?: QueryLocatedValue[];
+}
+
+export interface QueryMatch {
+    /** Tree path of the matched node (`JsonNode.path`), or null if computed */
+    path: string | null;
+    value: JsonValue;
+}
+
+export interface QueryResult {
+    matches: QueryMatch[];
+    /** Ancestor paths to expand so every located match is visible */
+    expandPaths: string[];
+    /** Total match count before truncation */
+    count: number;
+    truncated: boolean;
+}
+
+/** Tree edit requested from the JSON Viewer; `path` is the `JsonNode.path` of the target. */
+export interface TransformResult {
+    /** Output as a tree; several outputs are collected into an array shown as JSON Lines */
+    tree: JsonNode;
+    /** Output serialised as JSON (JSON Lines for several outputs) */
+    text: string;
+    /** Number of values the filter produced */
+    count: number;
+}
+
+export type JsonEditOperation =
+    | { kind: 'set-value'; path: string; value: JsonValue }
+    | { kind: 'rename-key'; path: string; key: string }
+    | { kind: 'add-child'; path: string }
+    | { kind: 'delete'; path: string }
+    | { kind: 'duplicate'; path: string }
+    | { kind: 'move'; path: string; offset: -1 | 1 }
+    | { kind: 'change-type'; path: string; type: JsonNode['type'] };
+
+export interface JsonEditResult {
+    tree: JsonNode;
+    /** The edited document serialised back to source text */
+    text: string;
+    /** Path of the node the edit produced or moved, if it still exists */
+    focusPath: string | null;
+    /** Ancestors of `focusPath`, to expand so it is visible */
+    expandPaths: string[];
+}
+
+export type JsonSchemaDraft = 'draft-07' | '2020-12';
+
+export interface SchemaViolation {
+    /** Tree path of the offending node (`JsonNode.path`), e.g. `/users/0/id` */
+    path: string;
+    /** Location of the failing keyword in the schema, e.g. `#/properties/id/type` */
+    schemaPath: string;
+    keyword: string;
+    message: string;
+}
+
+export interface SchemaValidationResult {
+    draft: JsonSchemaDraft;
+    violations: SchemaViolation[];
+    /** Ancestor paths to expand so every violation is visible */
+    expandPaths: string[];
+    /** Total violation count before truncation */
+    count: number;
+    truncated: boolean;
+}
+
+/** Types inferred from a document by the viewer's "Generate types" action. */
+export interface InferredTypes {
+    /** JSON Schema (2020-12), pretty-printed */
+    schema: string;
+    typescript: string;
+    zod: string;
+}
+
+/** A node reported by the viewer's stats mode. */
+export interface JsonStatsEntry {
+    /** Tree path of the node (`JsonNode.path`) */
+    path: string;
+    key: string;
+    type: JsonNode['type'];
+    /** UTF-8 size of the subtree serialised without whitespace */
+    bytes: number;
+    /** Direct children (array length / property count); 0 for primitives */
+    childCount: number;
+    depth: number;
+    /** Ancestor paths to expand so the node is visible */
+    expandPaths: string[];
+}
+
+export interface JsonStats {
+    totalBytes: number;
+    totalNodes: number;
+    maxDepth: number;
+    typeCounts: Record<JsonNode['type'], number>;
+    /** Biggest nodes anywhere below the root, by size */
+    largestSubtrees: JsonStatsEntry[];
+    /** Longest arrays, by length */
+    largestArrays: JsonStatsEntry[];
+    /** Biggest direct children of the root, for the treemap */
+    rootChildren: JsonStatsEntry[];
+    keyFrequency: { key: string; count: number }[];
+    distinctKeys: number;
+    /** True when too many distinct keys were seen to count them all */
+    keysTruncated: boolean;
+}
+
+/** A bookmarked tree node with the user's note. */
+export interface JsonBookmark {
+    /** Tree path of the node (`JsonNode.path`) */
+    path: string;
+    /** Keys and indices leading to the node, for display */
+    segments: JsonPathSegment[];
+    note: string;
 }
@@ -1,6 +1,21 @@
 import type { WorkerMessage, WorkerResponse } from '../types/worker';
 import { logger } from './logger';
 
+/**
+ * Rejection value for worker errors that come with a structured payload
+ * (for example parse error locations). Errors without a payload still
+ * reject with the plain message string.
+ */
+export class WorkerTaskError<T = unknown> extends Error {
+    readonly payload: T;
+
+    constructor(message: string, payload: T) {
+        super(message);
+        this.name = 'WorkerTaskError';
+        this.payload = payload;
+    }
+}
+
 /**
  * Type-safe Web Worker wrapper for offloading heavy computations.
  * 
@@ -53,7 +68,7 @@ import { logger } from './logger';
 export class WorkerManager<TRequest = unknown, TResponse = unknown> {
     private worker: Worker | null = null;
     private messageHandlers: Map<string, (response: TResponse) => void>;
-    private errorHandlers: Map<string, (error: string) => void>;
+    private errorHandlers: Map<string, (error: string | WorkerTaskError) => void>;
     private messageId = 0;
     private workerFactory: () => Worker;
     private static readonly CANCELLED_MESSAGE = 'Operation cancelled';
@@ -98,7 +113,7 @@ export class WorkerManager<TRequest = unknown, TResponse = unknown> {
 
                 if (error) {
                     const errorHandler = this.errorHandlers.get(id);
-                    errorHandler?.(error);
+                    errorHandler?.(payload != null ? new WorkerTaskError(error, payload) : error);
                     this.errorHandlers.delete(id);
                     this.messageHandlers.delete(id);
                     this.progressHandlers.delete(id);
@@ -0,0 +1,269 @@
+import { parseAllDocuments, stringify as stringifyYaml } from 'yaml';
+import { parse as parseToml, stringify as stringifyToml, TomlError } from 'smol-toml';
+import { XMLBuilder, XMLParser, XMLValidator } from 'fast-xml-parser';
+import type { DataFormat, DocumentExportOptions, JsonValue } from '../types/json';
+import { DOCUMENT_EXPORT_DEFAULTS } from '../constants';
+import { losslessNumberKind, mapLosslessNumbers, stringifyJson, toLosslessNumber } from './losslessNumber';
+
+/**
+ * YAML, TOML and XML support for the JSON viewer.
+ *
+ * Input in one of these formats is converted to a JSON value, so it gets the
+ * same tree, search, queries and edits as JSON input. The same conversions
+ * run in reverse to export a document. XML elements map to object keys,
+ * attributes to keys with a prefix (`@id`), text next to attributes or child
+ * elements to `#text`, and repeated elements to arrays.
+ */
+
+const XML_TEXT_KEY = '#text';
+const XML_ROOT_NAME = 'root';
+const YAML_MAX_ALIASES = 100;
+
+/** Only the head of large inputs is looked at when detecting the format. */
+const DETECT_HEAD_CHARS = 64 * 1024;
+const DETECT_MAX_LINES = 50;
+
+const TOML_KEY = String.raw`(?:[A-Za-z0-9_-]+|"[^"\n]*"|'[^'\n]*')`;
+const TOML_ASSIGNMENT = new RegExp(String.raw`^${TOML_KEY}(?:\s*\.\s*${TOML_KEY})*\s*=`);
+const TOML_TABLE_HEADER = new RegExp(String.raw`^\[\[?\s*${TOML_KEY}(?:\s*\.\s*${TOML_KEY})*\s*\]\]?\s*(?:#.*)?$`);
+const YAML_MAPPING_ENTRY = /^(?:"[^"\n]*"|'[^'\n]*'|[^\s#{}[\]"',:][^:#\n]*?)\s*:(?:\s|$)/;
+const YAML_SEQUENCE_ENTRY = /^-(?:\s|$)/;
+const YAML_DOCUMENT_MARKER = /^(?:---|%YAML)/;
+
+const DATA_FORMAT_LABELS: Record<DataFormat, string> = {
+    yaml: 'YAML',
+    toml: 'TOML',
+    xml: 'XML',
+};
+
+/** A YAML / TOML / XML syntax error located in the input. */
+export class DataFormatError extends Error {
+    readonly offset: number;
+
+    constructor(format: DataFormat, message: string, offset: number) {
+        super(`Invalid ${DATA_FORMAT_LABELS[format]}: ${message}`);
+        this.name = 'DataFormatError';
+        this.offset = offset;
+    }
+}
+
+/** 0-based offset of a 1-based line and column. */
+const offsetOf = (text: string, line: number, column: number): number => {
+    let offset = 0;
+    for (let current = 1; current < line; current++) {
+        const next = text.indexOf('\n', offset);
+        if (next === -1) return text.length;
+        offset = next + 1;
+    }
+    return Math.min(text.length, offset + Math.max(0, column - 1));
+};
+
+/**
+ * Trimmed, non-empty lines of `text` without comment lines: `#` (YAML,
+ * TOML), and `//` and block comments (JSONC). Text after a block comment on
+ * the line that closes it is kept.
+ */
+const contentLines = (text: string): string[] => {
+    const lines: string[] = [];
+    let inBlockComment = false;
+    for (const rawLine of text.split('\n')) {
+        let line = rawLine.trim();
+        if (inBlockComment || line.startsWith('/*')) {
+            const end = line.indexOf('*/', inBlockComment ? 0 : 2);
+            inBlockComment = end === -1;
+            line = inBlockComment ? '' : line.slice(end + 2).trim();
+        }
+        if (!line || line.startsWith('#') || line.startsWith('//')) continue;
+        lines.push(line);
+        if (lines.length === DETECT_MAX_LINES) break;
+    }
+    return lines;
+};
+
+/**
+ * Guesses the format of `text` from its first lines: XML starts with `<`,
+ * TOML has `key = value` lines, YAML `key:` or `- item` lines. Anything else,
+ * including JSON5 and JSON Lines, is left to the JSON parsers. Leading
+ * comments are skipped, so JSONC that opens with one is still JSON.
+ */
+export const detectDataFormat = (text: string): 'json' | DataFormat => {
+    const head = text.slice(0, DETECT_HEAD_CHARS);
+    const start = head.search(/\S/);
+    if (start === -1) return 'json';
+    if (head[start] === '<') return 'xml';
+
+    const lines = contentLines(head.slice(start));
+    if (lines.length === 0) return 'json';
+
+    const [first] = lines;
+    const hasAssignment = lines.some((line) => TOML_ASSIGNMENT.test(line));
+    if (hasAssignment && (TOML_ASSIGNMENT.test(first) || TOML_TABLE_HEADER.test(first))) return 'toml';
+    if (first[0] === '{' || first[0] === '[') return 'json';
+    if (YAML_DOCUMENT_MARKER.test(first) || YAML_MAPPING_ENTRY.test(first) || YAML_SEQUENCE_ENTRY.test(first)) return 'yaml';
+    return 'json';
+};
+
+const MIN_SAFE_BIGINT = BigInt(Number.MIN_SAFE_INTEGER);
+const MAX_SAFE_BIGINT = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Dates (TOML) become their ISO text and integers read as bigints (YAML,
+ * TOML) numbers, or lossless numbers beyond 2^53; values JSON cannot hold
+ * are dropped.
+ */
+const toJsonValue = (value: unknown): JsonValue | undefined => {
+    if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+    if (typeof value === 'bigint') {
+        return value >= MIN_SAFE_BIGINT && value <= MAX_SAFE_BIGINT ? Number(value) : toLosslessNumber(value.toString());
+    }
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map((item) => toJsonValue(item) ?? null);
+    if (typeof value === 'object') {
+        const result: Record<string, JsonValue> = {};
+        for (const [key, item] of Object.entries(value)) {
+            const converted = toJsonValue(item);
+            if (converted === undefined) continue;
+            Object.defineProperty(result, key, { value: converted, enumerable: true, writable: true, configurable: true });
+        }
+        return result;
+    }
+    return undefined;
+};
+
+/** The first line of a library message, without the location it repeats. */
+const reasonOf = (message: string) => message.split('\n')[0].replace(/\s*at line \d+, column \d+:?$/, '').replace(/:$/, '');
+
+const parseYaml = (text: string): JsonValue => {
+    const documents = parseAllDocuments(text, { intAsBigInt: true });
+    for (const document of documents) {
+        const [error] = document.errors;
+        if (error) throw new DataFormatError('yaml', reasonOf(error.message), error.pos[0]);
+    }
+    const values = documents.map((document) => toJsonValue(document.toJS({ maxAliasCount: YAML_MAX_ALIASES })) ?? null);
+    if (values.length === 0) return null;
+    // A stream of several documents (`---`) becomes an array of them.
+    return values.length === 1 ? values[0] : values;
+};
+
+const parseTomlDocument = (text: string): JsonValue => {
+    try {
+        return toJsonValue(parseToml(text, { integersAsBigInt: 'asNeeded' })) ?? {};
+    } catch (error) {
+        if (error instanceof TomlError) {
+            throw new DataFormatError('toml', reasonOf(error.message).replace(/^Invalid TOML document: /, ''), offsetOf(text, error.line, error.column));
+        }
+        throw error;
+    }
+};
+
+const parseXml = (text: string): JsonValue => {
+    const validation = XMLValidator.validate(text);
+    if (validation !== true) {
+        const { msg, line, col } = validation.err;
+        throw new DataFormatError('xml', msg, offsetOf(text, line, col));
+    }
+    const parser = new XMLParser({
+        ignoreAttributes: false,
+        attributeNamePrefix: DOCUMENT_EXPORT_DEFAULTS.attributePrefix,
+        textNodeName: XML_TEXT_KEY,
+        ignoreDeclaration: true,
+        ignorePiTags: true,
+        // Text is kept as written: `<zip>007</zip>` stays "007" and long IDs keep their digits.
+        parseTagValue: false,
+        parseAttributeValue: false,
+    });
+    return toJsonValue(parser.parse(text)) ?? null;
+};
+
+/** Parses YAML, TOML or XML text into a JSON value; syntax errors throw `DataFormatError`. */
+export const parseDataFormat = (text: string, format: DataFormat): JsonValue => {
+    if (format === 'yaml') return parseYaml(text);
+    if (format === 'toml') return parseTomlDocument(text);
+    return parseXml(text);
+};
+
+const isPlainObject = (value: JsonValue): value is Record<string, JsonValue> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/** Replaces characters that are not allowed in XML names. */
+const toXmlName = (name: string): string => {
+    const cleaned = name.replace(/[^\w.-]/g, '_');
+    return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+};
+
+/**
+ * Reshapes a value for the XML builder: keys become valid element (or
+ * attribute) names, and arrays directly inside arrays become elements whose
+ * items are named `arrayItemName`. Null array items become empty text, as
+ * the builder would otherwise write them ahead of their siblings.
+ */
+const toXmlTree = (value: JsonValue, options: DocumentExportOptions): JsonValue => {
+    if (Array.isArray(value)) {
+        return value.map((item) => {
+            if (item === null) return '';
+            return Array.isArray(item) ? { [options.arrayItemName]: toXmlTree(item, options) } : toXmlTree(item, options);
+        });
+    }
+    if (!isPlainObject(value)) return value;
+    const result: Record<string, JsonValue> = {};
+    for (const [key, item] of Object.entries(value)) {
+        const name = key === XML_TEXT_KEY
+            ? key
+            : key.startsWith(options.attributePrefix) && key.length > options.attributePrefix.length
+                ? options.attributePrefix + toXmlName(key.slice(options.attributePrefix.length))
+                : toXmlName(key);
+        Object.defineProperty(result, name, { value: toXmlTree(item, options), enumerable: true, writable: true, configurable: true });
+    }
+    return result;
+};
+
+/** An object with a single element key is the root element; anything else is wrapped in `<root>`. */
+const withXmlRoot = (value: JsonValue, options: DocumentExportOptions): Record<string, JsonValue> => {
+    if (isPlainObject(value)) {
+        const keys = Object.keys(value);
+        if (keys.length === 1 && !keys[0].startsWith(options.attributePrefix) && keys[0] !== XML_TEXT_KEY && !Array.isArray(value[keys[0]])) {
+            return value;
+        }
+    }
+    return { [XML_ROOT_NAME]: Array.isArray(value) ? { [options.arrayItemName]: value } : value };
+};
+
+const serializeXml = (value: JsonValue, options: DocumentExportOptions): string => {
+    const builder = new XMLBuilder({
+        ignoreAttributes: false,
+        attributeNamePrefix: options.attributePrefix,
+        textNodeName: XML_TEXT_KEY,
+        format: options.indent > 0,
+        indentBy: ' '.repeat(options.indent),
+        suppressEmptyNode: true,
+    });
+    const body: string = builder.build(toXmlTree(withXmlRoot(value, options), options));
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${body.trimEnd()}\n`;
+};
+
+/** Lossless integers keep their digits as BigInt; YAML and TOML floats are doubles, so decimals are rounded. */
+const withNativeNumbers = (value: JsonValue) =>
+    mapLosslessNumbers(value, (number) => (losslessNumberKind(number) === 'bigint' ? BigInt(number.valueOf()) : Number(number.valueOf())));
+
+/** Serialises a JSON value as JSON, YAML, TOML or XML. */
+export const serializeDocument = (value: JsonValue, options: DocumentExportOptions): string => {
+    switch (options.format) {
+        case 'yaml':
+            return stringifyYaml(withNativeNumbers(value), { indent: Math.max(1, options.indent) });
+        case 'toml': {
+            const native = withNativeNumbers(value);
+            if (!isPlainObject(native as JsonValue)) throw new Error('TOML documents must be an object at the top level');
+            // TOML has no null: null properties are left out, null array items are an error.
+            return `${stringifyToml(native as Record<string, unknown>).trim()}\n`;
+        }
+        case 'xml':
+            if (!options.attributePrefix) throw new Error('The XML attribute prefix cannot be empty');
+            // XML text is text: lossless numbers are written as their digits.
+            return serializeXml(
+                mapLosslessNumbers(value, (number) => number.valueOf()) as JsonValue,
+                { ...options, arrayItemName: toXmlName(options.arrayItemName || DOCUMENT_EXPORT_DEFAULTS.arrayItemName) }
+            );
+        default:
+            return stringifyJson(value, options.indent);
+    }
+};
@@ -0,0 +1,133 @@
+import type { JsonPathSegment, JsonValue } from '../types/json';
+import type { DiffIgnoreRules } from '../types/diff';
+import { isLosslessNumber } from './losslessNumber';
+import { unescapePointerToken } from './nodePath';
+
+/**
+ * Diff Checker ignore rules, applied to both sides before they are compared.
+ *
+ * Path globs remove JSON values. They are written with dots and brackets
+ * (`**.updatedAt`, `items[*].etag`, `$.meta['request-id']`) or as a JSON
+ * Pointer (`/meta/etag`): `*` matches within one key or index and `**` any
+ * number of levels. Removed array items close up, so later items shift.
+ * Line patterns are regular expressions, optionally written `/source/flags`;
+ * matching lines are removed from text comparisons. They never touch a
+ * parsed JSON document: in JSON mode they only apply when an input falls
+ * back to text. Normalisers round decimals, lowercase and trim string values
+ * (and lines).
+ */
+
+const GLOBSTAR = Symbol('globstar');
+
+type GlobToken = RegExp | typeof GLOBSTAR;
+
+const wildcardToken = (text: string): GlobToken => {
+    if (text === '**') return GLOBSTAR;
+    const source = text.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`);
+};
+
+/** One matcher per key or index of a path glob. */
+const tokenizePathGlob = (glob: string): GlobToken[] => {
+    if (glob.startsWith('/')) return glob.slice(1).split('/').map((token) => wildcardToken(unescapePointerToken(token)));
+
+    const tokens: GlobToken[] = [];
+    const pattern = /\[\s*(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([^\]]*?))\s*\]|\.?([^.[\]]+)/y;
+    let rest = glob.replace(/^\$\.?/, '');
+    if (rest.startsWith('.')) rest = rest.slice(1);
+    pattern.lastIndex = 0;
+    while (pattern.lastIndex < rest.length) {
+        const start = pattern.lastIndex;
+        const match = pattern.exec(rest);
+        if (!match) throw new Error(`Ignore path "${glob}" is not a valid path glob (at character ${start + 1})`);
+        const quoted = match[1] ?? match[2];
+        tokens.push(quoted !== undefined ? new RegExp(`^${quoted.replace(/\\(.)/g, '$1').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`) : wildcardToken(match[3] ?? match[4]));
+    }
+    return tokens;
+};
+
+const matchesGlob = (tokens: GlobToken[], segments: JsonPathSegment[], t = 0, s = 0): boolean => {
+    if (t === tokens.length) return s === segments.length;
+    const token = tokens[t];
+    if (token === GLOBSTAR) {
+        for (let i = s; i <= segments.length; i++) {
+            if (matchesGlob(tokens, segments, t + 1, i)) return true;
+        }
+        return false;
+    }
+    return s < segments.length && token.test(String(segments[s])) && matchesGlob(tokens, segments, t + 1, s + 1);
+};
+
+const parseLinePattern = (pattern: string): RegExp => {
+    const literal = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+    try {
+        // Without `g` / `y`, `test` keeps no state between lines.
+        return literal ? new RegExp(literal[1], literal[2].replace(/[gy]/g, '')) : new RegExp(pattern);
+    } catch (error) {
+        throw new Error(`Ignore line pattern "${pattern}" is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+const entries = (items: string[]) => items.map((item) => item.trim()).filter(Boolean);
+
+export const hasIgnoreRules = (rules: DiffIgnoreRules): boolean => {
+    const { roundDecimals, lowercase, trim } = rules.normalizers;
+    return entries(rules.paths).length > 0 || entries(rules.linePatterns).length > 0 || roundDecimals !== null || lowercase || trim;
+};
+
+export interface CompiledIgnoreRules {
+    /** `value` without ignored paths and with normalised values; `value` is not modified */
+    json: (value: JsonValue) => JsonValue;
+    /** `text` without ignored lines, each line normalised */
+    text: (text: string) => string;
+}
+
+/** Validates and compiles `rules`; invalid globs and regular expressions throw. */
+export const compileIgnoreRules = (rules: DiffIgnoreRules): CompiledIgnoreRules => {
+    const globs = entries(rules.paths).map(tokenizePathGlob);
+    const linePatterns = entries(rules.linePatterns).map(parseLinePattern);
+    const { roundDecimals, lowercase, trim } = rules.normalizers;
+
+    const normalizeString = (text: string) => {
+        const trimmed = trim ? text.trim() : text;
+        return lowercase ? trimmed.toLowerCase() : trimmed;
+    };
+    const normalizeNumber = (value: number) =>
+        roundDecimals === null || Number.isInteger(value)
+            ? value
+            : Number(value.toFixed(roundDecimals));
+
+    const isIgnored = (segments: JsonPathSegment[]) => globs.some((tokens) => matchesGlob(tokens, segments));
+
+    const walk = (value: JsonValue, segments: JsonPathSegment[]): JsonValue => {
+        if (typeof value === 'string') return normalizeString(value);
+        if (typeof value === 'number') return normalizeNumber(value);
+        if (isLosslessNumber(value)) {
+            const number = Number(value.valueOf());
+            return roundDecimals === null || Number.isInteger(number) ? value : normalizeNumber(number);
+        }
+        if (Array.isArray(value)) {
+            return value.flatMap((item, index) => {
+                const path = [...segments, index];
+                return isIgnored(path) ? [] : [walk(item, path)];
+            });
+        }
+        if (value === null || typeof value !== 'object') return value;
+        const result: { [key: string]: JsonValue } = {};
+        for (const [key, item] of Object.entries(value)) {
+            const path = [...segments, key];
+            if (isIgnored(path)) continue;
+            Object.defineProperty(result, key, { value: walk(item, path), enumerable: true, writable: true, configurable: true });
+        }
+        return result;
+    };
+
+    return {
+        json: (value) => walk(value, []),
+        text: (text) => text
+            .split('\n')
+            .filter((line) => !linePatterns.some((pattern) => pattern.test(line)))
+            .map((line) => (trim || lowercase ? normalizeString(line) : line))
+            .join('\n'),
+    };
+};
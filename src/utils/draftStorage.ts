@@ -6,6 +6,8 @@ export const DRAFT_TTL_MS = 60 * 60 * 1000;
 type DraftEnvelope<T> = {
     savedAt: number;
     data: T;
+    /** False for saved settings (e.g. named presets) that outlive the draft TTL */
+    expires?: boolean;
 };
 
 type LoadDraftResult<T> = {
@@ -47,12 +49,13 @@ export const onDraftPreferenceChange = (listener: (enabled: boolean) => void): (
     };
 };
 
-export const saveDraft = <T>(key: string, data: T): void => {
+export const saveDraft = <T>(key: string, data: T, options: { expires?: boolean } = {}): void => {
     if (!isBrowser() || !isDraftPersistenceEnabled()) return;
     try {
         const payload: DraftEnvelope<T> = {
             savedAt: Date.now(),
             data,
+            ...(options.expires === false && { expires: false }),
         };
         localStorage.setItem(`${DRAFT_PREFIX}${key}`, JSON.stringify(payload));
     } catch {
@@ -77,7 +80,7 @@ export const loadDraftWithStatus = <T>(key: string): LoadDraftResult<T> => {
         }
 
         const envelope = parsed as DraftEnvelope<T>;
-        if (Date.now() - envelope.savedAt > DRAFT_TTL_MS) {
+        if (envelope.expires !== false && Date.now() - envelope.savedAt > DRAFT_TTL_MS) {
             localStorage.removeItem(`${DRAFT_PREFIX}${key}`);
             return { data: null, expired: true };
         }
@@ -0,0 +1,709 @@
+import type { JsonValue, QueryLocatedValue } from '../types/json';
+
+/**
+ * JMESPath evaluator (https://jmespath.org/specification.html).
+ *
+ * Implements the full expression grammar (projections, filters, multiselect,
+ * pipes, comparators, expression references) and the built-in function
+ * library. Values that come straight from the document keep their location so
+ * the viewer can highlight them; computed values carry a `null` path.
+ */
+
+type TokenType =
+    | 'EOF' | 'UnquotedIdentifier' | 'QuotedIdentifier' | 'Literal' | 'Number'
+    | 'Rbracket' | 'Rparen' | 'Comma' | 'Colon' | 'Rbrace' | 'Current' | 'Expref'
+    | 'Pipe' | 'Or' | 'And' | 'EQ' | 'NE' | 'LT' | 'LTE' | 'GT' | 'GTE'
+    | 'Flatten' | 'Star' | 'Filter' | 'Dot' | 'Not' | 'Lbrace' | 'Lbracket' | 'Lparen';
+
+interface Token {
+    type: TokenType;
+    value?: JsonValue;
+    start: number;
+}
+
+type Node =
+    | { type: 'Field'; name: string }
+    | { type: 'Literal'; value: JsonValue }
+    | { type: 'Identity' }
+    | { type: 'Current' }
+    | { type: 'Index'; value: number }
+    | { type: 'Slice'; start: number | null; stop: number | null; step: number | null }
+    | { type: 'Subexpression' | 'IndexExpression' | 'Pipe' | 'Or' | 'And'; left: Node; right: Node }
+    | { type: 'Projection' | 'ValueProjection'; left: Node; right: Node }
+    | { type: 'FilterProjection'; left: Node; right: Node; condition: Node }
+    | { type: 'Flatten'; child: Node }
+    | { type: 'Not'; child: Node }
+    | { type: 'Comparator'; op: TokenType; left: Node; right: Node }
+    | { type: 'MultiSelectList'; children: Node[] }
+    | { type: 'MultiSelectHash'; children: { key: string; value: Node }[] }
+    | { type: 'Function'; name: string; args: Node[] }
+    | { type: 'ExpressionReference'; child: Node };
+
+const BINDING_POWER: Record<TokenType, number> = {
+    EOF: 0, UnquotedIdentifier: 0, QuotedIdentifier: 0, Literal: 0, Number: 0,
+    Rbracket: 0, Rparen: 0, Comma: 0, Colon: 0, Rbrace: 0, Current: 0, Expref: 0,
+    Pipe: 1, Or: 2, And: 3,
+    EQ: 5, NE: 5, LT: 5, LTE: 5, GT: 5, GTE: 5,
+    Flatten: 9, Star: 20, Filter: 21, Dot: 40, Not: 45, Lbrace: 50, Lbracket: 55, Lparen: 60,
+};
+
+const SIMPLE_TOKENS: Record<string, TokenType> = {
+    '.': 'Dot', '*': 'Star', ',': 'Comma', ':': 'Colon', '{': 'Lbrace', '}': 'Rbrace',
+    ']': 'Rbracket', '(': 'Lparen', ')': 'Rparen', '@': 'Current',
+};
+
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const readDelimited = (delimiter: string): string => {
+        const start = i;
+        i++;
+        while (i < expression.length && expression[i] !== delimiter) {
+            if (expression[i] === '\\' && i + 1 < expression.length) i++;
+            i++;
+        }
+        if (i >= expression.length) {
+            throw new Error(`Unterminated ${delimiter} at position ${start} in JMESPath expression`);
+        }
+        i++;
+        return expression.slice(start + 1, i - 1);
+    };
+
+    while (i < expression.length) {
+        const ch = expression[i];
+        const next = expression[i + 1];
+        const start = i;
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const name = expression.slice(i).match(/^[A-Za-z0-9_]+/)![0];
+            tokens.push({ type: 'UnquotedIdentifier', value: name, start });
+            i += name.length;
+        } else if (SIMPLE_TOKENS[ch]) {
+            tokens.push({ type: SIMPLE_TOKENS[ch], start });
+            i++;
+        } else if (/[0-9]/.test(ch) || (ch === '-' && /[0-9]/.test(next ?? ''))) {
+            const digits = expression.slice(i).match(/^-?\d+/)![0];
+            tokens.push({ type: 'Number', value: Number(digits), start });
+            i += digits.length;
+        } else if (ch === '[') {
+            if (next === ']') {
+                tokens.push({ type: 'Flatten', start });
+                i += 2;
+            } else if (next === '?') {
+                tokens.push({ type: 'Filter', start });
+                i += 2;
+            } else {
+                tokens.push({ type: 'Lbracket', start });
+                i++;
+            }
+        } else if (ch === '"') {
+            const raw = readDelimited('"');
+            tokens.push({ type: 'QuotedIdentifier', value: JSON.parse(`"${raw}"`), start });
+        } else if (ch === "'") {
+            const raw = readDelimited("'");
+            tokens.push({ type: 'Literal', value: raw.replace(/\\'/g, "'"), start });
+        } else if (ch === '`') {
+            const raw = readDelimited('`').replace(/\\`/g, '`').trim();
+            let value: JsonValue;
+            try {
+                value = JSON.parse(raw);
+            } catch {
+                // Legacy JMESPath allowed unquoted strings inside backticks.
+                value = raw;
+            }
+            tokens.push({ type: 'Literal', value, start });
+        } else if (ch === '|') {
+            tokens.push({ type: next === '|' ? 'Or' : 'Pipe', start });
+            i += next === '|' ? 2 : 1;
+        } else if (ch === '&') {
+            tokens.push({ type: next === '&' ? 'And' : 'Expref', start });
+            i += next === '&' ? 2 : 1;
+        } else if (ch === '!') {
+            tokens.push({ type: next === '=' ? 'NE' : 'Not', start });
+            i += next === '=' ? 2 : 1;
+        } else if (ch === '<' || ch === '>') {
+            const withEquals = next === '=';
+            const type: TokenType = ch === '<' ? (withEquals ? 'LTE' : 'LT') : (withEquals ? 'GTE' : 'GT');
+            tokens.push({ type, start });
+            i += withEquals ? 2 : 1;
+        } else if (ch === '=' && next === '=') {
+            tokens.push({ type: 'EQ', start });
+            i += 2;
+        } else {
+            throw new Error(`Unexpected character "${ch}" at position ${i} in JMESPath expression`);
+        }
+    }
+
+    tokens.push({ type: 'EOF', start: expression.length });
+    return tokens;
+};
+
+class Parser {
+    private index = 0;
+    private readonly tokens: Token[];
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    parse(): Node {
+        const ast = this.expression(0);
+        if (this.lookahead(0) !== 'EOF') {
+            const token = this.tokens[this.index];
+            throw new Error(`Unexpected token ${token.type} at position ${token.start} in JMESPath expression`);
+        }
+        return ast;
+    }
+
+    private lookahead(offset: number): TokenType {
+        return this.tokens[this.index + offset]?.type ?? 'EOF';
+    }
+
+    private advance(): void {
+        this.index++;
+    }
+
+    private match(type: TokenType): void {
+        if (this.lookahead(0) !== type) {
+            const token = this.tokens[this.index];
+            throw new Error(`Expected ${type} but found ${token.type} at position ${token.start} in JMESPath expression`);
+        }
+        this.advance();
+    }
+
+    private expression(rbp: number): Node {
+        const token = this.tokens[this.index];
+        this.advance();
+        let left = this.nud(token);
+        while (rbp < BINDING_POWER[this.lookahead(0)]) {
+            const next = this.tokens[this.index];
+            this.advance();
+            left = this.led(next, left);
+        }
+        return left;
+    }
+
+    private nud(token: Token): Node {
+        switch (token.type) {
+            case 'Literal':
+                return { type: 'Literal', value: token.value ?? null };
+            case 'UnquotedIdentifier':
+                return { type: 'Field', name: String(token.value) };
+            case 'QuotedIdentifier':
+                if (this.lookahead(0) === 'Lparen') {
+                    throw new Error('Quoted identifiers cannot be used as function names');
+                }
+                return { type: 'Field', name: String(token.value) };
+            case 'Not':
+                return { type: 'Not', child: this.expression(BINDING_POWER.Not) };
+            case 'Star': {
+                const right = this.lookahead(0) === 'Rbracket'
+                    ? { type: 'Identity' } as Node
+                    : this.parseProjectionRHS(BINDING_POWER.Star);
+                return { type: 'ValueProjection', left: { type: 'Identity' }, right };
+            }
+            case 'Filter':
+                return this.led(token, { type: 'Identity' });
+            case 'Lbrace':
+                return this.parseMultiselectHash();
+            case 'Flatten':
+                return {
+                    type: 'Projection',
+                    left: { type: 'Flatten', child: { type: 'Identity' } },
+                    right: this.parseProjectionRHS(BINDING_POWER.Flatten),
+                };
+            case 'Lbracket':
+                if (this.lookahead(0) === 'Number' || this.lookahead(0) === 'Colon') {
+                    return this.projectIfSlice({ type: 'Identity' }, this.parseIndexExpression());
+                }
+                if (this.lookahead(0) === 'Star' && this.lookahead(1) === 'Rbracket') {
+                    this.advance();
+                    this.advance();
+                    return {
+                        type: 'Projection',
+                        left: { type: 'Identity' },
+                        right: this.parseProjectionRHS(BINDING_POWER.Star),
+                    };
+                }
+                return this.parseMultiselectList();
+            case 'Current':
+                return { type: 'Current' };
+            case 'Expref':
+                return { type: 'ExpressionReference', child: this.expression(BINDING_POWER.Expref) };
+            case 'Lparen': {
+                const expr = this.expression(0);
+                this.match('Rparen');
+                return expr;
+            }
+            default:
+                throw new Error(`Unexpected token ${token.type} at position ${token.start} in JMESPath expression`);
+        }
+    }
+
+    private led(token: Token, left: Node): Node {
+        switch (token.type) {
+            case 'Dot':
+                if (this.lookahead(0) !== 'Star') {
+                    return { type: 'Subexpression', left, right: this.parseDotRHS(BINDING_POWER.Dot) };
+                }
+                this.advance();
+                return { type: 'ValueProjection', left, right: this.parseProjectionRHS(BINDING_POWER.Dot) };
+            case 'Pipe':
+                return { type: 'Pipe', left, right: this.expression(BINDING_POWER.Pipe) };
+            case 'Or':
+                return { type: 'Or', left, right: this.expression(BINDING_POWER.Or) };
+            case 'And':
+                return { type: 'And', left, right: this.expression(BINDING_POWER.And) };
+            case 'Lparen': {
+                if (left.type !== 'Field') throw new Error('Function name must be an identifier');
+                const args: Node[] = [];
+                while (this.lookahead(0) !== 'Rparen') {
+                    args.push(this.expression(0));
+                    if (this.lookahead(0) === 'Comma') this.match('Comma');
+                }
+                this.match('Rparen');
+                return { type: 'Function', name: left.name, args };
+            }
+            case 'Filter': {
+                const condition = this.expression(0);
+                this.match('Rbracket');
+                const right = this.lookahead(0) === 'Flatten'
+                    ? { type: 'Identity' } as Node
+                    : this.parseProjectionRHS(BINDING_POWER.Filter);
+                return { type: 'FilterProjection', left, right, condition };
+            }
+            case 'Flatten':
+                return {
+                    type: 'Projection',
+                    left: { type: 'Flatten', child: left },
+                    right: this.parseProjectionRHS(BINDING_POWER.Flatten),
+                };
+            case 'EQ':
+            case 'NE':
+            case 'GT':
+            case 'GTE':
+            case 'LT':
+            case 'LTE':
+                return { type: 'Comparator', op: token.type, left, right: this.expression(BINDING_POWER[token.type]) };
+            case 'Lbracket':
+                if (this.lookahead(0) === 'Number' || this.lookahead(0) === 'Colon') {
+                    return this.projectIfSlice(left, this.parseIndexExpression());
+                }
+                this.match('Star');
+                this.match('Rbracket');
+                return { type: 'Projection', left, right: this.parseProjectionRHS(BINDING_POWER.Star) };
+            default:
+                throw new Error(`Unexpected token ${token.type} at position ${token.start} in JMESPath expression`);
+        }
+    }
+
+    private parseIndexExpression(): Node {
+        if (this.lookahead(0) === 'Colon' || this.lookahead(1) === 'Colon') {
+            return this.parseSliceExpression();
+        }
+        const value = Number(this.tokens[this.index].value);
+        this.advance();
+        this.match('Rbracket');
+        return { type: 'Index', value };
+    }
+
+    private parseSliceExpression(): Node {
+        const parts: (number | null)[] = [null, null, null];
+        let position = 0;
+        while (this.lookahead(0) !== 'Rbracket' && position < 3) {
+            if (this.lookahead(0) === 'Colon') {
+                position++;
+                this.advance();
+            } else if (this.lookahead(0) === 'Number') {
+                parts[position] = Number(this.tokens[this.index].value);
+                this.advance();
+            } else {
+                const token = this.tokens[this.index];
+                throw new Error(`Unexpected token ${token.type} at position ${token.start} in JMESPath slice`);
+            }
+        }
+        this.match('Rbracket');
+        return { type: 'Slice', start: parts[0], stop: parts[1], step: parts[2] };
+    }
+
+    private projectIfSlice(left: Node, right: Node): Node {
+        const indexExpression: Node = { type: 'IndexExpression', left, right };
+        if (right.type === 'Slice') {
+            return { type: 'Projection', left: indexExpression, right: this.parseProjectionRHS(BINDING_POWER.Star) };
+        }
+        return indexExpression;
+    }
+
+    private parseProjectionRHS(rbp: number): Node {
+        const next = this.lookahead(0);
+        if (BINDING_POWER[next] < 10) return { type: 'Identity' };
+        if (next === 'Lbracket' || next === 'Filter') return this.expression(rbp);
+        if (next === 'Dot') {
+            this.match('Dot');
+            return this.parseDotRHS(rbp);
+        }
+        const token = this.tokens[this.index];
+        throw new Error(`Unexpected token ${token.type} at position ${token.start} in JMESPath expression`);
+    }
+
+    private parseDotRHS(rbp: number): Node {
+        const next = this.lookahead(0);
+        if (next === 'UnquotedIdentifier' || next === 'QuotedIdentifier' || next === 'Star') {
+            return this.expression(rbp);
+        }
+        if (next === 'Lbracket') {
+            this.match('Lbracket');
+            return this.parseMultiselectList();
+        }
+        if (next === 'Lbrace') {
+            this.match('Lbrace');
+            return this.parseMultiselectHash();
+        }
+        const token = this.tokens[this.index];
+        throw new Error(`Expected an identifier after "." at position ${token.start} in JMESPath expression`);
+    }
+
+    private parseMultiselectList(): Node {
+        const children: Node[] = [];
+        while (this.lookahead(0) !== 'Rbracket') {
+            children.push(this.expression(0));
+            if (this.lookahead(0) === 'Comma') {
+                this.match('Comma');
+                if (this.lookahead(0) === 'Rbracket') throw new Error('Unexpected "]" after "," in JMESPath expression');
+            }
+        }
+        this.match('Rbracket');
+        return { type: 'MultiSelectList', children };
+    }
+
+    private parseMultiselectHash(): Node {
+        const children: { key: string; value: Node }[] = [];
+        for (; ;) {
+            const keyToken = this.tokens[this.index];
+            if (keyToken.type !== 'UnquotedIdentifier' && keyToken.type !== 'QuotedIdentifier') {
+                throw new Error(`Expected a key name at position ${keyToken.start} in JMESPath expression`);
+            }
+            this.advance();
+            this.match('Colon');
+            children.push({ key: String(keyToken.value), value: this.expression(0) });
+            if (this.lookahead(0) === 'Comma') {
+                this.match('Comma');
+            } else {
+                this.match('Rbrace');
+                break;
+            }
+        }
+        return { type: 'MultiSelectHash', children };
+    }
+}
+
+const NULL: QueryLocatedValue = { value: null, path: null };
+
+const isObject = (value: unknown): value is Record<string, JsonValue> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isFalse = (value: JsonValue): boolean =>
+    value === null
+    || value === false
+    || value === ''
+    || (Array.isArray(value) && value.length === 0)
+    || (isObject(value) && Object.keys(value).length === 0);
+
+const strictEqual = (a: JsonValue, b: JsonValue): boolean => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const computed = (items: QueryLocatedValue[]): QueryLocatedValue => ({
+    value: items.map((item) => item.value),
+    path: null,
+    items,
+});
+
+const itemsOf = (node: QueryLocatedValue): QueryLocatedValue[] => {
+    if (node.items) return node.items;
+    if (!Array.isArray(node.value)) return [];
+    const { path } = node;
+    return node.value.map((value, index) => ({ value, path: path && [...path, index] }));
+};
+
+const typeName = (value: JsonValue): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+type FunctionArg = QueryLocatedValue | Node;
+type Evaluate = (node: Node, current: QueryLocatedValue) => QueryLocatedValue;
+type JmesFunction = (args: FunctionArg[], evaluate: Evaluate) => QueryLocatedValue;
+
+const plain = (value: JsonValue): QueryLocatedValue => ({ value, path: null });
+
+const locatedArg = (args: FunctionArg[], index: number, name: string, expected?: string[]): QueryLocatedValue => {
+    const arg = args[index];
+    if (!arg || !('path' in arg)) {
+        throw new Error(`${name}() expects a value for argument ${index + 1}`);
+    }
+    if (expected && !expected.includes(typeName(arg.value))) {
+        throw new Error(`${name}() expected argument ${index + 1} to be ${expected.join(' | ')}, got ${typeName(arg.value)}`);
+    }
+    return arg;
+};
+
+const valueArg = (args: FunctionArg[], index: number, name: string, expected?: string[]): JsonValue =>
+    locatedArg(args, index, name, expected).value;
+
+const exprefArg = (args: FunctionArg[], index: number, name: string): Node => {
+    const arg = args[index];
+    if (!arg || 'path' in arg || arg.type !== 'ExpressionReference') {
+        throw new Error(`${name}() expects an expression reference (&expr) for argument ${index + 1}`);
+    }
+    return arg.child;
+};
+
+const compareKeys = (a: number | string, b: number | string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const keyedItems = (name: string, args: FunctionArg[], evaluate: Evaluate) => {
+    const list = locatedArg(args, 0, name, ['array']);
+    const keyExpr = exprefArg(args, 1, name);
+    return itemsOf(list).map((item) => {
+        const key = evaluate(keyExpr, item).value;
+        if (typeof key !== 'number' && typeof key !== 'string') {
+            throw new Error(`${name}() key expression must return a number or string`);
+        }
+        return { item, key };
+    });
+};
+
+const FUNCTIONS: Record<string, JmesFunction> = {
+    abs: (args) => plain(Math.abs(valueArg(args, 0, 'abs', ['number']) as number)),
+    avg: (args) => {
+        const values = valueArg(args, 0, 'avg', ['array']) as number[];
+        return plain(values.length ? values.reduce((sum, n) => sum + n, 0) / values.length : null);
+    },
+    ceil: (args) => plain(Math.ceil(valueArg(args, 0, 'ceil', ['number']) as number)),
+    contains: (args) => {
+        const subject = valueArg(args, 0, 'contains', ['array', 'string']);
+        const search = valueArg(args, 1, 'contains');
+        if (typeof subject === 'string') return plain(typeof search === 'string' && subject.includes(search));
+        return plain((subject as JsonValue[]).some((item) => strictEqual(item, search)));
+    },
+    ends_with: (args) => plain((valueArg(args, 0, 'ends_with', ['string']) as string)
+        .endsWith(valueArg(args, 1, 'ends_with', ['string']) as string)),
+    floor: (args) => plain(Math.floor(valueArg(args, 0, 'floor', ['number']) as number)),
+    join: (args) => plain((valueArg(args, 1, 'join', ['array']) as JsonValue[])
+        .join(valueArg(args, 0, 'join', ['string']) as string)),
+    keys: (args) => plain(Object.keys(valueArg(args, 0, 'keys', ['object']) as Record<string, JsonValue>)),
+    length: (args) => {
+        const value = valueArg(args, 0, 'length', ['string', 'array', 'object']);
+        if (typeof value === 'string') return plain(Array.from(value).length);
+        return plain(Array.isArray(value) ? value.length : Object.keys(value as object).length);
+    },
+    map: (args, evaluate) => {
+        const expr = exprefArg(args, 0, 'map');
+        const list = locatedArg(args, 1, 'map', ['array']);
+        return computed(itemsOf(list).map((item) => evaluate(expr, item)));
+    },
+    max: (args) => {
+        const values = valueArg(args, 0, 'max', ['array']) as (number | string)[];
+        return plain(values.length ? values.reduce((a, b) => (b > a ? b : a)) : null);
+    },
+    max_by: (args, evaluate) => {
+        const keyed = keyedItems('max_by', args, evaluate);
+        return keyed.length ? keyed.reduce((a, b) => (b.key > a.key ? b : a)).item : NULL;
+    },
+    merge: (args) => plain(Object.assign({}, ...args.map((_, i) => valueArg(args, i, 'merge', ['object']) as object))),
+    min: (args) => {
+        const values = valueArg(args, 0, 'min', ['array']) as (number | string)[];
+        return plain(values.length ? values.reduce((a, b) => (b < a ? b : a)) : null);
+    },
+    min_by: (args, evaluate) => {
+        const keyed = keyedItems('min_by', args, evaluate);
+        return keyed.length ? keyed.reduce((a, b) => (b.key < a.key ? b : a)).item : NULL;
+    },
+    not_null: (args) => {
+        for (let i = 0; i < args.length; i++) {
+            const located = locatedArg(args, i, 'not_null');
+            if (located.value !== null) return located;
+        }
+        return NULL;
+    },
+    reverse: (args) => {
+        const located = locatedArg(args, 0, 'reverse', ['array', 'string']);
+        if (typeof located.value === 'string') return plain(Array.from(located.value).reverse().join(''));
+        return computed([...itemsOf(located)].reverse());
+    },
+    sort: (args) => {
+        const values = [...(valueArg(args, 0, 'sort', ['array']) as (number | string)[])];
+        return plain(values.sort(compareKeys));
+    },
+    sort_by: (args, evaluate) => computed(
+        keyedItems('sort_by', args, evaluate)
+            .sort((a, b) => compareKeys(a.key, b.key))
+            .map(({ item }) => item)
+    ),
+    starts_with: (args) => plain((valueArg(args, 0, 'starts_with', ['string']) as string)
+        .startsWith(valueArg(args, 1, 'starts_with', ['string']) as string)),
+    sum: (args) => plain((valueArg(args, 0, 'sum', ['array']) as number[]).reduce((sum, n) => sum + n, 0)),
+    to_array: (args) => {
+        const located = locatedArg(args, 0, 'to_array');
+        return Array.isArray(located.value) ? located : computed([located]);
+    },
+    to_number: (args) => {
+        const value = valueArg(args, 0, 'to_number');
+        if (typeof value === 'number') return plain(value);
+        if (typeof value !== 'string') return NULL;
+        const parsed = Number(value);
+        return plain(value.trim() !== '' && Number.isFinite(parsed) ? parsed : null);
+    },
+    to_string: (args) => {
+        const value = valueArg(args, 0, 'to_string');
+        return plain(typeof value === 'string' ? value : JSON.stringify(value));
+    },
+    type: (args) => plain(typeName(valueArg(args, 0, 'type'))),
+    values: (args) => {
+        const located = locatedArg(args, 0, 'values', ['object']);
+        const object = located.value as Record<string, JsonValue>;
+        return computed(Object.keys(object).map((key) => ({ value: object[key], path: located.path && [...located.path, key] })));
+    },
+};
+
+const evaluate = (node: Node, current: QueryLocatedValue): QueryLocatedValue => {
+    switch (node.type) {
+        case 'Field': {
+            const { value, path } = current;
+            if (!isObject(value) || !Object.prototype.hasOwnProperty.call(value, node.name)) return NULL;
+            return { value: value[node.name], path: path && [...path, node.name] };
+        }
+        case 'Literal':
+            return { value: node.value, path: null };
+        case 'Identity':
+        case 'Current':
+            return current;
+        case 'Index': {
+            if (!Array.isArray(current.value)) return NULL;
+            const items = itemsOf(current);
+            const index = node.value < 0 ? items.length + node.value : node.value;
+            return items[index] ?? NULL;
+        }
+        case 'Slice': {
+            if (!Array.isArray(current.value)) return NULL;
+            const items = itemsOf(current);
+            const length = items.length;
+            const step = node.step ?? 1;
+            if (step === 0) throw new Error('Slice step cannot be 0');
+            const clamp = (value: number, low: number, high: number) => Math.max(low, Math.min(high, value));
+            const resolve = (value: number | null, fallback: number) => {
+                if (value === null) return fallback;
+                return value < 0 ? clamp(length + value, step < 0 ? -1 : 0, length) : clamp(value, 0, step < 0 ? length - 1 : length);
+            };
+            const start = resolve(node.start, step < 0 ? length - 1 : 0);
+            const stop = resolve(node.stop, step < 0 ? -1 : length);
+            const result: QueryLocatedValue[] = [];
+            if (step > 0) {
+                for (let i = start; i < stop; i += step) result.push(items[i]);
+            } else {
+                for (let i = start; i > stop; i += step) result.push(items[i]);
+            }
+            return computed(result);
+        }
+        case 'Subexpression':
+        case 'IndexExpression':
+        case 'Pipe':
+            return evaluate(node.right, evaluate(node.left, current));
+        case 'Projection': {
+            const base = evaluate(node.left, current);
+            if (!Array.isArray(base.value)) return NULL;
+            const results = itemsOf(base)
+                .map((item) => evaluate(node.right, item))
+                .filter((item) => item.value !== null);
+            return computed(results);
+        }
+        case 'ValueProjection': {
+            const base = evaluate(node.left, current);
+            if (!isObject(base.value)) return NULL;
+            const object = base.value;
+            const results = Object.keys(object)
+                .map((key) => evaluate(node.right, { value: object[key], path: base.path && [...base.path, key] }))
+                .filter((item) => item.value !== null);
+            return computed(results);
+        }
+        case 'FilterProjection': {
+            const base = evaluate(node.left, current);
+            if (!Array.isArray(base.value)) return NULL;
+            const results = itemsOf(base)
+                .filter((item) => !isFalse(evaluate(node.condition, item).value))
+                .map((item) => evaluate(node.right, item))
+                .filter((item) => item.value !== null);
+            return computed(results);
+        }
+        case 'Flatten': {
+            const base = evaluate(node.child, current);
+            if (!Array.isArray(base.value)) return NULL;
+            const results: QueryLocatedValue[] = [];
+            for (const item of itemsOf(base)) {
+                if (Array.isArray(item.value)) results.push(...itemsOf(item));
+                else results.push(item);
+            }
+            return computed(results);
+        }
+        case 'Or': {
+            const left = evaluate(node.left, current);
+            return isFalse(left.value) ? evaluate(node.right, current) : left;
+        }
+        case 'And': {
+            const left = evaluate(node.left, current);
+            return isFalse(left.value) ? left : evaluate(node.right, current);
+        }
+        case 'Not':
+            return { value: isFalse(evaluate(node.child, current).value), path: null };
+        case 'Comparator': {
+            const left = evaluate(node.left, current).value;
+            const right = evaluate(node.right, current).value;
+            if (node.op === 'EQ') return { value: strictEqual(left, right), path: null };
+            if (node.op === 'NE') return { value: !strictEqual(left, right), path: null };
+            if (typeof left !== 'number' || typeof right !== 'number') return NULL;
+            const result = node.op === 'GT' ? left > right
+                : node.op === 'GTE' ? left >= right
+                    : node.op === 'LT' ? left < right
+                        : left <= right;
+            return { value: result, path: null };
+        }
+        case 'MultiSelectList':
+            if (current.value === null) return NULL;
+            return computed(node.children.map((child) => evaluate(child, current)));
+        case 'MultiSelectHash': {
+            if (current.value === null) return NULL;
+            const result: Record<string, JsonValue> = {};
+            for (const child of node.children) {
+                result[child.key] = evaluate(child.value, current).value;
+            }
+            return { value: result, path: null };
+        }
+        case 'Function': {
+            const fn = FUNCTIONS[node.name];
+            if (!fn) throw new Error(`Unknown JMESPath function: ${node.name}()`);
+            const args = node.args.map((arg) => (arg.type === 'ExpressionReference' ? arg : evaluate(arg, current)));
+            return fn(args, evaluate);
+        }
+        case 'ExpressionReference':
+            throw new Error('Expression references (&expr) are only valid as function arguments');
+    }
+};
+
+/**
+ * Evaluates a JMESPath expression. Projections and multiselects are unpacked
+ * into one entry per element so each element can be located in the tree.
+ */
+export const evaluateJmesPath = (data: JsonValue, expression: string): QueryLocatedValue[] => {
+    const trimmed = expression.trim();
+    if (!trimmed) return [];
+    const ast = new Parser(tokenize(trimmed)).parse();
+    const result = evaluate(ast, { value: data, path: [] });
+    if (result.items) return result.items;
+    return result.value === null && result.path === null ? [] : [result];
+};
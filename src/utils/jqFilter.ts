@@ -0,0 +1,1488 @@
+import type { JsonPathSegment, JsonValue } from '../types/json';
+
+/**
+ * jq filter evaluator (https://jqlang.github.io/jq/manual/) for the JSON
+ * viewer's transform pane.
+ *
+ * Covers the parts of the language used to reshape payloads: paths, iteration
+ * and slices, pipes and commas, object / array construction, string
+ * interpolation, arithmetic, comparisons and `//`, `if`, `try`, `reduce`,
+ * `foreach`, `as $var` bindings, `|=` / `=` updates and the common builtins
+ * (`select`, `map`, `keys`, `group_by`, `sort_by`, `to_entries`, `del`, ...).
+ * Function definitions, `label`, modules and `@format` strings are not
+ * supported. Every filter yields a list of outputs, as jq does.
+ */
+
+type Token =
+    | { kind: 'punct'; value: string; start: number }
+    | { kind: 'ident'; value: string; start: number }
+    | { kind: 'field'; value: string; start: number }
+    | { kind: 'var'; value: string; start: number }
+    | { kind: 'number'; value: number; start: number }
+    | { kind: 'string'; parts: (string | { source: string; offset: number })[]; start: number }
+    | { kind: 'eof'; start: number };
+
+type BinaryOp = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=';
+type AssignOp = '=' | '|=' | '+=' | '-=' | '*=' | '/=' | '%=' | '//=';
+
+const ASSIGN_OPS: AssignOp[] = ['=', '|=', '+=', '-=', '*=', '/=', '%=', '//='];
+
+type Node =
+    | { type: 'Identity' }
+    | { type: 'RecurseAll' }
+    | { type: 'Field'; target: Node; name: string }
+    | { type: 'Index'; target: Node; index: Node }
+    | { type: 'Slice'; target: Node; from: Node | null; to: Node | null }
+    | { type: 'Iterate'; target: Node }
+    | { type: 'Try'; body: Node; handler: Node | null }
+    | { type: 'Literal'; value: JsonValue }
+    | { type: 'String'; parts: (string | Node)[] }
+    | { type: 'Pipe' | 'Comma' | 'Alternative' | 'And' | 'Or'; left: Node; right: Node }
+    | { type: 'Binary'; op: BinaryOp; left: Node; right: Node }
+    | { type: 'Assign'; op: AssignOp; left: Node; right: Node }
+    | { type: 'Negate'; body: Node }
+    | { type: 'Collect'; body: Node | null }
+    | { type: 'Object'; entries: { key: Node; value: Node }[] }
+    | { type: 'If'; branches: { condition: Node; then: Node }[]; otherwise: Node | null }
+    | { type: 'Reduce'; source: Node; name: string; init: Node; update: Node }
+    | { type: 'Foreach'; source: Node; name: string; init: Node; update: Node; extract: Node | null }
+    | { type: 'Bind'; source: Node; name: string; body: Node }
+    | { type: 'Var'; name: string }
+    | { type: 'Call'; name: string; args: Node[] };
+
+type Env = ReadonlyMap<string, JsonValue>;
+type JsonObject = { [key: string]: JsonValue };
+type PathValue = [JsonPathSegment[], JsonValue];
+
+const KEYWORDS = new Set([
+    'if', 'then', 'elif', 'else', 'end', 'as', 'reduce', 'foreach', 'try', 'catch',
+    'and', 'or', 'def', 'label', 'import', 'include',
+]);
+
+const PUNCTUATION = ['?//', '//=', '|=', '+=', '-=', '*=', '/=', '%=', '==', '!=', '<=', '>=', '//', '..', '.', '[', ']', '{', '}', '(', ')', '|', ',', ':', ';', '?', '=', '<', '>', '+', '-', '*', '/', '%'];
+
+const syntaxError = (message: string, position: number) =>
+    new Error(`${message} at position ${position} in jq filter`);
+
+const tokenize = (filter: string, offset = 0): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    /** Reads a string literal starting at the opening quote; returns its parts and end index. */
+    const readString = (from: number): { parts: Extract<Token, { kind: 'string' }>['parts']; end: number } => {
+        const parts: Extract<Token, { kind: 'string' }>['parts'] = [];
+        let text = '';
+        let j = from + 1;
+        while (j < filter.length && filter[j] !== '"') {
+            if (filter[j] !== '\\') {
+                text += filter[j++];
+                continue;
+            }
+            const escape = filter[j + 1];
+            if (escape === '(') {
+                // Interpolation: find the matching paren, skipping nested strings.
+                let depth = 1;
+                let k = j + 2;
+                while (k < filter.length && depth > 0) {
+                    if (filter[k] === '"') k = readString(k).end;
+                    else {
+                        if (filter[k] === '(') depth++;
+                        else if (filter[k] === ')') depth--;
+                        k++;
+                    }
+                }
+                if (depth > 0) throw syntaxError('Unterminated string interpolation', offset + j);
+                if (text) parts.push(text);
+                text = '';
+                parts.push({ source: filter.slice(j + 2, k - 1), offset: offset + j + 2 });
+                j = k;
+            } else if (escape === 'u') {
+                const hex = filter.slice(j + 2, j + 6);
+                if (!/^[0-9a-fA-F]{4}$/.test(hex)) throw syntaxError('Invalid \\u escape', offset + j);
+                text += String.fromCharCode(parseInt(hex, 16));
+                j += 6;
+            } else {
+                const simple: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+                if (!(escape in simple)) throw syntaxError(`Invalid escape \\${escape ?? ''}`, offset + j);
+                text += simple[escape];
+                j += 2;
+            }
+        }
+        if (j >= filter.length) throw syntaxError('Unterminated string', offset + from);
+        if (text || parts.length === 0) parts.push(text);
+        return { parts, end: j + 1 };
+    };
+
+    while (i < filter.length) {
+        const ch = filter[i];
+        const start = offset + i;
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '#') {
+            while (i < filter.length && filter[i] !== '\n') i++;
+        } else if (ch === '"') {
+            const { parts, end } = readString(i);
+            tokens.push({ kind: 'string', parts, start });
+            i = end;
+        } else if (ch === '.' && /[A-Za-z_]/.test(filter[i + 1] ?? '')) {
+            const name = filter.slice(i + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+            tokens.push({ kind: 'field', value: name, start });
+            i += name.length + 1;
+        } else if (ch === '$' && /[A-Za-z_]/.test(filter[i + 1] ?? '')) {
+            const name = filter.slice(i + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+            tokens.push({ kind: 'var', value: name, start });
+            i += name.length + 1;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const name = filter.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*(::[A-Za-z_][A-Za-z0-9_]*)*/)![0];
+            tokens.push({ kind: 'ident', value: name, start });
+            i += name.length;
+        } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(filter[i + 1] ?? ''))) {
+            const literal = filter.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)![0];
+            tokens.push({ kind: 'number', value: Number(literal), start });
+            i += literal.length;
+        } else {
+            const punct = PUNCTUATION.find((candidate) => filter.startsWith(candidate, i));
+            if (!punct) throw syntaxError(`Unexpected character "${ch}"`, start);
+            if (punct === '?//') throw syntaxError('Destructuring alternatives (?//) are not supported', start);
+            tokens.push({ kind: 'punct', value: punct, start });
+            i += punct.length;
+        }
+    }
+
+    tokens.push({ kind: 'eof', start: offset + filter.length });
+    return tokens;
+};
+
+const describeToken = (token: Token): string => {
+    switch (token.kind) {
+        case 'eof': return 'end of filter';
+        case 'string': return 'string';
+        case 'number': return String(token.value);
+        case 'field': return `.${token.value}`;
+        case 'var': return `$${token.value}`;
+        default: return `"${token.value}"`;
+    }
+};
+
+class Parser {
+    private index = 0;
+    private readonly tokens: Token[];
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    parse(): Node {
+        const ast = this.parsePipe();
+        if (this.peek().kind !== 'eof') this.unexpected();
+        return ast;
+    }
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private isPunct(value: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token.kind === 'punct' && token.value === value;
+    }
+
+    private isKeyword(value: string): boolean {
+        const token = this.peek();
+        return token.kind === 'ident' && token.value === value;
+    }
+
+    private unexpected(): never {
+        const token = this.peek();
+        throw syntaxError(`Unexpected ${describeToken(token)}`, token.start);
+    }
+
+    private expectPunct(value: string): void {
+        if (!this.isPunct(value)) {
+            const token = this.peek();
+            throw syntaxError(`Expected "${value}" but found ${describeToken(token)}`, token.start);
+        }
+        this.index++;
+    }
+
+    private expectKeyword(value: string): void {
+        if (!this.isKeyword(value)) {
+            const token = this.peek();
+            throw syntaxError(`Expected "${value}" but found ${describeToken(token)}`, token.start);
+        }
+        this.index++;
+    }
+
+    private expectVariable(): string {
+        const token = this.next();
+        if (token.kind !== 'var') throw syntaxError(`Expected a $variable but found ${describeToken(token)}`, token.start);
+        return token.value;
+    }
+
+    /** Pipe level; `allowComma` is false inside object values, where commas separate entries. */
+    private parsePipe(allowComma = true): Node {
+        if (this.isKeyword('def')) throw syntaxError('Function definitions (def) are not supported', this.peek().start);
+        const left = allowComma ? this.parseComma() : this.parseAlternative();
+        if (this.isPunct('|')) {
+            this.next();
+            return { type: 'Pipe', left, right: this.parsePipe(allowComma) };
+        }
+        return left;
+    }
+
+    private parseComma(): Node {
+        let left = this.parseAlternative();
+        while (this.isPunct(',')) {
+            this.next();
+            left = { type: 'Comma', left, right: this.parseAlternative() };
+        }
+        return left;
+    }
+
+    private parseAlternative(): Node {
+        const left = this.parseAssignment();
+        if (this.isPunct('//')) {
+            this.next();
+            return { type: 'Alternative', left, right: this.parseAlternative() };
+        }
+        return left;
+    }
+
+    private parseAssignment(): Node {
+        const left = this.parseOr();
+        const op = ASSIGN_OPS.find((candidate) => this.isPunct(candidate));
+        if (op) {
+            this.next();
+            return { type: 'Assign', op, left, right: this.parseAlternative() };
+        }
+        return left;
+    }
+
+    private parseOr(): Node {
+        let left = this.parseAnd();
+        while (this.isKeyword('or')) {
+            this.next();
+            left = { type: 'Or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): Node {
+        let left = this.parseComparison();
+        while (this.isKeyword('and')) {
+            this.next();
+            left = { type: 'And', left, right: this.parseComparison() };
+        }
+        return left;
+    }
+
+    private parseComparison(): Node {
+        const left = this.parseAdditive();
+        for (const op of ['==', '!=', '<=', '>=', '<', '>'] as const) {
+            if (this.isPunct(op)) {
+                this.next();
+                return { type: 'Binary', op, left, right: this.parseAdditive() };
+            }
+        }
+        return left;
+    }
+
+    private parseAdditive(): Node {
+        let left = this.parseMultiplicative();
+        while (this.isPunct('+') || this.isPunct('-')) {
+            const op = (this.next() as { value: BinaryOp }).value;
+            left = { type: 'Binary', op, left, right: this.parseMultiplicative() };
+        }
+        return left;
+    }
+
+    private parseMultiplicative(): Node {
+        let left = this.parseUnary();
+        while (this.isPunct('*') || this.isPunct('/') || this.isPunct('%')) {
+            const op = (this.next() as { value: BinaryOp }).value;
+            left = { type: 'Binary', op, left, right: this.parseUnary() };
+        }
+        return left;
+    }
+
+    private parseUnary(): Node {
+        if (this.isPunct('-')) {
+            this.next();
+            return { type: 'Negate', body: this.parseUnary() };
+        }
+        return this.parsePostfix();
+    }
+
+    /** A term and its suffixes; `allowBinding` is false for the operands of `try`, `reduce` and `foreach`. */
+    private parsePostfix(allowBinding = true): Node {
+        let node = this.parsePrimary();
+        for (;;) {
+            const token = this.peek();
+            if (token.kind === 'field') {
+                this.next();
+                node = { type: 'Field', target: node, name: token.value };
+            } else if (this.isPunct('.') && this.peek(1).kind === 'string') {
+                this.next();
+                node = { type: 'Field', target: node, name: this.parseFieldName() };
+            } else if (this.isPunct('[') || (this.isPunct('.') && this.isPunct('[', 1))) {
+                if (this.isPunct('.')) this.next();
+                node = this.parseBracketSuffix(node);
+            } else if (this.isPunct('?')) {
+                this.next();
+                node = { type: 'Try', body: node, handler: null };
+            } else if (allowBinding && this.isKeyword('as')) {
+                this.next();
+                const name = this.expectVariable();
+                this.expectPunct('|');
+                return { type: 'Bind', source: node, name, body: this.parsePipe() };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private parseFieldName(): string {
+        const token = this.next();
+        if (token.kind !== 'string' || token.parts.some((part) => typeof part !== 'string')) {
+            throw syntaxError('Expected a plain string after "."', token.start);
+        }
+        return token.parts.join('');
+    }
+
+    /** `[]`, `[expr]`, `[from:to]` after a term; the opening bracket is next. */
+    private parseBracketSuffix(target: Node): Node {
+        this.expectPunct('[');
+        if (this.isPunct(']')) {
+            this.next();
+            return { type: 'Iterate', target };
+        }
+        if (this.isPunct(':')) {
+            this.next();
+            const to = this.parsePipe();
+            this.expectPunct(']');
+            return { type: 'Slice', target, from: null, to };
+        }
+        const index = this.parsePipe();
+        if (this.isPunct(':')) {
+            this.next();
+            const to = this.isPunct(']') ? null : this.parsePipe();
+            this.expectPunct(']');
+            return { type: 'Slice', target, from: index, to };
+        }
+        this.expectPunct(']');
+        return { type: 'Index', target, index };
+    }
+
+    private parseString(token: Extract<Token, { kind: 'string' }>): Node {
+        if (token.parts.every((part) => typeof part === 'string')) {
+            return { type: 'Literal', value: token.parts.join('') };
+        }
+        return {
+            type: 'String',
+            parts: token.parts.map((part) => (
+                typeof part === 'string' ? part : new Parser(tokenize(part.source, part.offset)).parse()
+            )),
+        };
+    }
+
+    private parsePrimary(): Node {
+        const token = this.next();
+        switch (token.kind) {
+            case 'number':
+                return { type: 'Literal', value: token.value };
+            case 'string':
+                return this.parseString(token);
+            case 'field':
+                return { type: 'Field', target: { type: 'Identity' }, name: token.value };
+            case 'var':
+                return { type: 'Var', name: token.value };
+            case 'ident':
+                return this.parseIdentifier(token);
+            case 'punct':
+                break;
+            default:
+                this.index--;
+                this.unexpected();
+        }
+
+        switch (token.value) {
+            case '.':
+                if (this.peek().kind === 'string') {
+                    return { type: 'Field', target: { type: 'Identity' }, name: this.parseFieldName() };
+                }
+                if (this.isPunct('[')) return this.parseBracketSuffix({ type: 'Identity' });
+                return { type: 'Identity' };
+            case '..':
+                return { type: 'RecurseAll' };
+            case '(': {
+                const body = this.parsePipe();
+                this.expectPunct(')');
+                return body;
+            }
+            case '[': {
+                if (this.isPunct(']')) {
+                    this.next();
+                    return { type: 'Collect', body: null };
+                }
+                const body = this.parsePipe();
+                this.expectPunct(']');
+                return { type: 'Collect', body };
+            }
+            case '{':
+                return this.parseObject();
+            default:
+                this.index--;
+                return this.unexpected();
+        }
+    }
+
+    private parseIdentifier(token: Extract<Token, { kind: 'ident' }>): Node {
+        switch (token.value) {
+            case 'true': return { type: 'Literal', value: true };
+            case 'false': return { type: 'Literal', value: false };
+            case 'null': return { type: 'Literal', value: null };
+            case 'if': {
+                const branches: { condition: Node; then: Node }[] = [];
+                let otherwise: Node | null = null;
+                do {
+                    const condition = this.parsePipe();
+                    this.expectKeyword('then');
+                    branches.push({ condition, then: this.parsePipe() });
+                } while (this.isKeyword('elif') && this.next());
+                if (this.isKeyword('else')) {
+                    this.next();
+                    otherwise = this.parsePipe();
+                }
+                this.expectKeyword('end');
+                return { type: 'If', branches, otherwise };
+            }
+            case 'try': {
+                const body = this.parsePostfix(false);
+                if (this.isKeyword('catch')) {
+                    this.next();
+                    return { type: 'Try', body, handler: this.parsePostfix(false) };
+                }
+                return { type: 'Try', body, handler: null };
+            }
+            case 'reduce':
+            case 'foreach': {
+                const source = this.parsePostfix(false);
+                this.expectKeyword('as');
+                const name = this.expectVariable();
+                this.expectPunct('(');
+                const init = this.parsePipe();
+                this.expectPunct(';');
+                const update = this.parsePipe();
+                let extract: Node | null = null;
+                if (token.value === 'foreach' && this.isPunct(';')) {
+                    this.next();
+                    extract = this.parsePipe();
+                }
+                this.expectPunct(')');
+                return token.value === 'reduce'
+                    ? { type: 'Reduce', source, name, init, update }
+                    : { type: 'Foreach', source, name, init, update, extract };
+            }
+            default:
+                break;
+        }
+        if (KEYWORDS.has(token.value)) {
+            throw syntaxError(`Unexpected keyword "${token.value}"`, token.start);
+        }
+        const args: Node[] = [];
+        if (this.isPunct('(')) {
+            this.next();
+            args.push(this.parsePipe());
+            while (this.isPunct(';')) {
+                this.next();
+                args.push(this.parsePipe());
+            }
+            this.expectPunct(')');
+        }
+        return { type: 'Call', name: token.value, args };
+    }
+
+    private parseObject(): Node {
+        const entries: { key: Node; value: Node }[] = [];
+        while (!this.isPunct('}')) {
+            const token = this.next();
+            let key: Node;
+            let shorthand: Node | null = null;
+            if (token.kind === 'ident') {
+                key = { type: 'Literal', value: token.value };
+                shorthand = { type: 'Field', target: { type: 'Identity' }, name: token.value };
+            } else if (token.kind === 'var') {
+                key = { type: 'Literal', value: token.value };
+                shorthand = { type: 'Var', name: token.value };
+            } else if (token.kind === 'number') {
+                throw syntaxError('Object keys must be strings', token.start);
+            } else if (token.kind === 'string') {
+                key = this.parseString(token);
+                shorthand = { type: 'Index', target: { type: 'Identity' }, index: key };
+            } else if (token.kind === 'punct' && token.value === '(') {
+                key = this.parsePipe();
+                this.expectPunct(')');
+            } else {
+                this.index--;
+                this.unexpected();
+            }
+            if (this.isPunct(':')) {
+                this.next();
+                entries.push({ key, value: this.parsePipe(false) });
+            } else if (shorthand) {
+                entries.push({ key, value: shorthand });
+            } else {
+                this.expectPunct(':');
+            }
+            if (!this.isPunct(',')) break;
+            this.next();
+        }
+        this.expectPunct('}');
+        return { type: 'Object', entries };
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Value helpers
+
+const isObject = (value: JsonValue): value is JsonObject =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const typeOf = (value: JsonValue): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value === 'object' ? 'object' : typeof value;
+};
+
+const isTruthy = (value: JsonValue) => value !== null && value !== false;
+
+const describe = (value: JsonValue): string => {
+    const text = JSON.stringify(value) ?? 'null';
+    return `${typeOf(value)} (${text.length > 40 ? `${text.slice(0, 37)}...` : text})`;
+};
+
+const hasKey = (value: JsonObject, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+
+/** Assigns without going through the `__proto__` setter. */
+const setKey = (target: JsonObject, key: string, value: JsonValue) => {
+    Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+};
+
+const copyObject = (value: JsonObject): JsonObject => {
+    const result: JsonObject = {};
+    for (const key of Object.keys(value)) setKey(result, key, value[key]);
+    return result;
+};
+
+const TYPE_ORDER = ['null', 'boolean', 'number', 'string', 'array', 'object'];
+
+/** jq's total order: null < false < true < numbers < strings < arrays < objects. */
+const compareValues = (a: JsonValue, b: JsonValue): number => {
+    const typeA = typeOf(a);
+    const typeB = typeOf(b);
+    if (typeA !== typeB) return TYPE_ORDER.indexOf(typeA) - TYPE_ORDER.indexOf(typeB);
+    if (typeA === 'boolean') return Number(a) - Number(b);
+    if (typeA === 'number') return (a as number) - (b as number);
+    if (typeA === 'string') return (a as string) < (b as string) ? -1 : (a as string) > (b as string) ? 1 : 0;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            const order = compareValues(a[i], b[i]);
+            if (order !== 0) return order;
+        }
+        return a.length - b.length;
+    }
+    if (isObject(a) && isObject(b)) {
+        const keysA = Object.keys(a).sort();
+        const keysB = Object.keys(b).sort();
+        const order = compareValues(keysA, keysB);
+        if (order !== 0) return order;
+        for (const key of keysA) {
+            const valueOrder = compareValues(a[key], b[key]);
+            if (valueOrder !== 0) return valueOrder;
+        }
+    }
+    return 0;
+};
+
+const equals = (a: JsonValue, b: JsonValue) => compareValues(a, b) === 0;
+
+const toText = (value: JsonValue): string => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const sortedKeys = (value: JsonObject) => Object.keys(value).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+const add = (a: JsonValue, b: JsonValue): JsonValue => {
+    if (a === null) return b;
+    if (b === null) return a;
+    if (typeof a === 'number' && typeof b === 'number') return a + b;
+    if (typeof a === 'string' && typeof b === 'string') return a + b;
+    if (Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+    if (isObject(a) && isObject(b)) {
+        const result = copyObject(a);
+        for (const key of Object.keys(b)) setKey(result, key, b[key]);
+        return result;
+    }
+    throw new Error(`${describe(a)} and ${describe(b)} cannot be added`);
+};
+
+const deepMerge = (a: JsonObject, b: JsonObject): JsonObject => {
+    const result = copyObject(a);
+    for (const key of Object.keys(b)) {
+        const left = result[key];
+        const right = b[key];
+        setKey(result, key, hasKey(result, key) && isObject(left) && isObject(right) ? deepMerge(left, right) : right);
+    }
+    return result;
+};
+
+const arithmetic = (op: BinaryOp, a: JsonValue, b: JsonValue): JsonValue => {
+    switch (op) {
+        case '+':
+            return add(a, b);
+        case '-':
+            if (typeof a === 'number' && typeof b === 'number') return a - b;
+            if (Array.isArray(a) && Array.isArray(b)) return a.filter((item) => !b.some((other) => equals(item, other)));
+            throw new Error(`${describe(a)} and ${describe(b)} cannot be subtracted`);
+        case '*':
+            if (typeof a === 'number' && typeof b === 'number') return a * b;
+            if (isObject(a) && isObject(b)) return deepMerge(a, b);
+            if (typeof a === 'string' && typeof b === 'number') return b > 0 ? a.repeat(Math.ceil(b)) : null;
+            if (typeof a === 'number' && typeof b === 'string') return a > 0 ? b.repeat(Math.ceil(a)) : null;
+            throw new Error(`${describe(a)} and ${describe(b)} cannot be multiplied`);
+        case '/':
+            if (typeof a === 'number' && typeof b === 'number') {
+                if (b === 0) throw new Error(`${describe(a)} and ${describe(b)} cannot be divided because the divisor is zero`);
+                return a / b;
+            }
+            if (typeof a === 'string' && typeof b === 'string') return a === '' ? [] : a.split(b);
+            throw new Error(`${describe(a)} and ${describe(b)} cannot be divided`);
+        case '%': {
+            if (typeof a !== 'number' || typeof b !== 'number') {
+                throw new Error(`${describe(a)} and ${describe(b)} cannot be divided`);
+            }
+            const divisor = Math.trunc(b);
+            if (divisor === 0) throw new Error(`${describe(a)} and ${describe(b)} cannot be divided because the divisor is zero`);
+            return Math.trunc(a) % Math.abs(divisor);
+        }
+        case '==': return equals(a, b);
+        case '!=': return !equals(a, b);
+        case '<': return compareValues(a, b) < 0;
+        case '<=': return compareValues(a, b) <= 0;
+        case '>': return compareValues(a, b) > 0;
+        case '>=': return compareValues(a, b) >= 0;
+    }
+};
+
+const indexValue = (target: JsonValue, key: JsonValue): JsonValue => {
+    if (typeof key === 'string') {
+        if (target === null) return null;
+        if (isObject(target)) return hasKey(target, key) ? target[key] : null;
+        throw new Error(`Cannot index ${typeOf(target)} with "${key}"`);
+    }
+    if (typeof key === 'number') {
+        if (target === null) return null;
+        if (Array.isArray(target)) {
+            const index = Math.floor(key < 0 ? target.length + key : key);
+            return index >= 0 && index < target.length ? target[index] : null;
+        }
+        throw new Error(`Cannot index ${typeOf(target)} with number`);
+    }
+    if (isObject(key) && (target === null || Array.isArray(target) || typeof target === 'string')) {
+        return sliceValue(target, key.start ?? null, key.end ?? null);
+    }
+    throw new Error(`Cannot index ${typeOf(target)} with ${typeOf(key)}`);
+};
+
+const sliceValue = (target: JsonValue, from: JsonValue, to: JsonValue): JsonValue => {
+    if (target === null) return null;
+    if (!Array.isArray(target) && typeof target !== 'string') throw new Error(`Cannot slice ${typeOf(target)}`);
+    if ((from !== null && typeof from !== 'number') || (to !== null && typeof to !== 'number')) {
+        throw new Error('Start and end indices of a slice must be numbers');
+    }
+    const length = target.length;
+    const resolve = (value: number | null, fallback: number) => {
+        if (value === null) return fallback;
+        const index = value < 0 ? length + value : value;
+        return Math.min(length, Math.max(0, Math.floor(index)));
+    };
+    return target.slice(resolve(from, 0), resolve(to, length));
+};
+
+const iterate = (value: JsonValue): JsonValue[] => {
+    if (Array.isArray(value)) return value;
+    if (isObject(value)) return Object.keys(value).map((key) => value[key]);
+    throw new Error(`Cannot iterate over ${describe(value)}`);
+};
+
+const getPath = (value: JsonValue, path: JsonPathSegment[]): JsonValue => {
+    let current = value;
+    for (const segment of path) {
+        if (current === null) return null;
+        current = indexValue(current, segment);
+    }
+    return current;
+};
+
+const setPath = (value: JsonValue, path: JsonPathSegment[], replacement: JsonValue): JsonValue => {
+    if (path.length === 0) return replacement;
+    const [head, ...rest] = path;
+    if (typeof head === 'string') {
+        if (value !== null && !isObject(value)) throw new Error(`Cannot index ${typeOf(value)} with "${head}"`);
+        const result = value === null ? {} : copyObject(value);
+        setKey(result, head, setPath(hasKey(result, head) ? result[head] : null, rest, replacement));
+        return result;
+    }
+    if (value !== null && !Array.isArray(value)) throw new Error(`Cannot index ${typeOf(value)} with number`);
+    const result = value === null ? [] : value.slice();
+    const index = head < 0 ? result.length + head : head;
+    if (index < 0) throw new Error('Out of bounds negative array index');
+    while (result.length < index) result.push(null);
+    result[index] = setPath(index < result.length ? result[index] : null, rest, replacement);
+    return result;
+};
+
+const deletePaths = (value: JsonValue, paths: JsonPathSegment[][]): JsonValue => {
+    // Deleting the deepest / last paths first keeps the remaining indices valid.
+    const ordered = [...paths].sort((a, b) => compareValues(b, a));
+    let result = value;
+    for (const path of ordered) {
+        if (path.length === 0) return null;
+        const parentPath = path.slice(0, -1);
+        const key = path[path.length - 1];
+        const parent = getPath(result, parentPath);
+        if (parent === null) continue;
+        if (Array.isArray(parent) && typeof key === 'number') {
+            const index = key < 0 ? parent.length + key : key;
+            if (index < 0 || index >= parent.length) continue;
+            result = setPath(result, parentPath, [...parent.slice(0, index), ...parent.slice(index + 1)]);
+        } else if (isObject(parent) && typeof key === 'string') {
+            if (!hasKey(parent, key)) continue;
+            const next: JsonObject = {};
+            for (const name of Object.keys(parent)) if (name !== key) setKey(next, name, parent[name]);
+            result = setPath(result, parentPath, next);
+        } else {
+            throw new Error(`Cannot delete field at index ${JSON.stringify(key)} of ${typeOf(parent)}`);
+        }
+    }
+    return result;
+};
+
+const toPath = (value: JsonValue): JsonPathSegment[] => {
+    if (!Array.isArray(value) || !value.every((item) => typeof item === 'string' || typeof item === 'number')) {
+        throw new Error('Path must be specified as an array of strings and numbers');
+    }
+    return value as JsonPathSegment[];
+};
+
+const toRegExp = (pattern: JsonValue, flags: JsonValue, global = false): RegExp => {
+    if (typeof pattern !== 'string') throw new Error(`${describe(pattern)} cannot be matched, as it is not a string`);
+    const modifiers = typeof flags === 'string' ? flags : '';
+    let jsFlags = 'u';
+    if (modifiers.includes('i')) jsFlags += 'i';
+    if (modifiers.includes('s')) jsFlags += 's';
+    if (global || modifiers.includes('g')) jsFlags += 'g';
+    const source = modifiers.includes('x') ? pattern.replace(/\s+|#.*$/gm, '') : pattern;
+    try {
+        return new RegExp(source, jsFlags);
+    } catch (error) {
+        throw new Error(`${pattern} (at offset 0) is not a valid regex: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+const requireString = (value: JsonValue, name: string): string => {
+    if (typeof value !== 'string') throw new Error(`${describe(value)} cannot be used with ${name}, as it is not a string`);
+    return value;
+};
+
+const requireArray = (value: JsonValue, name: string): JsonValue[] => {
+    if (!Array.isArray(value)) throw new Error(`Cannot use ${name} on ${describe(value)}, as it is not an array`);
+    return value;
+};
+
+const containsValue = (a: JsonValue, b: JsonValue): boolean => {
+    if (isObject(a) && isObject(b)) return Object.keys(b).every((key) => hasKey(a, key) && containsValue(a[key], b[key]));
+    if (Array.isArray(a) && Array.isArray(b)) return b.every((item) => a.some((candidate) => containsValue(candidate, item)));
+    if (typeof a === 'string' && typeof b === 'string') return a.includes(b);
+    if (typeOf(a) === typeOf(b)) return equals(a, b);
+    throw new Error(`${describe(a)} and ${describe(b)} cannot have their containment checked`);
+};
+
+const flattenValue = (value: JsonValue[], depth: number): JsonValue[] =>
+    value.flatMap((item) => (Array.isArray(item) && depth > 0 ? flattenValue(item, depth - 1) : [item]));
+
+const recurseValues = (value: JsonValue, out: JsonValue[]) => {
+    out.push(value);
+    if (Array.isArray(value)) value.forEach((item) => recurseValues(item, out));
+    else if (isObject(value)) Object.keys(value).forEach((key) => recurseValues(value[key], out));
+};
+
+const entriesOf = (value: JsonValue): JsonValue[] => {
+    if (Array.isArray(value)) return value.map((item, key) => ({ key, value: item }));
+    if (!isObject(value)) throw new Error(`${describe(value)} has no keys`);
+    return Object.keys(value).map((key) => ({ key, value: value[key] }));
+};
+
+const fromEntries = (value: JsonValue): JsonValue => {
+    const result: JsonObject = {};
+    for (const entry of requireArray(value, 'from_entries')) {
+        if (!isObject(entry)) throw new Error(`Cannot index ${typeOf(entry)} with "key"`);
+        const pick = (...names: string[]) => names.map((name) => (hasKey(entry, name) ? entry[name] : null)).find((item) => item !== null && item !== false);
+        const key = pick('key', 'k', 'name', 'Name', 'Key', 'K');
+        const item = ['value', 'v', 'Value', 'V'].map((name) => (hasKey(entry, name) ? entry[name] : undefined)).find((v) => v !== undefined);
+        if (key === undefined || key === null) throw new Error(`Cannot use ${describe(key ?? null)} as object key`);
+        if (typeof key !== 'string' && typeof key !== 'number' && typeof key !== 'boolean') {
+            throw new Error(`Cannot use ${describe(key)} as object key`);
+        }
+        setKey(result, String(key), item ?? null);
+    }
+    return result;
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+
+const cartesian = (left: JsonValue[], right: JsonValue[], combine: (a: JsonValue, b: JsonValue) => JsonValue): JsonValue[] => {
+    // jq varies the left operand fastest.
+    const results: JsonValue[] = [];
+    for (const b of right) for (const a of left) results.push(combine(a, b));
+    return results;
+};
+
+const bind = (env: Env, name: string, value: JsonValue): Env => new Map(env).set(name, value);
+
+/** Groups items by the outputs of `keyOf`, in key order. */
+const groupSorted = (items: JsonValue[], keyOf: (item: JsonValue) => JsonValue): { key: JsonValue; items: JsonValue[] }[] => {
+    const keyed = items.map((item, index) => ({ key: keyOf(item), item, index }));
+    keyed.sort((a, b) => compareValues(a.key, b.key) || a.index - b.index);
+    const groups: { key: JsonValue; items: JsonValue[] }[] = [];
+    for (const entry of keyed) {
+        const last = groups[groups.length - 1];
+        if (last && equals(last.key, entry.key)) last.items.push(entry.item);
+        else groups.push({ key: entry.key, items: [entry.item] });
+    }
+    return groups;
+};
+
+const MAX_RECURSION_DEPTH = 10000;
+
+/** `error(...)` payload; caught by `try` / `?` and reported with its value. */
+class JqRuntimeError extends Error {
+    readonly value: JsonValue;
+
+    constructor(value: JsonValue) {
+        super(typeof value === 'string' ? value : `${JSON.stringify(value)} (not a string)`);
+        this.value = value;
+    }
+}
+
+const requireNumber = (value: JsonValue, name: string): number => {
+    if (typeof value !== 'number') throw new Error(`${describe(value)} number required for ${name}`);
+    return value;
+};
+
+const rangeOf = (from: JsonValue, to: JsonValue, step: JsonValue): number[] => {
+    const start = requireNumber(from, 'range');
+    const end = requireNumber(to, 'range');
+    const increment = requireNumber(step, 'range');
+    const result: number[] = [];
+    if (increment > 0) for (let i = start; i < end; i += increment) result.push(i);
+    else if (increment < 0) for (let i = start; i > end; i += increment) result.push(i);
+    return result;
+};
+
+const extreme = (items: JsonValue[], keyOf: (item: JsonValue) => JsonValue, direction: 1 | -1): JsonValue => {
+    if (items.length === 0) return null;
+    let best = items[0];
+    let bestKey = keyOf(best);
+    for (let i = 1; i < items.length; i++) {
+        const key = keyOf(items[i]);
+        const order = compareValues(key, bestKey);
+        // Ties go to the last element for max and the first for min, as in jq.
+        if (direction === 1 ? order >= 0 : order < 0) {
+            best = items[i];
+            bestKey = key;
+        }
+    }
+    return best;
+};
+
+const indicesOf = (input: JsonValue, value: JsonValue): JsonValue => {
+    if (input === null) return null;
+    if (typeof input === 'string' && typeof value === 'string') {
+        const found: number[] = [];
+        if (value === '') return found;
+        for (let i = input.indexOf(value); i !== -1; i = input.indexOf(value, i + 1)) found.push(i);
+        return found;
+    }
+    if (Array.isArray(input)) {
+        const needle = Array.isArray(value) ? value : [value];
+        const found: number[] = [];
+        if (needle.length === 0) return found;
+        for (let i = 0; i + needle.length <= input.length; i++) {
+            if (needle.every((item, offset) => equals(input[i + offset], item))) found.push(i);
+        }
+        return found;
+    }
+    throw new Error(`Cannot determine indices of ${describe(value)} in ${describe(input)}`);
+};
+
+const substitute = (input: JsonValue, patternNode: Node, flagsNode: Node | null, replacement: Node, env: Env, global: boolean): JsonValue[] => {
+    const text = requireString(input, global ? 'gsub' : 'sub');
+    const patterns = evaluate(patternNode, input, env);
+    const flagValues = flagsNode ? evaluate(flagsNode, input, env) : [null];
+    return patterns.flatMap((pattern) => flagValues.map((flags) => {
+        const regex = toRegExp(pattern, flags, global);
+        return text.replace(regex, (...match: unknown[]) => {
+            const last = match[match.length - 1];
+            const groups = (typeof last === 'object' && last !== null ? last : {}) as Record<string, string | undefined>;
+            const captures: JsonObject = {};
+            for (const [name, value] of Object.entries(groups)) setKey(captures, name, value ?? null);
+            const [output] = evaluate(replacement, captures, env);
+            if (typeof output !== 'string') throw new Error(`${describe(output ?? null)} cannot be added to a string`);
+            return output;
+        });
+    }));
+};
+
+type Builtin = (input: JsonValue, args: Node[], env: Env) => JsonValue[];
+
+const single = (fn: (input: JsonValue) => JsonValue): Builtin => (input) => [fn(input)];
+
+/** Evaluates `arg` against `input` and calls `fn` once per output (cartesian over several args). */
+const withArgs = (fn: (input: JsonValue, ...values: JsonValue[]) => JsonValue): Builtin => (input, args, env) => {
+    let combos: JsonValue[][] = [[]];
+    for (const arg of args) {
+        const values = evaluate(arg, input, env);
+        combos = values.flatMap((value) => combos.map((combo) => [...combo, value]));
+    }
+    return combos.map((values) => fn(input, ...values));
+};
+
+/** jq sorts and groups by the list of outputs of the key filter. */
+const keyBy = (node: Node, env: Env) => (item: JsonValue): JsonValue => evaluate(node, item, env);
+
+const BUILTINS: Record<string, Builtin> = {
+    'empty/0': () => [],
+    'not/0': single((input) => !isTruthy(input)),
+    'error/0': (input) => { throw new JqRuntimeError(input); },
+    'error/1': withArgs((_input, message) => { throw new JqRuntimeError(message); }),
+    'length/0': single((input) => {
+        if (input === null) return 0;
+        if (typeof input === 'boolean') throw new Error(`${describe(input)} has no length`);
+        if (typeof input === 'number') return Math.abs(input);
+        if (typeof input === 'string') return [...input].length;
+        return Array.isArray(input) ? input.length : Object.keys(input).length;
+    }),
+    'utf8bytelength/0': single((input) => new TextEncoder().encode(requireString(input, 'utf8bytelength')).length),
+    'keys/0': single((input) => {
+        if (Array.isArray(input)) return input.map((_, index) => index);
+        if (isObject(input)) return sortedKeys(input);
+        throw new Error(`${describe(input)} has no keys`);
+    }),
+    'keys_unsorted/0': single((input) => {
+        if (Array.isArray(input)) return input.map((_, index) => index);
+        if (isObject(input)) return Object.keys(input);
+        throw new Error(`${describe(input)} has no keys`);
+    }),
+    'values/0': (input) => (input === null ? [] : [input]),
+    'has/1': withArgs((input, key) => {
+        if (isObject(input) && typeof key === 'string') return hasKey(input, key);
+        if (Array.isArray(input) && typeof key === 'number') return key >= 0 && key < input.length;
+        throw new Error(`Cannot check whether ${typeOf(input)} has a ${typeOf(key)} key`);
+    }),
+    'in/1': withArgs((input, container) => {
+        if (isObject(container) && typeof input === 'string') return hasKey(container, input);
+        if (Array.isArray(container) && typeof input === 'number') return input >= 0 && input < container.length;
+        throw new Error(`Cannot check whether ${typeOf(container)} has a ${typeOf(input)} key`);
+    }),
+    'contains/1': withArgs((input, value) => containsValue(input, value)),
+    'inside/1': withArgs((input, value) => containsValue(value, input)),
+    'add/0': single((input) => (input === null ? null : iterate(input).reduce<JsonValue>((sum, item) => add(sum, item), null))),
+    'any/0': single((input) => iterate(input).some(isTruthy)),
+    'all/0': single((input) => iterate(input).every(isTruthy)),
+    'any/1': (input, [condition], env) => [iterate(input).some((item) => evaluate(condition, item, env).some(isTruthy))],
+    'all/1': (input, [condition], env) => [iterate(input).every((item) => evaluate(condition, item, env).every(isTruthy))],
+    'any/2': (input, [generator, condition], env) => [evaluate(generator, input, env).some((item) => evaluate(condition, item, env).some(isTruthy))],
+    'all/2': (input, [generator, condition], env) => [evaluate(generator, input, env).every((item) => evaluate(condition, item, env).every(isTruthy))],
+    'range/1': (input, [to], env) => evaluate(to, input, env).flatMap((end) => rangeOf(0, end, 1)),
+    'range/2': (input, [from, to], env) => evaluate(from, input, env).flatMap((start) => (
+        evaluate(to, input, env).flatMap((end) => rangeOf(start, end, 1))
+    )),
+    'range/3': (input, [from, to, step], env) => evaluate(from, input, env).flatMap((start) => (
+        evaluate(to, input, env).flatMap((end) => evaluate(step, input, env).flatMap((by) => rangeOf(start, end, by)))
+    )),
+    'floor/0': single((input) => Math.floor(requireNumber(input, 'floor'))),
+    'ceil/0': single((input) => Math.ceil(requireNumber(input, 'ceil'))),
+    'round/0': single((input) => Math.round(requireNumber(input, 'round'))),
+    'fabs/0': single((input) => Math.abs(requireNumber(input, 'fabs'))),
+    'abs/0': single((input) => (typeof input === 'number' ? Math.abs(input) : requireNumber(input, 'abs'))),
+    'sqrt/0': single((input) => Math.sqrt(requireNumber(input, 'sqrt'))),
+    'pow/2': withArgs((_input, base, exponent) => Math.pow(requireNumber(base, 'pow'), requireNumber(exponent, 'pow'))),
+    'log/0': single((input) => Math.log(requireNumber(input, 'log'))),
+    'tostring/0': single(toText),
+    'tonumber/0': single((input) => {
+        if (typeof input === 'number') return input;
+        const text = requireString(input, 'tonumber').trim();
+        const number = Number(text);
+        if (text === '' || !Number.isFinite(number)) throw new Error(`Cannot parse '${input}' as JSON`);
+        return number;
+    }),
+    'tojson/0': single((input) => JSON.stringify(input)),
+    'fromjson/0': single((input) => {
+        try {
+            return JSON.parse(requireString(input, 'fromjson')) as JsonValue;
+        } catch (error) {
+            throw new Error(`${String(input)} (while parsing '${String(input)}'): ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }),
+    'type/0': single(typeOf),
+    'arrays/0': (input) => (Array.isArray(input) ? [input] : []),
+    'objects/0': (input) => (isObject(input) ? [input] : []),
+    'iterables/0': (input) => (Array.isArray(input) || isObject(input) ? [input] : []),
+    'scalars/0': (input) => (Array.isArray(input) || isObject(input) ? [] : [input]),
+    'strings/0': (input) => (typeof input === 'string' ? [input] : []),
+    'numbers/0': (input) => (typeof input === 'number' ? [input] : []),
+    'booleans/0': (input) => (typeof input === 'boolean' ? [input] : []),
+    'nulls/0': (input) => (input === null ? [input] : []),
+    'select/1': (input, [condition], env) => (evaluate(condition, input, env).some(isTruthy) ? [input] : []),
+    'map/1': (input, [fn], env) => [iterate(input).flatMap((item) => evaluate(fn, item, env))],
+    'map_values/1': (input, [fn], env) => {
+        if (Array.isArray(input)) {
+            return [input.flatMap((item) => evaluate(fn, item, env).slice(0, 1))];
+        }
+        if (!isObject(input)) throw new Error(`Cannot iterate over ${describe(input)}`);
+        const result: JsonObject = {};
+        for (const key of Object.keys(input)) {
+            const [first] = evaluate(fn, input[key], env);
+            if (first !== undefined) setKey(result, key, first);
+        }
+        return [result];
+    },
+    'to_entries/0': single((input) => entriesOf(input)),
+    'from_entries/0': single(fromEntries),
+    'with_entries/1': (input, [fn], env) => [fromEntries(entriesOf(input).flatMap((entry) => evaluate(fn, entry, env)))],
+    'sort/0': single((input) => [...requireArray(input, 'sort')].sort(compareValues)),
+    'sort_by/1': (input, [fn], env) => {
+        const keyOf = keyBy(fn, env);
+        const keyed = requireArray(input, 'sort_by').map((item, index) => ({ item, key: keyOf(item), index }));
+        keyed.sort((a, b) => compareValues(a.key, b.key) || a.index - b.index);
+        return [keyed.map((entry) => entry.item)];
+    },
+    'group_by/1': (input, [fn], env) => [groupSorted(requireArray(input, 'group_by'), keyBy(fn, env)).map((group) => group.items)],
+    'unique/0': single((input) => groupSorted(requireArray(input, 'unique'), (item) => item).map((group) => group.key)),
+    'unique_by/1': (input, [fn], env) => [groupSorted(requireArray(input, 'unique_by'), keyBy(fn, env)).map((group) => group.items[0])],
+    'min/0': single((input) => extreme(requireArray(input, 'min'), (item) => item, -1)),
+    'max/0': single((input) => extreme(requireArray(input, 'max'), (item) => item, 1)),
+    'min_by/1': (input, [fn], env) => [extreme(requireArray(input, 'min_by'), keyBy(fn, env), -1)],
+    'max_by/1': (input, [fn], env) => [extreme(requireArray(input, 'max_by'), keyBy(fn, env), 1)],
+    'reverse/0': single((input) => {
+        if (input === null) return [];
+        if (typeof input === 'string') return [...input].reverse().join('');
+        return [...requireArray(input, 'reverse')].reverse();
+    }),
+    'flatten/0': single((input) => flattenValue(requireArray(input, 'flatten'), Infinity)),
+    'flatten/1': withArgs((input, depth) => {
+        if (typeof depth !== 'number' || depth < 0) throw new Error('flatten depth must not be negative');
+        return flattenValue(requireArray(input, 'flatten'), depth);
+    }),
+    'first/0': single((input) => indexValue(input, 0)),
+    'last/0': single((input) => indexValue(input, -1)),
+    'first/1': (input, [fn], env) => evaluate(fn, input, env).slice(0, 1),
+    'last/1': (input, [fn], env) => evaluate(fn, input, env).slice(-1),
+    'nth/1': withArgs((input, n) => indexValue(input, n)),
+    'limit/2': (input, [count, fn], env) => evaluate(count, input, env).flatMap((n) => (
+        typeof n === 'number' && n > 0 ? evaluate(fn, input, env).slice(0, n) : []
+    )),
+    'isempty/1': (input, [fn], env) => [evaluate(fn, input, env).length === 0],
+    'recurse/0': (input) => {
+        const out: JsonValue[] = [];
+        recurseValues(input, out);
+        return out;
+    },
+    'recurse/1': (input, [fn], env) => {
+        const out: JsonValue[] = [];
+        const visit = (value: JsonValue, depth: number) => {
+            if (depth > MAX_RECURSION_DEPTH) throw new Error('recurse() went too deep');
+            out.push(value);
+            for (const child of evaluate(fn, value, env)) visit(child, depth + 1);
+        };
+        visit(input, 0);
+        return out;
+    },
+    'walk/1': (input, [fn], env) => {
+        const walk = (value: JsonValue): JsonValue[] => {
+            let inner: JsonValue = value;
+            if (Array.isArray(value)) inner = value.flatMap(walk);
+            else if (isObject(value)) {
+                const result: JsonObject = {};
+                for (const key of Object.keys(value)) {
+                    const [first] = walk(value[key]);
+                    if (first !== undefined) setKey(result, key, first);
+                }
+                inner = result;
+            }
+            return evaluate(fn, inner, env);
+        };
+        return walk(input);
+    },
+    'join/1': withArgs((input, separator) => requireArray(input, 'join').map((item) => {
+        if (item === null) return '';
+        if (typeof item === 'object') throw new Error(`Cannot join with ${typeOf(item)}`);
+        return String(item);
+    }).join(requireString(separator, 'join'))),
+    'split/1': withArgs((input, separator) => {
+        const text = requireString(input, 'split');
+        return text === '' ? [] : text.split(requireString(separator, 'split'));
+    }),
+    'split/2': withArgs((input, pattern, flags) => requireString(input, 'split').split(toRegExp(pattern, flags))),
+    'ascii_downcase/0': single((input) => requireString(input, 'ascii_downcase').replace(/[A-Z]/g, (c) => c.toLowerCase())),
+    'ascii_upcase/0': single((input) => requireString(input, 'ascii_upcase').replace(/[a-z]/g, (c) => c.toUpperCase())),
+    'ltrimstr/1': withArgs((input, prefix) => (
+        typeof input === 'string' && typeof prefix === 'string' && input.startsWith(prefix) ? input.slice(prefix.length) : input
+    )),
+    'rtrimstr/1': withArgs((input, suffix) => (
+        typeof input === 'string' && typeof suffix === 'string' && suffix !== '' && input.endsWith(suffix) ? input.slice(0, -suffix.length) : input
+    )),
+    'trim/0': single((input) => requireString(input, 'trim').trim()),
+    'ltrim/0': single((input) => requireString(input, 'ltrim').trimStart()),
+    'rtrim/0': single((input) => requireString(input, 'rtrim').trimEnd()),
+    'startswith/1': withArgs((input, prefix) => requireString(input, 'startswith').startsWith(requireString(prefix, 'startswith'))),
+    'endswith/1': withArgs((input, suffix) => requireString(input, 'endswith').endsWith(requireString(suffix, 'endswith'))),
+    'test/1': withArgs((input, pattern) => toRegExp(pattern, null).test(requireString(input, 'test'))),
+    'test/2': withArgs((input, pattern, flags) => toRegExp(pattern, flags).test(requireString(input, 'test'))),
+    'sub/2': (input, [pattern, replacement], env) => substitute(input, pattern, null, replacement, env, false),
+    'sub/3': (input, [pattern, replacement, flags], env) => substitute(input, pattern, flags, replacement, env, false),
+    'gsub/2': (input, [pattern, replacement], env) => substitute(input, pattern, null, replacement, env, true),
+    'gsub/3': (input, [pattern, replacement, flags], env) => substitute(input, pattern, flags, replacement, env, true),
+    'tostream/0': (input) => {
+        const out: JsonValue[] = [];
+        const visit = (value: JsonValue, path: JsonPathSegment[]) => {
+            const children = Array.isArray(value)
+                ? value.map((item, index) => [index, item] as const)
+                : isObject(value) ? Object.keys(value).map((key) => [key, value[key]] as const) : null;
+            if (!children || children.length === 0) out.push([path, value]);
+            else {
+                children.forEach(([key, child]) => visit(child, [...path, key]));
+                out.push([[...path, children[children.length - 1][0]]]);
+            }
+        };
+        visit(input, []);
+        return out;
+    },
+    'getpath/1': withArgs((input, path) => {
+        try {
+            return getPath(input, toPath(path));
+        } catch {
+            return null;
+        }
+    }),
+    'setpath/2': withArgs((input, path, value) => setPath(input, toPath(path), value)),
+    'delpaths/1': withArgs((input, paths) => deletePaths(input, requireArray(paths, 'delpaths').map(toPath))),
+    'path/1': (input, [fn], env) => evaluatePaths(fn, input, env).map(([path]) => path),
+    'paths/0': (input) => evaluatePaths({ type: 'RecurseAll' }, input, new Map()).slice(1).map(([path]) => path),
+    'paths/1': (input, [condition], env) => evaluatePaths({ type: 'RecurseAll' }, input, env)
+        .slice(1)
+        .filter(([, value]) => evaluate(condition, value, env).some(isTruthy))
+        .map(([path]) => path),
+    'leaf_paths/0': (input) => evaluatePaths({ type: 'RecurseAll' }, input, new Map())
+        .filter(([, value]) => !Array.isArray(value) && !isObject(value))
+        .map(([path]) => path),
+    'del/1': (input, [fn], env) => [deletePaths(input, evaluatePaths(fn, input, env).map(([path]) => path))],
+    'to_number/0': single((input) => requireNumber(input, 'to_number')),
+    'splits/1': withArgs((input, pattern) => requireString(input, 'splits').split(toRegExp(pattern, null))),
+    'ascii/0': single((input) => String.fromCharCode(requireNumber(input, 'ascii'))),
+    'explode/0': single((input) => [...requireString(input, 'explode')].map((char) => char.codePointAt(0)!)),
+    'implode/0': single((input) => String.fromCodePoint(...requireArray(input, 'implode').map((code) => requireNumber(code, 'implode')))),
+    'indices/1': withArgs((input, value) => indicesOf(input, value)),
+    'index/1': withArgs((input, value) => {
+        const found = indicesOf(input, value);
+        return Array.isArray(found) && found.length > 0 ? found[0] : null;
+    }),
+    'rindex/1': withArgs((input, value) => {
+        const found = indicesOf(input, value);
+        return Array.isArray(found) && found.length > 0 ? found[found.length - 1] : null;
+    }),
+    'debug/0': (input) => [input],
+    'combinations/0': (input) => {
+        const lists = requireArray(input, 'combinations').map((item) => requireArray(item, 'combinations'));
+        return lists.reduce<JsonValue[][]>((acc, list) => acc.flatMap((combo) => list.map((item) => [...combo, item])), [[]]);
+    },
+};
+
+/**
+ * Evaluates `node` as a path expression: the locations it selects in `input`
+ * together with the values found there. Used by `path`, `del`, `paths` and
+ * the update operators.
+ */
+const evaluatePaths = (node: Node, input: JsonValue, env: Env, depth = 0): PathValue[] => {
+    if (depth > MAX_RECURSION_DEPTH) throw new Error('Path expression nested too deeply');
+    const extend = (base: PathValue[], step: (value: JsonValue) => PathValue[]): PathValue[] =>
+        base.flatMap(([path, value]) => step(value).map(([rest, child]): PathValue => [[...path, ...rest], child]));
+
+    switch (node.type) {
+        case 'Identity':
+            return [[[], input]];
+        case 'RecurseAll': {
+            const out: PathValue[] = [];
+            const visit = (value: JsonValue, path: JsonPathSegment[]) => {
+                out.push([path, value]);
+                if (Array.isArray(value)) value.forEach((item, index) => visit(item, [...path, index]));
+                else if (isObject(value)) Object.keys(value).forEach((key) => visit(value[key], [...path, key]));
+            };
+            visit(input, []);
+            return out;
+        }
+        case 'Field':
+            return extend(evaluatePaths(node.target, input, env, depth + 1), (value) => [[[node.name], indexValue(value, node.name)]]);
+        case 'Index': {
+            const keys = evaluate(node.index, input, env);
+            return extend(evaluatePaths(node.target, input, env, depth + 1), (value) => keys.map((key): PathValue => {
+                if (typeof key !== 'string' && typeof key !== 'number') {
+                    throw new Error(`Cannot update field at object index of ${typeOf(value)}`);
+                }
+                const segment = typeof key === 'number' && Array.isArray(value) && key < 0 ? value.length + key : key;
+                return [[segment], indexValue(value, key)];
+            }));
+        }
+        case 'Iterate':
+            return extend(evaluatePaths(node.target, input, env, depth + 1), (value) => {
+                if (value === null) return [];
+                if (Array.isArray(value)) return value.map((item, index): PathValue => [[index], item]);
+                if (isObject(value)) return Object.keys(value).map((key): PathValue => [[key], value[key]]);
+                throw new Error(`Cannot iterate over ${describe(value)}`);
+            });
+        case 'Pipe':
+            return extend(evaluatePaths(node.left, input, env, depth + 1), (value) => evaluatePaths(node.right, value, env, depth + 1));
+        case 'Comma':
+            return [...evaluatePaths(node.left, input, env, depth + 1), ...evaluatePaths(node.right, input, env, depth + 1)];
+        case 'Try':
+            try {
+                return evaluatePaths(node.body, input, env, depth + 1);
+            } catch (error) {
+                if (!node.handler) return [];
+                throw error;
+            }
+        case 'If': {
+            for (const branch of node.branches) {
+                const conditions = evaluate(branch.condition, input, env);
+                if (conditions.length === 0) return [];
+                if (isTruthy(conditions[0])) return evaluatePaths(branch.then, input, env, depth + 1);
+            }
+            return node.otherwise ? evaluatePaths(node.otherwise, input, env, depth + 1) : [[[], input]];
+        }
+        case 'Alternative': {
+            const left = evaluatePaths(node.left, input, env, depth + 1).filter(([, value]) => isTruthy(value));
+            return left.length > 0 ? left : evaluatePaths(node.right, input, env, depth + 1);
+        }
+        case 'Bind':
+            return evaluate(node.source, input, env).flatMap((value) => evaluatePaths(node.body, input, bind(env, node.name, value), depth + 1));
+        case 'Literal':
+            if (node.value === null) return [[[], null]];
+            break;
+        case 'Call': {
+            const key = `${node.name}/${node.args.length}`;
+            if (key === 'empty/0') return [];
+            if (key === 'select/1') {
+                return evaluate(node.args[0], input, env).some(isTruthy) ? [[[], input]] : [];
+            }
+            if (key === 'recurse/0') return evaluatePaths({ type: 'RecurseAll' }, input, env, depth + 1);
+            if (key === 'first/1') return evaluatePaths(node.args[0], input, env, depth + 1).slice(0, 1);
+            if (key === 'last/1') return evaluatePaths(node.args[0], input, env, depth + 1).slice(-1);
+            if (key === 'first/0') return [[[0], indexValue(input, 0)]];
+            if (key === 'last/0') return Array.isArray(input) ? [[[input.length - 1], indexValue(input, -1)]] : [[[-1], null]];
+            if (key === 'getpath/1') {
+                return evaluate(node.args[0], input, env).map((path): PathValue => [toPath(path), getPath(input, toPath(path))]);
+            }
+            break;
+        }
+        default:
+            break;
+    }
+    throw new Error('Invalid path expression');
+};
+
+const evaluate = (node: Node, input: JsonValue, env: Env): JsonValue[] => {
+    switch (node.type) {
+        case 'Identity':
+            return [input];
+        case 'RecurseAll': {
+            const out: JsonValue[] = [];
+            recurseValues(input, out);
+            return out;
+        }
+        case 'Literal':
+            return [node.value];
+        case 'Field':
+            return evaluate(node.target, input, env).map((value) => indexValue(value, node.name));
+        case 'Index': {
+            const keys = evaluate(node.index, input, env);
+            return evaluate(node.target, input, env).flatMap((value) => keys.map((key) => indexValue(value, key)));
+        }
+        case 'Slice': {
+            const froms = node.from ? evaluate(node.from, input, env) : [null];
+            const tos = node.to ? evaluate(node.to, input, env) : [null];
+            return evaluate(node.target, input, env).flatMap((value) => (
+                tos.flatMap((to) => froms.map((from) => sliceValue(value, from, to)))
+            ));
+        }
+        case 'Iterate':
+            return evaluate(node.target, input, env).flatMap(iterate);
+        case 'Try':
+            try {
+                return evaluate(node.body, input, env);
+            } catch (error) {
+                if (!node.handler) return [];
+                const value = error instanceof JqRuntimeError ? error.value : error instanceof Error ? error.message : String(error);
+                return evaluate(node.handler, value, env);
+            }
+        case 'String': {
+            let results: string[] = [''];
+            for (const part of node.parts) {
+                if (typeof part === 'string') {
+                    results = results.map((prefix) => prefix + part);
+                } else {
+                    const values = evaluate(part, input, env).map(toText);
+                    results = values.flatMap((value) => results.map((prefix) => prefix + value));
+                }
+            }
+            return results;
+        }
+        case 'Pipe':
+            return evaluate(node.left, input, env).flatMap((value) => evaluate(node.right, value, env));
+        case 'Comma':
+            return [...evaluate(node.left, input, env), ...evaluate(node.right, input, env)];
+        case 'Alternative': {
+            let left: JsonValue[] = [];
+            try {
+                left = evaluate(node.left, input, env).filter(isTruthy);
+            } catch {
+                left = [];
+            }
+            return left.length > 0 ? left : evaluate(node.right, input, env);
+        }
+        case 'And':
+            return evaluate(node.left, input, env).flatMap((left) => (
+                isTruthy(left) ? evaluate(node.right, input, env).map(isTruthy) : [false]
+            ));
+        case 'Or':
+            return evaluate(node.left, input, env).flatMap((left) => (
+                isTruthy(left) ? [true] : evaluate(node.right, input, env).map(isTruthy)
+            ));
+        case 'Binary':
+            return cartesian(evaluate(node.left, input, env), evaluate(node.right, input, env), (a, b) => arithmetic(node.op, a, b));
+        case 'Negate':
+            return evaluate(node.body, input, env).map((value) => {
+                if (typeof value !== 'number') throw new Error(`${describe(value)} cannot be negated`);
+                return -value;
+            });
+        case 'Assign': {
+            if (node.op === '|=') {
+                const paths = evaluatePaths(node.left, input, env);
+                let result = input;
+                const removed: JsonPathSegment[][] = [];
+                for (const [path] of paths) {
+                    const [first] = evaluate(node.right, getPath(result, path), env);
+                    if (first === undefined) removed.push(path);
+                    else result = setPath(result, path, first);
+                }
+                return [removed.length > 0 ? deletePaths(result, removed) : result];
+            }
+            const paths = evaluatePaths(node.left, input, env);
+            if (node.op === '=') {
+                return evaluate(node.right, input, env).map((value) => (
+                    paths.reduce<JsonValue>((result, [path]) => setPath(result, path, value), input)
+                ));
+            }
+            // `a op= b` updates every path with `. op $b`, once per output of `b`.
+            const op = node.op.slice(0, -1);
+            return evaluate(node.right, input, env).map((operand) => paths.reduce<JsonValue>((result, [path]) => {
+                const current = getPath(result, path);
+                const next = op === '//' ? (isTruthy(current) ? current : operand) : arithmetic(op as BinaryOp, current, operand);
+                return setPath(result, path, next);
+            }, input));
+        }
+        case 'Collect':
+            return [node.body ? evaluate(node.body, input, env) : []];
+        case 'Object': {
+            let results: JsonObject[] = [{}];
+            for (const entry of node.entries) {
+                const keys = evaluate(entry.key, input, env);
+                const values = evaluate(entry.value, input, env);
+                const next: JsonObject[] = [];
+                for (const key of keys) {
+                    if (typeof key !== 'string') throw new Error(`Object keys must be strings, not ${describe(key)}`);
+                    for (const value of values) {
+                        for (const partial of results) {
+                            const object = copyObject(partial);
+                            setKey(object, key, value);
+                            next.push(object);
+                        }
+                    }
+                }
+                results = next;
+            }
+            return results;
+        }
+        case 'If': {
+            const [branch, ...rest] = node.branches;
+            return evaluate(branch.condition, input, env).flatMap((condition) => {
+                if (isTruthy(condition)) return evaluate(branch.then, input, env);
+                if (rest.length > 0) return evaluate({ ...node, branches: rest }, input, env);
+                return node.otherwise ? evaluate(node.otherwise, input, env) : [input];
+            });
+        }
+        case 'Reduce':
+            return evaluate(node.init, input, env).map((initial) => {
+                let accumulator: JsonValue = initial;
+                for (const item of evaluate(node.source, input, env)) {
+                    const outputs = evaluate(node.update, accumulator, bind(env, node.name, item));
+                    accumulator = outputs.length > 0 ? outputs[outputs.length - 1] : null;
+                }
+                return accumulator;
+            });
+        case 'Foreach':
+            return evaluate(node.init, input, env).flatMap((initial) => {
+                const out: JsonValue[] = [];
+                let state: JsonValue = initial;
+                for (const item of evaluate(node.source, input, env)) {
+                    const scope = bind(env, node.name, item);
+                    for (const next of evaluate(node.update, state, scope)) {
+                        state = next;
+                        out.push(...(node.extract ? evaluate(node.extract, next, scope) : [next]));
+                    }
+                }
+                return out;
+            });
+        case 'Bind':
+            return evaluate(node.source, input, env).flatMap((value) => evaluate(node.body, input, bind(env, node.name, value)));
+        case 'Var': {
+            if (node.name === '__loc__') return [{ file: '<filter>', line: 1 }];
+            if (!env.has(node.name)) throw new Error(`$${node.name} is not defined`);
+            return [env.get(node.name)!];
+        }
+        case 'Call': {
+            const builtin = BUILTINS[`${node.name}/${node.args.length}`];
+            if (!builtin) {
+                const arities = Object.keys(BUILTINS).filter((key) => key.startsWith(`${node.name}/`));
+                throw new Error(arities.length > 0
+                    ? `${node.name}/${node.args.length} is not defined; use ${arities.join(' or ')}`
+                    : `${node.name}/${node.args.length} is not defined`);
+            }
+            return builtin(input, node.args, env);
+        }
+    }
+};
+
+/** Runs a jq filter against `data` and returns every output, in order. */
+export const evaluateJq = (data: JsonValue, filter: string): JsonValue[] => {
+    const ast = new Parser(tokenize(filter.trim() || '.')).parse();
+    try {
+        return evaluate(ast, data, new Map());
+    } catch (error) {
+        if (error instanceof RangeError) throw new Error('Filter recursed too deeply');
+        throw error;
+    }
+};
@@ -0,0 +1,397 @@
+import type { JsonRelaxation, JsonValue, LosslessNumber, ParseErrorCode } from '../types/json';
+import { toLosslessNumber } from './losslessNumber';
+
+/**
+ * Tolerant JSON parser implementing JSON5 / JSONC semantics: comments,
+ * trailing commas, single-quoted strings, unquoted (identifier) keys,
+ * hexadecimal and non-finite numbers, leading/trailing decimal points,
+ * explicit `+` signs and the extra JSON5 string escapes.
+ *
+ * Every relaxation actually used by the input is recorded so the UI can tell
+ * the user the source was not strict JSON. The same parser also backs the
+ * error diagnostics in `jsonDiagnostics.ts`, where it runs in strict mode and
+ * keeps going after recoverable mistakes.
+ */
+
+export class JsonSyntaxError extends Error {
+    readonly code: ParseErrorCode;
+    /** The message without the location suffix */
+    readonly reason: string;
+    readonly offset: number;
+    readonly line: number;
+    readonly column: number;
+
+    constructor(code: ParseErrorCode, message: string, source: string, offset: number) {
+        const before = source.slice(0, offset).split('\n');
+        const line = before.length;
+        const column = before[before.length - 1].length + 1;
+        super(`${message} at position ${offset} (line ${line} column ${column})`);
+        this.name = 'JsonSyntaxError';
+        this.code = code;
+        this.reason = message;
+        this.offset = offset;
+        this.line = line;
+        this.column = column;
+    }
+}
+
+/** A problem the parser stepped over while collecting diagnostics. */
+export interface JsonSyntaxIssue {
+    code: ParseErrorCode;
+    message: string;
+    offset: number;
+}
+
+interface ParserOptions {
+    /** Report relaxations as issues instead of accepting them */
+    strict?: boolean;
+    /** When set, recoverable problems are collected here instead of thrown */
+    issues?: JsonSyntaxIssue[];
+    /** Keep numbers `number` would round as `LosslessNumber`s */
+    losslessNumbers?: boolean;
+}
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r', '\v', '\f', '\u00A0', '\uFEFF', '\u2028', '\u2029']);
+const STRICT_WHITESPACE = new Set([' ', '\t', '\n', '\r']);
+const ID_START = /[\p{L}\p{Nl}$_]/u;
+const ID_CONTINUE = /[\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$_\u200C\u200D]/u;
+const VALUE_START = /[{["'\-+.0-9tfnIN]/;
+const SINGLE_ESCAPES: Record<string, string> = {
+    '"': '"', "'": "'", '\\': '\\', '/': '/',
+    b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v', '0': '\0',
+};
+const STRICT_ESCAPES = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't', 'u']);
+
+const RELAXATION_MESSAGES: Record<JsonRelaxation, string> = {
+    'comments': 'Comments are not allowed in JSON',
+    'trailing-commas': 'Trailing comma',
+    'single-quotes': 'Strings must use double quotes',
+    'unquoted-keys': 'Property names must be double-quoted',
+    'hex-numbers': 'Hexadecimal numbers are not allowed in JSON',
+    'non-finite-numbers': 'Infinity and NaN are not allowed in JSON',
+    'number-syntax': 'Invalid number format for JSON',
+    'string-escapes': 'Invalid escape sequence for JSON',
+};
+
+class TolerantParser {
+    private pos = 0;
+    private readonly text: string;
+    private readonly relaxations: Set<JsonRelaxation>;
+    private readonly strict: boolean;
+    private readonly issues: JsonSyntaxIssue[] | null;
+    private readonly losslessNumbers: boolean;
+
+    constructor(text: string, relaxations: Set<JsonRelaxation>, options: ParserOptions = {}) {
+        this.text = text;
+        this.relaxations = relaxations;
+        this.strict = Boolean(options.strict);
+        this.issues = options.issues ?? null;
+        this.losslessNumbers = Boolean(options.losslessNumbers);
+    }
+
+    parse(): JsonValue {
+        this.skipIgnored();
+        const value = this.value();
+        this.skipIgnored();
+        if (this.pos < this.text.length) {
+            this.fail('trailing-data', `Unexpected character "${this.text[this.pos]}" after JSON value`);
+        }
+        return value;
+    }
+
+    private fail(code: ParseErrorCode, message: string, offset = this.pos): never {
+        throw new JsonSyntaxError(code, message, this.text, offset);
+    }
+
+    /** Records a recoverable problem, or fails when not collecting diagnostics. */
+    private report(code: ParseErrorCode, message: string, offset = this.pos): void {
+        if (!this.issues) this.fail(code, message, offset);
+        this.issues.push({ code, message, offset });
+    }
+
+    private relax(kind: JsonRelaxation, offset = this.pos): void {
+        if (this.strict) {
+            const code: ParseErrorCode = kind === 'trailing-commas' ? 'trailing-comma' : 'non-strict-syntax';
+            this.report(code, RELAXATION_MESSAGES[kind], offset);
+        } else {
+            this.relaxations.add(kind);
+        }
+    }
+
+    private skipIgnored(): void {
+        for (; ;) {
+            const char = this.text[this.pos];
+            if (char !== undefined && WHITESPACE.has(char)) {
+                if (this.strict && !STRICT_WHITESPACE.has(char)) {
+                    this.report('unexpected-token', 'Unexpected whitespace character');
+                }
+                this.pos++;
+            } else if (char === '/' && this.text[this.pos + 1] === '/') {
+                this.relax('comments');
+                while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+            } else if (char === '/' && this.text[this.pos + 1] === '*') {
+                const end = this.text.indexOf('*/', this.pos + 2);
+                if (end === -1) this.fail('unterminated-comment', 'Unterminated block comment');
+                this.relax('comments');
+                this.pos = end + 2;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private value(): JsonValue {
+        const char = this.text[this.pos];
+        if (char === '{') return this.object();
+        if (char === '[') return this.array();
+        if (char === '"' || char === "'") return this.string();
+        if (char === undefined) this.fail('unexpected-end', 'Unexpected end of input');
+        if (char === '-' || char === '+' || char === '.' || (char >= '0' && char <= '9')) return this.number();
+        if (this.text.startsWith('Infinity', this.pos) || this.text.startsWith('NaN', this.pos)) return this.number();
+        if (this.text.startsWith('true', this.pos)) { this.pos += 4; return true; }
+        if (this.text.startsWith('false', this.pos)) { this.pos += 5; return false; }
+        if (this.text.startsWith('null', this.pos)) { this.pos += 4; return null; }
+        return this.fail('unexpected-token', `Unexpected character "${char}"`);
+    }
+
+    private object(): JsonValue {
+        const result: { [key: string]: JsonValue } = {};
+        const start = this.pos;
+        this.pos++;
+        this.skipIgnored();
+        while (this.text[this.pos] !== '}') {
+            const key = this.key(start);
+            this.skipIgnored();
+            if (this.text[this.pos] === ':') {
+                this.pos++;
+            } else if (this.issues && VALUE_START.test(this.text[this.pos] ?? '')) {
+                this.report('missing-colon', 'Expected ":" after property name');
+            } else {
+                this.fail('missing-colon', 'Expected ":" after property name');
+            }
+            this.skipIgnored();
+            // Defined rather than assigned, so a "__proto__" key is kept as data.
+            Object.defineProperty(result, key, { value: this.value(), enumerable: true, writable: true, configurable: true });
+            this.skipIgnored();
+            const char = this.text[this.pos];
+            if (char === ',') {
+                const comma = this.pos;
+                this.pos++;
+                this.skipIgnored();
+                if (this.text[this.pos] === '}') this.relax('trailing-commas', comma);
+            } else if (char === undefined) {
+                this.fail('unexpected-end', 'Unterminated object', start);
+            } else if (char !== '}') {
+                if (this.issues && (char === '"' || char === "'" || ID_START.test(char))) {
+                    this.report('missing-comma', 'Expected "," between properties');
+                } else {
+                    this.fail('unexpected-token', 'Expected "," or "}"');
+                }
+            }
+        }
+        this.pos++;
+        return result;
+    }
+
+    private array(): JsonValue {
+        const result: JsonValue[] = [];
+        const start = this.pos;
+        this.pos++;
+        this.skipIgnored();
+        while (this.text[this.pos] !== ']') {
+            if (this.text[this.pos] === undefined) this.fail('unexpected-end', 'Unterminated array', start);
+            result.push(this.value());
+            this.skipIgnored();
+            const char = this.text[this.pos];
+            if (char === ',') {
+                const comma = this.pos;
+                this.pos++;
+                this.skipIgnored();
+                if (this.text[this.pos] === ']') this.relax('trailing-commas', comma);
+            } else if (char === undefined) {
+                this.fail('unexpected-end', 'Unterminated array', start);
+            } else if (char !== ']') {
+                if (this.issues && VALUE_START.test(char)) {
+                    this.report('missing-comma', 'Expected "," between array elements');
+                } else {
+                    this.fail('unexpected-token', 'Expected "," or "]"');
+                }
+            }
+        }
+        this.pos++;
+        return result;
+    }
+
+    private key(objectStart: number): string {
+        const char = this.text[this.pos];
+        if (char === '"' || char === "'") return this.string();
+        if (char === undefined) this.fail('unexpected-end', 'Unterminated object', objectStart);
+        if (!ID_START.test(char)) this.fail('invalid-key', 'Expected a property name');
+
+        const start = this.pos;
+        this.pos++;
+        while (this.pos < this.text.length && ID_CONTINUE.test(this.text[this.pos])) this.pos++;
+        this.relax('unquoted-keys', start);
+        return this.text.slice(start, this.pos);
+    }
+
+    private string(): string {
+        const quote = this.text[this.pos];
+        const start = this.pos;
+        if (quote === "'") this.relax('single-quotes');
+        this.pos++;
+
+        let result = '';
+        for (; ;) {
+            const char = this.text[this.pos];
+            if (char === undefined) this.fail('unterminated-string', 'Unterminated string', start);
+            if (char === quote) break;
+            if (char === '\n' || char === '\r') this.fail('unterminated-string', 'Unescaped line break in string');
+            if (char !== '\\') {
+                const runStart = this.pos;
+                while (this.pos < this.text.length) {
+                    const next = this.text[this.pos];
+                    if (next === quote || next === '\\' || next === '\n' || next === '\r') break;
+                    if (this.strict && next < ' ') this.report('control-character', 'Control character in string');
+                    this.pos++;
+                }
+                result += this.text.slice(runStart, this.pos);
+                continue;
+            }
+
+            const escape = this.text[this.pos + 1];
+            if (escape === undefined) this.fail('unterminated-string', 'Unterminated string', start);
+            if (!STRICT_ESCAPES.has(escape)) this.relax('string-escapes');
+
+            if (escape === 'u' || escape === 'x') {
+                const length = escape === 'u' ? 4 : 2;
+                const hex = this.text.slice(this.pos + 2, this.pos + 2 + length);
+                if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) this.fail('invalid-escape', 'Invalid escape sequence');
+                result += String.fromCharCode(parseInt(hex, 16));
+                this.pos += 2 + length;
+            } else if (escape === '\n' || escape === '\u2028' || escape === '\u2029') {
+                this.pos += 2;
+            } else if (escape === '\r') {
+                this.pos += this.text[this.pos + 2] === '\n' ? 3 : 2;
+            } else if (escape === '0' && /[0-9]/.test(this.text[this.pos + 2] ?? '')) {
+                this.fail('invalid-escape', 'Octal escape sequences are not allowed');
+            } else if (escape >= '1' && escape <= '9') {
+                this.fail('invalid-escape', 'Invalid escape sequence');
+            } else {
+                result += SINGLE_ESCAPES[escape] ?? escape;
+                this.pos += 2;
+            }
+        }
+        this.pos++;
+        return result;
+    }
+
+    private number(): number | LosslessNumber {
+        const start = this.pos;
+        let sign = 1;
+        const signChar = this.text[this.pos];
+        if (signChar === '+' || signChar === '-') {
+            if (signChar === '+') this.relax('number-syntax');
+            if (signChar === '-') sign = -1;
+            this.pos++;
+        }
+
+        if (this.text.startsWith('Infinity', this.pos)) {
+            this.relax('non-finite-numbers', start);
+            this.pos += 8;
+            return sign * Infinity;
+        }
+        if (this.text.startsWith('NaN', this.pos)) {
+            this.relax('non-finite-numbers', start);
+            this.pos += 3;
+            return NaN;
+        }
+
+        const hex = /^0[xX][0-9a-fA-F]+/.exec(this.text.slice(this.pos, this.pos + 64));
+        if (hex) {
+            this.relax('hex-numbers', start);
+            const digits = this.readWhile(/[0-9a-fA-F]/, this.pos + 2);
+            this.pos += 2 + digits.length;
+            if (this.losslessNumbers) return toLosslessNumber(`${sign < 0 ? '-' : ''}${BigInt(`0x${digits}`)}`);
+            return sign * parseInt(digits, 16);
+        }
+
+        const integer = this.readWhile(/[0-9]/, this.pos);
+        this.pos += integer.length;
+        if (integer.length > 1 && integer[0] === '0') this.report('invalid-number', 'Leading zeros are not allowed', start);
+
+        let fraction = '';
+        if (this.text[this.pos] === '.') {
+            this.pos++;
+            fraction = this.readWhile(/[0-9]/, this.pos);
+            this.pos += fraction.length;
+            if (!integer && !fraction) this.fail('invalid-number', 'Invalid number', start);
+            if (!integer || !fraction) this.relax('number-syntax', start);
+        } else if (!integer) {
+            this.fail('invalid-number', 'Invalid number', start);
+        }
+
+        let exponent = '';
+        if (this.text[this.pos] === 'e' || this.text[this.pos] === 'E') {
+            const expStart = this.pos;
+            this.pos++;
+            const expSign = this.text[this.pos] === '+' || this.text[this.pos] === '-' ? this.text[this.pos++] : '';
+            const digits = this.readWhile(/[0-9]/, this.pos);
+            if (!digits) this.fail('invalid-number', 'Invalid number exponent', expStart);
+            this.pos += digits.length;
+            exponent = `e${expSign}${digits}`;
+        }
+
+        if (this.losslessNumbers) {
+            // Written back as strict JSON: `+1` and `.5` become `1` and `0.5`.
+            return toLosslessNumber(`${sign < 0 ? '-' : ''}${integer || '0'}${fraction ? `.${fraction}` : ''}${exponent}`);
+        }
+        return sign * Number(`${integer || '0'}.${fraction || '0'}${exponent}`);
+    }
+
+    private readWhile(pattern: RegExp, from: number): string {
+        let end = from;
+        while (end < this.text.length && pattern.test(this.text[end])) end++;
+        return this.text.slice(from, end);
+    }
+}
+
+/**
+ * Parses JSON5 / JSONC text. Relaxations used by the input are added to
+ * `relaxations` when provided; strict JSON input leaves it untouched.
+ */
+export const parseTolerantJson = (
+    text: string,
+    relaxations: Set<JsonRelaxation> = new Set(),
+    options: { losslessNumbers?: boolean } = {}
+): JsonValue => new TolerantParser(text, relaxations, options).parse();
+
+/** Long digit runs or 3-digit exponents: the text may hold numbers `number` rounds. */
+const MAY_LOSE_PRECISION = /[\d.]{16}|[eE][+-]?\d{3}/;
+
+/**
+ * Parses strict JSON, keeping numbers `number` would round as
+ * `LosslessNumber`s (see `losslessNumber.ts`). Text without long numbers
+ * goes through `JSON.parse`; syntax errors throw `JsonSyntaxError`.
+ */
+export const parseLosslessJson = (text: string): JsonValue =>
+    MAY_LOSE_PRECISION.test(text)
+        ? new TolerantParser(text, new Set(), { strict: true, losslessNumbers: true }).parse()
+        : JSON.parse(text) as JsonValue;
+
+/**
+ * Walks `text` and returns every syntax problem found. Recoverable mistakes
+ * (trailing or missing commas, a missing colon, non-strict syntax when
+ * `strict`) are collected and parsing continues; the first fatal error ends
+ * the scan and is returned last.
+ */
+export const collectJsonSyntaxIssues = (text: string, strict: boolean): JsonSyntaxIssue[] => {
+    const issues: JsonSyntaxIssue[] = [];
+    try {
+        new TolerantParser(text, new Set(), { strict, issues }).parse();
+    } catch (error) {
+        if (!(error instanceof JsonSyntaxError)) throw error;
+        issues.push({ code: error.code, message: error.reason, offset: error.offset });
+    }
+    return issues;
+};
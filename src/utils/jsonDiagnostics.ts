@@ -0,0 +1,123 @@
+import type { ParseErrorCode, ParseErrorDetail } from '../types/json';
+import { collectJsonSyntaxIssues, type JsonSyntaxIssue } from './json5Parser';
+
+/**
+ * Engine-independent syntax diagnostics for the JSON viewer.
+ *
+ * `JSON.parse` error messages differ between browsers and rarely carry a
+ * usable location, so when a parse fails the worker re-scans the input with
+ * the tolerant parser in diagnostic mode and reports exact positions.
+ */
+
+const SNIPPET_RADIUS = 40;
+const MAX_ERRORS = 50;
+
+const HINTS: Record<ParseErrorCode, string> = {
+    'unexpected-token': 'Check for a stray character or a missing quote just before this point.',
+    'unexpected-end': 'The input stops early; add the missing closing "}" or "]".',
+    'unterminated-string': 'Add the closing quote, or escape line breaks inside the string as \\n.',
+    'unterminated-comment': 'Close the block comment with */.',
+    'trailing-comma': 'Remove the comma before the closing bracket, or use Tolerant mode.',
+    'missing-comma': 'Insert a "," between the two entries.',
+    'missing-colon': 'Insert a ":" between the property name and its value.',
+    'invalid-key': 'Property names must be double-quoted strings.',
+    'invalid-number': 'Numbers cannot have leading zeros, and need digits before and after a ".".',
+    'invalid-escape': 'Valid escapes are \\" \\\\ \\/ \\b \\f \\n \\r \\t and \\uXXXX.',
+    'control-character': 'Escape control characters such as tabs inside strings (e.g. \\t).',
+    'trailing-data': 'Only one top-level value is allowed; wrap multiple values in an array or use JSON Lines.',
+    'non-strict-syntax': 'This is JSON5 / JSONC syntax; switch to Tolerant mode or convert it to strict JSON.',
+    'invalid-document': 'Fix the syntax at this point, or pick the input format the document is written in.',
+};
+
+/** True when `index` falls between the two halves of a surrogate pair (an emoji, say). */
+const splitsSurrogatePair = (text: string, index: number) =>
+    index > 0 && index < text.length && /[\uD800-\uDBFF]/.test(text[index - 1]) && /[\uDC00-\uDFFF]/.test(text[index]);
+
+const buildDetail = (
+    issue: JsonSyntaxIssue,
+    line: number,
+    lineText: string,
+    columnIndex: number
+): ParseErrorDetail => {
+    let snippetStart = Math.max(0, columnIndex - SNIPPET_RADIUS);
+    let snippetEnd = Math.min(lineText.length, columnIndex + SNIPPET_RADIUS);
+    if (splitsSurrogatePair(lineText, snippetStart)) snippetStart--;
+    if (splitsSurrogatePair(lineText, snippetEnd)) snippetEnd++;
+    return {
+        code: issue.code,
+        message: issue.message,
+        offset: issue.offset,
+        line,
+        column: columnIndex + 1,
+        snippet: lineText.slice(snippetStart, snippetEnd).replace(/\t/g, ' '),
+        // Counted in characters, as the caret line is drawn, not UTF-16 units.
+        snippetColumn: [...lineText.slice(snippetStart, columnIndex)].length,
+        hint: HINTS[issue.code],
+    };
+};
+
+/** Locates `issue` (whose offset is relative to `source`) in `source`. */
+export const describeSyntaxIssue = (source: string, issue: JsonSyntaxIssue): ParseErrorDetail => {
+    const lineStart = source.lastIndexOf('\n', issue.offset - 1) + 1;
+    let lineEnd = source.indexOf('\n', issue.offset);
+    if (lineEnd === -1) lineEnd = source.length;
+
+    let line = 1;
+    for (let i = source.indexOf('\n'); i !== -1 && i < lineStart; i = source.indexOf('\n', i + 1)) line++;
+
+    const lineText = source.slice(lineStart, lineEnd).replace(/\r$/, '');
+    return buildDetail(issue, line, lineText, issue.offset - lineStart);
+};
+
+/**
+ * Same as `describeSyntaxIssue` for a UTF-8 buffer, used when the document
+ * was streamed and never decoded as a whole. Offsets stay byte offsets.
+ */
+export const describeSyntaxIssueInBytes = (bytes: Uint8Array, issue: JsonSyntaxIssue): ParseErrorDetail => {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < issue.offset && i < bytes.length; i++) {
+        if (bytes[i] === 0x0a) {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    let lineEnd = bytes.indexOf(0x0a, issue.offset);
+    if (lineEnd === -1) lineEnd = bytes.length;
+
+    const decoder = new TextDecoder();
+    const column = decoder.decode(bytes.subarray(lineStart, issue.offset)).length;
+    const lineText = decoder.decode(bytes.subarray(lineStart, lineEnd)).replace(/\r$/, '');
+    return buildDetail(issue, line, lineText, column);
+};
+
+/**
+ * Scans `text` for syntax errors. In strict mode JSON5 / JSONC features are
+ * reported too. JSON Lines input is checked record by record with offsets
+ * relative to the whole text.
+ */
+export const diagnoseJson = (
+    text: string,
+    { strict, jsonLines }: { strict: boolean; jsonLines: boolean }
+): ParseErrorDetail[] => {
+    const issues: JsonSyntaxIssue[] = [];
+
+    if (jsonLines) {
+        let lineStart = 0;
+        while (lineStart <= text.length && issues.length < MAX_ERRORS) {
+            let lineEnd = text.indexOf('\n', lineStart);
+            if (lineEnd === -1) lineEnd = text.length;
+            const record = text.slice(lineStart, lineEnd);
+            if (record.trim()) {
+                for (const issue of collectJsonSyntaxIssues(record, strict)) {
+                    issues.push({ ...issue, offset: issue.offset + lineStart });
+                }
+            }
+            lineStart = lineEnd + 1;
+        }
+    } else {
+        issues.push(...collectJsonSyntaxIssues(text, strict));
+    }
+
+    return issues.slice(0, MAX_ERRORS).map((issue) => describeSyntaxIssue(text, issue));
+};
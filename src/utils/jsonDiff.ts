@@ -0,0 +1,269 @@
+import type { JsonValue } from '../types/json';
+import type { JsonChangeKind, JsonDiffChange, JsonDiffNode, JsonDiffOptions, JsonDiffReport } from '../types/diff';
+import { DIFF_CHECKER, JSON_FORMAT_DEFAULTS } from '../constants';
+import { formatJsonValue } from './jsonFormat';
+import { getValueType } from './jsonUtils';
+import { isLosslessNumber, stringifyJson } from './losslessNumber';
+import { childPointer } from './nodePath';
+
+/**
+ * Structural JSON diff.
+ *
+ * Objects are compared key by key whatever their key order and primitives by
+ * value (lossless numbers by their digits). Array items are paired by
+ * `JsonDiffOptions.arrayMatch`: by index, by an identity key, or by
+ * similarity; the last two pair equal items first wherever they are. Paired
+ * items out of their relative order are reported as moved unless array order
+ * is ignored. The result is a tree mirroring the documents, where every node
+ * knows how many changes it holds, and a flat list of path-level changes.
+ */
+
+type JsonObject = { [key: string]: JsonValue };
+
+const isObject = (value: JsonValue): value is JsonObject =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+const isContainer = (value: JsonValue) => Array.isArray(value) || isObject(value);
+
+const samePrimitive = (left: JsonValue, right: JsonValue) => {
+    if (isLosslessNumber(left) || isLosslessNumber(right)) {
+        return getValueType(left) === 'number' && getValueType(right) === 'number' && String(left) === String(right);
+    }
+    return left === right;
+};
+
+const hasKey = (value: JsonObject, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+
+const IDENTITY_FORMAT = { ...JSON_FORMAT_DEFAULTS, minify: true, sortKeys: true };
+
+/** Minified JSON with sorted keys: equal values have equal text whatever their key order. */
+const identityText = (value: JsonValue) => formatJsonValue(value, IDENTITY_FORMAT);
+
+export const JSON_DIFF_DEFAULTS: JsonDiffOptions = { arrayMatch: 'index', arrayKey: '', ignoreArrayOrder: false };
+
+/** Share of the two objects' keys (present on either side) that hold equal values. */
+const similarity = (left: Map<string, string>, right: Map<string, string>) => {
+    let common = 0;
+    let equal = 0;
+    for (const [key, text] of left) {
+        if (!right.has(key)) continue;
+        common += 1;
+        if (right.get(key) === text) equal += 1;
+    }
+    const keys = left.size + right.size - common;
+    return keys === 0 ? 1 : equal / keys;
+};
+
+/** Pairs (left index, right index) that are not in the longest run kept in the same relative order. */
+const outOfOrderPairs = (pairs: Array<[number, number]>): Set<[number, number]> => {
+    // Longest increasing subsequence of left indices, pairs sorted by right index.
+    const sorted = [...pairs].sort((a, b) => a[1] - b[1]);
+    const tails: number[] = [];
+    const previous: number[] = new Array(sorted.length);
+    sorted.forEach(([leftIndex], i) => {
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (sorted[tails[mid]][0] < leftIndex) low = mid + 1;
+            else high = mid;
+        }
+        previous[i] = low > 0 ? tails[low - 1] : -1;
+        tails[low] = i;
+    });
+    const kept = new Set<number>();
+    for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) kept.add(i);
+    return new Set(sorted.filter((_, i) => !kept.has(i)));
+};
+
+class JsonDiffBuilder {
+    readonly changes: JsonDiffChange[] = [];
+    readonly counts: Record<JsonChangeKind, number> = { added: 0, removed: 0, changed: 0, moved: 0 };
+
+    private readonly options: JsonDiffOptions;
+
+    constructor(options: JsonDiffOptions) {
+        this.options = options;
+    }
+
+    private change(kind: JsonChangeKind, key: string, path: string, left: JsonValue | undefined, right: JsonValue | undefined): JsonDiffNode {
+        const change: JsonDiffChange = { kind, path };
+        const node: JsonDiffNode = { key, path, status: kind, type: getValueType(right !== undefined ? right : left!), changeCount: 1 };
+        if (left !== undefined) change.left = node.left = left;
+        if (right !== undefined) change.right = node.right = right;
+        this.changes.push(change);
+        this.counts[kind] += 1;
+        return node;
+    }
+
+    /** Node for a value only one side has. */
+    side(kind: 'added' | 'removed', key: string, path: string, value: JsonValue): JsonDiffNode {
+        return kind === 'added' ? this.change(kind, key, path, undefined, value) : this.change(kind, key, path, value, undefined);
+    }
+
+    compare(key: string, path: string, left: JsonValue, right: JsonValue): JsonDiffNode {
+        if (Array.isArray(left) && Array.isArray(right)) return this.container(key, path, 'array', this.arrayChildren(path, left, right));
+        if (isObject(left) && isObject(right)) return this.container(key, path, 'object', this.objectChildren(path, left, right));
+        if (isContainer(left) || isContainer(right) || !samePrimitive(left, right)) {
+            return this.change('changed', key, path, left, right);
+        }
+        return { key, path, status: 'unchanged', type: getValueType(left), left, changeCount: 0 };
+    }
+
+    private container(key: string, path: string, type: 'array' | 'object', children: JsonDiffNode[]): JsonDiffNode {
+        const changeCount = children.reduce((sum, child) => sum + child.changeCount, 0);
+        return { key, path, status: changeCount > 0 ? 'modified' : 'unchanged', type, children, changeCount };
+    }
+
+    private objectChildren(path: string, left: JsonObject, right: JsonObject): JsonDiffNode[] {
+        const children: JsonDiffNode[] = [];
+        for (const key of Object.keys(left)) {
+            const childPath = childPointer(path, key);
+            children.push(hasKey(right, key)
+                ? this.compare(key, childPath, left[key], right[key])
+                : this.side('removed', key, childPath, left[key]));
+        }
+        for (const key of Object.keys(right)) {
+            if (!hasKey(left, key)) children.push(this.side('added', key, childPointer(path, key), right[key]));
+        }
+        return children;
+    }
+
+    /** Pairs of (left index, right index) for the items both arrays hold. */
+    private matchItems(left: JsonValue[], right: JsonValue[]): Array<[number, number]> {
+        const { arrayMatch, arrayKey, ignoreArrayOrder } = this.options;
+        if (arrayMatch === 'index' && !ignoreArrayOrder) {
+            return Array.from({ length: Math.min(left.length, right.length) }, (_, index): [number, number] => [index, index]);
+        }
+
+        const pairs: Array<[number, number]> = [];
+        const leftMatched = new Set<number>();
+        const rightMatched = new Set<number>();
+        const pair = (leftIndex: number, rightIndex: number) => {
+            pairs.push([leftIndex, rightIndex]);
+            leftMatched.add(leftIndex);
+            rightMatched.add(rightIndex);
+        };
+        // Pairs items with the same identity, first come first served; `null` opts an item out.
+        const pairBy = (identity: (item: JsonValue) => string | null) => {
+            const candidates = new Map<string, number[]>();
+            left.forEach((item, index) => {
+                const id = leftMatched.has(index) ? null : identity(item);
+                if (id === null) return;
+                const queue = candidates.get(id);
+                if (queue) queue.push(index);
+                else candidates.set(id, [index]);
+            });
+            right.forEach((item, index) => {
+                const id = rightMatched.has(index) ? null : identity(item);
+                const match = id === null ? undefined : candidates.get(id)?.shift();
+                if (match !== undefined) pair(match, index);
+            });
+        };
+        const unmatched = (items: JsonValue[], matched: Set<number>) =>
+            items.flatMap((_, index) => (matched.has(index) ? [] : [index]));
+
+        if (arrayMatch === 'key' && arrayKey) {
+            pairBy((item) => (isObject(item) && hasKey(item, arrayKey) ? identityText(item[arrayKey]) : null));
+        }
+        pairBy(identityText);
+
+        if (arrayMatch === 'similarity') {
+            const leftRest = unmatched(left, leftMatched).filter((index) => isObject(left[index]));
+            const rightRest = unmatched(right, rightMatched).filter((index) => isObject(right[index]));
+            if (leftRest.length * rightRest.length <= DIFF_CHECKER.SIMILARITY_MAX_COMPARISONS) {
+                const properties = (item: JsonValue) =>
+                    new Map(Object.entries(item as JsonObject).map(([key, value]) => [key, identityText(value)]));
+                const leftProperties = new Map(leftRest.map((index) => [index, properties(left[index])]));
+                const scored: Array<{ leftIndex: number; rightIndex: number; score: number }> = [];
+                for (const rightIndex of rightRest) {
+                    const rightProperties = properties(right[rightIndex]);
+                    for (const leftIndex of leftRest) {
+                        const score = similarity(leftProperties.get(leftIndex)!, rightProperties);
+                        if (score >= DIFF_CHECKER.SIMILARITY_THRESHOLD) scored.push({ leftIndex, rightIndex, score });
+                    }
+                }
+                // Best pairs first; ties keep document order.
+                scored.sort((a, b) => b.score - a.score);
+                for (const { leftIndex, rightIndex } of scored) {
+                    if (!leftMatched.has(leftIndex) && !rightMatched.has(rightIndex)) pair(leftIndex, rightIndex);
+                }
+            }
+        } else if (arrayMatch === 'index') {
+            // Unordered comparison: what is left over is compared in order.
+            const leftRest = unmatched(left, leftMatched);
+            unmatched(right, rightMatched).slice(0, leftRest.length).forEach((rightIndex, i) => pair(leftRest[i], rightIndex));
+        }
+        return pairs;
+    }
+
+    /**
+     * Children in right-document order, each removed item placed before the
+     * first item that followed it in the left document.
+     */
+    private arrayChildren(path: string, left: JsonValue[], right: JsonValue[]): JsonDiffNode[] {
+        const pairs = this.matchItems(left, right);
+        const moved = this.options.ignoreArrayOrder ? new Set<[number, number]>() : outOfOrderPairs(pairs);
+        const byRight = new Map(pairs.map((pair) => [pair[1], pair]));
+        const leftMatched = new Set(pairs.map(([leftIndex]) => leftIndex));
+        const children: JsonDiffNode[] = [];
+        let leftCursor = 0;
+        const removeUpTo = (end: number) => {
+            for (; leftCursor < end; leftCursor++) {
+                if (!leftMatched.has(leftCursor)) {
+                    children.push(this.side('removed', String(leftCursor), childPointer(path, leftCursor), left[leftCursor]));
+                }
+            }
+        };
+
+        right.forEach((item, rightIndex) => {
+            const childPath = childPointer(path, rightIndex);
+            const pair = byRight.get(rightIndex);
+            if (!pair) {
+                children.push(this.side('added', String(rightIndex), childPath, item));
+                return;
+            }
+            const [leftIndex] = pair;
+            if (!moved.has(pair)) removeUpTo(leftIndex + 1);
+            children.push(moved.has(pair)
+                ? this.move(String(rightIndex), childPath, childPointer(path, leftIndex), left[leftIndex], item)
+                : this.compare(String(rightIndex), childPath, left[leftIndex], item));
+        });
+        removeUpTo(left.length);
+        return children;
+    }
+
+    /** Node for an array item paired with an item elsewhere in the left array. */
+    private move(key: string, path: string, from: string, left: JsonValue, right: JsonValue): JsonDiffNode {
+        this.changes.push({ kind: 'moved', path, from });
+        this.counts.moved += 1;
+        const node = this.compare(key, path, left, right);
+        node.from = from;
+        node.changeCount += 1;
+        if (node.status === 'unchanged') node.status = 'moved';
+        return node;
+    }
+}
+
+export const diffJsonValues = (left: JsonValue, right: JsonValue, options: JsonDiffOptions = JSON_DIFF_DEFAULTS): JsonDiffReport => {
+    const builder = new JsonDiffBuilder(options);
+    const tree = builder.compare('', '', left, right);
+    return { tree, changes: builder.changes, counts: builder.counts };
+};
+
+/** Compact JSON of `value`, cut to `maxLength` characters. */
+export const previewJsonValue = (value: JsonValue, maxLength = 80): string => {
+    const text = stringifyJson(value);
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
+
+/** One report line, e.g. `/users/3/email changed "a" → "b"`. */
+export const describeJsonChange = (change: JsonDiffChange): string => {
+    const path = change.path || '/';
+    switch (change.kind) {
+        case 'added': return `${path} added ${previewJsonValue(change.right!)}`;
+        case 'removed': return `${path} removed ${previewJsonValue(change.left!)}`;
+        case 'moved': return `${path} moved from ${change.from || '/'}`;
+        default: return `${path} changed ${previewJsonValue(change.left!)} → ${previewJsonValue(change.right!)}`;
+    }
+};
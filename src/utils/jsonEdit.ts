@@ -0,0 +1,225 @@
+import type { JsonEditOperation, JsonNode, JsonPathSegment, JsonValue } from '../types/json';
+import { isLosslessNumber, toLosslessNumber } from './losslessNumber';
+import { escapePointerToken } from './nodePath';
+
+/**
+ * Structural edits for the JSON viewer tree.
+ *
+ * Edits never mutate the document: every container on the path to the change
+ * is copied, so the previous value (and the tree built from it) stays valid.
+ * Object key order is preserved for renames, duplicates and moves.
+ */
+
+type JsonObject = { [key: string]: JsonValue };
+
+export interface AppliedJsonEdit {
+    value: JsonValue;
+    /** Location of the node the edit produced, or null when it was removed */
+    focus: JsonPathSegment[] | null;
+}
+
+const isObject = (value: JsonValue): value is JsonObject =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+const hasKey = (value: JsonObject, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+
+const uniqueKey = (value: JsonObject, base: string): string => {
+    if (!hasKey(value, base)) return base;
+    for (let i = 2; ; i++) {
+        const key = `${base}${i}`;
+        if (!hasKey(value, key)) return key;
+    }
+};
+
+const fromEntries = (entries: [string, JsonValue][]): JsonObject => {
+    const result: JsonObject = {};
+    // Plain assignment would treat "__proto__" as the prototype setter.
+    for (const [key, value] of entries) {
+        Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+    }
+    return result;
+};
+
+const updateIn = (
+    value: JsonValue,
+    segments: JsonPathSegment[],
+    update: (target: JsonValue) => JsonValue
+): JsonValue => {
+    if (segments.length === 0) return update(value);
+    const [head, ...rest] = segments;
+    if (Array.isArray(value) && typeof head === 'number' && head < value.length) {
+        const copy = value.slice();
+        copy[head] = updateIn(value[head], rest, update);
+        return copy;
+    }
+    if (isObject(value) && typeof head === 'string' && hasKey(value, head)) {
+        return fromEntries(Object.entries(value).map(([key, child]) => (
+            [key, key === head ? updateIn(child, rest, update) : child]
+        )));
+    }
+    throw new Error('The edited value no longer exists; visualize the JSON again');
+};
+
+/** Converts `value` to `type`, keeping as much of its content as makes sense. */
+export const coerceJsonValue = (value: JsonValue, type: JsonNode['type']): JsonValue => {
+    switch (type) {
+        case 'string':
+            if (value === null) return '';
+            if (isLosslessNumber(value)) return value.valueOf();
+            return typeof value === 'object' ? JSON.stringify(value) : String(value);
+        case 'number': {
+            if (typeof value === 'boolean') return value ? 1 : 0;
+            if (isLosslessNumber(value)) return value;
+            // Digits `number` would round are kept as a lossless number.
+            if (typeof value === 'string' && JSON_NUMBER.test(value.trim())) return toLosslessNumber(value.trim());
+            const number = typeof value === 'string' ? Number(value.trim()) : value;
+            return typeof number === 'number' && Number.isFinite(number) ? number : 0;
+        }
+        case 'boolean':
+            if (typeof value === 'string') return value.trim() !== '' && value.trim().toLowerCase() !== 'false';
+            if (Array.isArray(value)) return value.length > 0;
+            if (isObject(value)) return Object.keys(value).length > 0;
+            return Boolean(value);
+        case 'null':
+            return null;
+        case 'array':
+            if (Array.isArray(value)) return value;
+            if (isObject(value)) return Object.values(value);
+            return value === null ? [] : [value];
+        case 'object':
+            if (isObject(value)) return value;
+            if (Array.isArray(value)) return fromEntries(value.map((item, index) => [String(index), item]));
+            return value === null ? {} : { value };
+    }
+};
+
+/** Applies `operation` to the value at `segments` (resolved from `operation.path`). */
+export const applyJsonEdit = (
+    root: JsonValue,
+    segments: JsonPathSegment[],
+    operation: JsonEditOperation
+): AppliedJsonEdit => {
+    if (operation.kind === 'set-value') {
+        return { value: updateIn(root, segments, () => operation.value), focus: segments };
+    }
+    if (operation.kind === 'change-type') {
+        return { value: updateIn(root, segments, (target) => coerceJsonValue(target, operation.type)), focus: segments };
+    }
+    if (operation.kind === 'add-child') {
+        let focus: JsonPathSegment[] = segments;
+        const value = updateIn(root, segments, (target) => {
+            if (Array.isArray(target)) {
+                focus = [...segments, target.length];
+                return [...target, null];
+            }
+            if (isObject(target)) {
+                const key = uniqueKey(target, 'newKey');
+                focus = [...segments, key];
+                return fromEntries([...Object.entries(target), [key, null]]);
+            }
+            throw new Error('Only objects and arrays can have children');
+        });
+        return { value, focus };
+    }
+
+    if (segments.length === 0) {
+        throw new Error('The root value cannot be renamed, moved, duplicated or deleted');
+    }
+    const parentSegments = segments.slice(0, -1);
+    const key = segments[segments.length - 1];
+    let focus: JsonPathSegment[] | null = null;
+
+    const value = updateIn(root, parentSegments, (parent) => {
+        if (Array.isArray(parent) && typeof key === 'number') {
+            const items = parent.slice();
+            switch (operation.kind) {
+                case 'delete':
+                    items.splice(key, 1);
+                    focus = items.length > 0 ? [...parentSegments, Math.min(key, items.length - 1)] : parentSegments;
+                    return items;
+                case 'duplicate':
+                    items.splice(key + 1, 0, items[key]);
+                    focus = [...parentSegments, key + 1];
+                    return items;
+                case 'move': {
+                    const target = key + operation.offset;
+                    if (target < 0 || target >= items.length) throw new Error('The item cannot be moved any further');
+                    [items[key], items[target]] = [items[target], items[key]];
+                    focus = [...parentSegments, target];
+                    return items;
+                }
+                case 'rename-key':
+                    throw new Error('Array items have no key to rename');
+            }
+        }
+        if (isObject(parent) && typeof key === 'string') {
+            const entries = Object.entries(parent);
+            const index = entries.findIndex(([entryKey]) => entryKey === key);
+            switch (operation.kind) {
+                case 'delete':
+                    entries.splice(index, 1);
+                    focus = parentSegments;
+                    return fromEntries(entries);
+                case 'duplicate': {
+                    const copyKey = uniqueKey(parent, `${key}_copy`);
+                    entries.splice(index + 1, 0, [copyKey, entries[index][1]]);
+                    focus = [...parentSegments, copyKey];
+                    return fromEntries(entries);
+                }
+                case 'move': {
+                    const target = index + operation.offset;
+                    if (target < 0 || target >= entries.length) throw new Error('The property cannot be moved any further');
+                    [entries[index], entries[target]] = [entries[target], entries[index]];
+                    focus = segments;
+                    return fromEntries(entries);
+                }
+                case 'rename-key':
+                    if (operation.key !== key && hasKey(parent, operation.key)) {
+                        throw new Error(`A property named "${operation.key}" already exists`);
+                    }
+                    entries[index] = [operation.key, entries[index][1]];
+                    focus = [...parentSegments, operation.key];
+                    return fromEntries(entries);
+            }
+        }
+        throw new Error('The edited value no longer exists; visualize the JSON again');
+    });
+    return { value, focus };
+};
+
+/**
+ * Where the node at `segments` is after `operation` was applied, or null
+ * when the edit removed it. Deleting, duplicating or moving an array item
+ * shifts its siblings' indices; renaming a key changes the paths below it.
+ */
+export const remapPathAfterEdit = (segments: JsonPathSegment[], operation: JsonEditOperation): JsonPathSegment[] | null => {
+    if (operation.path === '') return segments;
+    const tokens = operation.path.slice(1).split('/');
+    const depth = tokens.length - 1;
+    if (segments.length <= depth || tokens.slice(0, depth).some((token, i) => escapePointerToken(segments[i]) !== token)) {
+        return segments;
+    }
+    const key = segments[depth];
+    const isEdited = escapePointerToken(key) === tokens[depth];
+    const withKey = (next: JsonPathSegment) => [...segments.slice(0, depth), next, ...segments.slice(depth + 1)];
+    // Same container as the edited node; a numeric segment means it is an array.
+    const editedIndex = Number(tokens[depth]);
+
+    switch (operation.kind) {
+        case 'delete':
+            if (isEdited) return null;
+            return typeof key === 'number' && key > editedIndex ? withKey(key - 1) : segments;
+        case 'duplicate':
+            return typeof key === 'number' && key > editedIndex ? withKey(key + 1) : segments;
+        case 'move':
+            if (typeof key !== 'number') return segments;
+            if (isEdited) return withKey(key + operation.offset);
+            return key === editedIndex + operation.offset ? withKey(editedIndex) : segments;
+        case 'rename-key':
+            return isEdited ? withKey(operation.key) : segments;
+        default:
+            return segments;
+    }
+};
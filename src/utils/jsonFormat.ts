@@ -0,0 +1,106 @@
+import type { JsonFormatOptions, JsonValue } from '../types/json';
+import { isLosslessNumber } from './losslessNumber';
+
+/**
+ * JSON output layouts for the viewer's Format actions: indentation (spaces
+ * or tabs), minified, keys sorted, arrays of objects sorted by a key,
+ * non-ASCII escaped, and RFC 8785 canonical JSON (JCS).
+ *
+ * Output is written here rather than with `JSON.stringify`, because a JS
+ * object always lists integer-like keys first and in numeric order, so key
+ * sorting (and JCS's UTF-16 code unit order) cannot be done by rebuilding the
+ * object.
+ */
+
+const isObject = (value: JsonValue): value is { [key: string]: JsonValue } =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+/** Numbers compare numerically, anything else by its text; items without the key go last. */
+const compareByKey = (key: string) => (a: JsonValue, b: JsonValue): number => {
+    const left = isObject(a) && Object.prototype.hasOwnProperty.call(a, key) ? a[key] : undefined;
+    const right = isObject(b) && Object.prototype.hasOwnProperty.call(b, key) ? b[key] : undefined;
+    if (left === undefined || right === undefined) return (left === undefined ? 1 : 0) - (right === undefined ? 1 : 0);
+    const isNumeric = (value: JsonValue) => typeof value === 'number' || isLosslessNumber(value);
+    if (isNumeric(left) && isNumeric(right)) return Number(left) - Number(right);
+    const leftText = typeof left === 'string' ? left : JSON.stringify(left);
+    const rightText = typeof right === 'string' ? right : JSON.stringify(right);
+    return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+};
+
+/** Stable-sorts every array holding objects by the value of `key`, at any depth. */
+const sortArraysByKey = (value: JsonValue, key: string): JsonValue => {
+    if (Array.isArray(value)) {
+        const items = value.map((item) => sortArraysByKey(item, key));
+        return items.some(isObject) ? items.sort(compareByKey(key)) : items;
+    }
+    if (!isObject(value)) return value;
+    const result: { [key: string]: JsonValue } = {};
+    for (const [name, item] of Object.entries(value)) {
+        Object.defineProperty(result, name, { value: sortArraysByKey(item, key), enumerable: true, writable: true, configurable: true });
+    }
+    return result;
+};
+
+const escapeNonAscii = (text: string) =>
+    text.replace(/[\u0080-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+/**
+ * Serialises `value` with `options`. Canonical output ignores the layout
+ * options: it is minified, keys are in UTF-16 code unit order, numbers are
+ * written as ECMAScript does (lossless numbers rounded to doubles, which JCS
+ * requires), and non-finite numbers are an error.
+ */
+export const formatJsonValue = (value: JsonValue, options: JsonFormatOptions): string => {
+    const { canonical } = options;
+    const indentUnit = canonical || options.minify ? '' : options.indent === 'tab' ? '\t' : ' '.repeat(options.indent);
+    const colon = indentUnit ? ': ' : ':';
+    const sortKeys = canonical || options.sortKeys;
+    const escape = !canonical && options.escapeUnicode;
+    const quote = (text: string) => (escape ? escapeNonAscii(JSON.stringify(text)) : JSON.stringify(text));
+    const parts: string[] = [];
+
+    const write = (item: JsonValue, indent: string) => {
+        if (isLosslessNumber(item)) {
+            if (!canonical) parts.push(item.valueOf());
+            else write(Number(item.valueOf()), indent);
+        } else if (typeof item === 'number') {
+            if (canonical && !Number.isFinite(item)) throw new Error('Canonical JSON (RFC 8785) cannot hold Infinity, NaN or numbers beyond a double');
+            parts.push(JSON.stringify(item));
+        } else if (typeof item === 'string') {
+            parts.push(quote(item));
+        } else if (item === null || typeof item === 'boolean') {
+            parts.push(String(item));
+        } else {
+            const isArray = Array.isArray(item);
+            const keys = isArray ? null : Object.keys(item);
+            if (keys && sortKeys) keys.sort();
+            const count = isArray ? item.length : keys!.length;
+            if (count === 0) {
+                parts.push(isArray ? '[]' : '{}');
+                return;
+            }
+            const inner = indent + indentUnit;
+            const separator = indentUnit ? `,\n${inner}` : ',';
+            parts.push(isArray ? '[' : '{', indentUnit ? `\n${inner}` : '');
+            for (let i = 0; i < count; i++) {
+                if (i > 0) parts.push(separator);
+                if (isArray) {
+                    write(item[i], inner);
+                } else {
+                    parts.push(quote(keys![i]), colon);
+                    write((item as { [key: string]: JsonValue })[keys![i]], inner);
+                }
+            }
+            parts.push(indentUnit ? `\n${indent}` : '', isArray ? ']' : '}');
+        }
+    };
+
+    write(options.sortArraysBy ? sortArraysByKey(value, options.sortArraysBy) : value, '');
+    return parts.join('');
+};
+
+/** JSON Lines: every record on its own line, minified. */
+export const formatJsonLines = (records: JsonValue[], options: JsonFormatOptions): string => {
+    const lineOptions = { ...options, minify: true };
+    return records.map((record) => formatJsonValue(record, lineOptions)).join('\n') + (records.length > 0 ? '\n' : '');
+};
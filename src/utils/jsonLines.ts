@@ -0,0 +1,79 @@
+import type { JsonInputFormat, JsonValue } from '../types/json';
+import { stringifyJson } from './losslessNumber';
+
+/**
+ * Helpers for newline-delimited JSON (NDJSON / JSON Lines): one complete JSON
+ * value per line, blank lines ignored. Shared by the JSON viewer worker and
+ * the CSV / Excel converters so all of them agree on what counts as JSON Lines.
+ */
+
+/** Parser used for each document or record; defaults to strict `JSON.parse`. */
+export type JsonTextParser = (text: string) => JsonValue;
+
+const parseStrict: JsonTextParser = (text) => JSON.parse(text) as JsonValue;
+
+export interface ParsedJsonDocument {
+    value: JsonValue;
+    isJsonLines: boolean;
+}
+
+const nextLineBounds = (text: string, from: number): { start: number; end: number } | null => {
+    let start = from;
+    while (start < text.length) {
+        let end = text.indexOf('\n', start);
+        if (end === -1) end = text.length;
+        if (text.slice(start, end).trim()) return { start, end };
+        start = end + 1;
+    }
+    return null;
+};
+
+/**
+ * Returns true when the first non-blank line is a complete JSON value and at
+ * least one more non-blank line follows it. Regular JSON documents either
+ * span lines that are incomplete on their own or fit on a single line.
+ * `text` may be a prefix of the full input.
+ */
+export const detectJsonLines = (text: string, parse: JsonTextParser = parseStrict): boolean => {
+    const first = nextLineBounds(text, 0);
+    if (!first || first.end >= text.length) return false;
+    if (!nextLineBounds(text, first.end + 1)) return false;
+    try {
+        parse(text.slice(first.start, first.end));
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/** Parses every non-blank line; errors are reported with their 1-based line number. */
+export const parseJsonLines = (text: string, parse: JsonTextParser = parseStrict): JsonValue[] => {
+    const records: JsonValue[] = [];
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
+        try {
+            records.push(parse(line));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Invalid JSON';
+            throw new Error(`Line ${i + 1}: ${message}`);
+        }
+    }
+    return records;
+};
+
+/** Parses `text` as JSON or JSON Lines depending on `format` ('auto' sniffs the input). */
+export const parseJsonDocument = (
+    text: string,
+    format: JsonInputFormat = 'auto',
+    parse: JsonTextParser = parseStrict
+): ParsedJsonDocument => {
+    const isJsonLines = format === 'ndjson' || (format === 'auto' && detectJsonLines(text, parse));
+    return isJsonLines
+        ? { value: parseJsonLines(text, parse), isJsonLines }
+        : { value: parse(text), isJsonLines };
+};
+
+export const toJsonLines = (rows: unknown[]): string =>
+    rows.map((row) => stringifyJson((row ?? null) as JsonValue)).join('\n') + (rows.length > 0 ? '\n' : '');
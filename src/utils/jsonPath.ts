@@ -0,0 +1,517 @@
+import type { JsonPathSegment, JsonValue, QueryLocatedValue } from '../types/json';
+
+/**
+ * JSONPath evaluator (Goessner syntax, RFC 9535 compatible subset).
+ *
+ * Supported:
+ * - Root `$`, child `.name` / `['name']`, wildcard `.*` / `[*]`
+ * - Recursive descent `..name` / `..*` / `..[0]`
+ * - Index (negative allowed), union `[0,2]`, slice `[start:end:step]`
+ * - Filters `[?(@.price < 10 && @.tags)]` with `== != < <= > >= =~` and `! && ||`
+ */
+
+type Token =
+    | { kind: 'root' }
+    | { kind: 'current' }
+    | { kind: 'dot' }
+    | { kind: 'dotdot' }
+    | { kind: 'star' }
+    | { kind: 'lbracket' }
+    | { kind: 'rbracket' }
+    | { kind: 'lparen' }
+    | { kind: 'rparen' }
+    | { kind: 'comma' }
+    | { kind: 'colon' }
+    | { kind: 'question' }
+    | { kind: 'name'; value: string }
+    | { kind: 'string'; value: string }
+    | { kind: 'number'; value: number }
+    | { kind: 'regex'; value: RegExp }
+    | { kind: 'op'; value: string };
+
+type Selector =
+    | { kind: 'name'; name: string }
+    | { kind: 'wildcard' }
+    | { kind: 'index'; index: number }
+    | { kind: 'slice'; start: number | null; end: number | null; step: number | null }
+    | { kind: 'filter'; expr: FilterExpr };
+
+interface Segment {
+    descendant: boolean;
+    selectors: Selector[];
+}
+
+type FilterExpr =
+    | { kind: 'literal'; value: JsonValue | RegExp }
+    | { kind: 'path'; absolute: boolean; segments: Segment[] }
+    | { kind: 'not'; expr: FilterExpr }
+    | { kind: 'binary'; op: string; left: FilterExpr; right: FilterExpr };
+
+const isNameStart = (ch: string) => /[A-Za-z_$\u00C0-\uFFFF]/.test(ch);
+const isNameChar = (ch: string) => /[A-Za-z0-9_$\-\u00C0-\uFFFF]/.test(ch);
+
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const readQuoted = (quote: string): string => {
+        let value = '';
+        i++;
+        while (i < expression.length && expression[i] !== quote) {
+            if (expression[i] === '\\' && i + 1 < expression.length) {
+                const next = expression[i + 1];
+                const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+                if (next === 'u') {
+                    value += String.fromCharCode(parseInt(expression.slice(i + 2, i + 6), 16));
+                    i += 6;
+                    continue;
+                }
+                value += escapes[next] ?? next;
+                i += 2;
+                continue;
+            }
+            value += expression[i];
+            i++;
+        }
+        if (i >= expression.length) {
+            throw new Error(`Unterminated string in JSONPath expression`);
+        }
+        i++;
+        return value;
+    };
+
+    while (i < expression.length) {
+        const ch = expression[i];
+        const next = expression[i + 1];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        if (ch === '$' && !isNameChar(next ?? '')) {
+            tokens.push({ kind: 'root' });
+            i++;
+            continue;
+        }
+        if (ch === '@') {
+            tokens.push({ kind: 'current' });
+            i++;
+            continue;
+        }
+        if (ch === '.') {
+            if (next === '.') {
+                tokens.push({ kind: 'dotdot' });
+                i += 2;
+            } else {
+                tokens.push({ kind: 'dot' });
+                i++;
+            }
+            continue;
+        }
+        const simple: Record<string, Token> = {
+            '*': { kind: 'star' },
+            '[': { kind: 'lbracket' },
+            ']': { kind: 'rbracket' },
+            '(': { kind: 'lparen' },
+            ')': { kind: 'rparen' },
+            ',': { kind: 'comma' },
+            ':': { kind: 'colon' },
+            '?': { kind: 'question' },
+        };
+        if (simple[ch]) {
+            tokens.push(simple[ch]);
+            i++;
+            continue;
+        }
+        if (ch === '"' || ch === "'") {
+            tokens.push({ kind: 'string', value: readQuoted(ch) });
+            continue;
+        }
+        if (/[0-9]/.test(ch) || (ch === '-' && /[0-9]/.test(next ?? ''))) {
+            const match = expression.slice(i).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?/);
+            tokens.push({ kind: 'number', value: Number(match![0]) });
+            i += match![0].length;
+            continue;
+        }
+        const twoChar = expression.slice(i, i + 2);
+        if (['==', '!=', '<=', '>=', '&&', '||', '=~'].includes(twoChar)) {
+            tokens.push({ kind: 'op', value: twoChar });
+            i += 2;
+            continue;
+        }
+        if (ch === '<' || ch === '>' || ch === '!') {
+            tokens.push({ kind: 'op', value: ch });
+            i++;
+            continue;
+        }
+        if (ch === '/' && tokens.length > 0 && tokens[tokens.length - 1].kind === 'op') {
+            let body = '';
+            i++;
+            while (i < expression.length && expression[i] !== '/') {
+                if (expression[i] === '\\' && i + 1 < expression.length) {
+                    body += expression[i] + expression[i + 1];
+                    i += 2;
+                    continue;
+                }
+                body += expression[i];
+                i++;
+            }
+            if (i >= expression.length) throw new Error('Unterminated regex in JSONPath filter');
+            i++;
+            const flags = expression.slice(i).match(/^[gimsuy]*/)![0];
+            i += flags.length;
+            tokens.push({ kind: 'regex', value: new RegExp(body, flags) });
+            continue;
+        }
+        if (isNameStart(ch)) {
+            let name = '';
+            while (i < expression.length && isNameChar(expression[i])) {
+                name += expression[i];
+                i++;
+            }
+            tokens.push({ kind: 'name', value: name });
+            continue;
+        }
+        throw new Error(`Unexpected character "${ch}" at position ${i} in JSONPath expression`);
+    }
+
+    return tokens;
+};
+
+class Parser {
+    private pos = 0;
+    private readonly tokens: Token[];
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private take(): Token {
+        const token = this.tokens[this.pos++];
+        if (!token) throw new Error('Unexpected end of JSONPath expression');
+        return token;
+    }
+
+    private expect(kind: Token['kind']): Token {
+        const token = this.take();
+        if (token.kind !== kind) {
+            throw new Error(`Expected "${kind}" but found "${token.kind}" in JSONPath expression`);
+        }
+        return token;
+    }
+
+    parseQuery(): Segment[] {
+        const first = this.peek();
+        if (first?.kind === 'root') this.pos++;
+        const segments = this.parseSegments();
+        if (this.pos < this.tokens.length) {
+            throw new Error(`Unexpected "${this.tokens[this.pos].kind}" in JSONPath expression`);
+        }
+        return segments;
+    }
+
+    private parseSegments(): Segment[] {
+        const segments: Segment[] = [];
+        for (; ;) {
+            const token = this.peek();
+            if (!token) break;
+
+            if (token.kind === 'dot' || token.kind === 'dotdot') {
+                this.pos++;
+                const descendant = token.kind === 'dotdot';
+                const next = this.peek();
+                if (next?.kind === 'star') {
+                    this.pos++;
+                    segments.push({ descendant, selectors: [{ kind: 'wildcard' }] });
+                } else if (next?.kind === 'name') {
+                    this.pos++;
+                    segments.push({ descendant, selectors: [{ kind: 'name', name: next.value }] });
+                } else if (descendant && next?.kind === 'lbracket') {
+                    segments.push({ descendant, selectors: this.parseBracket() });
+                } else {
+                    throw new Error('Expected a member name after "." in JSONPath expression');
+                }
+                continue;
+            }
+            if (token.kind === 'lbracket') {
+                segments.push({ descendant: false, selectors: this.parseBracket() });
+                continue;
+            }
+            if (token.kind === 'name' && segments.length === 0) {
+                // Allow the leading "$." to be omitted, e.g. `store.book[0]`.
+                this.pos++;
+                segments.push({ descendant: false, selectors: [{ kind: 'name', name: token.value }] });
+                continue;
+            }
+            break;
+        }
+        return segments;
+    }
+
+    private parseBracket(): Selector[] {
+        this.expect('lbracket');
+        const selectors: Selector[] = [];
+        for (; ;) {
+            selectors.push(this.parseSelector());
+            const token = this.take();
+            if (token.kind === 'rbracket') break;
+            if (token.kind !== 'comma') {
+                throw new Error(`Expected "," or "]" but found "${token.kind}" in JSONPath expression`);
+            }
+        }
+        return selectors;
+    }
+
+    private parseSelector(): Selector {
+        const token = this.peek();
+        if (!token) throw new Error('Unexpected end of JSONPath expression');
+
+        if (token.kind === 'string') {
+            this.pos++;
+            return { kind: 'name', name: token.value };
+        }
+        if (token.kind === 'star') {
+            this.pos++;
+            return { kind: 'wildcard' };
+        }
+        if (token.kind === 'question') {
+            this.pos++;
+            return { kind: 'filter', expr: this.parseOr() };
+        }
+        if (token.kind === 'number' || token.kind === 'colon') {
+            const parts: (number | null)[] = [null];
+            let colons = 0;
+            while (this.peek()?.kind === 'number' || this.peek()?.kind === 'colon') {
+                const part = this.take();
+                if (part.kind === 'colon') {
+                    colons++;
+                    if (colons > 2) throw new Error('Too many ":" in JSONPath slice');
+                    parts.push(null);
+                } else if (part.kind === 'number') {
+                    if (!Number.isInteger(part.value)) throw new Error('JSONPath indices must be integers');
+                    parts[parts.length - 1] = part.value;
+                }
+            }
+            if (colons === 0) return { kind: 'index', index: parts[0]! };
+            return { kind: 'slice', start: parts[0], end: parts[1] ?? null, step: parts[2] ?? null };
+        }
+        throw new Error(`Unexpected "${token.kind}" inside [] in JSONPath expression`);
+    }
+
+    private parseOr(): FilterExpr {
+        let left = this.parseAnd();
+        while (this.peekOp('||')) {
+            this.pos++;
+            left = { kind: 'binary', op: '||', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): FilterExpr {
+        let left = this.parseComparison();
+        while (this.peekOp('&&')) {
+            this.pos++;
+            left = { kind: 'binary', op: '&&', left, right: this.parseComparison() };
+        }
+        return left;
+    }
+
+    private parseComparison(): FilterExpr {
+        const left = this.parseUnary();
+        const token = this.peek();
+        if (token?.kind === 'op' && ['==', '!=', '<', '<=', '>', '>=', '=~'].includes(token.value)) {
+            this.pos++;
+            return { kind: 'binary', op: token.value, left, right: this.parseUnary() };
+        }
+        return left;
+    }
+
+    private parseUnary(): FilterExpr {
+        if (this.peekOp('!')) {
+            this.pos++;
+            return { kind: 'not', expr: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): FilterExpr {
+        const token = this.take();
+        switch (token.kind) {
+            case 'lparen': {
+                const expr = this.parseOr();
+                this.expect('rparen');
+                return expr;
+            }
+            case 'current':
+            case 'root':
+                return { kind: 'path', absolute: token.kind === 'root', segments: this.parseSegments() };
+            case 'string':
+            case 'number':
+            case 'regex':
+                return { kind: 'literal', value: token.value };
+            case 'name':
+                if (token.value === 'true') return { kind: 'literal', value: true };
+                if (token.value === 'false') return { kind: 'literal', value: false };
+                if (token.value === 'null') return { kind: 'literal', value: null };
+                throw new Error(`Unknown identifier "${token.value}" in JSONPath filter`);
+            default:
+                throw new Error(`Unexpected "${token.kind}" in JSONPath filter`);
+        }
+    }
+
+    private peekOp(value: string): boolean {
+        const token = this.peek();
+        return token?.kind === 'op' && token.value === value;
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, JsonValue> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const childrenOf = (node: QueryLocatedValue): QueryLocatedValue[] => {
+    const { value, path } = node;
+    if (Array.isArray(value)) {
+        return value.map((item, index) => ({ value: item, path: path && [...path, index] }));
+    }
+    if (isObject(value)) {
+        return Object.keys(value).map((key) => ({ value: value[key], path: path && [...path, key] }));
+    }
+    return [];
+};
+
+const descendantsOf = (node: QueryLocatedValue): QueryLocatedValue[] => {
+    const result: QueryLocatedValue[] = [];
+    const stack: QueryLocatedValue[] = [node];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        result.push(current);
+        const children = childrenOf(current);
+        for (let i = children.length - 1; i >= 0; i--) {
+            stack.push(children[i]);
+        }
+    }
+    return result;
+};
+
+const normalizeIndex = (index: number, length: number) => (index < 0 ? length + index : index);
+
+const applySelector = (node: QueryLocatedValue, selector: Selector, root: QueryLocatedValue): QueryLocatedValue[] => {
+    const { value, path } = node;
+    const childPath = (segment: JsonPathSegment) => path && [...path, segment];
+
+    switch (selector.kind) {
+        case 'name':
+            return isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name)
+                ? [{ value: value[selector.name], path: childPath(selector.name) }]
+                : [];
+        case 'wildcard':
+            return childrenOf(node);
+        case 'index': {
+            if (!Array.isArray(value)) return [];
+            const index = normalizeIndex(selector.index, value.length);
+            return index >= 0 && index < value.length ? [{ value: value[index], path: childPath(index) }] : [];
+        }
+        case 'slice': {
+            if (!Array.isArray(value)) return [];
+            const length = value.length;
+            const step = selector.step ?? 1;
+            if (step === 0) return [];
+            const results: QueryLocatedValue[] = [];
+            if (step > 0) {
+                const start = Math.max(0, Math.min(length, normalizeIndex(selector.start ?? 0, length)));
+                const end = Math.max(0, Math.min(length, normalizeIndex(selector.end ?? length, length)));
+                for (let i = start; i < end; i += step) results.push({ value: value[i], path: childPath(i) });
+            } else {
+                const start = Math.max(-1, Math.min(length - 1, normalizeIndex(selector.start ?? length - 1, length)));
+                const end = Math.max(-1, Math.min(length - 1, selector.end === null ? -1 : normalizeIndex(selector.end, length)));
+                for (let i = start; i > end; i += step) results.push({ value: value[i], path: childPath(i) });
+            }
+            return results;
+        }
+        case 'filter':
+            return childrenOf(node).filter((child) => isTruthy(evaluateFilter(selector.expr, child, root)));
+    }
+};
+
+const evaluateSegments = (segments: Segment[], start: QueryLocatedValue, root: QueryLocatedValue): QueryLocatedValue[] => {
+    let current: QueryLocatedValue[] = [start];
+    for (const segment of segments) {
+        const next: QueryLocatedValue[] = [];
+        for (const node of current) {
+            const targets = segment.descendant ? descendantsOf(node) : [node];
+            for (const target of targets) {
+                for (const selector of segment.selectors) {
+                    next.push(...applySelector(target, selector, root));
+                }
+            }
+        }
+        current = next;
+    }
+    return current;
+};
+
+type FilterValue = JsonValue | RegExp | undefined;
+
+const isTruthy = (value: FilterValue): boolean => value !== undefined && value !== false && value !== null;
+
+const deepEqual = (a: FilterValue, b: FilterValue): boolean => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const evaluateFilter = (expr: FilterExpr, current: QueryLocatedValue, root: QueryLocatedValue): FilterValue => {
+    switch (expr.kind) {
+        case 'literal':
+            return expr.value;
+        case 'path': {
+            const matches = evaluateSegments(expr.segments, expr.absolute ? root : current, root);
+            return matches.length > 0 ? matches[0].value : undefined;
+        }
+        case 'not':
+            return !isTruthy(evaluateFilter(expr.expr, current, root));
+        case 'binary': {
+            if (expr.op === '&&') {
+                return isTruthy(evaluateFilter(expr.left, current, root)) && isTruthy(evaluateFilter(expr.right, current, root));
+            }
+            if (expr.op === '||') {
+                return isTruthy(evaluateFilter(expr.left, current, root)) || isTruthy(evaluateFilter(expr.right, current, root));
+            }
+            const left = evaluateFilter(expr.left, current, root);
+            const right = evaluateFilter(expr.right, current, root);
+            switch (expr.op) {
+                case '==': return deepEqual(left, right);
+                case '!=': return !deepEqual(left, right);
+                case '=~':
+                    return typeof left === 'string' && right instanceof RegExp && right.test(left);
+                default: {
+                    const comparable = (typeof left === 'number' && typeof right === 'number')
+                        || (typeof left === 'string' && typeof right === 'string');
+                    if (!comparable) return false;
+                    const l = left as number | string;
+                    const r = right as number | string;
+                    if (expr.op === '<') return l < r;
+                    if (expr.op === '<=') return l <= r;
+                    if (expr.op === '>') return l > r;
+                    return l >= r;
+                }
+            }
+        }
+    }
+};
+
+/**
+ * Evaluates a JSONPath expression and returns every matched value together
+ * with its location in the document.
+ */
+export const evaluateJsonPath = (data: JsonValue, expression: string): QueryLocatedValue[] => {
+    const trimmed = expression.trim();
+    if (!trimmed) return [];
+    const segments = new Parser(tokenize(trimmed)).parseQuery();
+    const root: QueryLocatedValue = { value: data, path: [] };
+    return evaluateSegments(segments, root, root);
+};
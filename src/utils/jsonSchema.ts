@@ -0,0 +1,548 @@
+import type { JsonPathSegment, JsonSchemaDraft, JsonValue } from '../types/json';
+import { escapePointerToken, unescapePointerToken } from './nodePath';
+
+/**
+ * JSON Schema validator for draft-07 and 2020-12.
+ *
+ * Covers the validation vocabulary (type, enum, const, numeric / string /
+ * array / object constraints), the applicators (allOf / anyOf / oneOf / not,
+ * if-then-else, properties, items, contains, dependencies) and, for 2020-12,
+ * `unevaluatedProperties` / `unevaluatedItems`. `$ref` resolves JSON Pointers,
+ * anchors and `$id`s inside the schema; remote references are not fetched and
+ * `$dynamicRef` is treated as a plain `$ref`. Common `format`s are asserted.
+ */
+
+type SchemaObject = { [key: string]: JsonValue };
+
+export interface SchemaIssue {
+    instancePath: JsonPathSegment[];
+    /** JSON Pointer (as a URI fragment) to the failing keyword in the schema */
+    schemaPath: string;
+    keyword: string;
+    message: string;
+}
+
+/** Thrown when the schema itself cannot be used (bad regex, unresolvable `$ref`, ...). */
+export class JsonSchemaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JsonSchemaError';
+    }
+}
+
+/** Locations evaluated by a (valid) schema, needed for the `unevaluated*` keywords. */
+interface Evaluated {
+    properties: Set<string>;
+    /** Every index below this one was evaluated */
+    itemsPrefix: number;
+    allItems: boolean;
+    items: Set<number>;
+}
+
+interface Outcome {
+    valid: boolean;
+    evaluated: Evaluated;
+}
+
+const DEFAULT_BASE_URI = 'https://devdesk.local/schema.json';
+const MAX_DEPTH = 256;
+const PREVIEW_CHARS = 60;
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+    'date-time': (value) =>
+        /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value)
+        && !Number.isNaN(Date.parse(value.replace(' ', 'T'))),
+    date: (value) => {
+        const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+        if (!match) return false;
+        const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+        return date.getUTCMonth() === Number(match[2]) - 1 && date.getUTCDate() === Number(match[3]);
+    },
+    time: (value) => /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value),
+    email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+    hostname: (value) =>
+        /^(?=.{1,253}$)[a-z\d]([a-z\d-]{0,61}[a-z\d])?(\.[a-z\d]([a-z\d-]{0,61}[a-z\d])?)*$/i.test(value),
+    ipv4: (value) => /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(value),
+    ipv6: (value) => {
+        try {
+            return value.includes(':') && new URL(`http://[${value}]`).hostname.length > 0;
+        } catch {
+            return false;
+        }
+    },
+    uri: (value) => /^[a-z][a-z\d+.-]*:[^\s]*$/i.test(value),
+    uuid: (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+};
+
+const isObject = (value: JsonValue | undefined): value is SchemaObject =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const typeOf = (value: JsonValue): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const deepEqual = (a: JsonValue, b: JsonValue): boolean => {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+    }
+    if (isObject(a) && isObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length
+            && keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+    }
+    return false;
+};
+
+const preview = (value: JsonValue): string => {
+    const text = JSON.stringify(value);
+    return text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS - 3)}...` : text;
+};
+
+const emptyEvaluated = (): Evaluated => ({ properties: new Set(), itemsPrefix: 0, allItems: false, items: new Set() });
+
+const mergeEvaluated = (target: Evaluated, source: Evaluated) => {
+    source.properties.forEach((key) => target.properties.add(key));
+    source.items.forEach((index) => target.items.add(index));
+    target.itemsPrefix = Math.max(target.itemsPrefix, source.itemsPrefix);
+    target.allItems = target.allItems || source.allItems;
+};
+
+const stripFragment = (uri: string) => uri.replace(/#.*$/, '');
+
+/** Picks the draft from `$schema`; anything that is not draft-04/06/07 is read as 2020-12. */
+export const detectSchemaDraft = (schema: JsonValue): JsonSchemaDraft => {
+    const declared = isObject(schema) && typeof schema.$schema === 'string' ? schema.$schema : '';
+    return /draft-0[4-7]/.test(declared) ? 'draft-07' : '2020-12';
+};
+
+class SchemaValidator {
+    private readonly resources = new Map<string, JsonValue>();
+    private readonly anchors = new Map<string, JsonValue>();
+    private readonly baseUris = new WeakMap<object, string>();
+    private readonly patterns = new Map<string, RegExp>();
+    private readonly draft: JsonSchemaDraft;
+
+    constructor(root: JsonValue, draft: JsonSchemaDraft) {
+        this.draft = draft;
+        this.resources.set(DEFAULT_BASE_URI, root);
+        this.index(root, DEFAULT_BASE_URI);
+    }
+
+    run(instance: JsonValue, root: JsonValue): SchemaIssue[] {
+        const issues: SchemaIssue[] = [];
+        this.validate(root, instance, [], '#', DEFAULT_BASE_URI, issues, 0);
+        return issues;
+    }
+
+    /** Records every `$id` / anchor so references can be resolved without fetching. */
+    private index(schema: JsonValue, base: string) {
+        if (Array.isArray(schema)) {
+            schema.forEach((item) => this.index(item, base));
+            return;
+        }
+        if (!isObject(schema)) return;
+
+        let current = base;
+        const id = typeof schema.$id === 'string' ? schema.$id : null;
+        if (id !== null) {
+            const resolved = this.resolveUri(id, base);
+            if (this.draft === 'draft-07' && id.startsWith('#')) {
+                this.anchors.set(resolved, schema);
+            } else {
+                current = stripFragment(resolved);
+                this.resources.set(current, schema);
+            }
+        }
+        for (const keyword of ['$anchor', '$dynamicAnchor']) {
+            const anchor = schema[keyword];
+            if (this.draft === '2020-12' && typeof anchor === 'string') {
+                this.anchors.set(`${current}#${anchor}`, schema);
+            }
+        }
+        this.baseUris.set(schema, current);
+
+        for (const [key, value] of Object.entries(schema)) {
+            // Instance data inside the schema is not a subschema.
+            if (key === 'enum' || key === 'const' || key === 'default' || key === 'examples') continue;
+            this.index(value, current);
+        }
+    }
+
+    private resolveUri(reference: string, base: string): string {
+        try {
+            return new URL(reference, base).href;
+        } catch {
+            throw new JsonSchemaError(`Invalid schema URI "${reference}"`);
+        }
+    }
+
+    private resolveRef(reference: string, base: string): { schema: JsonValue; base: string } {
+        const uri = this.resolveUri(reference, base);
+        const resourceUri = stripFragment(uri);
+        const resource = this.resources.get(resourceUri);
+        if (resource === undefined) {
+            throw new JsonSchemaError(`Cannot resolve $ref "${reference}": only references within the schema are supported`);
+        }
+        const fragment = decodeURIComponent(uri.slice(resourceUri.length + 1));
+        let target: JsonValue | undefined = resource;
+        if (fragment.startsWith('/')) {
+            for (const token of fragment.slice(1).split('/')) {
+                const key = unescapePointerToken(token);
+                target = Array.isArray(target)
+                    ? target[Number(key)]
+                    : isObject(target) && Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+                if (target === undefined) break;
+            }
+        } else if (fragment) {
+            target = this.anchors.get(`${resourceUri}#${fragment}`);
+        }
+        if (target === undefined) {
+            throw new JsonSchemaError(`Cannot resolve $ref "${reference}"`);
+        }
+        return { schema: target, base: (isObject(target) && this.baseUris.get(target)) || resourceUri };
+    }
+
+    private pattern(source: string): RegExp {
+        let regex = this.patterns.get(source);
+        if (!regex) {
+            try {
+                regex = new RegExp(source, 'u');
+            } catch {
+                throw new JsonSchemaError(`Invalid pattern /${source}/ in schema`);
+            }
+            this.patterns.set(source, regex);
+        }
+        return regex;
+    }
+
+    private validate(
+        schema: JsonValue,
+        instance: JsonValue,
+        path: JsonPathSegment[],
+        schemaPath: string,
+        base: string,
+        issues: SchemaIssue[],
+        depth: number
+    ): Outcome {
+        const evaluated = emptyEvaluated();
+        if (schema === true) return { valid: true, evaluated };
+        if (schema === false) {
+            // Report `false` under the keyword that holds it (additionalProperties, items, ...).
+            const keyword = schemaPath.split('/').pop() ?? '';
+            issues.push({
+                instancePath: path,
+                schemaPath,
+                keyword: /^[a-zA-Z]+$/.test(keyword) ? keyword : 'false',
+                message: 'No value is allowed here',
+            });
+            return { valid: false, evaluated };
+        }
+        if (!isObject(schema)) {
+            throw new JsonSchemaError(`Schema at ${schemaPath} must be an object or a boolean`);
+        }
+        if (depth > MAX_DEPTH) {
+            throw new JsonSchemaError('Schema recursion is too deep; check for a $ref cycle');
+        }
+
+        const start = issues.length;
+        const fail = (keyword: string, message: string, at: JsonPathSegment[] = path) => {
+            issues.push({ instancePath: at, schemaPath: `${schemaPath}/${keyword}`, keyword, message });
+        };
+        const sub = (
+            subschema: JsonValue,
+            at: JsonPathSegment[],
+            keywordPath: string,
+            into: SchemaIssue[] = issues,
+            value: JsonValue = instance
+        ) => this.validate(subschema, value, at, `${schemaPath}/${keywordPath}`, base, into, depth + 1);
+
+        base = this.baseUris.get(schema) ?? base;
+
+        for (const keyword of ['$ref', '$dynamicRef']) {
+            const reference = schema[keyword];
+            if (typeof reference !== 'string' || (keyword === '$dynamicRef' && this.draft !== '2020-12')) continue;
+            const target = this.resolveRef(reference, base);
+            const outcome = this.validate(target.schema, instance, path, `${schemaPath}/${keyword}`, target.base, issues, depth + 1);
+            // Before 2019-09 a $ref replaces every sibling keyword.
+            if (this.draft === 'draft-07') return outcome;
+            if (outcome.valid) mergeEvaluated(evaluated, outcome.evaluated);
+        }
+
+        this.validateType(schema, instance, fail);
+        this.validateNumber(schema, instance, fail);
+        this.validateString(schema, instance, fail);
+        if (Array.isArray(instance)) this.validateArray(schema, instance, path, evaluated, fail, sub);
+        if (isObject(instance)) this.validateObject(schema, instance, path, evaluated, fail, sub);
+
+        // Applicators; only subschemas that pass contribute evaluated locations.
+        if (Array.isArray(schema.allOf)) {
+            schema.allOf.forEach((subschema, i) => {
+                const outcome = sub(subschema, path, `allOf/${i}`);
+                if (outcome.valid) mergeEvaluated(evaluated, outcome.evaluated);
+            });
+        }
+        if (Array.isArray(schema.anyOf)) {
+            let matched = 0;
+            schema.anyOf.forEach((subschema, i) => {
+                const outcome = sub(subschema, path, `anyOf/${i}`, []);
+                if (outcome.valid) {
+                    matched++;
+                    mergeEvaluated(evaluated, outcome.evaluated);
+                }
+            });
+            if (matched === 0) fail('anyOf', 'Must match at least one of the anyOf schemas');
+        }
+        if (Array.isArray(schema.oneOf)) {
+            let matched = 0;
+            schema.oneOf.forEach((subschema, i) => {
+                const outcome = sub(subschema, path, `oneOf/${i}`, []);
+                if (outcome.valid) {
+                    matched++;
+                    mergeEvaluated(evaluated, outcome.evaluated);
+                }
+            });
+            if (matched !== 1) fail('oneOf', `Must match exactly one of the oneOf schemas (matched ${matched})`);
+        }
+        if (schema.not !== undefined && sub(schema.not, path, 'not', []).valid) {
+            fail('not', 'Must not match the schema in "not"');
+        }
+        if (schema.if !== undefined) {
+            const condition = sub(schema.if, path, 'if', []);
+            if (condition.valid) mergeEvaluated(evaluated, condition.evaluated);
+            const branch = condition.valid ? 'then' : 'else';
+            if (schema[branch] !== undefined) {
+                const outcome = sub(schema[branch], path, branch);
+                if (outcome.valid) mergeEvaluated(evaluated, outcome.evaluated);
+            }
+        }
+
+        if (this.draft === '2020-12') {
+            if (Array.isArray(instance) && schema.unevaluatedItems !== undefined && !evaluated.allItems) {
+                instance.forEach((item, i) => {
+                    if (i < evaluated.itemsPrefix || evaluated.items.has(i)) return;
+                    sub(schema.unevaluatedItems, [...path, i], 'unevaluatedItems', issues, item);
+                });
+                evaluated.allItems = true;
+            }
+            if (isObject(instance) && schema.unevaluatedProperties !== undefined) {
+                for (const [key, value] of Object.entries(instance)) {
+                    if (evaluated.properties.has(key)) continue;
+                    sub(schema.unevaluatedProperties, [...path, key], 'unevaluatedProperties', issues, value);
+                    evaluated.properties.add(key);
+                }
+            }
+        }
+
+        return { valid: issues.length === start, evaluated };
+    }
+
+    private validateType(schema: SchemaObject, instance: JsonValue, fail: (keyword: string, message: string) => void) {
+        const actual = typeOf(instance);
+        if (schema.type !== undefined) {
+            const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+            const matches = expected.some((type) =>
+                type === actual || (type === 'integer' && typeof instance === 'number' && Number.isInteger(instance))
+            );
+            if (!matches) fail('type', `Expected ${expected.join(' or ')}, got ${actual}`);
+        }
+        if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, instance))) {
+            fail('enum', `Must be one of ${preview(schema.enum)}`);
+        }
+        if (schema.const !== undefined && !deepEqual(schema.const, instance)) {
+            fail('const', `Must equal ${preview(schema.const)}`);
+        }
+    }
+
+    private validateNumber(schema: SchemaObject, instance: JsonValue, fail: (keyword: string, message: string) => void) {
+        if (typeof instance !== 'number') return;
+        const { multipleOf, maximum, exclusiveMaximum, minimum, exclusiveMinimum } = schema;
+        if (typeof multipleOf === 'number' && multipleOf > 0) {
+            const quotient = instance / multipleOf;
+            if (Math.abs(quotient - Math.round(quotient)) > 1e-9) fail('multipleOf', `Must be a multiple of ${multipleOf}`);
+        }
+        if (typeof maximum === 'number' && instance > maximum) fail('maximum', `Must be <= ${maximum}`);
+        if (typeof exclusiveMaximum === 'number' && instance >= exclusiveMaximum) fail('exclusiveMaximum', `Must be < ${exclusiveMaximum}`);
+        if (typeof minimum === 'number' && instance < minimum) fail('minimum', `Must be >= ${minimum}`);
+        if (typeof exclusiveMinimum === 'number' && instance <= exclusiveMinimum) fail('exclusiveMinimum', `Must be > ${exclusiveMinimum}`);
+    }
+
+    private validateString(schema: SchemaObject, instance: JsonValue, fail: (keyword: string, message: string) => void) {
+        if (typeof instance !== 'string') return;
+        const length = [...instance].length;
+        if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+            fail('maxLength', `Must be at most ${schema.maxLength} characters (is ${length})`);
+        }
+        if (typeof schema.minLength === 'number' && length < schema.minLength) {
+            fail('minLength', `Must be at least ${schema.minLength} characters (is ${length})`);
+        }
+        if (typeof schema.pattern === 'string' && !this.pattern(schema.pattern).test(instance)) {
+            fail('pattern', `Must match the pattern /${schema.pattern}/`);
+        }
+        if (typeof schema.format === 'string' && FORMATS[schema.format] && !FORMATS[schema.format](instance)) {
+            fail('format', `Must be a valid ${schema.format}`);
+        }
+    }
+
+    private validateArray(
+        schema: SchemaObject,
+        instance: JsonValue[],
+        path: JsonPathSegment[],
+        evaluated: Evaluated,
+        fail: (keyword: string, message: string) => void,
+        sub: (subschema: JsonValue, at: JsonPathSegment[], keywordPath: string, into?: SchemaIssue[], value?: JsonValue) => Outcome
+    ) {
+        // 2020-12 splits tuple validation into prefixItems + items; draft-07 uses items[] + additionalItems.
+        const tuple = this.draft === '2020-12' ? schema.prefixItems : schema.items;
+        const rest = this.draft === '2020-12' ? schema.items : Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+        const tupleKeyword = this.draft === '2020-12' ? 'prefixItems' : 'items';
+        const restKeyword = this.draft === '2020-12' || !Array.isArray(schema.items) ? 'items' : 'additionalItems';
+
+        let prefix = 0;
+        if (Array.isArray(tuple)) {
+            prefix = Math.min(tuple.length, instance.length);
+            for (let i = 0; i < prefix; i++) sub(tuple[i], [...path, i], `${tupleKeyword}/${i}`, undefined, instance[i]);
+            evaluated.itemsPrefix = prefix;
+        }
+        if (rest !== undefined && !Array.isArray(rest)) {
+            for (let i = prefix; i < instance.length; i++) sub(rest, [...path, i], restKeyword, undefined, instance[i]);
+            evaluated.allItems = true;
+        }
+
+        if (schema.contains !== undefined) {
+            let matches = 0;
+            instance.forEach((item, i) => {
+                if (sub(schema.contains as JsonValue, [...path, i], 'contains', [], item).valid) {
+                    matches++;
+                    evaluated.items.add(i);
+                }
+            });
+            const minContains = this.draft === '2020-12' && typeof schema.minContains === 'number' ? schema.minContains : 1;
+            if (matches < minContains) {
+                fail('contains', minContains === 1
+                    ? 'Must contain at least one item matching "contains"'
+                    : `Must contain at least ${minContains} items matching "contains" (has ${matches})`);
+            }
+            if (this.draft === '2020-12' && typeof schema.maxContains === 'number' && matches > schema.maxContains) {
+                fail('maxContains', `Must contain at most ${schema.maxContains} items matching "contains" (has ${matches})`);
+            }
+        }
+        if (typeof schema.maxItems === 'number' && instance.length > schema.maxItems) {
+            fail('maxItems', `Must have at most ${schema.maxItems} items (has ${instance.length})`);
+        }
+        if (typeof schema.minItems === 'number' && instance.length < schema.minItems) {
+            fail('minItems', `Must have at least ${schema.minItems} items (has ${instance.length})`);
+        }
+        if (schema.uniqueItems === true) {
+            for (let i = 1; i < instance.length; i++) {
+                const duplicate = instance.slice(0, i).findIndex((item) => deepEqual(item, instance[i]));
+                if (duplicate !== -1) {
+                    fail('uniqueItems', `Items ${duplicate} and ${i} are identical`);
+                    break;
+                }
+            }
+        }
+    }
+
+    private validateObject(
+        schema: SchemaObject,
+        instance: SchemaObject,
+        path: JsonPathSegment[],
+        evaluated: Evaluated,
+        fail: (keyword: string, message: string, at?: JsonPathSegment[]) => void,
+        sub: (subschema: JsonValue, at: JsonPathSegment[], keywordPath: string, into?: SchemaIssue[], value?: JsonValue) => Outcome
+    ) {
+        const keys = Object.keys(instance);
+        const has = (key: string) => Object.prototype.hasOwnProperty.call(instance, key);
+        const matched = new Set<string>();
+
+        if (isObject(schema.properties)) {
+            for (const [key, subschema] of Object.entries(schema.properties)) {
+                if (!has(key)) continue;
+                matched.add(key);
+                sub(subschema, [...path, key], `properties/${escapePointerToken(key)}`, undefined, instance[key]);
+            }
+        }
+        if (isObject(schema.patternProperties)) {
+            for (const [source, subschema] of Object.entries(schema.patternProperties)) {
+                const regex = this.pattern(source);
+                for (const key of keys) {
+                    if (!regex.test(key)) continue;
+                    matched.add(key);
+                    sub(subschema, [...path, key], `patternProperties/${escapePointerToken(source)}`, undefined, instance[key]);
+                }
+            }
+        }
+        if (schema.additionalProperties !== undefined) {
+            for (const key of keys) {
+                if (matched.has(key)) continue;
+                if (schema.additionalProperties === false) {
+                    fail('additionalProperties', `Unexpected property "${key}"`, [...path, key]);
+                } else {
+                    sub(schema.additionalProperties, [...path, key], 'additionalProperties', undefined, instance[key]);
+                }
+                matched.add(key);
+            }
+        }
+        matched.forEach((key) => evaluated.properties.add(key));
+
+        if (Array.isArray(schema.required)) {
+            for (const key of schema.required) {
+                if (typeof key === 'string' && !has(key)) fail('required', `Missing required property "${key}"`);
+            }
+        }
+        if (schema.propertyNames !== undefined) {
+            for (const key of keys) {
+                if (!sub(schema.propertyNames, [...path, key], 'propertyNames', [], key).valid) {
+                    fail('propertyNames', `Property name "${key}" is not allowed`, [...path, key]);
+                }
+            }
+        }
+        if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+            fail('maxProperties', `Must have at most ${schema.maxProperties} properties (has ${keys.length})`);
+        }
+        if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+            fail('minProperties', `Must have at least ${schema.minProperties} properties (has ${keys.length})`);
+        }
+
+        // draft-07 `dependencies` was split into dependentRequired / dependentSchemas in 2019-09.
+        const requiredByKey = this.draft === '2020-12' ? schema.dependentRequired : schema.dependencies;
+        const schemaByKey = this.draft === '2020-12' ? schema.dependentSchemas : schema.dependencies;
+        const requiredKeyword = this.draft === '2020-12' ? 'dependentRequired' : 'dependencies';
+        const schemaKeyword = this.draft === '2020-12' ? 'dependentSchemas' : 'dependencies';
+        if (isObject(requiredByKey)) {
+            for (const [key, required] of Object.entries(requiredByKey)) {
+                if (!has(key) || !Array.isArray(required)) continue;
+                for (const dependency of required) {
+                    if (typeof dependency === 'string' && !has(dependency)) {
+                        fail(requiredKeyword, `Property "${dependency}" is required when "${key}" is present`);
+                    }
+                }
+            }
+        }
+        if (isObject(schemaByKey)) {
+            for (const [key, subschema] of Object.entries(schemaByKey)) {
+                if (!has(key) || Array.isArray(subschema)) continue;
+                const outcome = sub(subschema, path, `${schemaKeyword}/${escapePointerToken(key)}`);
+                if (outcome.valid) mergeEvaluated(evaluated, outcome.evaluated);
+            }
+        }
+    }
+}
+
+/**
+ * Validates `instance` against `schema`. The draft comes from `$schema` unless
+ * given. Throws `JsonSchemaError` if the schema cannot be evaluated.
+ */
+export const validateJsonSchema = (
+    instance: JsonValue,
+    schema: JsonValue,
+    draft: JsonSchemaDraft = detectSchemaDraft(schema)
+): { draft: JsonSchemaDraft; issues: SchemaIssue[] } => {
+    if (typeof schema !== 'boolean' && !isObject(schema)) {
+        throw new JsonSchemaError('A schema must be a JSON object or a boolean');
+    }
+    return { draft, issues: new SchemaValidator(schema, draft).run(instance, schema) };
+};
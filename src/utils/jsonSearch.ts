@@ -0,0 +1,128 @@
+import type { JsonNode, JsonSearchOptions, JsonValue } from '../types/json';
+
+/**
+ * Tree search matching, shared by the parser worker (which finds the hits)
+ * and the tree renderer (which highlights them).
+ *
+ * Keys are object keys only; array indices are not searched. Values are the
+ * primitive values, compared through their text form (`null`, `true`, `42`).
+ * Outside regex mode a query such as `> 500` or `<= 0.5` is a numeric
+ * comparison and matches number values only.
+ */
+
+export interface JsonSearchMatcher {
+    matchesKey: (key: string) => boolean;
+    matchesValue: (type: JsonNode['type'], value: JsonValue) => boolean;
+    /** Splits matching text into plain and highlighted runs */
+    highlight: (text: string) => { text: string; match: boolean }[];
+}
+
+type ComparisonOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+const COMPARISON_PATTERN = /^\s*(>=|<=|!=|==|=|>|<)\s*(-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)\s*$/;
+
+const parseComparison = (query: string): { operator: ComparisonOperator; operand: number } | null => {
+    const match = COMPARISON_PATTERN.exec(query);
+    if (!match) return null;
+    const operator = (match[1] === '==' ? '=' : match[1]) as ComparisonOperator;
+    return { operator, operand: Number(match[2]) };
+};
+
+const compare = (value: number, operator: ComparisonOperator, operand: number) => {
+    switch (operator) {
+        case '<': return value < operand;
+        case '<=': return value <= operand;
+        case '>': return value > operand;
+        case '>=': return value >= operand;
+        case '=': return value === operand;
+        case '!=': return value !== operand;
+    }
+};
+
+const isPrimitive = (type: JsonNode['type']) => type !== 'object' && type !== 'array';
+
+/**
+ * Builds the matcher for a search, or returns null for an empty query.
+ * Throws when a regex query does not compile.
+ */
+export const createSearchMatcher = (options: JsonSearchOptions): JsonSearchMatcher | null => {
+    const { query, mode, scope, caseSensitive } = options;
+    if (!query) return null;
+
+    const searchKeys = scope === 'all' || scope === 'keys';
+    const searchesType = (type: JsonNode['type']) => {
+        switch (scope) {
+            case 'all':
+            case 'values': return isPrimitive(type);
+            case 'numbers': return type === 'number';
+            case 'strings': return type === 'string';
+            default: return false;
+        }
+    };
+
+    const comparison = mode === 'regex' ? null : parseComparison(query);
+    if (comparison) {
+        return {
+            matchesKey: () => false,
+            matchesValue: (type, value) => (
+                type === 'number' && searchesType(type) && compare(Number(value), comparison.operator, comparison.operand)
+            ),
+            highlight: (text) => [{ text, match: true }],
+        };
+    }
+
+    let test: (text: string) => boolean;
+    let highlight: JsonSearchMatcher['highlight'];
+    if (mode === 'regex') {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(query, caseSensitive ? '' : 'i');
+        } catch (err: unknown) {
+            throw new Error(err instanceof Error ? err.message : `Invalid regular expression: /${query}/`);
+        }
+        test = (text) => regex.test(text);
+        highlight = (text) => {
+            const global = new RegExp(regex.source, `${regex.flags}g`);
+            const runs: { text: string; match: boolean }[] = [];
+            let last = 0;
+            for (let match = global.exec(text); match; match = global.exec(text)) {
+                if (match[0] === '') {
+                    global.lastIndex++;
+                    continue;
+                }
+                if (match.index > last) runs.push({ text: text.slice(last, match.index), match: false });
+                runs.push({ text: match[0], match: true });
+                last = match.index + match[0].length;
+            }
+            if (last < text.length) runs.push({ text: text.slice(last), match: false });
+            return runs;
+        };
+    } else {
+        const needle = caseSensitive ? query : query.toLowerCase();
+        const fold = (text: string) => (caseSensitive ? text : text.toLowerCase());
+        if (mode === 'exact') {
+            test = (text) => fold(text) === needle;
+            highlight = (text) => [{ text, match: true }];
+        } else {
+            test = (text) => fold(text).includes(needle);
+            highlight = (text) => {
+                const haystack = fold(text);
+                const runs: { text: string; match: boolean }[] = [];
+                let last = 0;
+                for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, last)) {
+                    if (index > last) runs.push({ text: text.slice(last, index), match: false });
+                    runs.push({ text: text.slice(index, index + needle.length), match: true });
+                    last = index + needle.length;
+                }
+                if (last < text.length) runs.push({ text: text.slice(last), match: false });
+                return runs;
+            };
+        }
+    }
+
+    return {
+        matchesKey: (key) => searchKeys && test(key),
+        matchesValue: (type, value) => searchesType(type) && test(String(value)),
+        highlight,
+    };
+};
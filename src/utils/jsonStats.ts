@@ -0,0 +1,193 @@
+import type { JsonNode, JsonStats, JsonStatsEntry, JsonValue } from '../types/json';
+import { childPointer } from './nodePath';
+
+/**
+ * Structural statistics for the JSON viewer's stats mode.
+ *
+ * The collector is fed SAX-style (`enter` / `value` / `exit`), so the same
+ * code serves in-memory documents and streamed buffers. Sizes are the UTF-8
+ * byte length of each subtree serialised compactly (no whitespace), which is
+ * what the subtree costs on the wire regardless of how the source is indented.
+ */
+
+const TOP_SUBTREES = 50;
+const TOP_ARRAYS = 20;
+const TOP_KEYS = 50;
+const TREEMAP_ENTRIES = 100;
+/** Distinct keys tracked for the frequency table; later new keys are not counted. */
+const MAX_DISTINCT_KEYS = 100000;
+
+interface Frame {
+    entry: JsonStatsEntry;
+    /** Ancestors of this frame plus the frame itself */
+    lineage: string[];
+}
+
+const utf8Length = (text: string): number => {
+    let bytes = 0;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code < 0x80) bytes += 1;
+        else if (code < 0x800) bytes += 2;
+        else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+            bytes += 4;
+            i++;
+        } else bytes += 3;
+    }
+    return bytes;
+};
+
+const valueType = (value: JsonValue): JsonNode['type'] => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value as JsonNode['type'];
+};
+
+/** Keeps the `limit` highest-scoring items without sorting on every insert. */
+class TopList<T> {
+    private items: T[] = [];
+    private floor = -Infinity;
+    private readonly limit: number;
+    private readonly score: (item: T) => number;
+
+    constructor(limit: number, score: (item: T) => number) {
+        this.limit = limit;
+        this.score = score;
+    }
+
+    add(item: T) {
+        if (this.items.length >= this.limit && this.score(item) <= this.floor) return;
+        this.items.push(item);
+        if (this.items.length >= this.limit * 2) this.compact();
+    }
+
+    result(): T[] {
+        this.compact();
+        return this.items;
+    }
+
+    private compact() {
+        this.items.sort((a, b) => this.score(b) - this.score(a));
+        this.items.length = Math.min(this.items.length, this.limit);
+        if (this.items.length === this.limit) this.floor = this.score(this.items[this.limit - 1]);
+    }
+}
+
+export class JsonStatsCollector {
+    private readonly stack: Frame[] = [];
+    private readonly typeCounts: Record<JsonNode['type'], number> = {
+        object: 0, array: 0, string: 0, number: 0, boolean: 0, null: 0,
+    };
+    private readonly keyCounts = new Map<string, number>();
+    private readonly subtrees = new TopList<JsonStatsEntry>(TOP_SUBTREES, (entry) => entry.bytes);
+    private readonly arrays = new TopList<JsonStatsEntry>(TOP_ARRAYS, (entry) => entry.childCount);
+    private readonly rootChildren = new TopList<JsonStatsEntry>(TREEMAP_ENTRIES, (entry) => entry.bytes);
+    private totalBytes = 0;
+    private maxDepth = 0;
+    private keysTruncated = false;
+
+    enter(type: 'object' | 'array', key: string | number | null) {
+        const entry = this.createEntry(type, key);
+        entry.bytes = 2;
+        const parent = this.stack[this.stack.length - 1];
+        this.stack.push({ entry, lineage: parent ? [...parent.lineage, entry.path] : [entry.path] });
+    }
+
+    value(key: string | number | null, value: JsonValue) {
+        const entry = this.createEntry(valueType(value), key);
+        entry.bytes = utf8Length(JSON.stringify(value) ?? 'null');
+        this.finish(entry, this.stack[this.stack.length - 1]?.lineage ?? []);
+    }
+
+    exit() {
+        const frame = this.stack.pop();
+        if (!frame) return;
+        const { entry } = frame;
+        // Separators between children.
+        entry.bytes += Math.max(0, entry.childCount - 1);
+        if (entry.type === 'array') this.arrays.add(entry);
+        this.finish(entry, frame.lineage.slice(0, -1));
+    }
+
+    result(): JsonStats {
+        const keyFrequency = [...this.keyCounts]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, TOP_KEYS)
+            .map(([key, count]) => ({ key, count }));
+        return {
+            totalBytes: this.totalBytes,
+            totalNodes: Object.values(this.typeCounts).reduce((sum, count) => sum + count, 0),
+            maxDepth: this.maxDepth,
+            typeCounts: { ...this.typeCounts },
+            largestSubtrees: this.subtrees.result(),
+            largestArrays: this.arrays.result(),
+            rootChildren: this.rootChildren.result(),
+            keyFrequency,
+            distinctKeys: this.keyCounts.size,
+            keysTruncated: this.keysTruncated,
+        };
+    }
+
+    private createEntry(type: JsonNode['type'], key: string | number | null): JsonStatsEntry {
+        const parent = this.stack[this.stack.length - 1]?.entry;
+        const depth = this.stack.length;
+        this.typeCounts[type]++;
+        this.maxDepth = Math.max(this.maxDepth, depth);
+
+        let path = '';
+        let label = 'root';
+        if (parent) {
+            parent.childCount++;
+            if (typeof key === 'number') {
+                path = childPointer(parent.path, key);
+                label = `[${key}]`;
+            } else {
+                const name = key ?? '';
+                path = childPointer(parent.path, name);
+                label = name;
+                // Key, quotes and colon count towards the parent.
+                parent.bytes += utf8Length(JSON.stringify(name)) + 1;
+                this.countKey(name);
+            }
+        }
+        return { path, key: label, type, bytes: 0, childCount: 0, depth, expandPaths: [] };
+    }
+
+    private countKey(key: string) {
+        const count = this.keyCounts.get(key);
+        if (count !== undefined) this.keyCounts.set(key, count + 1);
+        else if (this.keyCounts.size < MAX_DISTINCT_KEYS) this.keyCounts.set(key, 1);
+        else this.keysTruncated = true;
+    }
+
+    private finish(entry: JsonStatsEntry, ancestors: string[]) {
+        const parent = this.stack[this.stack.length - 1]?.entry;
+        if (parent) parent.bytes += entry.bytes;
+        else this.totalBytes = entry.bytes;
+
+        if (entry.depth === 0) return;
+        entry.expandPaths = ancestors;
+        this.subtrees.add(entry);
+        if (entry.depth === 1) this.rootChildren.add(entry);
+    }
+}
+
+/** Walks an in-memory document through a `JsonStatsCollector`. */
+export const computeJsonStats = (data: JsonValue): JsonStats => {
+    const collector = new JsonStatsCollector();
+    const walk = (value: JsonValue, key: string | number | null) => {
+        if (Array.isArray(value)) {
+            collector.enter('array', key);
+            value.forEach((item, index) => walk(item, index));
+            collector.exit();
+        } else if (value !== null && typeof value === 'object') {
+            collector.enter('object', key);
+            for (const [childKey, child] of Object.entries(value)) walk(child, childKey);
+            collector.exit();
+        } else {
+            collector.value(key, value);
+        }
+    };
+    walk(data, null);
+    return collector.result();
+};
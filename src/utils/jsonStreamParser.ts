@@ -0,0 +1,245 @@
+import type { JsonValue, LosslessNumber, ParseErrorCode } from '../types/json';
+import { toLosslessNumber } from './losslessNumber';
+
+/**
+ * Incremental, byte-level JSON reader used for documents that are too large to
+ * `JSON.parse` in one go.
+ *
+ * The reader never builds the full value graph. It walks the UTF-8 bytes and
+ * emits SAX-style events (`start` / `end` for containers, `value` for
+ * primitives) so callers can validate, search or materialise only the part of
+ * the document they need. All offsets are byte offsets into the source.
+ * Like the regular parse path, it skips a leading UTF-8 byte order mark and
+ * `//` line comments between tokens.
+ */
+
+export type StreamContainerType = 'object' | 'array';
+
+export type StreamEvent =
+    | { kind: 'start'; type: StreamContainerType; key: string | number | null; offset: number; depth: number }
+    | { kind: 'end'; type: StreamContainerType; depth: number }
+    | { kind: 'value'; key: string | number | null; value: JsonValue; depth: number };
+
+interface Frame {
+    type: StreamContainerType;
+    index: number;
+    state: 'first' | 'key' | 'colon' | 'value' | 'commaOrEnd';
+    key: string | null;
+}
+
+const CHAR = {
+    QUOTE: 0x22,
+    BACKSLASH: 0x5c,
+    COMMA: 0x2c,
+    COLON: 0x3a,
+    LBRACE: 0x7b,
+    RBRACE: 0x7d,
+    LBRACKET: 0x5b,
+    RBRACKET: 0x5d,
+    MINUS: 0x2d,
+    SLASH: 0x2f,
+    NEWLINE: 0x0a,
+} as const;
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+const isWhitespace = (byte: number) => byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09;
+const isNumberByte = (byte: number) =>
+    (byte >= 0x30 && byte <= 0x39) || byte === CHAR.MINUS || byte === 0x2b || byte === 0x2e || byte === 0x45 || byte === 0x65;
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+export class JsonStreamError extends Error {
+    readonly offset: number;
+    readonly code: ParseErrorCode;
+    /** The message without the location suffix */
+    readonly reason: string;
+
+    constructor(message: string, offset: number, code: ParseErrorCode = 'unexpected-token') {
+        super(`${message} at position ${offset}`);
+        this.name = 'JsonStreamError';
+        this.offset = offset;
+        this.code = code;
+        this.reason = message;
+    }
+}
+
+/**
+ * Pull-based event reader. Call `next()` until it returns `null`; the reader
+ * stops after the value that starts at `start` has been fully consumed.
+ */
+export class JsonStreamReader {
+    private readonly bytes: Uint8Array;
+    private readonly decoder = new TextDecoder();
+    private readonly stack: Frame[] = [];
+    private pos: number;
+    private done = false;
+    private readonly losslessNumbers: boolean;
+
+    /** With `losslessNumbers`, numbers `number` would round are read as `LosslessNumber`s. */
+    constructor(bytes: Uint8Array, start = 0, options: { losslessNumbers?: boolean } = {}) {
+        this.bytes = bytes;
+        this.pos = start === 0 && UTF8_BOM.every((byte, i) => bytes[i] === byte) ? UTF8_BOM.length : start;
+        this.losslessNumbers = Boolean(options.losslessNumbers);
+    }
+
+    /** Current byte offset; useful for progress reporting. */
+    get position(): number {
+        return this.pos;
+    }
+
+    /** Throws unless only whitespace remains after the top-level value. */
+    assertEnd(): void {
+        this.skipWhitespace();
+        if (this.pos < this.bytes.length) {
+            throw new JsonStreamError('Unexpected data after JSON value', this.pos, 'trailing-data');
+        }
+    }
+
+    next(): StreamEvent | null {
+        if (this.done) return null;
+
+        for (; ;) {
+            this.skipWhitespace();
+            const frame = this.stack[this.stack.length - 1];
+
+            if (!frame) {
+                return this.readValue(null);
+            }
+
+            const byte = this.bytes[this.pos];
+            if (byte === undefined) {
+                throw new JsonStreamError(`Unexpected end of input inside ${frame.type}`, this.pos, 'unexpected-end');
+            }
+
+            if (frame.state === 'first' || frame.state === 'commaOrEnd') {
+                const closer = frame.type === 'object' ? CHAR.RBRACE : CHAR.RBRACKET;
+                if (byte === closer) {
+                    this.pos++;
+                    this.stack.pop();
+                    if (this.stack.length === 0) this.done = true;
+                    else this.stack[this.stack.length - 1].state = 'commaOrEnd';
+                    return { kind: 'end', type: frame.type, depth: this.stack.length };
+                }
+                if (frame.state === 'commaOrEnd') {
+                    if (byte !== CHAR.COMMA) {
+                        throw new JsonStreamError(`Expected "," or "${String.fromCharCode(closer)}"`, this.pos, 'missing-comma');
+                    }
+                    this.pos++;
+                    this.skipWhitespace();
+                }
+                frame.state = frame.type === 'object' ? 'key' : 'value';
+                continue;
+            }
+
+            if (frame.state === 'key') {
+                if (byte !== CHAR.QUOTE) throw new JsonStreamError('Expected a property name', this.pos, 'invalid-key');
+                frame.key = this.readString();
+                frame.state = 'colon';
+                continue;
+            }
+
+            if (frame.state === 'colon') {
+                if (byte !== CHAR.COLON) throw new JsonStreamError('Expected ":" after property name', this.pos, 'missing-colon');
+                this.pos++;
+                frame.state = 'value';
+                continue;
+            }
+
+            const key = frame.type === 'object' ? frame.key : frame.index;
+            frame.index++;
+            frame.state = 'commaOrEnd';
+            return this.readValue(key);
+        }
+    }
+
+    /** Skips whitespace and `//` comments. */
+    private skipWhitespace(): void {
+        while (this.pos < this.bytes.length) {
+            const byte = this.bytes[this.pos];
+            if (isWhitespace(byte)) {
+                this.pos++;
+            } else if (byte === CHAR.SLASH && this.bytes[this.pos + 1] === CHAR.SLASH) {
+                while (this.pos < this.bytes.length && this.bytes[this.pos] !== CHAR.NEWLINE) this.pos++;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private readValue(key: string | number | null): StreamEvent {
+        const offset = this.pos;
+        const byte = this.bytes[offset];
+        const depth = this.stack.length;
+
+        if (byte === CHAR.LBRACE || byte === CHAR.LBRACKET) {
+            const type: StreamContainerType = byte === CHAR.LBRACE ? 'object' : 'array';
+            this.pos++;
+            this.stack.push({ type, index: 0, state: 'first', key: null });
+            return { kind: 'start', type, key, offset, depth };
+        }
+
+        let value: JsonValue;
+        if (byte === CHAR.QUOTE) {
+            value = this.readString();
+        } else if (byte === CHAR.MINUS || (byte >= 0x30 && byte <= 0x39)) {
+            value = this.readNumber();
+        } else if (this.matchLiteral('true')) {
+            value = true;
+        } else if (this.matchLiteral('false')) {
+            value = false;
+        } else if (this.matchLiteral('null')) {
+            value = null;
+        } else if (byte === undefined) {
+            throw new JsonStreamError('Unexpected end of input', offset, 'unexpected-end');
+        } else {
+            throw new JsonStreamError(`Unexpected token "${String.fromCharCode(byte)}"`, offset);
+        }
+
+        if (depth === 0) this.done = true;
+        return { kind: 'value', key, value, depth };
+    }
+
+    private readString(): string {
+        const start = this.pos;
+        let hasEscape = false;
+        this.pos++;
+        for (; ;) {
+            const byte = this.bytes[this.pos];
+            if (byte === undefined) throw new JsonStreamError('Unterminated string', start, 'unterminated-string');
+            if (byte === CHAR.QUOTE) break;
+            if (byte < 0x20) throw new JsonStreamError('Control character in string', this.pos, 'control-character');
+            if (byte === CHAR.BACKSLASH) {
+                hasEscape = true;
+                this.pos += 2;
+                continue;
+            }
+            this.pos++;
+        }
+        this.pos++;
+
+        if (!hasEscape) {
+            return this.decoder.decode(this.bytes.subarray(start + 1, this.pos - 1));
+        }
+        try {
+            return JSON.parse(this.decoder.decode(this.bytes.subarray(start, this.pos))) as string;
+        } catch {
+            throw new JsonStreamError('Invalid escape sequence in string', start, 'invalid-escape');
+        }
+    }
+
+    private readNumber(): number | LosslessNumber {
+        const start = this.pos;
+        while (this.pos < this.bytes.length && isNumberByte(this.bytes[this.pos])) this.pos++;
+        const text = String.fromCharCode(...this.bytes.subarray(start, this.pos));
+        if (!NUMBER_PATTERN.test(text)) throw new JsonStreamError(`Invalid number "${text}"`, start, 'invalid-number');
+        return this.losslessNumbers ? toLosslessNumber(text) : Number(text);
+    }
+
+    private matchLiteral(literal: string): boolean {
+        for (let i = 0; i < literal.length; i++) {
+            if (this.bytes[this.pos + i] !== literal.charCodeAt(i)) return false;
+        }
+        this.pos += literal.length;
+        return true;
+    }
+}
@@ -1,24 +1,33 @@
 import type { JsonValue, JsonNode } from '../types/json';
 import { logger } from './logger';
+import { childPointer } from './nodePath';
+import { isLosslessNumber } from './losslessNumber';
 
 export const getValueType = (
     value: JsonValue
 ): 'string' | 'number' | 'boolean' | 'null' | 'array' | 'object' => {
     if (value === null) return 'null';
     if (Array.isArray(value)) return 'array';
+    if (isLosslessNumber(value)) return 'number';
     return typeof value as 'string' | 'number' | 'boolean' | 'object';
 };
 
+/**
+ * Builds the node tree of `data`. Node paths are JSON Pointers appended to
+ * `rootPath`, so a tree shown inside another one can be given its own prefix.
+ */
 export const buildJsonTree = (
     data: JsonValue,
-    initialKey: string = 'root'
+    initialKey: string = 'root',
+    rootPath: string = ''
 ): JsonNode => {
     const type = getValueType(data);
     const rootNode: JsonNode = {
         key: initialKey,
         value: data,
         type,
-        path: initialKey,
+        path: rootPath,
+        segments: [],
         isExpanded: false,
     };
 
@@ -30,7 +39,7 @@ export const buildJsonTree = (
 
     while (stack.length > 0) {
         const { node, data: currentData } = stack.pop()!;
-        const currentPath = node.path;
+        const { path: currentPath, segments: currentSegments } = node;
 
         if (node.type === 'object' && currentData !== null) {
             node.children = [];
@@ -43,7 +52,8 @@ export const buildJsonTree = (
                     key: childKey,
                     value: childValue,
                     type: childType,
-                    path: `${currentPath}.${childKey}`,
+                    path: childPointer(currentPath, childKey),
+                    segments: [...currentSegments, childKey],
                     isExpanded: false,
                 };
                 node.children.unshift(childNode);
@@ -61,7 +71,8 @@ export const buildJsonTree = (
                     key: `[${i}]`,
                     value: item,
                     type: childType,
-                    path: `${currentPath}.[${i}]`,
+                    path: childPointer(currentPath, i),
+                    segments: [...currentSegments, i],
                     isExpanded: false,
                 };
                 node.children.unshift(childNode);
@@ -75,6 +86,60 @@ export const buildJsonTree = (
     return rootNode;
 };
 
+/**
+ * Returns a copy of `tree` where the node at `path` has the given children.
+ * Only the ancestors of that node are cloned; every other subtree is shared.
+ */
+export const replaceNodeChildren = (tree: JsonNode, path: string, children: JsonNode[]): JsonNode => {
+    if (tree.path === path) {
+        return { ...tree, children, childCount: children.length, lazy: false };
+    }
+    if (!tree.children || !path.startsWith(`${tree.path}/`)) {
+        return tree;
+    }
+    let changed = false;
+    const nextChildren = tree.children.map((child) => {
+        const next = replaceNodeChildren(child, path, children);
+        if (next !== child) changed = true;
+        return next;
+    });
+    return changed ? { ...tree, children: nextChildren } : tree;
+};
+
+/**
+ * Finds expanded nodes of a streamed tree whose children have not been
+ * materialised yet. Only expanded branches are walked.
+ */
+export const findPendingLazyPaths = (tree: JsonNode, expandedPaths: Set<string>): string[] => {
+    const pending: string[] = [];
+    const stack: JsonNode[] = [tree];
+    while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (!expandedPaths.has(node.path)) continue;
+        if (node.lazy) {
+            pending.push(node.path);
+        } else if (node.children) {
+            stack.push(...node.children);
+        }
+    }
+    return pending;
+};
+
+/**
+ * True when no node of `tree` has `path`. Paths below a streamed node whose
+ * children are not loaded yet are not known to be missing.
+ */
+export const isPathMissing = (tree: JsonNode, path: string): boolean => {
+    let node = tree;
+    while (node.path !== path) {
+        if (node.lazy) return false;
+        const next = node.children?.find((child) => path === child.path || path.startsWith(`${child.path}/`));
+        if (!next) return true;
+        node = next;
+    }
+    return false;
+};
+
 export const searchJsonTree = (node: JsonNode, query: string): boolean => {
     const lowerQuery = query.toLowerCase();
 
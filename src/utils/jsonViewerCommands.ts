@@ -0,0 +1,20 @@
+/**
+ * Commands the command palette runs in the JSON Viewer. The palette belongs
+ * to the layout, not the viewer, so commands travel as a window event that
+ * the active viewer tab listens for.
+ */
+export type JsonViewerCommand = 'format' | 'minify' | 'sort-keys' | 'canonicalize';
+
+const COMMAND_EVENT = 'devdesk:json-viewer-command';
+
+export const runJsonViewerCommand = (command: JsonViewerCommand): void => {
+    window.dispatchEvent(new CustomEvent(COMMAND_EVENT, { detail: { command } }));
+};
+
+export const onJsonViewerCommand = (listener: (command: JsonViewerCommand) => void): (() => void) => {
+    const handleCommand = (event: Event) => {
+        listener((event as CustomEvent<{ command: JsonViewerCommand }>).detail.command);
+    };
+    window.addEventListener(COMMAND_EVENT, handleCommand);
+    return () => window.removeEventListener(COMMAND_EVENT, handleCommand);
+};
@@ -0,0 +1,94 @@
+import type { JsonValue, LosslessNumber, LosslessNumberKind } from '../types/json';
+
+/**
+ * Lossless numbers: number literals a JS `number` cannot hold exactly.
+ *
+ * `JSON.parse` rounds 64-bit IDs (`9007199254740993` becomes
+ * `9007199254740992`) and decimals with more than ~17 significant digits. In
+ * lossless mode the parsers keep such literals as their source text in a
+ * `String` object instead. `JSON.parse` never produces String objects and
+ * `postMessage` keeps them, so they are recognised on both sides of a worker
+ * and `stringifyJson` writes them back as the original digits. Numbers that
+ * round-trip through `number` stay plain numbers.
+ */
+
+// A private-use character: JSON.stringify leaves it unescaped and documents do not use it.
+const LOSSLESS_MARKER = '\uE000';
+const MARKED_NUMBER = /"\uE000([^"]*)\uE000"/g;
+
+export const isLosslessNumber = (value: unknown): value is LosslessNumber => value instanceof String;
+
+export const losslessNumberKind = (value: LosslessNumber): LosslessNumberKind =>
+    /[.eE]/.test(value.valueOf()) ? 'decimal' : 'bigint';
+
+/** Significant digits and exponent of a decimal literal, so `1.50e2` and `150` compare equal. */
+const normalizeLiteral = (text: string): string => {
+    const match = /^([-+]?)(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?$/.exec(text);
+    if (!match) return text;
+    const [, sign, integer, fraction = '', exponent = '0'] = match;
+    const digits = `${integer}${fraction}`;
+    const leadingZeros = digits.length - digits.replace(/^0+/, '').length;
+    const significant = digits.slice(leadingZeros).replace(/0+$/, '');
+    if (!significant) return '0';
+    return `${sign === '-' ? '-' : ''}${significant}e${Number(exponent) + integer.length - leadingZeros}`;
+};
+
+/** True when `Number(text)` does not read back as the same number. */
+export const isUnsafeNumberLiteral = (text: string): boolean => {
+    const number = Number(text);
+    if (!Number.isFinite(number)) return true;
+    if (/^[-+]?\d+$/.test(text)) return !Number.isSafeInteger(number);
+    return normalizeLiteral(text) !== normalizeLiteral(String(number));
+};
+
+/** A JSON number literal as a `number`, or as a `LosslessNumber` when that would round it. */
+export const toLosslessNumber = (text: string): number | LosslessNumber =>
+    isUnsafeNumberLiteral(text) ? new String(text) as unknown as LosslessNumber : Number(text);
+
+/**
+ * `JSON.stringify` that writes lossless numbers as their digits. Without
+ * lossless numbers in `value` the output is the same as `JSON.stringify`.
+ */
+export const stringifyJson = (value: JsonValue, space?: string | number): string => {
+    let marked = false;
+    const text = JSON.stringify(value, (_key, item: unknown) => {
+        if (!isLosslessNumber(item)) return item;
+        marked = true;
+        return `${LOSSLESS_MARKER}${item.valueOf()}${LOSSLESS_MARKER}`;
+    }, space);
+    return marked ? text.replace(MARKED_NUMBER, '$1') : text;
+};
+
+/**
+ * `value` with every lossless number replaced by `replace(number)`.
+ * Unchanged parts are shared with `value`; without lossless numbers `value`
+ * itself is returned.
+ */
+export const mapLosslessNumbers = (value: JsonValue, replace: (number: LosslessNumber) => unknown): unknown => {
+    if (isLosslessNumber(value)) return replace(value);
+    if (Array.isArray(value)) {
+        let copy: unknown[] | null = null;
+        value.forEach((item, index) => {
+            const mapped = mapLosslessNumbers(item, replace);
+            if (mapped === item) return;
+            copy ??= value.slice();
+            copy[index] = mapped;
+        });
+        return copy ?? value;
+    }
+    if (value !== null && typeof value === 'object') {
+        let copy: Record<string, unknown> | null = null;
+        for (const [key, item] of Object.entries(value)) {
+            const mapped = mapLosslessNumbers(item, replace);
+            if (mapped === item) continue;
+            copy ??= { ...value };
+            copy[key] = mapped;
+        }
+        return copy ?? value;
+    }
+    return value;
+};
+
+/** `value` with lossless numbers read as (rounded) numbers, for queries, schemas and statistics. */
+export const toPlainNumbers = (value: JsonValue): JsonValue =>
+    mapLosslessNumbers(value, (number) => Number(number.valueOf())) as JsonValue;
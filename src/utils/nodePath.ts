@@ -0,0 +1,114 @@
+import type { JsonPathSegment, JsonValue } from '../types/json';
+import { isLosslessNumber } from './losslessNumber';
+
+/**
+ * Node paths.
+ *
+ * A path is a list of segments from the root: strings are object keys,
+ * numbers are array indices. Its JSON Pointer (RFC 6901) is the string form
+ * used as `JsonNode.path`; it is unique within a document whatever the keys
+ * contain, so expansion, search, highlights and lazy loading are keyed on it.
+ * The other renderers produce paths that can be pasted into code or queries.
+ */
+
+export type PathFormat = 'pointer' | 'javascript' | 'jsonpath' | 'jq';
+
+export const PATH_FORMAT_LABELS: Record<PathFormat, string> = {
+    pointer: 'JSON Pointer',
+    javascript: 'JavaScript',
+    jsonpath: 'JSONPath',
+    jq: 'jq',
+};
+
+export const escapePointerToken = (segment: JsonPathSegment) =>
+    String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+export const unescapePointerToken = (token: string) => token.replace(/~1/g, '/').replace(/~0/g, '~');
+
+/** Formats segments as a JSON Pointer (`/users/0/id`); the root is the empty string. */
+export const toJsonPointer = (segments: JsonPathSegment[]): string =>
+    segments.map((segment) => `/${escapePointerToken(segment)}`).join('');
+
+/** Pointer of the child `segment` of the node at `parent`. */
+export const childPointer = (parent: string, segment: JsonPathSegment) => `${parent}/${escapePointerToken(segment)}`;
+
+/**
+ * Pointers of every ancestor of the node at `segments`, root first, added to
+ * `into` when given; the node's own pointer is returned.
+ */
+export const collectAncestorPointers = (segments: JsonPathSegment[], into: Set<string>): string => {
+    let pointer = '';
+    for (const segment of segments) {
+        into.add(pointer);
+        pointer = childPointer(pointer, segment);
+    }
+    return pointer;
+};
+
+/** Pointers of the ancestors of `pointer`, root first; escaped tokens never contain `/`. */
+export const ancestorPointers = (pointer: string): string[] => {
+    const tokens = pointer.split('/');
+    return tokens.slice(0, -1).map((_, i) => tokens.slice(0, i + 1).join('/'));
+};
+
+/**
+ * Resolves a JSON Pointer against `root`, turning tokens that step into an
+ * array into indices. Returns null when the pointer does not lead to a value.
+ */
+export const resolveJsonPointer = (root: JsonValue, pointer: string): JsonPathSegment[] | null => {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) return null;
+    const segments: JsonPathSegment[] = [];
+    let current: JsonValue = root;
+    for (const token of pointer.slice(1).split('/').map(unescapePointerToken)) {
+        if (Array.isArray(current)) {
+            if (!/^(0|[1-9]\d*)$/.test(token) || Number(token) >= current.length) return null;
+            segments.push(Number(token));
+            current = current[Number(token)];
+        } else if (current !== null && typeof current === 'object' && !isLosslessNumber(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+            segments.push(token);
+            current = current[token];
+        } else {
+            return null;
+        }
+    }
+    return segments;
+};
+
+const JS_IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const JQ_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** `data.users[0]["first name"]` */
+export const toJavaScriptAccessor = (segments: JsonPathSegment[], root = 'data'): string =>
+    segments.reduce<string>((path, segment) => {
+        if (typeof segment === 'number') return `${path}[${segment}]`;
+        return JS_IDENTIFIER.test(segment) ? `${path}.${segment}` : `${path}[${JSON.stringify(segment)}]`;
+    }, root);
+
+/** `$.users[0]['first name']` */
+export const toJsonPathExpression = (segments: JsonPathSegment[]): string =>
+    segments.reduce<string>((path, segment) => {
+        if (typeof segment === 'number') return `${path}[${segment}]`;
+        if (JS_IDENTIFIER.test(segment)) return `${path}.${segment}`;
+        return `${path}['${segment.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+    }, '$');
+
+/** `.users[0]["first name"]`; the root is `.` */
+export const toJqPath = (segments: JsonPathSegment[]): string => {
+    const path = segments.reduce<string>((acc, segment) => {
+        if (typeof segment === 'number') return `${acc}[${segment}]`;
+        if (JQ_IDENTIFIER.test(segment)) return `${acc}.${segment}`;
+        return `${acc}${acc === '' ? '.' : ''}[${JSON.stringify(segment)}]`;
+    }, '');
+    if (path === '') return '.';
+    return path.startsWith('[') ? `.${path}` : path;
+};
+
+export const formatNodePath = (segments: JsonPathSegment[], format: PathFormat): string => {
+    switch (format) {
+        case 'javascript': return toJavaScriptAccessor(segments);
+        case 'jsonpath': return toJsonPathExpression(segments);
+        case 'jq': return toJqPath(segments);
+        default: return toJsonPointer(segments);
+    }
+};
@@ -0,0 +1,60 @@
+import { WorkerManager } from './WorkerManager';
+import { JSON_VIEWER } from '../constants';
+
+type ParserWorker = WorkerManager<unknown, unknown>;
+
+interface Lease {
+    worker: ParserWorker;
+    /** Called when the worker is taken away; the tab's document is gone with it */
+    onEvict: () => void;
+}
+
+/**
+ * Parser workers shared by the JSON Viewer tabs.
+ *
+ * `jsonParser.worker` keeps the last parsed document for search, queries and
+ * edits, so every tab leases its own worker and switching tabs needs no
+ * reparse. Leases are kept in least-recently-used order; leasing more than
+ * `JSON_VIEWER.MAX_PARSER_WORKERS` terminates the oldest one.
+ */
+class ParserWorkerPool {
+    private leases = new Map<string, Lease>();
+
+    /** The tab's worker, created (and an old lease evicted) when it has none. */
+    acquire(tabId: string, onEvict: () => void): ParserWorker {
+        const lease = this.leases.get(tabId);
+        if (lease) {
+            this.touch(tabId);
+            return lease.worker;
+        }
+
+        while (this.leases.size >= JSON_VIEWER.MAX_PARSER_WORKERS) {
+            const [oldestId, oldest] = this.leases.entries().next().value!;
+            this.leases.delete(oldestId);
+            oldest.worker.terminate();
+            oldest.onEvict();
+        }
+
+        const worker = new WorkerManager<unknown, unknown>(
+            () => new Worker(new URL('../workers/jsonParser.worker.ts', import.meta.url), { type: 'module' })
+        );
+        this.leases.set(tabId, { worker, onEvict });
+        return worker;
+    }
+
+    /** Marks the tab's worker as most recently used. */
+    touch(tabId: string): void {
+        const lease = this.leases.get(tabId);
+        if (!lease) return;
+        this.leases.delete(tabId);
+        this.leases.set(tabId, lease);
+    }
+
+    /** Terminates the tab's worker, e.g. when the tab is closed. */
+    release(tabId: string): void {
+        this.leases.get(tabId)?.worker.terminate();
+        this.leases.delete(tabId);
+    }
+}
+
+export const parserWorkerPool = new ParserWorkerPool();
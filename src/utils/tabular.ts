@@ -0,0 +1,57 @@
+import type { JsonValue } from '../types/json';
+import { isLosslessNumber, stringifyJson } from './losslessNumber';
+
+/**
+ * JSON → table row shaping shared by the converter workers and the JSON
+ * Viewer's table view, so a slice looks the same in the viewer as in the
+ * exported file. Lossless numbers become their digits as text, so cells keep
+ * every digit.
+ */
+
+type JsonContainer = JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * Flattens nested objects into dotted keys (`address.city`); arrays are kept
+ * as JSON text. A value that is not an object becomes a `value` column.
+ */
+export function flattenObject(obj: JsonValue): Record<string, unknown> {
+    if (isLosslessNumber(obj)) return { value: obj.valueOf() };
+    if (obj === null || typeof obj !== 'object') return { value: obj };
+
+    const result: Record<string, unknown> = {};
+    const stack: { current: JsonContainer; prefix: string }[] = [{ current: obj, prefix: '' }];
+
+    while (stack.length > 0) {
+        const { current, prefix } = stack.pop()!;
+        for (const [k, value] of Object.entries(current)) {
+            const newKey = prefix ? `${prefix}.${k}` : k;
+
+            if (isLosslessNumber(value)) {
+                result[newKey] = value.valueOf();
+            } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+                stack.push({ current: value, prefix: newKey });
+            } else if (Array.isArray(value)) {
+                result[newKey] = stringifyJson(value);
+            } else {
+                result[newKey] = value;
+            }
+        }
+    }
+
+    return result;
+}
+
+/** Keeps top-level keys only: nested values become JSON text, primitives a `value` column. */
+export function sanitizeForTabular(data: JsonValue[]): Record<string, unknown>[] {
+    return data.map((item) => {
+        if (isLosslessNumber(item)) return { value: item.valueOf() };
+        if (typeof item !== 'object' || item === null) return { value: item };
+
+        const sanitized: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(item)) {
+            if (isLosslessNumber(value)) sanitized[key] = value.valueOf();
+            else sanitized[key] = value !== null && typeof value === 'object' ? stringifyJson(value) : value;
+        }
+        return sanitized;
+    });
+}
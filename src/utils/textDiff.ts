@@ -0,0 +1,74 @@
+import { diffChars } from 'diff';
+import type { DiffLine, DiffLineSegment } from '../types/diff';
+import { DIFF_CHECKER } from '../constants';
+
+/**
+ * Unified line diffs with character highlights.
+ *
+ * A run of removed lines directly followed by added lines is a modification:
+ * the lines are paired in order and each pair is diffed by character, so the
+ * view can mark the exact characters that changed. Pairs that have little in
+ * common (or are very long) are left to whole-line highlighting.
+ */
+
+interface LineChange {
+    value: string;
+    added?: boolean;
+    removed?: boolean;
+}
+
+const splitLines = (value: string) => value.replace(/\n$/, '').split('\n');
+
+const pushSegment = (segments: DiffLineSegment[], value: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) last.value += value;
+    else segments.push({ value, changed });
+};
+
+/** Character segments of a modified line pair, or `null` when the lines are too different. */
+const characterSegments = (left: string, right: string): { left: DiffLineSegment[]; right: DiffLineSegment[] } | null => {
+    const longest = Math.max(left.length, right.length);
+    if (longest === 0 || longest > DIFF_CHECKER.CHAR_HIGHLIGHT_MAX_LINE_LENGTH) return null;
+    const parts = diffChars(left, right);
+    const common = parts.reduce((sum, part) => (part.added || part.removed ? sum : sum + part.value.length), 0);
+    if (common / longest < DIFF_CHECKER.CHAR_HIGHLIGHT_MIN_COMMON) return null;
+    const segments = { left: [] as DiffLineSegment[], right: [] as DiffLineSegment[] };
+    for (const part of parts) {
+        if (!part.added) pushSegment(segments.left, part.value, Boolean(part.removed));
+        if (!part.removed) pushSegment(segments.right, part.value, Boolean(part.added));
+    }
+    return segments;
+};
+
+/** Lines of a `diffLines` result, with character segments on modified line pairs. */
+export const buildLineDiff = (changes: LineChange[]): DiffLine[] => {
+    const lines: DiffLine[] = [];
+    let leftLine = 1;
+    let rightLine = 1;
+
+    for (let i = 0; i < changes.length; i++) {
+        const change = changes[i];
+        if (!change.value) continue;
+        if (!change.removed && !change.added) {
+            for (const text of splitLines(change.value)) lines.push({ kind: 'unchanged', text, leftLine: leftLine++, rightLine: rightLine++ });
+            continue;
+        }
+        if (change.added) {
+            for (const text of splitLines(change.value)) lines.push({ kind: 'added', text, rightLine: rightLine++ });
+            continue;
+        }
+
+        const removed = splitLines(change.value);
+        const next = changes[i + 1];
+        const added = next?.added ? splitLines(next.value) : [];
+        if (next?.added) i += 1;
+        const pairs = removed.slice(0, added.length).map((text, index) => characterSegments(text, added[index]));
+        removed.forEach((text, index) => {
+            lines.push({ kind: 'removed', text, leftLine: leftLine++, ...(pairs[index] && { segments: pairs[index]!.left }) });
+        });
+        added.forEach((text, index) => {
+            lines.push({ kind: 'added', text, rightLine: rightLine++, ...(pairs[index] && { segments: pairs[index]!.right }) });
+        });
+    }
+    return lines;
+};
@@ -0,0 +1,184 @@
+import { diffArrays } from 'diff';
+import type { MergeHunk, MergeResolution } from '../types/diff';
+
+/**
+ * Line-based three-way merge (diff3).
+ *
+ * Both versions are diffed against the common base. Changes that overlap or
+ * touch in the base form one hunk: a change on one side only is taken as is,
+ * the same change on both sides once, and different changes are a conflict.
+ * Unresolved conflicts are written with Git's diff3-style markers.
+ */
+
+/** Lines `baseStart`..`baseEnd` of the base were replaced by `sideStart`..`sideEnd` of one version. */
+interface ChangeRegion {
+    baseStart: number;
+    baseEnd: number;
+    sideStart: number;
+    sideEnd: number;
+}
+
+const changeRegions = (base: string[], side: string[]): ChangeRegion[] => {
+    const regions: ChangeRegion[] = [];
+    let baseIndex = 0;
+    let sideIndex = 0;
+    for (const part of diffArrays(base, side)) {
+        const count = part.value.length;
+        if (!part.added && !part.removed) {
+            baseIndex += count;
+            sideIndex += count;
+            continue;
+        }
+        // A removal directly followed by an addition is one replacement.
+        let region = regions[regions.length - 1];
+        if (!region || region.baseEnd !== baseIndex || region.sideEnd !== sideIndex) {
+            region = { baseStart: baseIndex, baseEnd: baseIndex, sideStart: sideIndex, sideEnd: sideIndex };
+            regions.push(region);
+        }
+        if (part.removed) baseIndex += count;
+        else sideIndex += count;
+        region.baseEnd = baseIndex;
+        region.sideEnd = sideIndex;
+    }
+    return regions;
+};
+
+/** One version's lines for base lines `start`..`end`, given its changes within that range. */
+const sideLines = (base: string[], side: string[], regions: ChangeRegion[], start: number, end: number): string[] => {
+    const lines: string[] = [];
+    let position = start;
+    for (const region of regions) {
+        lines.push(...base.slice(position, region.baseStart), ...side.slice(region.sideStart, region.sideEnd));
+        position = region.baseEnd;
+    }
+    lines.push(...base.slice(position, end));
+    return lines;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+/** Hunks of merging `ours` and `theirs`, both edited from `base`, in document order. */
+export const mergeThreeWay = (baseText: string, oursText: string, theirsText: string): MergeHunk[] => {
+    const base = baseText.split('\n');
+    const ours = oursText.split('\n');
+    const theirs = theirsText.split('\n');
+    const oursRegions = changeRegions(base, ours);
+    const theirsRegions = changeRegions(base, theirs);
+    const hunks: MergeHunk[] = [];
+    let position = 0;
+    let i = 0;
+    let j = 0;
+
+    const pushUnchanged = (end: number) => {
+        if (end <= position) return;
+        const lines = base.slice(position, end);
+        hunks.push({ kind: 'unchanged', baseLine: position + 1, base: lines, ours: lines, theirs: lines });
+    };
+
+    while (i < oursRegions.length || j < theirsRegions.length) {
+        const start = Math.min(oursRegions[i]?.baseStart ?? Infinity, theirsRegions[j]?.baseStart ?? Infinity);
+        let end = start;
+        const oursGroup: ChangeRegion[] = [];
+        const theirsGroup: ChangeRegion[] = [];
+        let grown = true;
+        while (grown) {
+            grown = false;
+            if (i < oursRegions.length && oursRegions[i].baseStart <= end) {
+                end = Math.max(end, oursRegions[i].baseEnd);
+                oursGroup.push(oursRegions[i++]);
+                grown = true;
+            }
+            if (j < theirsRegions.length && theirsRegions[j].baseStart <= end) {
+                end = Math.max(end, theirsRegions[j].baseEnd);
+                theirsGroup.push(theirsRegions[j++]);
+                grown = true;
+            }
+        }
+
+        pushUnchanged(start);
+        const oursLines = sideLines(base, ours, oursGroup, start, end);
+        const theirsLines = sideLines(base, theirs, theirsGroup, start, end);
+        const kind = theirsGroup.length === 0
+            ? 'ours'
+            : oursGroup.length === 0
+                ? 'theirs'
+                : sameLines(oursLines, theirsLines) ? 'same' : 'conflict';
+        hunks.push({ kind, baseLine: start + 1, base: base.slice(start, end), ours: oursLines, theirs: theirsLines });
+        position = end;
+    }
+    pushUnchanged(base.length);
+    return hunks;
+};
+
+/** The resolution a hunk starts with; conflicts start unresolved. */
+export const defaultMergeResolution = (hunk: MergeHunk): MergeResolution | null => {
+    if (hunk.kind === 'conflict') return null;
+    return hunk.kind === 'theirs' ? 'theirs' : 'ours';
+};
+
+/** Lines a hunk contributes to the merged document under `resolution`. */
+const resolvedLines = (hunk: MergeHunk, resolution: MergeResolution | null): string[] => {
+    if (hunk.kind === 'unchanged') return hunk.base;
+    if (resolution === 'ours') return hunk.ours;
+    if (resolution === 'theirs') return hunk.theirs;
+    if (resolution === 'both') return [...hunk.ours, ...hunk.theirs];
+    return ['<<<<<<< ours', ...hunk.ours, '||||||| base', ...hunk.base, '=======', ...hunk.theirs, '>>>>>>> theirs'];
+};
+
+/** The merged document; unresolved conflicts keep both versions between conflict markers. */
+export const buildMergedText = (hunks: MergeHunk[], resolutions: Array<MergeResolution | null>): string =>
+    hunks.flatMap((hunk, index) => resolvedLines(hunk, resolutions[index])).join('\n');
+
+/** Lines of context around a hunk that tell its place in an edited merge result */
+const HUNK_CONTEXT_LINES = 3;
+
+/**
+ * Re-resolves hunk `index` inside `text`, a merge result that may have been
+ * edited by hand, so edits elsewhere are kept. The hunk's current lines are
+ * looked up by content; when they occur more than once, the occurrence whose
+ * surrounding lines best match the neighbouring hunks wins. Returns null when
+ * no single place is found (the hunk itself was edited).
+ */
+export const replaceMergeHunk = (
+    text: string,
+    hunks: MergeHunk[],
+    resolutions: Array<MergeResolution | null>,
+    index: number,
+    resolution: MergeResolution
+): string | null => {
+    const before = hunks.slice(0, index).flatMap((hunk, i) => resolvedLines(hunk, resolutions[i]));
+    const after = hunks.slice(index + 1).flatMap((hunk, i) => resolvedLines(hunk, resolutions[index + 1 + i]));
+    const current = resolvedLines(hunks[index], resolutions[index]);
+    const lines = text.split('\n');
+
+    // Context lines matching outwards from the hunk, on both sides.
+    const contextScore = (start: number) => {
+        let score = 0;
+        for (let i = 1; i <= HUNK_CONTEXT_LINES && i <= before.length && lines[start - i] === before[before.length - i]; i++) score++;
+        const end = start + current.length;
+        for (let i = 0; i < HUNK_CONTEXT_LINES && i < after.length && lines[end + i] === after[i]; i++) score++;
+        return score;
+    };
+
+    let found = -1;
+    let best = -1;
+    let isTied = false;
+    for (let start = 0; start + current.length <= lines.length; start++) {
+        if (!current.every((line, offset) => lines[start + offset] === line)) continue;
+        const score = contextScore(start);
+        if (score > best) {
+            found = start;
+            best = score;
+            isTied = false;
+        } else if (score === best) {
+            isTied = true;
+        }
+    }
+    // An empty hunk can only be placed by its context.
+    if (found === -1 || isTied || (current.length === 0 && best === 0)) return null;
+    return [
+        ...lines.slice(0, found),
+        ...resolvedLines(hunks[index], resolution),
+        ...lines.slice(found + current.length),
+    ].join('\n');
+};
@@ -0,0 +1,230 @@
+import type { JsonNode } from '../types/json';
+import { ancestorPointers } from './nodePath';
+import { isDecodedPath, type DecodedValue } from './valueDecoders';
+
+/**
+ * Row model of the virtualized JSON tree.
+ *
+ * The visible tree is flattened into one row per node. Large arrays and
+ * objects show a window of their children with paging rows before / after
+ * it, so every element stays reachable without rendering all of them.
+ *
+ * A decoded string value (see `valueDecoders.ts`) gets one child row that
+ * holds the decoded sub-tree. That row is expanded unless collapsed.
+ *
+ * `FlatRowCache` keeps the last rows. When only a few nodes were expanded,
+ * collapsed or paged, it re-flattens just their subtrees.
+ */
+
+/** Range of a container's children that is rendered: `[start, end)` */
+export interface ChildWindow {
+    start: number;
+    end: number;
+}
+
+export interface FlatNode {
+    node: JsonNode;
+    depth: number;
+    hasChildren: boolean;
+    path: string;
+    /** Container the node belongs to; absent for the root and placeholder rows */
+    parent?: { type: JsonNode['type']; index: number; count: number };
+    /** Loading / paging rows that do not correspond to a value; their paths never start with `/` */
+    placeholder?: boolean;
+    /** Paging controls for `container`'s children, shown before or after the rendered window */
+    pager?: { position: 'before' | 'after'; container: JsonNode; window: ChildWindow; count: number };
+    /** Part of a decoded sub-tree: read-only and not addressable in the document */
+    decoded?: boolean;
+}
+
+type RowSeed = Omit<FlatNode, 'hasChildren' | 'path'>;
+
+interface FlattenOptions {
+    isExpanded: (path: string) => boolean;
+    windowOf: (path: string, count: number) => ChildWindow;
+    decodedOf: (node: JsonNode) => JsonNode | undefined;
+}
+
+/** Window covering the page that contains child `index`. */
+export const pageAround = (index: number, count: number, pageSize: number): ChildWindow => {
+    const start = Math.floor(index / pageSize) * pageSize;
+    return { start, end: Math.min(count, start + pageSize) };
+};
+
+/** The stored window for a container, clamped to its current child count. */
+export const resolveWindow = (stored: ChildWindow | undefined, count: number, pageSize: number): ChildWindow => {
+    if (!stored) return { start: 0, end: Math.min(count, pageSize) };
+    if (stored.start < count) return { start: stored.start, end: Math.min(stored.end, count) };
+    // The container shrank past the window (e.g. after an edit): show its last page.
+    return pageAround(Math.max(0, count - 1), count, pageSize);
+};
+
+const hasVisibleChildren = (node: JsonNode) =>
+    Boolean(node.children && node.children.length > 0) || Boolean(node.lazy && node.childCount);
+
+/** Appends the row for `seed` and the rows of its visible descendants. */
+const flattenSubtree = (rows: FlatNode[], seed: RowSeed, options: FlattenOptions) => {
+    const stack: RowSeed[] = [seed];
+
+    while (stack.length > 0) {
+        const entry = stack.pop()!;
+        const { node, depth } = entry;
+        const decoded = entry.placeholder ? undefined : options.decodedOf(node);
+        const hasChildren = !entry.placeholder && (hasVisibleChildren(node) || Boolean(decoded));
+        rows.push({ ...entry, hasChildren, path: node.path });
+        if (decoded) {
+            stack.push({ node: decoded, depth: depth + 1, decoded: true });
+            continue;
+        }
+        if (!hasChildren || !options.isExpanded(node.path)) continue;
+
+        // Streamed nodes are materialised by the worker after expansion.
+        if (node.lazy) {
+            stack.push({
+                node: { key: 'Loading…', value: '', type: 'null', path: `loading:${node.path}`, segments: node.segments },
+                depth: depth + 1,
+                placeholder: true
+            });
+        } else if (node.children) {
+            const count = node.children.length;
+            const window = options.windowOf(node.path, count);
+            const pager = (position: 'before' | 'after'): RowSeed => ({
+                node: { key: '', value: '', type: 'null', path: `page-${position}:${node.path}`, segments: node.segments },
+                depth: depth + 1,
+                placeholder: true,
+                pager: { position, container: node, window, count },
+            });
+
+            // Pushed in reverse so rows come off the stack in document order.
+            if (window.end < count) stack.push(pager('after'));
+            for (let i = window.end - 1; i >= window.start; i--) {
+                stack.push({ node: node.children[i], depth: depth + 1, parent: { type: node.type, index: i, count }, decoded: entry.decoded });
+            }
+            if (window.start > 0) stack.push(pager('before'));
+        }
+    }
+};
+
+/** Index just past the rows of the subtree whose root row is at `index`. */
+const subtreeEnd = (rows: FlatNode[], index: number) => {
+    const depth = rows[index].depth;
+    let end = index + 1;
+    while (end < rows.length && rows[end].depth > depth) end++;
+    return end;
+};
+
+type PathKeyed = Set<string> | Map<string, unknown>;
+
+/**
+ * Adds the paths whose entry differs between two path sets / maps to
+ * `changed`; returns false once more than `limit` paths changed.
+ */
+const collectChanges = (previous: PathKeyed, next: PathKeyed, changed: Set<string>, limit: number): boolean => {
+    if (previous === next) return true;
+    const entryOf = (keyed: PathKeyed, path: string) => (keyed instanceof Map ? keyed.get(path) : keyed.has(path));
+    for (const [from, other] of [[next, previous], [previous, next]] as const) {
+        for (const path of from.keys()) {
+            if (entryOf(from, path) !== entryOf(other, path)) changed.add(path);
+            if (changed.size > limit) return false;
+        }
+    }
+    return true;
+};
+
+const MAX_INCREMENTAL_CHANGES = 64;
+
+export interface FlattenState {
+    data: JsonNode;
+    defaultExpanded: boolean;
+    expanded: Set<string>;
+    windows: Map<string, ChildWindow>;
+    pageSize: number;
+    /** Decoded string values by the string node's path */
+    decoded: Map<string, DecodedValue>;
+    /** Collapsed containers inside decoded sub-trees, which are expanded by default */
+    collapsedDecoded: Set<string>;
+}
+
+export class FlatRowCache {
+    private last: (FlattenState & { rows: FlatNode[] }) | null = null;
+
+    rows(state: FlattenState): FlatNode[] {
+        const { data, defaultExpanded, expanded, windows, pageSize, decoded, collapsedDecoded } = state;
+        const options: FlattenOptions = {
+            isExpanded: (path) => (isDecodedPath(path) ? !collapsedDecoded.has(path) : defaultExpanded || expanded.has(path)),
+            windowOf: (path, count) => resolveWindow(windows.get(path), count, pageSize),
+            // A decoding is dropped once the value it was made from has been edited.
+            decodedOf: (node) => {
+                const entry = decoded.get(node.path);
+                return entry && entry.source === node.value ? entry.tree : undefined;
+            },
+        };
+
+        const last = this.last;
+        let rows: FlatNode[] | null = null;
+        if (last && last.data === data && last.defaultExpanded === defaultExpanded && last.pageSize === pageSize) {
+            const changed = new Set<string>();
+            const incremental = collectChanges(last.expanded, expanded, changed, MAX_INCREMENTAL_CHANGES)
+                && collectChanges(last.windows, windows, changed, MAX_INCREMENTAL_CHANGES)
+                && collectChanges(last.decoded, decoded, changed, MAX_INCREMENTAL_CHANGES)
+                && collectChanges(last.collapsedDecoded, collapsedDecoded, changed, MAX_INCREMENTAL_CHANGES);
+            if (incremental) rows = changed.size === 0 ? last.rows : this.reflatten(last.rows, changed, options);
+        }
+        if (!rows) {
+            rows = [];
+            flattenSubtree(rows, { node: data, depth: 0 }, options);
+        }
+
+        this.last = { ...state, rows };
+        return rows;
+    }
+
+    /**
+     * Copies the previous rows, re-flattening the subtree of every visible
+     * changed node. Changed nodes that are not visible either sit under a
+     * collapsed node (no effect) or under another changed node (re-flattened
+     * with it).
+     */
+    private reflatten(previous: FlatNode[], changed: Set<string>, options: FlattenOptions): FlatNode[] {
+        const rows: FlatNode[] = [];
+        let cursor = 0;
+        for (let i = 0; i < previous.length; i++) {
+            const row = previous[i];
+            if (row.placeholder || !changed.has(row.path)) continue;
+            for (let j = cursor; j < i; j++) rows.push(previous[j]);
+            flattenSubtree(rows, { node: row.node, depth: row.depth, parent: row.parent, decoded: row.decoded }, options);
+            cursor = subtreeEnd(previous, i);
+            i = cursor - 1;
+        }
+        for (let j = cursor; j < previous.length; j++) rows.push(previous[j]);
+        return rows;
+    }
+}
+
+/**
+ * Windows that bring the node at `path` into the rendered rows, or null when
+ * no window has to move (or the path is not in the tree).
+ */
+export const revealInWindows = (
+    root: JsonNode,
+    path: string,
+    windows: Map<string, ChildWindow>,
+    pageSize: number
+): Map<string, ChildWindow> | null => {
+    if (path === '') return null;
+    let node = root;
+    let next: Map<string, ChildWindow> | null = null;
+    for (const pointer of [...ancestorPointers(path).slice(1), path]) {
+        const children = node.children;
+        if (!children) return next;
+        const index = children.findIndex((child) => child.path === pointer);
+        if (index === -1) return next;
+        const window = resolveWindow(windows.get(node.path), children.length, pageSize);
+        if (index < window.start || index >= window.end) {
+            next ??= new Map(windows);
+            next.set(node.path, pageAround(index, children.length, pageSize));
+        }
+        node = children[index];
+    }
+    return next;
+};
@@ -0,0 +1,244 @@
+import type { InferredTypes, JsonValue } from '../types/json';
+
+/**
+ * Infers types from a JSON document.
+ *
+ * Every value is folded into a `Shape`: array elements are merged into one
+ * item shape, object fields remember how many of their parents had them
+ * (fewer than all means optional), and a shape that saw several kinds becomes
+ * a union; `null` alongside another kind reads as nullable. The shape is then
+ * printed as a JSON Schema (2020-12), TypeScript declarations and Zod schemas.
+ */
+
+type Kind = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null';
+
+interface Shape {
+    kinds: Set<Kind>;
+    /** Number of objects merged into this shape, to tell optional fields apart */
+    objectCount: number;
+    /** Number of values merged into this shape */
+    count: number;
+    fields: Map<string, Shape>;
+    /** Merged array elements; null while only empty arrays were seen */
+    items: Shape | null;
+    /** Format shared by every string seen; undefined before the first string, null once they disagree */
+    stringFormat: string | null | undefined;
+}
+
+const KIND_ORDER: Kind[] = ['object', 'array', 'string', 'integer', 'number', 'boolean', 'null'];
+
+const STRING_FORMATS: [string, RegExp][] = [
+    ['date-time', /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/],
+    ['date', /^\d{4}-\d{2}-\d{2}$/],
+    ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+    ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+    ['uri', /^https?:\/\/\S+$/i],
+];
+
+const createShape = (): Shape => ({
+    kinds: new Set(),
+    objectCount: 0,
+    count: 0,
+    fields: new Map(),
+    items: null,
+    stringFormat: undefined,
+});
+
+const detectFormat = (value: string): string | null =>
+    STRING_FORMATS.find(([, pattern]) => pattern.test(value))?.[0] ?? null;
+
+const addValue = (shape: Shape, value: JsonValue) => {
+    shape.count++;
+    if (value === null) {
+        shape.kinds.add('null');
+    } else if (Array.isArray(value)) {
+        shape.kinds.add('array');
+        for (const item of value) {
+            shape.items ??= createShape();
+            addValue(shape.items, item);
+        }
+    } else if (typeof value === 'object') {
+        shape.kinds.add('object');
+        shape.objectCount++;
+        for (const [key, child] of Object.entries(value)) {
+            let field = shape.fields.get(key);
+            if (!field) {
+                field = createShape();
+                shape.fields.set(key, field);
+            }
+            addValue(field, child);
+        }
+    } else if (typeof value === 'number') {
+        shape.kinds.add(Number.isInteger(value) ? 'integer' : 'number');
+    } else if (typeof value === 'string') {
+        shape.kinds.add('string');
+        const format = detectFormat(value);
+        shape.stringFormat = shape.stringFormat === undefined || shape.stringFormat === format ? format : null;
+    } else {
+        shape.kinds.add('boolean');
+    }
+};
+
+/** Kinds in a stable order, with integer folded into number when both occur. */
+const kindsOf = (shape: Shape): Kind[] =>
+    KIND_ORDER.filter((kind) => shape.kinds.has(kind) && !(kind === 'integer' && shape.kinds.has('number')));
+
+const isOptional = (parent: Shape, field: Shape) => field.count < parent.objectCount;
+
+const isIdentifier = (key: string) => /^[A-Za-z_$][\w$]*$/.test(key);
+
+const propertyKey = (key: string) => (isIdentifier(key) ? key : JSON.stringify(key));
+
+const toTypeName = (hint: string): string => {
+    const name = hint
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word[0].toUpperCase() + word.slice(1))
+        .join('');
+    if (!name) return 'Item';
+    return /^\d/.test(name) ? `T${name}` : name;
+};
+
+/** Name for the elements of an array called `hint` (`users` -> `User`). */
+const singularize = (hint: string): string => {
+    if (/ies$/i.test(hint)) return hint.replace(/ies$/i, 'y');
+    if (/(ss|us|is)$/i.test(hint)) return `${hint}Item`;
+    if (/s$/i.test(hint)) return hint.slice(0, -1);
+    return `${hint}Item`;
+};
+
+/**
+ * Hands out unique declaration names and reuses a name when an identical
+ * declaration body was already emitted.
+ */
+class DeclarationTable {
+    readonly declarations: string[] = [];
+    private readonly names = new Set<string>();
+    private readonly bySignature = new Map<string, string>();
+
+    declare(hint: string, signature: string, render: (name: string) => string): string {
+        const existing = this.bySignature.get(signature);
+        if (existing) return existing;
+        const base = toTypeName(hint);
+        let name = base;
+        for (let i = 2; this.names.has(name); i++) name = `${base}${i}`;
+        this.names.add(name);
+        this.bySignature.set(signature, name);
+        this.declarations.push(render(name));
+        return name;
+    }
+}
+
+const toJsonSchema = (shape: Shape): Record<string, JsonValue> => {
+    const variants = kindsOf(shape).map((kind): Record<string, JsonValue> => {
+        if (kind === 'object') {
+            const properties: Record<string, JsonValue> = {};
+            const required: string[] = [];
+            for (const [key, field] of shape.fields) {
+                properties[key] = toJsonSchema(field);
+                if (!isOptional(shape, field)) required.push(key);
+            }
+            return required.length > 0
+                ? { type: 'object', properties, required }
+                : { type: 'object', properties };
+        }
+        if (kind === 'array') return { type: 'array', items: shape.items ? toJsonSchema(shape.items) : {} };
+        if (kind === 'string' && shape.stringFormat) return { type: 'string', format: shape.stringFormat };
+        return { type: kind };
+    });
+    if (variants.length === 0) return {};
+    if (variants.length === 1) return variants[0];
+    if (variants.every((variant) => Object.keys(variant).length === 1)) {
+        return { type: variants.map((variant) => variant.type) };
+    }
+    return { anyOf: variants };
+};
+
+const toTypeScriptType = (shape: Shape, hint: string, table: DeclarationTable): string => {
+    const parts = kindsOf(shape).map((kind) => {
+        if (kind === 'object') {
+            if (shape.fields.size === 0) return 'Record<string, unknown>';
+            const lines = [...shape.fields].map(([key, field]) => {
+                const type = toTypeScriptType(field, key, table);
+                return `    ${propertyKey(key)}${isOptional(shape, field) ? '?' : ''}: ${type};`;
+            });
+            const body = lines.join('\n');
+            return table.declare(hint, body, (name) => `export interface ${name} {\n${body}\n}`);
+        }
+        if (kind === 'array') {
+            if (!shape.items) return 'unknown[]';
+            const item = toTypeScriptType(shape.items, singularize(hint), table);
+            return item.includes(' | ') ? `(${item})[]` : `${item}[]`;
+        }
+        return kind === 'integer' ? 'number' : kind;
+    });
+    return parts.length > 0 ? parts.join(' | ') : 'unknown';
+};
+
+const toZodType = (shape: Shape, hint: string, table: DeclarationTable): string => {
+    const kinds = kindsOf(shape);
+    const nullable = kinds.includes('null') && kinds.length === 2;
+    const parts = kinds.filter((kind) => !(nullable && kind === 'null')).map((kind) => {
+        if (kind === 'object') {
+            if (shape.fields.size === 0) return 'z.record(z.string(), z.unknown())';
+            const lines = [...shape.fields].map(([key, field]) => {
+                const type = toZodType(field, key, table);
+                return `    ${propertyKey(key)}: ${type}${isOptional(shape, field) ? '.optional()' : ''},`;
+            });
+            const body = lines.join('\n');
+            return table.declare(`${hint} Schema`, body, (name) => (
+                `export const ${name} = z.object({\n${body}\n});\n`
+                + `export type ${name.replace(/Schema(\d*)$/, '$1')} = z.infer<typeof ${name}>;`
+            ));
+        }
+        if (kind === 'array') return `z.array(${shape.items ? toZodType(shape.items, singularize(hint), table) : 'z.unknown()'})`;
+        if (kind === 'integer') return 'z.number().int()';
+        if (kind === 'string') {
+            switch (shape.stringFormat) {
+                case 'date-time': return 'z.string().datetime({ offset: true })';
+                case 'email': return 'z.string().email()';
+                case 'uuid': return 'z.string().uuid()';
+                case 'uri': return 'z.string().url()';
+                default: return 'z.string()';
+            }
+        }
+        return `z.${kind}()`;
+    });
+    if (parts.length === 0) return 'z.unknown()';
+    const type = parts.length === 1 ? parts[0] : `z.union([${parts.join(', ')}])`;
+    return nullable ? `${type}.nullable()` : type;
+};
+
+/** Infers a JSON Schema, TypeScript declarations and Zod schemas for `data`. */
+export const inferTypes = (data: JsonValue, rootName = 'Root'): InferredTypes => {
+    const shape = createShape();
+    addValue(shape, data);
+    const name = toTypeName(rootName);
+
+    const schema = {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        title: name,
+        ...toJsonSchema(shape),
+    };
+
+    const tsTable = new DeclarationTable();
+    const rootType = toTypeScriptType(shape, name, tsTable);
+    // Root declarations come first; nested ones follow in reverse discovery order.
+    const typescript = [
+        ...(rootType === name ? [] : [`export type ${name} = ${rootType};`]),
+        ...[...tsTable.declarations].reverse(),
+    ].join('\n\n');
+
+    const zodTable = new DeclarationTable();
+    const rootSchema = toZodType(shape, name, zodTable);
+    // Zod schemas must be declared before use, so nested objects come first.
+    const zod = [
+        "import { z } from 'zod';",
+        ...zodTable.declarations,
+        ...(rootSchema === `${name}Schema` ? [] : [
+            `export const ${name}Schema = ${rootSchema};\nexport type ${name} = z.infer<typeof ${name}Schema>;`,
+        ]),
+    ].join('\n\n');
+
+    return { schema: JSON.stringify(schema, null, 2), typescript: `${typescript}\n`, zod: `${zod}\n` };
+};
@@ -0,0 +1,145 @@
+import type { JsonNode, JsonValue } from '../types/json';
+import { buildJsonTree } from './jsonUtils';
+
+/**
+ * Detection of values embedded in JSON primitives.
+ *
+ * API payloads often carry stringified JSON, JWTs, base64 blobs and epoch
+ * timestamps. The tree renderer annotates such values (dates, colour
+ * swatches, links, image previews) and can decode the string ones into a
+ * read-only sub-tree shown under the node.
+ */
+
+export type EmbeddedValue =
+    /** Decodable: `value` is shown as a sub-tree */
+    | { kind: 'json' | 'jwt' | 'base64'; label: string; value: JsonValue }
+    | { kind: 'image'; src: string }
+    | { kind: 'timestamp'; iso: string; unit: 'seconds' | 'milliseconds' }
+    | { kind: 'color'; color: string }
+    | { kind: 'url'; href: string };
+
+/** A decoded string value; `source` is the value it was decoded from */
+export interface DecodedValue {
+    source: JsonValue;
+    tree: JsonNode;
+}
+
+/** Decoded sub-tree paths are `decoded:<pointer of the string>` plus pointers inside the decoded value. */
+export const DECODED_PATH_PREFIX = 'decoded:';
+
+export const isDecodedPath = (path: string) => path.startsWith(DECODED_PATH_PREFIX);
+
+// Epoch values between 2000-01-01 and 2100-01-01.
+const EPOCH_MIN_SECONDS = 946_684_800;
+const EPOCH_MAX_SECONDS = 4_102_444_800;
+
+const JWT_PATTERN = /^[A-Za-z0-9_-]{2,}\.[A-Za-z0-9_-]{2,}\.[A-Za-z0-9_-]*$/;
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})+(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const DATA_IMAGE_PATTERN = /^data:image\/(?:png|jpeg|gif|webp|svg\+xml|bmp);base64,[A-Za-z0-9+/]+=*$/;
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+const URL_PATTERN = /^https?:\/\/\S+$/;
+const MIN_BASE64_LENGTH = 16;
+
+/** Leading base64 characters of common image formats, by MIME type */
+const IMAGE_SIGNATURES: [string, string][] = [
+    ['iVBORw0KGgo', 'image/png'],
+    ['/9j/', 'image/jpeg'],
+    ['R0lGOD', 'image/gif'],
+    ['UklGR', 'image/webp'],
+];
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/** Decodes base64 (standard or URL-safe) to text; null when it is not printable UTF-8. */
+const decodeBase64Text = (encoded: string): string | null => {
+    try {
+        const normalized = encoded.replace(/-/g, '+').replace(/_/g, '/');
+        const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+        const text = utf8Decoder.decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+        // eslint-disable-next-line no-control-regex
+        return /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/.test(text) ? null : text;
+    } catch {
+        return null;
+    }
+};
+
+/** Parses text that holds a JSON object or array; other JSON values are not treated as embedded. */
+const parseJsonContainer = (text: string): JsonValue | undefined => {
+    const trimmed = text.trim();
+    const first = trimmed[0];
+    const last = trimmed[trimmed.length - 1];
+    if (!((first === '{' && last === '}') || (first === '[' && last === ']'))) return undefined;
+    try {
+        return JSON.parse(trimmed) as JsonValue;
+    } catch {
+        return undefined;
+    }
+};
+
+const isJsonObject = (value: JsonValue | undefined): value is Record<string, JsonValue> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const detectJwt = (text: string): EmbeddedValue | null => {
+    if (!JWT_PATTERN.test(text)) return null;
+    const [encodedHeader, encodedPayload] = text.split('.');
+    const headerText = decodeBase64Text(encodedHeader);
+    const payloadText = decodeBase64Text(encodedPayload);
+    const header = headerText === null ? undefined : parseJsonContainer(headerText);
+    if (!isJsonObject(header) || !('alg' in header || 'typ' in header) || payloadText === null) return null;
+    return { kind: 'jwt', label: 'decoded JWT', value: { header, payload: parseJsonContainer(payloadText) ?? payloadText } };
+};
+
+const detectString = (text: string): EmbeddedValue | null => {
+    const json = parseJsonContainer(text);
+    if (json !== undefined) return { kind: 'json', label: 'decoded JSON', value: json };
+
+    if (HEX_COLOR_PATTERN.test(text)) return { kind: 'color', color: text };
+    if (DATA_IMAGE_PATTERN.test(text)) return { kind: 'image', src: text };
+    if (URL_PATTERN.test(text)) {
+        try {
+            return { kind: 'url', href: new URL(text).href };
+        } catch {
+            return null;
+        }
+    }
+
+    const jwt = detectJwt(text);
+    if (jwt) return jwt;
+
+    if (text.length < MIN_BASE64_LENGTH || !BASE64_PATTERN.test(text)) return null;
+    const signature = IMAGE_SIGNATURES.find(([prefix]) => text.startsWith(prefix));
+    if (signature) return { kind: 'image', src: `data:${signature[1]};base64,${text}` };
+    const decoded = decodeBase64Text(text);
+    if (decoded === null) return null;
+    return { kind: 'base64', label: 'decoded base64', value: parseJsonContainer(decoded) ?? decoded };
+};
+
+const detectNumber = (value: number): EmbeddedValue | null => {
+    if (!Number.isInteger(value)) return null;
+    if (value >= EPOCH_MIN_SECONDS && value < EPOCH_MAX_SECONDS) {
+        return { kind: 'timestamp', iso: new Date(value * 1000).toISOString(), unit: 'seconds' };
+    }
+    if (value >= EPOCH_MIN_SECONDS * 1000 && value < EPOCH_MAX_SECONDS * 1000) {
+        return { kind: 'timestamp', iso: new Date(value).toISOString(), unit: 'milliseconds' };
+    }
+    return null;
+};
+
+// Rows re-render on every scroll frame; nodes are immutable, so detection is cached per node.
+const detectionCache = new WeakMap<JsonNode, EmbeddedValue | null>();
+
+/** The embedded value recognised in a string or number node, if any. */
+export const detectEmbeddedValue = (node: JsonNode): EmbeddedValue | null => {
+    if (node.type !== 'string' && node.type !== 'number') return null;
+    const cached = detectionCache.get(node);
+    if (cached !== undefined) return cached;
+    const detected = node.type === 'string' ? detectString(node.value as string) : detectNumber(node.value as number);
+    detectionCache.set(node, detected);
+    return detected;
+};
+
+/** Sub-tree of a decodable embedded value, keyed under the decoded prefix of `node`'s path. */
+export const buildDecodedValue = (node: JsonNode, embedded: Extract<EmbeddedValue, { value: JsonValue }>): DecodedValue => ({
+    source: node.value,
+    tree: buildJsonTree(embedded.value, embedded.label, `${DECODED_PATH_PREFIX}${node.path}`),
+});
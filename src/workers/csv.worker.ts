@@ -1,5 +1,9 @@
 import type { WorkerMessage, WorkerResponse, PreviewChunkPayload } from '../types/worker';
+import type { JsonInputFormat } from '../types/json';
 import Papa from 'papaparse';
+import { parseJsonDocument } from '../utils/jsonLines';
+import { parseLosslessJson } from '../utils/json5Parser';
+import { flattenObject, sanitizeForTabular } from '../utils/tabular';
 
 export interface CsvConversionRequest {
     data: string | ArrayBuffer;
@@ -8,6 +12,8 @@ export interface CsvConversionRequest {
         delimiter?: string;
         flatten?: boolean;
         overwriteRows?: any[];
+        /** JSON input only: JSON Lines records become rows */
+        inputFormat?: JsonInputFormat;
     };
 
 }
@@ -39,44 +45,6 @@ function enforceTabularLimits(rows: any[], context: string): void {
     }
 }
 
-function flattenObject(obj: any): any {
-    const result: any = {};
-    if (obj === null || typeof obj !== 'object') return obj;
-
-    const stack: { current: any; prefix: string }[] = [{ current: obj, prefix: '' }];
-
-    while (stack.length > 0) {
-        const { current, prefix } = stack.pop()!;
-        for (const k in current) {
-            if (!Object.prototype.hasOwnProperty.call(current, k)) continue;
-            const value = current[k];
-            const newKey = prefix ? `${prefix}.${k}` : k;
-
-            if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-                stack.push({ current: value, prefix: newKey });
-            } else if (Array.isArray(value)) {
-                result[newKey] = JSON.stringify(value);
-            } else {
-                result[newKey] = value;
-            }
-        }
-    }
-
-    return result;
-}
-
-function sanitizeForTabular(data: any[]): any[] {
-    return data.map((item) => {
-        if (typeof item !== 'object' || item === null) return { value: item };
-
-        const sanitized: any = {};
-        for (const [key, value] of Object.entries(item)) {
-            sanitized[key] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
-        }
-        return sanitized;
-    });
-}
-
 function toStringData(data: string | ArrayBuffer): string {
     if (data instanceof ArrayBuffer) {
         const decoder = new TextDecoder();
@@ -141,10 +109,10 @@ self.onmessage = async (e: MessageEvent<WorkerMessage<CsvConversionRequest>>) =>
             const stringData = toStringData(data);
 
             if (convType === 'json-to-csv') {
-                const jsonData = JSON.parse(stringData);
+                const { value: jsonData } = parseJsonDocument(stringData, options?.inputFormat, parseLosslessJson);
                 const normalized = Array.isArray(jsonData) ? jsonData : [jsonData];
                 const processedData = options?.flatten
-                    ? normalized.map((item: any) => flattenObject(item))
+                    ? normalized.map((item) => flattenObject(item))
                     : sanitizeForTabular(normalized);
 
                 if (options?.overwriteRows && Array.isArray(options.overwriteRows)) {
@@ -274,12 +242,9 @@ self.onmessage = async (e: MessageEvent<WorkerMessage<CsvConversionRequest>>) =>
         if (type === 'PARSE_FOR_PREVIEW' || type === 'PARSE_FOR_PREVIEW_STREAM') {
             const { data, options } = payload as any;
             const stringData = toStringData(data);
-            const jsonData = JSON.parse(stringData);
-            let processedData = Array.isArray(jsonData) ? jsonData : [jsonData];
-
-            if (options?.flatten) {
-                processedData = processedData.map((item: any) => flattenObject(item));
-            }
+            const { value: jsonData } = parseJsonDocument(stringData, options?.inputFormat, parseLosslessJson);
+            const items = Array.isArray(jsonData) ? jsonData : [jsonData];
+            const processedData = options?.flatten ? items.map((item) => flattenObject(item)) : items;
             enforceTabularLimits(processedData, 'Preview parse');
 
             if (type === 'PARSE_FOR_PREVIEW_STREAM') {
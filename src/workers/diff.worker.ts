@@ -1,11 +1,23 @@
 import type { WorkerMessage, WorkerResponse } from '../types/worker';
-import { diffLines, diffWords, diffJson } from 'diff';
+import type { DiffIgnoreRules, DiffLine, JsonDiffOptions, JsonDiffReport, MergeHunk, TextDiffMode } from '../types/diff';
+import { diffChars, diffLines, diffWords } from 'diff';
+import { parseLosslessJson } from '../utils/json5Parser';
+import { diffJsonValues } from '../utils/jsonDiff';
+import { compileIgnoreRules, hasIgnoreRules } from '../utils/diffIgnore';
+import { stringifyJson } from '../utils/losslessNumber';
+import { buildLineDiff } from '../utils/textDiff';
+import { mergeThreeWay } from '../utils/threeWayMerge';
+import { DIFF_CHECKER } from '../constants';
 
 export interface DiffRequest {
     text1: string;
     text2: string;
-    mode: 'lines' | 'words' | 'json';
+    mode: TextDiffMode | 'json';
     ignoreWhitespace?: boolean;
+    /** JSON mode: array matching */
+    jsonOptions?: JsonDiffOptions;
+    /** Paths, lines and value differences left out of the comparison */
+    ignoreRules?: DiffIgnoreRules;
 }
 
 export interface DiffResult {
@@ -15,39 +27,113 @@ export interface DiffResult {
         removed?: boolean;
         count?: number;
     }>;
+    /** Granularity actually used: long inputs fall back from words / characters to lines */
+    mode: TextDiffMode | 'json';
+    /** Line and JSON modes: unified lines, modified pairs highlighted by character */
+    lines?: DiffLine[];
+    /** JSON mode: structural comparison, absent when an input is not valid JSON */
+    json?: JsonDiffReport;
+    /** JSON mode: why the inputs were compared as text instead */
+    jsonError?: string;
+    /**
+     * The texts as compared, when they differ from the inputs: valid JSON is
+     * re-serialised, so formatting alone is no change, and ignore rules filter
+     * the inputs
+     */
+    original?: string;
+    modified?: string;
+    /** Ignore rules were active for this comparison */
+    ignoreRulesApplied?: boolean;
 }
 
-self.onmessage = (e: MessageEvent<WorkerMessage<DiffRequest>>) => {
+/** Three-way merge of two versions edited from a common base. */
+export interface MergeRequest {
+    base: string;
+    ours: string;
+    theirs: string;
+}
+
+export interface MergeResult {
+    hunks: MergeHunk[];
+    /** Hunks changed differently on both sides */
+    conflicts: number;
+}
+
+self.onmessage = (e: MessageEvent<WorkerMessage<DiffRequest | MergeRequest>>) => {
     const { type, payload, id } = e.data;
 
     try {
-        if (type === 'COMPUTE_DIFF') {
-            const { text1, text2, mode, ignoreWhitespace } = payload;
+        if (type === 'COMPUTE_MERGE') {
+            const { base, ours, theirs } = payload as MergeRequest;
+            const hunks = mergeThreeWay(base, ours, theirs);
+            const response: WorkerResponse<MergeResult> = {
+                type: 'MERGE_SUCCESS',
+                payload: { hunks, conflicts: hunks.filter((hunk) => hunk.kind === 'conflict').length },
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'COMPUTE_DIFF') {
+            const { text1, text2, mode, ignoreWhitespace, jsonOptions, ignoreRules } = payload as DiffRequest;
+            // Invalid globs and patterns fail the request before anything is compared.
+            const rules = ignoreRules && hasIgnoreRules(ignoreRules) ? compileIgnoreRules(ignoreRules) : null;
 
             let changes;
+            let usedMode = mode;
+            let json: JsonDiffReport | undefined;
+            let jsonError: string | undefined;
+            // Line patterns filter text only; valid JSON is compared by value below.
+            let original = rules ? rules.text(text1) : text1;
+            let modified = rules ? rules.text(text2) : text2;
 
             if (text1.length + text2.length > 2000000) {
                 // For massive text, fall back to line diff to prevent OOM/Hang
-                changes = diffLines(text1, text2, { ignoreWhitespace });
+                changes = diffLines(original, modified, { ignoreWhitespace });
+                usedMode = 'lines';
             } else if (mode === 'json') {
+                const side = (text: string, label: string) => {
+                    try {
+                        const value = parseLosslessJson(text);
+                        return rules ? rules.json(value) : value;
+                    } catch (error) {
+                        throw new Error(`${label} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                };
                 try {
-                    // Parse JSON and use structure-aware diff
-                    const obj1 = JSON.parse(text1);
-                    const obj2 = JSON.parse(text2);
-                    changes = diffJson(obj1, obj2);
+                    const left = side(text1, 'Original');
+                    const right = side(text2, 'Modified');
+                    json = diffJsonValues(left, right, jsonOptions);
+                    // The text view compares the same normalised serialisation as the structural diff.
+                    original = stringifyJson(left, 2);
+                    modified = stringifyJson(right, 2);
                 } catch (error) {
-                    // If JSON parsing fails, fall back to line diff
-                    changes = diffLines(text1, text2, { ignoreWhitespace });
+                    // Invalid JSON is still compared line by line, as written.
+                    jsonError = error instanceof Error ? error.message : String(error);
                 }
+                // Structural diff by path; the line diff backs the text views.
+                changes = diffLines(original, modified, { ignoreWhitespace });
+            } else if (mode !== 'lines' && original.length + modified.length > DIFF_CHECKER.INLINE_DIFF_MAX_CHARS) {
+                changes = diffLines(original, modified, { ignoreWhitespace });
+                usedMode = 'lines';
             } else if (mode === 'words') {
-                changes = diffWords(text1, text2);
+                changes = diffWords(original, modified);
+            } else if (mode === 'chars') {
+                changes = diffChars(original, modified);
             } else {
-                changes = diffLines(text1, text2, { ignoreWhitespace });
+                changes = diffLines(original, modified, { ignoreWhitespace });
             }
+            const lines = usedMode === 'lines' || usedMode === 'json' ? buildLineDiff(changes) : undefined;
 
             const response: WorkerResponse<DiffResult> = {
                 type: 'DIFF_SUCCESS',
-                payload: { changes },
+                payload: {
+                    changes,
+                    mode: usedMode,
+                    lines,
+                    json,
+                    jsonError,
+                    ...((rules || json) && { original, modified }),
+                    ...(rules && { ignoreRulesApplied: true }),
+                },
                 id,
             };
             self.postMessage(response);
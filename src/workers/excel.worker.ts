@@ -1,5 +1,9 @@
 import type { WorkerMessage, WorkerResponse, PreviewChunkPayload } from '../types/worker';
+import type { JsonInputFormat } from '../types/json';
 import * as XLSX from 'xlsx';
+import { parseJsonDocument } from '../utils/jsonLines';
+import { parseLosslessJson } from '../utils/json5Parser';
+import { flattenObject, sanitizeForTabular } from '../utils/tabular';
 
 export interface ExcelConversionRequest {
     data: string | ArrayBuffer;
@@ -8,6 +12,8 @@ export interface ExcelConversionRequest {
         sheetName?: string;
         flatten?: boolean;
         overwriteRows?: any[];
+        /** JSON input only: JSON Lines records become rows */
+        inputFormat?: JsonInputFormat;
     };
 
 }
@@ -45,46 +51,13 @@ function enforceTabularLimits(rows: any[], context: string): void {
     }
 }
 
-function flattenObject(obj: any): any {
-    const result: any = {};
-    if (obj === null || typeof obj !== 'object') return obj;
-
-    const stack: { current: any; prefix: string }[] = [{ current: obj, prefix: '' }];
-    while (stack.length > 0) {
-        const { current, prefix } = stack.pop()!;
-        for (const k in current) {
-            if (!Object.prototype.hasOwnProperty.call(current, k)) continue;
-            const value = current[k];
-            const newKey = prefix ? `${prefix}.${k}` : k;
-            if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-                stack.push({ current: value, prefix: newKey });
-            } else if (Array.isArray(value)) {
-                result[newKey] = JSON.stringify(value);
-            } else {
-                result[newKey] = value;
-            }
-        }
-    }
-    return result;
-}
-
-function sanitizeForTabular(data: any[]): any[] {
-    return data.map((item) => {
-        if (typeof item !== 'object' || item === null) return { value: item };
-        const sanitized: any = {};
-        for (const [key, value] of Object.entries(item)) {
-            sanitized[key] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
-        }
-        return sanitized;
-    });
-}
-
-function parseJsonInput(data: string | ArrayBuffer) {
+/** Numbers beyond `number` precision are kept as text, so they reach the sheet digit for digit. */
+function parseJsonInput(data: string | ArrayBuffer, format?: JsonInputFormat) {
     if (data instanceof ArrayBuffer) {
         const decoder = new TextDecoder();
-        return JSON.parse(decoder.decode(data));
+        return parseJsonDocument(decoder.decode(data), format, parseLosslessJson).value;
     }
-    return typeof data === 'string' ? JSON.parse(data) : data;
+    return typeof data === 'string' ? parseJsonDocument(data, format, parseLosslessJson).value : data;
 }
 
 const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
@@ -140,11 +113,11 @@ self.onmessage = async (e: MessageEvent<WorkerMessage<ExcelConversionRequest>>)
             const { data, type: convType, options } = payload;
 
             if (convType === 'json-to-excel') {
-                const jsonData = parseJsonInput(data);
-                let processedData = Array.isArray(jsonData) ? jsonData : [jsonData];
-                processedData = options?.flatten
-                    ? processedData.map((item: any) => flattenObject(item))
-                    : sanitizeForTabular(processedData);
+                const jsonData = parseJsonInput(data, options?.inputFormat);
+                const items = Array.isArray(jsonData) ? jsonData : [jsonData];
+                const processedData = options?.flatten
+                    ? items.map((item) => flattenObject(item))
+                    : sanitizeForTabular(items);
 
                 if (options?.overwriteRows && Array.isArray(options.overwriteRows)) {
                     const previewedCount = Math.min(PREVIEW_LIMIT, processedData.length);
@@ -190,11 +163,9 @@ self.onmessage = async (e: MessageEvent<WorkerMessage<ExcelConversionRequest>>)
 
         if (type === 'PARSE_FOR_PREVIEW' || type === 'PARSE_FOR_PREVIEW_STREAM') {
             const { data, options } = payload as any;
-            const jsonData = parseJsonInput(data);
-            let processedData = Array.isArray(jsonData) ? jsonData : [jsonData];
-            if (options?.flatten) {
-                processedData = processedData.map((item: any) => flattenObject(item));
-            }
+            const jsonData = parseJsonInput(data, options?.inputFormat);
+            const items = Array.isArray(jsonData) ? jsonData : [jsonData];
+            const processedData = options?.flatten ? items.map((item) => flattenObject(item)) : items;
             enforceTabularLimits(processedData, 'Preview parse');
 
             if (type === 'PARSE_FOR_PREVIEW_STREAM') {
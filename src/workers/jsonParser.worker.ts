@@ -1,26 +1,76 @@
 import type { WorkerMessage, WorkerResponse } from '../types/worker';
-import type { ParseError, JsonValue, JsonNode } from '../types/json';
+import type {
+    DataFormat,
+    DocumentExportOptions,
+    InferredTypes,
+    ParseError,
+    ParseErrorDetail,
+    JsonValue,
+    JsonNode,
+    JsonEditOperation,
+    JsonEditResult,
+    JsonFormatOptions,
+    JsonInputFormat,
+    JsonParseMode,
+    JsonRelaxation,
+    JsonSchemaDraft,
+    JsonSearchOptions,
+    JsonSearchResult,
+    JsonPathSegment,
+    JsonStats,
+    QueryLanguage,
+    QueryResult,
+    SchemaValidationResult,
+    TransformResult,
+    ViewerInputFormat,
+} from '../types/json';
+import { evaluateJsonPath } from '../utils/jsonPath';
+import { evaluateJmesPath } from '../utils/jmesPath';
+import { evaluateJq } from '../utils/jqFilter';
+import { createSearchMatcher, type JsonSearchMatcher } from '../utils/jsonSearch';
+import { JsonStreamError, JsonStreamReader } from '../utils/jsonStreamParser';
+import { detectJsonLines, parseJsonDocument, toJsonLines, type ParsedJsonDocument } from '../utils/jsonLines';
+import { parseLosslessJson, parseTolerantJson } from '../utils/json5Parser';
+import { isLosslessNumber, losslessNumberKind, stringifyJson, toPlainNumbers } from '../utils/losslessNumber';
+import { describeSyntaxIssue, describeSyntaxIssueInBytes, diagnoseJson } from '../utils/jsonDiagnostics';
+import { DataFormatError, detectDataFormat, parseDataFormat, serializeDocument } from '../utils/dataFormats';
+import { applyJsonEdit } from '../utils/jsonEdit';
+import { formatJsonLines, formatJsonValue } from '../utils/jsonFormat';
+import { deepSortKeys } from '../utils/jsonUtils';
+import { validateJsonSchema } from '../utils/jsonSchema';
+import { childPointer, collectAncestorPointers, resolveJsonPointer } from '../utils/nodePath';
+import { inferTypes } from '../utils/typeInference';
+import { computeJsonStats, JsonStatsCollector } from '../utils/jsonStats';
+import { DOCUMENT_EXPORT_DEFAULTS, JSON_VIEWER, WORKER_YIELD_INTERVAL_MS } from '../constants';
 
 const getValueType = (
     value: JsonValue
 ): 'string' | 'number' | 'boolean' | 'null' | 'array' | 'object' => {
     if (value === null) return 'null';
     if (Array.isArray(value)) return 'array';
+    if (isLosslessNumber(value)) return 'number';
     return typeof value as 'string' | 'number' | 'boolean' | 'object';
 };
 
+/** Tags a number node whose value is a `LosslessNumber` with its kind. */
+const withNumberKind = (node: JsonNode): JsonNode => {
+    if (isLosslessNumber(node.value)) node.numberKind = losslessNumberKind(node.value);
+    return node;
+};
+
 const buildJsonTree = async (
     data: JsonValue,
     initialKey: string = 'root',
     onProgress?: (count: number) => void
 ): Promise<JsonNode> => {
     const type = getValueType(data);
-    const rootNode: JsonNode = {
+    const rootNode: JsonNode = withNumberKind({
         key: initialKey,
         value: data,
         type,
-        path: initialKey,
-    };
+        path: '',
+        segments: [],
+    });
 
     if (type !== 'object' && type !== 'array') {
         return rootNode;
@@ -50,7 +100,7 @@ const buildJsonTree = async (
         }
 
         const { node, data: currentData } = stack.pop()!;
-        const currentPath = node.path;
+        const { path: currentPath, segments: currentSegments } = node;
 
         if (node.type === 'object' && currentData !== null) {
             node.children = [];
@@ -62,9 +112,10 @@ const buildJsonTree = async (
                     key: childKey,
                     value: childValue,
                     type: childType,
-                    path: `${currentPath}.${childKey}`,
+                    path: childPointer(currentPath, childKey),
+                    segments: [...currentSegments, childKey],
                 };
-                node.children.unshift(childNode);
+                node.children.unshift(withNumberKind(childNode));
                 if (childType === 'object' || childType === 'array') {
                     stack.push({ node: childNode, data: childValue });
                 }
@@ -79,9 +130,10 @@ const buildJsonTree = async (
                     key: `[${i}]`,
                     value: item,
                     type: childType,
-                    path: `${currentPath}.[${i}]`,
+                    path: childPointer(currentPath, i),
+                    segments: [...currentSegments, i],
                 };
-                node.children.unshift(childNode);
+                node.children.unshift(withNumberKind(childNode));
                 if (childType === 'object' || childType === 'array') {
                     stack.push({ node: childNode, data: item });
                 }
@@ -92,28 +144,254 @@ const buildJsonTree = async (
     return rootNode;
 };
 
-const findSearchMatches = (node: JsonNode, query: string, expandedPaths: Set<string>, counter: { count: number }) => {
-    const lowerQuery = query.toLowerCase();
-    const keyMatch = node.key.toLowerCase().includes(lowerQuery);
-    const valueMatch = node.type !== 'object' && node.type !== 'array' && String(node.value).toLowerCase().includes(lowerQuery);
+/**
+ * Streamed document kept in the worker: the raw bytes plus the byte offset
+ * and segments of every container the UI has seen, keyed by path, so its
+ * children can be read on demand.
+ */
+interface LazyDocument {
+    bytes: Uint8Array;
+    containers: Map<string, { offset: number; segments: JsonPathSegment[] }>;
+    /** Numbers are read as `LosslessNumber`s where `number` would round them */
+    losslessNumbers: boolean;
+}
 
-    if (keyMatch) counter.count++;
-    if (valueMatch) counter.count++;
+const childKeyOf = (key: string | number) => (typeof key === 'number' ? `[${key}]` : key);
 
-    let hasChildMatch = false;
-    if (node.children) {
-        for (const child of node.children) {
-            if (findSearchMatches(child, query, expandedPaths, counter)) {
-                hasChildMatch = true;
+/**
+ * Consumes the events of one container (whose `start` event has already been
+ * read) and returns its direct children. Nested containers become lazy stubs
+ * with a child count; their contents are skipped, not materialised.
+ */
+const readLazyChildren = async (
+    reader: JsonStreamReader,
+    doc: LazyDocument,
+    parent: Pick<JsonNode, 'path' | 'segments'>,
+    parentDepth: number,
+    onProgress?: (bytesProcessed: number) => void
+): Promise<JsonNode[]> => {
+    const children: JsonNode[] = [];
+    let current: JsonNode | null = null;
+    let lastYield = performance.now();
+    let eventCount = 0;
+
+    for (let event = reader.next(); event; event = reader.next()) {
+        if (event.kind === 'end' && event.depth === parentDepth) break;
+
+        if (++eventCount % 1024 === 0 && performance.now() - lastYield > WORKER_YIELD_INTERVAL_MS) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastYield = performance.now();
+            onProgress?.(reader.position);
+        }
+
+        if (event.kind === 'end') continue;
+
+        if (event.depth === parentDepth + 1) {
+            const key = event.key ?? '';
+            const path = childPointer(parent.path, key);
+            const segments = [...parent.segments, key];
+            if (event.kind === 'start') {
+                current = {
+                    key: childKeyOf(key),
+                    value: null,
+                    type: event.type,
+                    path,
+                    segments,
+                    streamed: true,
+                    childCount: 0,
+                    lazy: true,
+                };
+                doc.containers.set(path, { offset: event.offset, segments });
+            } else {
+                current = null;
+                children.push(withNumberKind({ key: childKeyOf(key), value: event.value, type: getValueType(event.value), path, segments }));
+                continue;
             }
+            children.push(current);
+        } else if (event.depth === parentDepth + 2 && current) {
+            current.childCount = (current.childCount ?? 0) + 1;
+        }
+    }
+
+    return children;
+};
+
+const parseLazyDocument = async (
+    bytes: Uint8Array,
+    losslessNumbers: boolean,
+    onProgress: (bytesProcessed: number) => void
+): Promise<{ doc: LazyDocument; tree: JsonNode }> => {
+    const doc: LazyDocument = { bytes, containers: new Map(), losslessNumbers };
+    const reader = new JsonStreamReader(bytes, 0, { losslessNumbers });
+    const first = reader.next();
+
+    if (!first) throw new Error('Unexpected end of input at position 0');
+    if (first.kind === 'value') {
+        reader.assertEnd();
+        return { doc, tree: withNumberKind({ key: 'root', value: first.value, type: getValueType(first.value), path: '', segments: [] }) };
+    }
+    if (first.kind !== 'start') throw new Error('Unexpected token at position 0');
+
+    doc.containers.set('', { offset: first.offset, segments: [] });
+    const children = await readLazyChildren(reader, doc, { path: '', segments: [] }, 0, onProgress);
+    reader.assertEnd();
+
+    return {
+        doc,
+        tree: {
+            key: 'root',
+            value: null,
+            type: first.type,
+            path: '',
+            segments: [],
+            streamed: true,
+            childCount: children.length,
+            lazy: false,
+            children,
+        },
+    };
+};
+
+const expandLazyNode = async (doc: LazyDocument, path: string): Promise<JsonNode[] | null> => {
+    const container = doc.containers.get(path);
+    if (!container) return null;
+    const reader = new JsonStreamReader(doc.bytes, container.offset, { losslessNumbers: doc.losslessNumbers });
+    reader.next();
+    return readLazyChildren(reader, doc, { path, segments: container.segments }, 0);
+};
+
+/** Stats for a streamed document, read straight from its bytes. */
+const collectLazyStats = async (doc: LazyDocument, onProgress: (bytesProcessed: number) => void): Promise<JsonStats> => {
+    const collector = new JsonStatsCollector();
+    const reader = new JsonStreamReader(doc.bytes);
+    let lastYield = performance.now();
+    let eventCount = 0;
+
+    for (let event = reader.next(); event; event = reader.next()) {
+        if (++eventCount % 1024 === 0 && performance.now() - lastYield > WORKER_YIELD_INTERVAL_MS) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastYield = performance.now();
+            onProgress(reader.position);
+        }
+        if (event.kind === 'start') collector.enter(event.type, event.key);
+        else if (event.kind === 'end') collector.exit();
+        else collector.value(event.key, event.value);
+    }
+    return collector.result();
+};
+
+/** Collects search hits in document order, capped for the UI, with the ancestors to expand. */
+class SearchCollector {
+    private readonly matches: string[] = [];
+    private readonly expandPaths = new Set<string>();
+    private count = 0;
+
+    add(path: string, ancestors: Iterable<string>) {
+        this.count++;
+        if (this.matches.length >= JSON_VIEWER.MAX_SEARCH_MATCHES) return;
+        this.matches.push(path);
+        for (const ancestor of ancestors) this.expandPaths.add(ancestor);
+    }
+
+    result(): JsonSearchResult {
+        return {
+            matches: this.matches,
+            expandPaths: [...this.expandPaths],
+            count: this.count,
+            truncated: this.count > this.matches.length,
+        };
+    }
+}
+
+/**
+ * Search over a streamed document without materialising it: a single pass
+ * over the events with a stack of container paths.
+ */
+const searchLazyDocument = (doc: LazyDocument, matcher: JsonSearchMatcher): JsonSearchResult => {
+    const collector = new SearchCollector();
+    const pathStack: string[] = [];
+    const reader = new JsonStreamReader(doc.bytes, 0, { losslessNumbers: doc.losslessNumbers });
+
+    for (let event = reader.next(); event; event = reader.next()) {
+        if (event.kind === 'end') {
+            pathStack.pop();
+            continue;
         }
+
+        const parentPath = pathStack[pathStack.length - 1];
+        const path = event.key === null ? '' : childPointer(parentPath, event.key);
+        const keyMatch = typeof event.key === 'string' && matcher.matchesKey(event.key);
+        const valueMatch = event.kind === 'value' && matcher.matchesValue(getValueType(event.value), event.value);
+        if (keyMatch || valueMatch) collector.add(path, pathStack);
+
+        if (event.kind === 'start') pathStack.push(path);
     }
 
-    if ((hasChildMatch || keyMatch) && node.children && node.children.length > 0) {
-        expandedPaths.add(node.path);
+    return collector.result();
+};
+
+const findSearchMatches = (node: JsonNode, matcher: JsonSearchMatcher, collector: SearchCollector, ancestors: string[]) => {
+    const isObjectMember = typeof node.segments[node.segments.length - 1] === 'string';
+    const keyMatch = isObjectMember && matcher.matchesKey(node.key);
+    const valueMatch = matcher.matchesValue(node.type, node.value);
+    if (keyMatch || valueMatch) collector.add(node.path, ancestors);
+
+    if (node.children) {
+        ancestors.push(node.path);
+        for (const child of node.children) findSearchMatches(child, matcher, collector, ancestors);
+        ancestors.pop();
     }
+};
+
+const valueAtSegments = (root: JsonValue, segments: JsonPathSegment[]): JsonValue =>
+    segments.reduce<JsonValue>((value, segment) => (value as { [key: string]: JsonValue })[segment], root);
 
-    return keyMatch || valueMatch || hasChildMatch;
+/**
+ * Queries run on plain numbers (`data`); located matches are read back from
+ * `source`, so lossless numbers in them keep their digits.
+ */
+const runQuery = (data: JsonValue, source: JsonValue, expression: string, language: QueryLanguage): QueryResult => {
+    const located = language === 'jmespath'
+        ? evaluateJmesPath(data, expression)
+        : evaluateJsonPath(data, expression);
+    const expandPaths = new Set<string>();
+    const limit = JSON_VIEWER.MAX_QUERY_RESULTS;
+
+    const matches = located.slice(0, limit).map((item) => ({
+        path: item.path ? collectAncestorPointers(item.path, expandPaths) : null,
+        value: item.path && source !== data ? valueAtSegments(source, item.path) : item.value,
+    }));
+
+    return {
+        matches,
+        expandPaths: Array.from(expandPaths),
+        count: located.length,
+        truncated: located.length > limit,
+    };
+};
+
+const runSchemaValidation = (data: JsonValue, schemaText: string, draft: JsonSchemaDraft | 'auto'): SchemaValidationResult => {
+    let schema: JsonValue;
+    try {
+        schema = JSON.parse(schemaText) as JsonValue;
+    } catch (error) {
+        throw new Error(`Schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const result = draft === 'auto' ? validateJsonSchema(data, schema) : validateJsonSchema(data, schema, draft);
+    const expandPaths = new Set<string>();
+    const violations = result.issues.slice(0, JSON_VIEWER.MAX_SCHEMA_VIOLATIONS).map((issue) => ({
+        path: collectAncestorPointers(issue.instancePath, expandPaths),
+        schemaPath: issue.schemaPath,
+        keyword: issue.keyword,
+        message: issue.message,
+    }));
+    return {
+        draft: result.draft,
+        violations,
+        expandPaths: Array.from(expandPaths),
+        count: result.issues.length,
+        truncated: result.issues.length > violations.length,
+    };
 };
 
 /**
@@ -149,12 +427,13 @@ const stripComments = (jsonString: string): string => {
             continue;
         }
 
-        // Skip // comments outside strings
+        // Blank out // comments outside strings so error offsets still match the source
         if (!inString && char === '/' && nextChar === '/') {
-            // Skip until end of line
             while (i < jsonString.length && jsonString[i] !== '\n') {
+                result += ' ';
                 i++;
             }
+            i--;
             continue;
         }
 
@@ -164,15 +443,161 @@ const stripComments = (jsonString: string): string => {
     return result;
 };
 
+const JSON_LINES_SNIFF_BYTES = 1024 * 1024;
+
+/**
+ * Streaming only handles a single JSON document, so JSON Lines and YAML /
+ * TOML / XML input always take the regular path. Sniffing looks at the head
+ * of the buffer only.
+ */
+const isStreamableBuffer = (data: ArrayBuffer, format: ViewerInputFormat): boolean => {
+    if (format !== 'auto') return format === 'json';
+    const head = new TextDecoder().decode(new Uint8Array(data, 0, Math.min(data.byteLength, JSON_LINES_SNIFF_BYTES)));
+    return detectDataFormat(head) === 'json' && !detectJsonLines(head);
+};
+
+/** The non-JSON format `text` is read as, or null for JSON and JSON Lines. */
+const resolveDataFormat = (text: string, format: ViewerInputFormat): DataFormat | null => {
+    if (format === 'auto') {
+        const detected = detectDataFormat(text);
+        return detected === 'json' ? null : detected;
+    }
+    return format === 'json' || format === 'ndjson' ? null : format;
+};
+
+/**
+ * Serialises a parsed document back to source text: YAML / TOML / XML input
+ * in its own format, JSON Lines one record per line.
+ */
+const serializeTree = (tree: JsonNode): string => {
+    if (tree.sourceFormat) return serializeDocument(tree.value, { format: tree.sourceFormat, ...DOCUMENT_EXPORT_DEFAULTS });
+    return tree.jsonLines && Array.isArray(tree.value)
+        ? toJsonLines(tree.value)
+        : stringifyJson(tree.value, 2);
+};
+
+const plainValues = new WeakMap<JsonNode, JsonValue>();
+
+/**
+ * The document with lossless numbers read as plain numbers, for queries,
+ * schema validation, type inference, transforms and stats. Cached per tree.
+ */
+const plainValueOf = (tree: JsonNode): JsonValue => {
+    let value = plainValues.get(tree);
+    if (value === undefined) {
+        value = toPlainNumbers(tree.value);
+        plainValues.set(tree, value);
+    }
+    return value;
+};
+
+interface ReadOptions {
+    format: ViewerInputFormat;
+    mode: JsonParseMode;
+    lossless: boolean;
+}
+
+/**
+ * Parses source text as JSON, JSON Lines, JSON5 / JSONC (tolerant mode) or
+ * YAML / TOML / XML. Relaxations the tolerant parser accepted are added to
+ * `relaxations`; on a syntax error the located errors are added to
+ * `diagnostics` before it is rethrown.
+ */
+const readDocumentText = (
+    text: string,
+    { format, mode, lossless }: ReadOptions,
+    relaxations: Set<JsonRelaxation>,
+    diagnostics: ParseErrorDetail[]
+): ParsedJsonDocument & { dataFormat: DataFormat | null } => {
+    const dataFormat = resolveDataFormat(text, format);
+    if (dataFormat) {
+        try {
+            return { value: parseDataFormat(text, dataFormat), isJsonLines: false, dataFormat };
+        } catch (error) {
+            if (error instanceof DataFormatError) {
+                diagnostics.push(describeSyntaxIssue(text, {
+                    code: 'invalid-document',
+                    message: error.message,
+                    offset: error.offset,
+                }));
+            }
+            throw error;
+        }
+    }
+
+    const jsonFormat: JsonInputFormat = format === 'json' || format === 'ndjson' ? format : 'auto';
+    // Standard mode only strips `//` comments; both modes keep source offsets intact.
+    const source = mode === 'tolerant' ? text : stripComments(text);
+    const parse = mode === 'tolerant'
+        ? (part: string) => parseTolerantJson(part, relaxations, { losslessNumbers: lossless })
+        : lossless ? parseLosslessJson : undefined;
+    try {
+        return { ...parseJsonDocument(source, jsonFormat, parse), dataFormat: null };
+    } catch (error) {
+        diagnostics.push(...diagnoseJson(source, {
+            strict: mode === 'standard',
+            jsonLines: jsonFormat === 'ndjson' || (jsonFormat === 'auto' && detectJsonLines(source, parse)),
+        }));
+        throw error;
+    }
+};
+
 let lastParsedTree: JsonNode | null = null;
+let lazyDocument: LazyDocument | null = null;
 
 self.onmessage = async (e: MessageEvent<WorkerMessage<any>>) => {
     const { type, payload, id } = e.data;
 
     let jsonString = '';
+    let parseDiagnostics: ParseErrorDetail[] = [];
     try {
         if (type === 'PARSE_JSON') {
-            const data = payload as string | ArrayBuffer;
+            // Accepts the raw input directly or `{ data, format, mode, lossless }` to pick how it is read.
+            const { data, format = 'auto', mode = 'standard', lossless = false } = (typeof payload === 'string' || payload instanceof ArrayBuffer)
+                ? { data: payload as string | ArrayBuffer }
+                : payload as { data: string | ArrayBuffer; format?: ViewerInputFormat; mode?: JsonParseMode; lossless?: boolean };
+            lastParsedTree = null;
+            lazyDocument = null;
+
+            if (
+                data instanceof ArrayBuffer
+                && data.byteLength > JSON_VIEWER.STREAMING_PARSE_THRESHOLD
+                && mode === 'standard'
+                && isStreamableBuffer(data, format)
+            ) {
+                const totalBytes = data.byteLength;
+                const bytes = new Uint8Array(data);
+                let lazy: Awaited<ReturnType<typeof parseLazyDocument>>;
+                try {
+                    lazy = await parseLazyDocument(bytes, lossless, (bytesProcessed) => {
+                        self.postMessage({
+                            type: 'PROGRESS',
+                            payload: { bytesProcessed, totalBytes },
+                            id
+                        });
+                    });
+                } catch (error) {
+                    if (error instanceof JsonStreamError) {
+                        parseDiagnostics = [describeSyntaxIssueInBytes(bytes, {
+                            code: error.code,
+                            message: error.reason,
+                            offset: error.offset,
+                        })];
+                    }
+                    throw error;
+                }
+                const { doc, tree } = lazy;
+                lazyDocument = doc;
+
+                const response: WorkerResponse = {
+                    type: 'PARSE_SUCCESS',
+                    payload: tree,
+                    id,
+                };
+                self.postMessage(response);
+                return;
+            }
+
             if (data instanceof ArrayBuffer) {
                 const decoder = new TextDecoder();
                 jsonString = decoder.decode(data);
@@ -180,9 +605,8 @@ self.onmessage = async (e: MessageEvent<WorkerMessage<any>>) => {
                 jsonString = data;
             }
 
-            // Strip comments before parsing
-            const cleanedJson = stripComments(jsonString);
-            const parsed = JSON.parse(cleanedJson);
+            const relaxations = new Set<JsonRelaxation>();
+            const { value: parsed, isJsonLines, dataFormat } = readDocumentText(jsonString, { format, mode, lossless }, relaxations, parseDiagnostics);
 
             // Pass progress callback
             const tree = await buildJsonTree(parsed, 'root', (count) => {
@@ -192,6 +616,9 @@ self.onmessage = async (e: MessageEvent<WorkerMessage<any>>) => {
                     id
                 });
             });
+            if (isJsonLines) tree.jsonLines = true;
+            if (relaxations.size > 0) tree.relaxations = [...relaxations];
+            if (dataFormat) tree.sourceFormat = dataFormat;
             lastParsedTree = tree;
 
             const response: WorkerResponse = {
@@ -201,24 +628,197 @@ self.onmessage = async (e: MessageEvent<WorkerMessage<any>>) => {
             };
             self.postMessage(response);
         } else if (type === 'SEARCH_JSON') {
-            const query = typeof payload === 'string' ? payload : payload?.query;
-            const tree = lastParsedTree || payload?.tree;
-            if (!tree || !query) {
-                const response: WorkerResponse = {
-                    type: 'SEARCH_SUCCESS',
-                    payload: { paths: [], count: 0 },
-                    id,
-                };
-                self.postMessage(response);
-                return;
+            const matcher = createSearchMatcher(payload as JsonSearchOptions);
+            let result: JsonSearchResult = { matches: [], expandPaths: [], count: 0, truncated: false };
+            if (matcher && lazyDocument) {
+                result = searchLazyDocument(lazyDocument, matcher);
+            } else if (matcher && lastParsedTree) {
+                const collector = new SearchCollector();
+                findSearchMatches(lastParsedTree, matcher, collector, []);
+                result = collector.result();
+            }
+            const response: WorkerResponse<JsonSearchResult> = {
+                type: 'SEARCH_SUCCESS',
+                payload: result,
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'QUERY_JSON') {
+            const { expression, language } = payload as { expression: string; language: QueryLanguage };
+            if (lazyDocument) {
+                throw new Error('Queries are not available for streamed documents; use search instead');
+            }
+            if (!lastParsedTree) {
+                throw new Error('Visualize the JSON before running a query');
+            }
+            const response: WorkerResponse<QueryResult> = {
+                type: 'QUERY_SUCCESS',
+                payload: runQuery(plainValueOf(lastParsedTree), lastParsedTree.value, expression, language),
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'VALIDATE_SCHEMA') {
+            const { schema, draft = 'auto' } = payload as { schema: string; draft?: JsonSchemaDraft | 'auto' };
+            if (lazyDocument) {
+                throw new Error('Schema validation is not available for streamed documents');
+            }
+            if (!lastParsedTree) {
+                throw new Error('Visualize the JSON before validating it');
+            }
+            const response: WorkerResponse<SchemaValidationResult> = {
+                type: 'VALIDATION_SUCCESS',
+                payload: runSchemaValidation(plainValueOf(lastParsedTree), schema, draft),
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'INFER_TYPES') {
+            const { rootName } = payload as { rootName?: string };
+            if (lazyDocument) {
+                throw new Error('Type generation is not available for streamed documents');
+            }
+            if (!lastParsedTree) {
+                throw new Error('Visualize the JSON before generating types');
+            }
+            const response: WorkerResponse<InferredTypes> = {
+                type: 'INFER_SUCCESS',
+                payload: inferTypes(plainValueOf(lastParsedTree), rootName),
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'JSON_STATS') {
+            let stats: JsonStats;
+            if (lazyDocument) {
+                const totalBytes = lazyDocument.bytes.byteLength;
+                stats = await collectLazyStats(lazyDocument, (bytesProcessed) => {
+                    self.postMessage({ type: 'PROGRESS', payload: { bytesProcessed, totalBytes }, id });
+                });
+            } else if (lastParsedTree) {
+                stats = computeJsonStats(plainValueOf(lastParsedTree));
+            } else {
+                throw new Error('Visualize the JSON before computing stats');
+            }
+            const response: WorkerResponse<JsonStats> = {
+                type: 'STATS_SUCCESS',
+                payload: stats,
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'TRANSFORM_JSON') {
+            const { filter } = payload as { filter: string };
+            if (lazyDocument) {
+                throw new Error('Transforms are not available for streamed documents');
+            }
+            if (!lastParsedTree) {
+                throw new Error('Visualize the JSON before transforming it');
+            }
+            const outputs = evaluateJq(plainValueOf(lastParsedTree), filter);
+            // A single output is shown as is; a stream of outputs becomes JSON Lines.
+            const tree = await buildJsonTree(outputs.length === 1 ? outputs[0] : outputs);
+            if (outputs.length !== 1) tree.jsonLines = true;
+            const response: WorkerResponse<TransformResult> = {
+                type: 'TRANSFORM_SUCCESS',
+                payload: { tree, text: serializeTree(tree), count: outputs.length },
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'EXPORT_DOCUMENT') {
+            const options = payload as DocumentExportOptions;
+            if (lazyDocument) {
+                throw new Error('Export is not available for streamed documents');
+            }
+            if (!lastParsedTree) {
+                throw new Error('Visualize the JSON before exporting it');
+            }
+            const response: WorkerResponse<string> = {
+                type: 'EXPORT_SUCCESS',
+                payload: serializeDocument(lastParsedTree.value, options),
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'FORMAT_JSON') {
+            // Formats source text without visualizing it; read the same way as by PARSE_JSON.
+            const { data, format = 'auto', mode = 'standard', lossless = false, options } = payload as {
+                data: string;
+                format?: ViewerInputFormat;
+                mode?: JsonParseMode;
+                lossless?: boolean;
+                options: JsonFormatOptions;
+            };
+            jsonString = data;
+            const { value, isJsonLines, dataFormat } = readDocumentText(data, { format, mode, lossless }, new Set(), parseDiagnostics);
+            let text: string;
+            if (dataFormat) {
+                // YAML / TOML / XML stay in their format; only the indentation and key order apply.
+                text = serializeDocument(options.sortKeys ? deepSortKeys(value) as JsonValue : value, {
+                    format: dataFormat,
+                    ...DOCUMENT_EXPORT_DEFAULTS,
+                    indent: options.indent === 'tab' ? DOCUMENT_EXPORT_DEFAULTS.indent : options.indent,
+                });
+            } else {
+                text = isJsonLines && Array.isArray(value) ? formatJsonLines(value, options) : formatJsonValue(value, options);
             }
-            const expandedPaths = new Set<string>();
-            const counter = { count: 0 };
-            findSearchMatches(tree as JsonNode, query, expandedPaths, counter);
+            const response: WorkerResponse<string> = {
+                type: 'FORMAT_SUCCESS',
+                payload: text,
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'TO_STRICT_JSON') {
+            if (!lastParsedTree) {
+                throw new Error('Visualize the JSON before converting it');
+            }
+            // Non-finite numbers have no strict JSON form and become null.
+            const response: WorkerResponse = {
+                type: 'STRICT_JSON_SUCCESS',
+                payload: serializeTree(lastParsedTree),
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'EDIT_JSON') {
+            const operation = payload as JsonEditOperation;
+            if (lazyDocument) {
+                throw new Error('Streamed documents are read-only');
+            }
+            if (!lastParsedTree) {
+                throw new Error('Visualize the JSON before editing it');
+            }
+            const segments = resolveJsonPointer(lastParsedTree.value, operation.path);
+            if (!segments) {
+                throw new Error(`No value at ${operation.path}`);
+            }
+            const { value, focus } = applyJsonEdit(lastParsedTree.value, segments, operation);
+            // The edited source is re-serialised as strict JSON (or its YAML / TOML / XML format),
+            // so relaxations do not carry over.
+            const tree = await buildJsonTree(value);
+            if (lastParsedTree.jsonLines && Array.isArray(value)) tree.jsonLines = true;
+            if (lastParsedTree.sourceFormat) tree.sourceFormat = lastParsedTree.sourceFormat;
+            lastParsedTree = tree;
 
+            const expandPaths = new Set<string>();
+            const response: WorkerResponse<JsonEditResult> = {
+                type: 'EDIT_SUCCESS',
+                payload: {
+                    tree,
+                    text: serializeTree(tree),
+                    focusPath: focus ? collectAncestorPointers(focus, expandPaths) : null,
+                    expandPaths: [...expandPaths],
+                },
+                id,
+            };
+            self.postMessage(response);
+        } else if (type === 'EXPAND_NODES') {
+            const { paths } = payload as { paths: string[] };
+            const nodes: { path: string; children: JsonNode[] }[] = [];
+            if (lazyDocument) {
+                // Parents sort before their descendants, so nested paths resolve in one request.
+                for (const path of [...paths].sort((a, b) => a.length - b.length)) {
+                    const children = await expandLazyNode(lazyDocument, path);
+                    if (children) nodes.push({ path, children });
+                }
+            }
             const response: WorkerResponse = {
-                type: 'SEARCH_SUCCESS',
-                payload: { paths: Array.from(expandedPaths), count: counter.count },
+                type: 'EXPAND_SUCCESS',
+                payload: { nodes },
                 id,
             };
             self.postMessage(response);
@@ -228,22 +828,28 @@ self.onmessage = async (e: MessageEvent<WorkerMessage<any>>) => {
         const lineMatch = errorMessage.match(/position (\d+)/);
         const position = lineMatch ? parseInt(lineMatch[1]) : null;
 
-        let lineNumber = null;
-        if (position !== null && jsonString) {
+        // JSON Lines errors already carry their line; positions are relative to it.
+        const recordLine = errorMessage.match(/^Line (\d+):/);
+        let lineNumber = recordLine ? parseInt(recordLine[1]) : null;
+        if (lineNumber === null && position !== null && jsonString) {
             const lines = jsonString.substring(0, position).split('\n');
             lineNumber = lines.length;
         }
 
-        const errorPayload: ParseError = {
-            message: errorMessage,
-            lineNumber,
-        };
+        const [firstError] = parseDiagnostics;
+        const errorPayload: ParseError = firstError
+            ? {
+                message: `${firstError.message} (line ${firstError.line}, column ${firstError.column})`,
+                lineNumber: firstError.line,
+                details: parseDiagnostics,
+            }
+            : { message: errorMessage, lineNumber };
 
         const response: WorkerResponse<ParseError> = {
             type: 'PARSE_ERROR',
             payload: errorPayload,
             id,
-            error: errorMessage,
+            error: errorPayload.message,
         };
         self.postMessage(response);
     }